@@ -1,7 +1,7 @@
 
 import React, { useState, useRef, useEffect, useCallback } from 'react';
 import { analyzeText, generatePractice, extractBookStructure } from './services/geminiService';
-import { AnalysisResult, SourceType, VocabularyItem, GeneratedPractice, AppMode, SavedAnalysis, Note, AnalysisFolder, UserProficiency, KnownWord, SavedBook } from './types';
+import { AnalysisResult, SourceType, VocabularyItem, GeneratedPractice, AppMode, SavedAnalysis, Note, AnalysisFolder, UserProficiency, KnownWord, SavedBook, SyncConflict, BackupData, BackupImportPlan } from './types';
 import AnalysisView from './components/AnalysisView';
 import PracticeView from './components/PracticeView';
 import HistoryView from './components/HistoryView';
@@ -11,7 +11,15 @@ import BookCatalog from './components/BookCatalog';
 import Sidebar from './components/Sidebar';
 import { AuthProvider, useAuth } from './contexts/AuthContext';
 import { dataService } from './services/dataService';
+import { localStore } from './services/localStore';
+import { syncEngine } from './services/syncEngine';
+import SyncStatusBadge from './components/SyncStatusBadge';
+import SyncConflictModal, { ConflictChoice } from './components/SyncConflictModal';
+import BackupModal from './components/BackupModal';
 import { parsePDF, isPDFFile } from './services/pdfService';
+import { parseEPUB, isEPUBFile } from './services/epubService';
+import { parseDOCX, parseHTML, isDOCXFile, isHTMLFile } from './services/documentService';
+import { parseSubtitles, addSubtitleTimestamps, SubtitleSentence } from './services/subtitleService';
 import { Sparkles, FileText, Tv, Mic, MoreHorizontal, Loader2, ArrowRight, AlertCircle, Upload, File as FileIcon, X, Menu, GraduationCap, Library } from 'lucide-react';
 
 // Example text for quick start
@@ -19,6 +27,36 @@ const EXAMPLE_TEXT = `While the tech giant's quarterly earnings beat expectation
 
 const BATCH_SIZE = 5;
 
+// Analyses and folders live in the local store (IndexedDB), so they work offline and without an account
+const persistAnalyses = (analyses: SavedAnalysis[]) => {
+  localStore.replaceAll('analyses', analyses)
+    .catch(error => console.error('Error saving analyses locally:', error));
+};
+
+const persistFolders = (folders: AnalysisFolder[]) => {
+  localStore.replaceAll('folders', folders)
+    .catch(error => console.error('Error saving folders locally:', error));
+};
+
+// Analyses and folders used to live in localStorage; move them into the local store once
+const migrateToLocalStore = async () => {
+  const legacyKeys = [
+    ['wordDecode_analysisHistory', 'analyses'],
+    ['wordDecode_analysisFolders', 'folders'],
+  ] as const;
+
+  for (const [key, store] of legacyKeys) {
+    const data = localStorage.getItem(key);
+    if (!data) continue;
+    try {
+      await localStore.putAll(store, JSON.parse(data));
+      localStorage.removeItem(key);
+    } catch (e) {
+      console.error(`Failed to move ${key} to the local store`, e);
+    }
+  }
+};
+
 const AppContent: React.FC = () => {
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
   
@@ -28,6 +66,7 @@ const AppContent: React.FC = () => {
   const [inputText, setInputText] = useState('');
   const [sourceType, setSourceType] = useState<SourceType>(SourceType.TV_TRANSCRIPT);
   const [fileName, setFileName] = useState<string | null>(null);
+  const [subtitleSentences, setSubtitleSentences] = useState<SubtitleSentence[]>([]);  // Cue times of an uploaded subtitle file
   const [isDragging, setIsDragging] = useState(false);
 
   // Sidebar State
@@ -70,6 +109,12 @@ const AppContent: React.FC = () => {
   const bookFileInputRef = useRef<HTMLInputElement>(null);
   const hasLoadedCloudData = useRef(false);
 
+  // Fields changed both on this device and on another one
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const cloudMerge = useRef<Promise<SavedAnalysis[] | null> | null>(null);
+
+  const [isBackupOpen, setIsBackupOpen] = useState(false);
+
   // Migrate localStorage keys from old name to new name
   const migrateLocalStorageKeys = useCallback(() => {
     const keyMappings = [
@@ -88,27 +133,21 @@ const AppContent: React.FC = () => {
     });
   }, []);
 
-  // Load data from localStorage
-  const loadLocalData = useCallback(() => {
+  // Load data from the local store and localStorage
+  const loadLocalData = useCallback(async () => {
     // First migrate any old keys
     migrateLocalStorageKeys();
+    await migrateToLocalStore();
 
-    const savedAnalysesData = localStorage.getItem('wordDecode_analysisHistory');
-    if (savedAnalysesData) {
-      try {
-        setSavedAnalyses(JSON.parse(savedAnalysesData));
-      } catch (e) {
-        console.error("Failed to parse analysis history", e);
-      }
-    }
-
-    const savedFoldersData = localStorage.getItem('wordDecode_analysisFolders');
-    if (savedFoldersData) {
-      try {
-        setAnalysisFolders(JSON.parse(savedFoldersData));
-      } catch (e) {
-        console.error("Failed to parse folders", e);
-      }
+    try {
+      const [localAnalyses, localFolders] = await Promise.all([
+        localStore.getAll<SavedAnalysis>('analyses'),
+        localStore.getAll<AnalysisFolder>('folders'),
+      ]);
+      setSavedAnalyses(localAnalyses.sort((a, b) => b.date - a.date));
+      setAnalysisFolders(localFolders.sort((a, b) => a.createdAt - b.createdAt));
+    } catch (e) {
+      console.error("Failed to load local analyses", e);
     }
 
     // Load proficiency from localStorage
@@ -132,53 +171,72 @@ const AppContent: React.FC = () => {
     }
   }, [migrateLocalStorageKeys]);
 
+  // Merge this device's analyses and folders with the cloud field by field.
+  // Resolves to the merged analyses, or null when offline or writes are still queued.
+  const mergeWithCloud = useCallback((userId: string) => {
+    if (!cloudMerge.current) {
+      cloudMerge.current = (async () => {
+        const [localAnalyses, localFolders] = await Promise.all([
+          localStore.getAll<SavedAnalysis>('analyses'),
+          localStore.getAll<AnalysisFolder>('folders'),
+        ]);
+
+        // Folders first: analyses may point at folders that are new to the cloud
+        const folderSync = await dataService.syncFolders(userId, localFolders);
+        const analysisSync = await dataService.syncAnalyses(userId, localAnalyses);
+
+        if (folderSync) {
+          setAnalysisFolders(folderSync.records);
+          persistFolders(folderSync.records);
+        }
+        if (analysisSync) {
+          setSavedAnalyses(analysisSync.records);
+          persistAnalyses(analysisSync.records);
+        }
+        if (folderSync && analysisSync) {
+          setSyncConflicts([...folderSync.conflicts, ...analysisSync.conflicts]);
+        }
+        return analysisSync?.records ?? null;
+      })().finally(() => {
+        cloudMerge.current = null;
+      });
+    }
+    return cloudMerge.current;
+  }, []);
+
   // Load data from Supabase
   const loadCloudData = useCallback(async (userId: string) => {
     setIsDataLoading(true);
     try {
+      // Cached cloud data belongs to one account; show the local copy while the cloud loads
+      await localStore.useAccount(userId);
+      await loadLocalData();
+
+      // Replay writes queued while offline before reading the cloud copy
+      await syncEngine.flush();
+
       // Record user visit
       await dataService.recordVisit(userId);
 
-      const [cloudAnalyses, cloudFolders, books] = await Promise.all([
-        dataService.fetchAnalyses(userId),
-        dataService.fetchFolders(userId),
-        dataService.fetchBooks(userId),
-      ]);
-      
+      const books = await dataService.fetchBooks(userId);
+
       // Track if user has books in library
       setHasBooks(books.length > 0);
 
-      // Merge with local data (cloud takes precedence)
-      const localAnalyses = JSON.parse(localStorage.getItem('wordDecode_analysisHistory') || '[]');
-      const localFolders = JSON.parse(localStorage.getItem('wordDecode_analysisFolders') || '[]');
+      // Upload local-only data and merge changes made on other devices
+      // (offline, the local copy loaded above stays as it is)
+      const mergedAnalyses = (await mergeWithCloud(userId))
+        ?? await localStore.getAll<SavedAnalysis>('analyses');
 
-      // Upload any local-only data to cloud
-      if (localAnalyses.length > 0) {
-        await dataService.syncAnalyses(userId, localAnalyses);
-      }
-      if (localFolders.length > 0) {
-        await dataService.syncFolders(userId, localFolders);
-      }
-
-      // Fetch merged data
-      const [mergedAnalyses, mergedFolders] = await Promise.all([
-        dataService.fetchAnalyses(userId),
-        dataService.fetchFolders(userId),
+      // Add vocabulary from analyses and books to the review system (respects the auto-add
+      // setting), then keep a copy of cards and books for offline sessions
+      const vocabSync = Promise.all([
+        mergedAnalyses.length > 0 ? dataService.autoAddAnalysisVocabulary(userId, mergedAnalyses) : null,
+        books.length > 0 ? dataService.autoAddBookVocabulary(userId) : null,
       ]);
-
-      setSavedAnalyses(mergedAnalyses);
-      setAnalysisFolders(mergedFolders);
-
-      // Update localStorage with merged data
-      localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(mergedAnalyses));
-      localStorage.setItem('wordDecode_analysisFolders', JSON.stringify(mergedFolders));
-
-      // Sync vocabulary from analyses to the review system (for spaced repetition)
-      if (mergedAnalyses.length > 0) {
-        dataService.syncVocabFromAnalyses(userId, mergedAnalyses).catch(err => {
-          console.error('Error syncing vocabulary to review system:', err);
-        });
-      }
+      vocabSync
+        .then(() => dataService.refreshOfflineCache(userId))
+        .catch(error => console.error('Error caching data for offline use:', error));
     } catch (error) {
       console.error('Error loading cloud data:', error);
       // Fall back to local data
@@ -186,7 +244,54 @@ const AppContent: React.FC = () => {
     } finally {
       setIsDataLoading(false);
     }
-  }, [loadLocalData]);
+  }, [loadLocalData, mergeWithCloud]);
+
+  // Replay queued writes whenever the connection comes back
+  useEffect(() => {
+    if (!user) return;
+    return syncEngine.start(user.id);
+  }, [user?.id]);
+
+  // Changes from other tabs and devices: analyses and folders are merged again
+  // (a burst of changes is merged once), books update the library shortcut
+  useEffect(() => {
+    if (!user) return;
+    const stopRealtime = dataService.startRealtime(user.id);
+
+    let mergeTimer: ReturnType<typeof setTimeout> | undefined;
+    const stopListening = dataService.onRealtimeChange(change => {
+      if (change.table === 'saved_analyses' || change.table === 'analysis_folders') {
+        if (!hasLoadedCloudData.current) return;
+        clearTimeout(mergeTimer);
+        mergeTimer = setTimeout(() => mergeWithCloud(user.id), 1000);
+      } else if (change.table === 'saved_books') {
+        if (change.book) {
+          setHasBooks(true);
+        } else {
+          dataService.fetchBooks(user.id).then(books => setHasBooks(books.length > 0));
+        }
+      }
+    });
+
+    return () => {
+      clearTimeout(mergeTimer);
+      stopListening();
+      stopRealtime();
+    };
+  }, [user?.id, mergeWithCloud]);
+
+  // Merge again after every sync pass: replayed writes only apply to the version
+  // they were made on, so changes from other devices are merged here
+  useEffect(() => {
+    if (!user) return;
+    let wasSyncing = false;
+    return syncEngine.subscribe(status => {
+      if (wasSyncing && !status.syncing && status.online && status.pending === 0 && hasLoadedCloudData.current) {
+        mergeWithCloud(user.id);
+      }
+      wasSyncing = status.syncing;
+    });
+  }, [user?.id, mergeWithCloud]);
 
   // Initial data load
   useEffect(() => {
@@ -234,7 +339,7 @@ const AppContent: React.FC = () => {
         a.id === existingAnalysis.id ? updatedAnalysis : a
       );
       setSavedAnalyses(newHistory);
-      localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(newHistory));
+      persistAnalyses(newHistory);
 
       // Sync to cloud if authenticated
       if (isAuthenticated && user) {
@@ -254,15 +359,12 @@ const AppContent: React.FC = () => {
 
       const newHistory = [newAnalysis, ...savedAnalyses];
       setSavedAnalyses(newHistory);
-      localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(newHistory));
+      persistAnalyses(newHistory);
 
       // Sync to cloud if authenticated
       if (isAuthenticated && user) {
+        // Saving also adds its vocabulary to the review system (see dataService.autoAddVocabulary)
         await dataService.saveAnalysis(user.id, newAnalysis);
-        // Also sync vocabulary to the review system for spaced repetition
-        dataService.syncVocabFromAnalyses(user.id, [newAnalysis]).catch(err => {
-          console.error('Error syncing vocabulary to review system:', err);
-        });
       }
     }
   };
@@ -272,6 +374,7 @@ const AppContent: React.FC = () => {
     setSourceType(analysis.sourceType);
     setAnalysisResult(analysis.analysisResult);
     setFileName(analysis.fileName || null);
+    setSubtitleSentences([]);
     setCurrentAnalysisId(analysis.id);
     setMode(AppMode.ANALYZE_TEXT);
     setStatus('complete');
@@ -280,7 +383,7 @@ const AppContent: React.FC = () => {
   const removeAnalysis = async (id: string) => {
     const newHistory = savedAnalyses.filter(a => a.id !== id);
     setSavedAnalyses(newHistory);
-    localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(newHistory));
+    persistAnalyses(newHistory);
 
     // Sync to cloud if authenticated
     if (isAuthenticated && user) {
@@ -304,7 +407,7 @@ const AppContent: React.FC = () => {
 
     const newFolders = [...analysisFolders, newFolder];
     setAnalysisFolders(newFolders);
-    localStorage.setItem('wordDecode_analysisFolders', JSON.stringify(newFolders));
+    persistFolders(newFolders);
 
     if (isAuthenticated && user) {
       await dataService.createFolder(user.id, newFolder);
@@ -314,7 +417,7 @@ const AppContent: React.FC = () => {
   const updateFolder = async (folder: AnalysisFolder) => {
     const newFolders = analysisFolders.map(f => f.id === folder.id ? folder : f);
     setAnalysisFolders(newFolders);
-    localStorage.setItem('wordDecode_analysisFolders', JSON.stringify(newFolders));
+    persistFolders(newFolders);
 
     if (isAuthenticated && user) {
       await dataService.updateFolder(user.id, folder);
@@ -325,14 +428,14 @@ const AppContent: React.FC = () => {
     // Remove folder
     const newFolders = analysisFolders.filter(f => f.id !== folderId);
     setAnalysisFolders(newFolders);
-    localStorage.setItem('wordDecode_analysisFolders', JSON.stringify(newFolders));
+    persistFolders(newFolders);
 
     // Move analyses in this folder to uncategorized
     const newAnalyses = savedAnalyses.map(a => 
       a.folderId === folderId ? { ...a, folderId: null } : a
     );
     setSavedAnalyses(newAnalyses);
-    localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(newAnalyses));
+    persistAnalyses(newAnalyses);
 
     if (isAuthenticated && user) {
       await dataService.deleteFolder(user.id, folderId);
@@ -349,7 +452,7 @@ const AppContent: React.FC = () => {
       a.id === analysisId ? { ...a, folderId } : a
     );
     setSavedAnalyses(newAnalyses);
-    localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(newAnalyses));
+    persistAnalyses(newAnalyses);
 
     if (isAuthenticated && user) {
       await dataService.updateAnalysisFolder(user.id, analysisId, folderId);
@@ -361,7 +464,7 @@ const AppContent: React.FC = () => {
       const newAnalyses = prevAnalyses.map(a => 
         a.id === analysisId ? { ...a, flashcardPassed: passed } : a
       );
-      localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(newAnalyses));
+      persistAnalyses(newAnalyses);
       return newAnalyses;
     });
 
@@ -370,18 +473,70 @@ const AppContent: React.FC = () => {
     }
   };
 
+  const updateVocabularyTags = async (term: string, tags: string[]) => {
+    if (!analysisResult) return;
+
+    const updatedResult: AnalysisResult = {
+      ...analysisResult,
+      vocabulary: analysisResult.vocabulary.map(v => v.term === term ? { ...v, tags } : v),
+    };
+    setAnalysisResult(updatedResult);
+
+    // Unsaved analyses keep the tags until they are saved
+    const existingAnalysis = currentAnalysisId ? savedAnalyses.find(a => a.id === currentAnalysisId) : undefined;
+    if (!existingAnalysis) return;
+
+    const updatedAnalysis: SavedAnalysis = { ...existingAnalysis, analysisResult: updatedResult };
+    const newAnalyses = savedAnalyses.map(a => a.id === existingAnalysis.id ? updatedAnalysis : a);
+    setSavedAnalyses(newAnalyses);
+    persistAnalyses(newAnalyses);
+
+    // Updating re-syncs the vocabulary, which carries the tags over to the review cards
+    if (isAuthenticated && user) {
+      await dataService.updateAnalysis(user.id, updatedAnalysis);
+    }
+  };
+
   const renameAnalysis = async (analysisId: string, newTitle: string) => {
     const newAnalyses = savedAnalyses.map(a => 
       a.id === analysisId ? { ...a, title: newTitle } : a
     );
     setSavedAnalyses(newAnalyses);
-    localStorage.setItem('wordDecode_analysisHistory', JSON.stringify(newAnalyses));
+    persistAnalyses(newAnalyses);
 
     if (isAuthenticated && user) {
       await dataService.updateAnalysisTitle(user.id, analysisId, newTitle);
     }
   };
 
+  const resolveSyncConflicts = async (choices: { conflict: SyncConflict; keep: ConflictChoice }[]) => {
+    const resolved = choices.map(({ conflict, keep }) => ({
+      conflict,
+      value: keep === 'local' ? conflict.localValue : conflict.remoteValue,
+    }));
+
+    let newAnalyses = savedAnalyses;
+    let newFolders = analysisFolders;
+    resolved.forEach(({ conflict, value }) => {
+      if (conflict.kind === 'analysis') {
+        newAnalyses = newAnalyses.map(a => a.id === conflict.recordId ? { ...a, [conflict.field]: value } : a);
+      } else {
+        newFolders = newFolders.map(f => f.id === conflict.recordId ? { ...f, [conflict.field]: value ?? undefined } : f);
+      }
+    });
+    setSavedAnalyses(newAnalyses);
+    persistAnalyses(newAnalyses);
+    setAnalysisFolders(newFolders);
+    persistFolders(newFolders);
+    setSyncConflicts([]);
+
+    if (isAuthenticated && user) {
+      for (const { conflict, value } of resolved) {
+        await dataService.resolveSyncConflict(user.id, conflict, value);
+      }
+    }
+  };
+
   const saveProficiency = (newProficiency: UserProficiency) => {
     setProficiency(newProficiency);
     localStorage.setItem('wordDecode_proficiency', JSON.stringify(newProficiency));
@@ -404,10 +559,54 @@ const AppContent: React.FC = () => {
     localStorage.setItem('wordDecode_knownWords', JSON.stringify(newKnownWords));
   };
 
+  // Everything in the account, for backups
+  const loadBackupData = async (): Promise<BackupData> => ({
+    analyses: savedAnalyses,
+    folders: analysisFolders,
+    knownWords,
+    proficiency,
+    ...(isAuthenticated && user
+      ? await dataService.fetchBackupData(user.id)
+      : { reviews: [], books: [], chapterVocabulary: [] }),
+  });
+
+  const importBackup = async (plan: BackupImportPlan): Promise<boolean> => {
+    const replace = <T extends { id: string }>(items: T[], overwrite: T[], add: T[]) => [
+      ...items.map(item => overwrite.find(o => o.id === item.id) ?? item),
+      ...add,
+    ];
+
+    const newAnalyses = replace(savedAnalyses, plan.analyses.overwrite, plan.analyses.add).sort((a, b) => b.date - a.date);
+    setSavedAnalyses(newAnalyses);
+    persistAnalyses(newAnalyses);
+
+    const newFolders = replace(analysisFolders, plan.folders.overwrite, plan.folders.add);
+    setAnalysisFolders(newFolders);
+    persistFolders(newFolders);
+
+    const newKnownWords = { ...knownWords };
+    [...plan.knownWords.add, ...plan.knownWords.overwrite].forEach(word => {
+      newKnownWords[word.term.toLowerCase()] = word;
+    });
+    setKnownWords(newKnownWords);
+    localStorage.setItem('wordDecode_knownWords', JSON.stringify(newKnownWords));
+
+    if (plan.proficiency) saveProficiency(plan.proficiency);
+
+    // Cards and books only exist in the cloud
+    if (!isAuthenticated || !user) return true;
+
+    const imported = await dataService.importBackup(user.id, plan);
+    if (plan.books.add.length > 0) setHasBooks(true);
+    mergeWithCloud(user.id);
+    return imported;
+  };
+
   const handleNewAnalysis = () => {
     setAnalysisResult(null);
     setInputText('');
     setFileName(null);
+    setSubtitleSentences([]);
     setCurrentAnalysisId(null);
     setComprehensiveVocab([]); // Clear comprehensive vocab
     setMode(AppMode.ANALYZE_TEXT);
@@ -420,7 +619,7 @@ const AppContent: React.FC = () => {
     setIsLoadingComprehensive(true);
     try {
       const result = await analyzeText(inputText, sourceType, proficiency, true);
-      setComprehensiveVocab(result.vocabulary);
+      setComprehensiveVocab(addSubtitleTimestamps(result.vocabulary, subtitleSentences));
     } catch (e) {
       console.error('Failed to load comprehensive vocabulary:', e);
     } finally {
@@ -432,15 +631,14 @@ const AppContent: React.FC = () => {
 
   const processFile = async (file: File | undefined) => {
     if (!file) return;
+    setSubtitleSentences([]);
 
     // Check for unsupported binary formats
     if (
-      file.name.toLowerCase().endsWith('.epub') ||
       file.name.toLowerCase().endsWith('.mobi') ||
-      file.name.toLowerCase().endsWith('.doc') ||
-      file.name.toLowerCase().endsWith('.docx')
+      file.name.toLowerCase().endsWith('.doc')
     ) {
-      setError("Sorry, EPUB, MOBI, and Word documents are not supported yet. Please use PDF or plain text files (.txt, .md).");
+      setError("Sorry, MOBI and older Word (.doc) files are not supported yet. Please use PDF, EPUB, Word (.docx), HTML or plain text files (.txt, .md).");
       return;
     }
 
@@ -464,12 +662,65 @@ const AppContent: React.FC = () => {
       return;
     }
 
+    // Handle EPUB files
+    if (isEPUBFile(file)) {
+      setIsProcessingFile(true);
+      setError(null);
+      try {
+        const result = await parseEPUB(file);
+        setInputText(result.text);
+        setFileName(file.name);
+        // Books aren't transcripts, podcasts or articles
+        setSourceType(SourceType.OTHERS);
+        setError(null);
+      } catch (err) {
+        console.error('EPUB parsing error:', err);
+        setError("Failed to read EPUB. The file might be DRM-protected or corrupted.");
+      } finally {
+        setIsProcessingFile(false);
+      }
+      return;
+    }
+
+    // Handle Word documents and saved web pages
+    if (isDOCXFile(file) || isHTMLFile(file)) {
+      const isWord = isDOCXFile(file);
+      setIsProcessingFile(true);
+      setError(null);
+      try {
+        const result = isWord ? await parseDOCX(file) : await parseHTML(file);
+        if (!result.text.trim()) {
+          setError(`No text found in this ${isWord ? 'Word document' : 'page'}.`);
+          return;
+        }
+        setInputText(result.text);
+        setFileName(file.name);
+        // Web pages and newsletters read like articles; Word files are usually notes
+        setSourceType(isWord ? SourceType.OTHERS : SourceType.ARTICLE);
+        setError(null);
+      } catch (err) {
+        console.error('Document parsing error:', err);
+        setError(`Failed to read ${isWord ? 'Word document' : 'HTML file'}. The file might be corrupted.`);
+      } finally {
+        setIsProcessingFile(false);
+      }
+      return;
+    }
+
     // Handle plain text files
     const reader = new FileReader();
     reader.onload = (e) => {
       const text = e.target?.result;
       if (typeof text === 'string') {
-        setInputText(text);
+        // Subtitles become a transcript, keeping when each sentence was said
+        const subtitles = parseSubtitles(text);
+        if (subtitles) {
+          setInputText(subtitles.text);
+          setSubtitleSentences(subtitles.sentences);
+          setSourceType(SourceType.TV_TRANSCRIPT);
+        } else {
+          setInputText(text);
+        }
         setFileName(file.name);
         setError(null);
       }
@@ -491,11 +742,16 @@ const AppContent: React.FC = () => {
   };
 
   // Book upload and processing
-  const processBookPDF = async (file: File) => {
+  const processBookFile = async (file: File) => {
     if (!file || !user) return;
 
+    if (isEPUBFile(file)) {
+      await processBookEPUB(file);
+      return;
+    }
+
     if (!isPDFFile(file)) {
-      setError("Please upload a PDF file for book reading mode.");
+      setError("Please upload a PDF or EPUB file for book reading mode.");
       return;
     }
 
@@ -539,10 +795,47 @@ const AppContent: React.FC = () => {
     }
   };
 
+  // EPUBs carry their own table of contents, so no AI structure extraction is needed
+  const processBookEPUB = async (file: File) => {
+    if (!user) return;
+
+    setIsExtractingStructure(true);
+    setError(null);
+
+    try {
+      const epubResult = await parseEPUB(file);
+
+      const newBook: Omit<SavedBook, 'id' | 'userId'> = {
+        title: epubResult.metadata?.title || file.name.replace(/\.epub$/i, ''),
+        author: epubResult.metadata?.author,
+        fileName: file.name,
+        pageCount: epubResult.pageCount,
+        structure: epubResult.structure,
+        rawText: epubResult.text,
+        createdAt: Date.now(),
+        lastOpenedAt: Date.now(),
+      };
+
+      const savedBook = await dataService.saveBook(user.id, newBook);
+
+      if (savedBook) {
+        setCurrentBook(savedBook);
+        setMode(AppMode.BOOK_READER);
+      } else {
+        throw new Error('Failed to save book');
+      }
+    } catch (err) {
+      console.error('EPUB book processing error:', err);
+      setError("Failed to process book. The EPUB might be DRM-protected or corrupted.");
+    } finally {
+      setIsExtractingStructure(false);
+    }
+  };
+
   const handleBookFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file) {
-      processBookPDF(file);
+      processBookFile(file);
     }
     event.target.value = ''; // Reset
   };
@@ -585,6 +878,7 @@ const AppContent: React.FC = () => {
   const clearFile = () => {
     setFileName(null);
     setInputText('');
+    setSubtitleSentences([]);
   };
 
   const handleAnalyzeText = async () => {
@@ -596,7 +890,7 @@ const AppContent: React.FC = () => {
 
     try {
       const result = await analyzeText(inputText, sourceType, proficiency);
-      setAnalysisResult(result);
+      setAnalysisResult({ ...result, vocabulary: addSubtitleTimestamps(result.vocabulary, subtitleSentences) });
       setStatus('complete');
       setTimeout(() => {
         resultRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -694,6 +988,7 @@ const AppContent: React.FC = () => {
         isHistoryActive={mode === AppMode.HISTORY}
         proficiency={proficiency}
         onSaveProficiency={saveProficiency}
+        onOpenBackup={() => setIsBackupOpen(true)}
       />
 
       <div className="flex-1 flex flex-col h-full overflow-hidden relative">
@@ -707,6 +1002,24 @@ const AppContent: React.FC = () => {
           </button>
         )}
 
+        {isAuthenticated && <SyncStatusBadge />}
+        {isBackupOpen && (
+          <BackupModal
+            isAuthenticated={isAuthenticated}
+            loadCurrentData={loadBackupData}
+            onImport={importBackup}
+            onClose={() => setIsBackupOpen(false)}
+          />
+        )}
+        {isAuthenticated && syncConflicts.length > 0 && (
+          <SyncConflictModal
+            conflicts={syncConflicts}
+            folders={analysisFolders}
+            onResolve={resolveSyncConflicts}
+            onClose={() => setSyncConflicts([])}
+          />
+        )}
+
         <main className="flex-1 overflow-y-auto w-full">
           <div className="max-w-[1600px] mx-auto px-4 sm:px-6 lg:px-8 py-8 h-full">
 
@@ -828,14 +1141,14 @@ const AppContent: React.FC = () => {
                             {isProcessingFile ? (
                               <div className="w-full h-64 p-4 bg-slate-50 border border-slate-200 rounded-xl flex flex-col items-center justify-center gap-3">
                                 <Loader2 className="w-8 h-8 text-indigo-500 animate-spin" />
-                                <p className="text-slate-600 font-medium">Processing PDF...</p>
+                                <p className="text-slate-600 font-medium">Reading document...</p>
                                 <p className="text-slate-400 text-sm">Extracting text from document</p>
                               </div>
                             ) : (
                               <textarea
                                 value={inputText}
                                 onChange={(e) => setInputText(e.target.value)}
-                                placeholder={isDragging ? "Drop file here to read..." : "Paste your text here, drop a file (including PDF), or use the upload button below..."}
+                                placeholder={isDragging ? "Drop file here to read..." : "Paste your text here, drop a file (PDF, EPUB, Word, HTML or text), or use the upload button below..."}
                                 className={`w-full h-64 p-4 bg-slate-50 border rounded-xl resize-none font-sans text-base outline-none transition-shadow ${isDragging ? 'bg-indigo-50 border-indigo-300' : 'border-slate-200 focus:ring-2 focus:ring-emerald-500 focus:border-transparent'}`}
                               />
                             )}
@@ -852,7 +1165,7 @@ const AppContent: React.FC = () => {
                                 type="file"
                                 ref={fileInputRef}
                                 onChange={handleFileUpload}
-                                accept=".txt,.md,.srt,.csv,.json,.vtt,.pdf"
+                                accept=".txt,.md,.srt,.vtt,.ass,.ssa,.csv,.json,.pdf,.epub,.docx,.html,.htm"
                                 className="hidden"
                               />
                               <button
@@ -913,7 +1226,7 @@ const AppContent: React.FC = () => {
                           type="file"
                           ref={bookFileInputRef}
                           onChange={handleBookFileUpload}
-                          accept=".pdf"
+                          accept=".pdf,.epub"
                           className="hidden"
                         />
                       </>
@@ -956,6 +1269,7 @@ const AppContent: React.FC = () => {
                         analysisId={currentAnalysisId || undefined}
                         flashcardPassed={currentAnalysisId ? savedAnalyses.find(a => a.id === currentAnalysisId)?.flashcardPassed : false}
                         onUpdateFlashcardPassed={updateFlashcardPassed}
+                        onUpdateVocabularyTags={updateVocabularyTags}
                         proficiency={proficiency}
                         originalText={inputText}
                         comprehensiveVocab={comprehensiveVocab}
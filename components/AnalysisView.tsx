@@ -1,11 +1,13 @@
 
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { AnalysisResult, VocabularyItem, VocabularyCategory, Note, UserProficiency, EnglishTestType, KnownWord } from '../types';
-import { CheckCircle, BookOpen, Layout, Zap, Volume2, Quote, MessageCircle, Sparkles, ArrowRightCircle, AlignLeft, ChevronDown, ChevronUp, Grid, Smartphone, Check, Save, ChevronLeft, ChevronRight, RotateCcw, RotateCw, X, XCircle, GraduationCap, Trophy, Award, BarChart3, FileText } from 'lucide-react';
+import { CheckCircle, BookOpen, Layout, Zap, Volume2, Quote, MessageCircle, Sparkles, ArrowRightCircle, AlignLeft, ChevronDown, ChevronUp, Grid, Smartphone, Check, Save, ChevronLeft, ChevronRight, RotateCcw, RotateCw, X, XCircle, GraduationCap, Trophy, Award, BarChart3, FileText, Clock } from 'lucide-react';
 import { generateSpeech } from '../services/geminiService';
+import { formatTimestamp } from '../services/subtitleService';
 import WordLookupPopup from './WordLookupPopup';
 import NotesSidebar from './NotesSidebar';
 import FullTextView from './FullTextView';
+import TagEditor from './TagEditor';
 
 interface Props {
   data: AnalysisResult;
@@ -16,6 +18,8 @@ interface Props {
   analysisId?: string;
   flashcardPassed?: boolean;
   onUpdateFlashcardPassed?: (analysisId: string, passed: boolean) => void;
+  // Tags on vocabulary items (carried over to their review cards)
+  onUpdateVocabularyTags?: (term: string, tags: string[]) => void;
   // User proficiency for difficulty color coding
   proficiency?: UserProficiency | null;
   // For Full Text View
@@ -142,6 +146,7 @@ const AnalysisView: React.FC<Props> = ({
   analysisId,
   flashcardPassed = false,
   onUpdateFlashcardPassed,
+  onUpdateVocabularyTags,
   proficiency,
   originalText = '',
   comprehensiveVocab = [],
@@ -589,6 +594,9 @@ const AnalysisView: React.FC<Props> = ({
     setFlippedState(prev => ({ ...prev, [cat]: !prev[cat] }));
   };
 
+  // Tags already used in this analysis, offered while tagging other items
+  const analysisTags = [...new Set(data.vocabulary.flatMap(v => v.tags || []))].sort();
+
   // Group vocabulary by category
   const groupedVocab: Partial<Record<VocabularyCategory, VocabularyItem[]>> = {};
   data.vocabulary.forEach(item => {
@@ -865,6 +873,11 @@ const AnalysisView: React.FC<Props> = ({
                                   <div className="bg-slate-50 p-3 rounded-lg border border-slate-100">
                                     <p className="text-xs font-bold text-slate-500 uppercase mb-1 flex items-center gap-1">
                                       <Quote className="w-3 h-3" /> Context in Source
+                                      {item.source_timestamp_ms !== undefined && (
+                                        <span className="ml-auto flex items-center gap-1 font-mono text-indigo-500" title="When it was said">
+                                          <Clock className="w-3 h-3" /> {formatTimestamp(item.source_timestamp_ms)}
+                                        </span>
+                                      )}
                                     </p>
                                     <p className="text-slate-700 italic">"{item.source_context}"</p>
                                   </div>
@@ -878,6 +891,15 @@ const AnalysisView: React.FC<Props> = ({
                                   </div>
                                 )}
                               </div>
+                              {onUpdateVocabularyTags && (
+                                <div className="mt-4">
+                                  <TagEditor
+                                    tags={item.tags || []}
+                                    onChange={(tags) => onUpdateVocabularyTags(item.term, tags)}
+                                    suggestions={analysisTags}
+                                  />
+                                </div>
+                              )}
                             </div>
                             {item.examples && item.examples.length > 0 && (
                               <div className="bg-slate-50/80 p-6 border-t border-slate-100">
@@ -0,0 +1,268 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Download, Upload, Loader2, DatabaseBackup, AlertCircle, CheckCircle } from 'lucide-react';
+import { AccountBackup, BackupData, BackupImportPlan, BackupSectionPlan, DuplicateMode } from '../types';
+import { createBackup, parseBackup, planBackupImport } from '../services/backup';
+import { dataService } from '../services/dataService';
+
+interface Props {
+  isAuthenticated: boolean;
+  loadCurrentData: () => Promise<BackupData>;  // Everything in the account right now
+  onImport: (plan: BackupImportPlan) => Promise<boolean>;
+  onClose: () => void;
+}
+
+const DUPLICATE_MODES: { mode: DuplicateMode; label: string; description: string }[] = [
+  { mode: 'skip', label: 'Skip', description: 'Keep what is already here' },
+  { mode: 'overwrite', label: 'Overwrite', description: 'Replace it with the backup' },
+  { mode: 'keep_both', label: 'Keep both', description: 'Import a copy alongside' },
+];
+
+// Sections that only exist in the cloud (not imported without an account)
+type Section = keyof Omit<BackupImportPlan, 'proficiency'>;
+const CLOUD_SECTIONS: Section[] = ['reviews', 'books', 'chapterVocabulary'];
+
+// Sections where "keep both" makes a copy; elsewhere a record can only exist once
+const COPYABLE_SECTIONS: Section[] = ['analyses', 'folders', 'books'];
+
+const SECTION_LABELS: Record<Section, string> = {
+  analyses: 'Analyses',
+  folders: 'Folders',
+  reviews: 'Review cards',
+  books: 'Books',
+  chapterVocabulary: 'Chapter vocabulary',
+  knownWords: 'Known words',
+};
+
+// Export the whole account and import a backup with a preview
+const BackupModal: React.FC<Props> = ({ isAuthenticated, loadCurrentData, onImport, onClose }) => {
+  const [current, setCurrent] = useState<BackupData | null>(null);
+  const [isExporting, setIsExporting] = useState(false);
+  const [backup, setBackup] = useState<AccountBackup | null>(null);
+  const [migratedFrom, setMigratedFrom] = useState<number | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [mode, setMode] = useState<DuplicateMode>('skip');
+  const [error, setError] = useState<string | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [isDone, setIsDone] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    loadCurrentData().then(setCurrent);
+  }, []);
+
+  const plan = useMemo(
+    () => backup && current ? planBackupImport(backup, current, mode) : null,
+    [backup, current, mode]
+  );
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      dataService.exportToJson(createBackup(current ?? await loadCurrentData()));
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setIsDone(false);
+    setBackup(null);
+    try {
+      const parsed = parseBackup(await file.text());
+      setBackup(parsed.backup);
+      setMigratedFrom(parsed.migratedFrom);
+      setFileName(file.name);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this file.');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await onImport(plan);
+      if (imported) {
+        setIsDone(true);
+        setBackup(null);
+        setCurrent(await loadCurrentData());
+      } else {
+        setError('Some records could not be imported. Check your connection and try again.');
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const describeSection = (section: Section, sectionPlan: BackupSectionPlan<unknown>): string => {
+    if (!isAuthenticated && CLOUD_SECTIONS.includes(section)) return 'Sign in to import';
+    const fresh = sectionPlan.total - sectionPlan.duplicates;
+    if (sectionPlan.duplicates === 0) return `${fresh} new`;
+
+    const duplicateAction =
+      mode === 'overwrite' ? 'overwritten' :
+      mode === 'keep_both' && COPYABLE_SECTIONS.includes(section) ? 'copied' :
+      'skipped';
+    return `${fresh} new · ${sectionPlan.duplicates} already here (${duplicateAction})`;
+  };
+
+  const hasChanges = !!plan && (Object.keys(SECTION_LABELS) as Section[]).some(section =>
+    (isAuthenticated || !CLOUD_SECTIONS.includes(section)) &&
+    plan[section].add.length + plan[section].overwrite.length > 0
+  ) || !!plan?.proficiency;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-500 to-purple-500 px-6 py-4 flex items-center justify-between">
+          <div className="text-white">
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              <DatabaseBackup className="w-5 h-5" />
+              Backup
+            </h2>
+            <p className="text-sm text-white/80">Analyses, folders, cards with their schedules, books and settings</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          {/* Export */}
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !current}
+            className="w-full p-3 rounded-xl border-2 border-slate-200 hover:border-indigo-400 hover:bg-indigo-50 transition-colors text-left disabled:opacity-50"
+          >
+            <div className="flex items-center gap-2 font-bold text-slate-800">
+              {isExporting || !current ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4 text-indigo-500" />}
+              Download backup
+            </div>
+            <div className="text-xs text-slate-500 mt-1">Everything in this account as one JSON file</div>
+          </button>
+
+          {/* Import */}
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isImporting}
+            className="w-full p-3 rounded-xl border-2 border-slate-200 hover:border-indigo-400 hover:bg-indigo-50 transition-colors text-left disabled:opacity-50"
+          >
+            <div className="flex items-center gap-2 font-bold text-slate-800">
+              <Upload className="w-4 h-4 text-indigo-500" />
+              {fileName && backup ? fileName : 'Import a backup…'}
+            </div>
+            <div className="text-xs text-slate-500 mt-1">You'll see what it contains before anything changes</div>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {isDone && (
+            <p className="text-sm text-emerald-600 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              Backup imported.
+            </p>
+          )}
+
+          {/* Preview */}
+          {backup && !plan && (
+            <div className="flex items-center gap-2 text-sm text-slate-500">
+              <Loader2 className="w-4 h-4 animate-spin" />
+              Comparing with this account…
+            </div>
+          )}
+
+          {backup && plan && (
+            <div className="space-y-4">
+              <p className="text-xs text-slate-500">
+                {backup.exportDate && `Made ${new Date(backup.exportDate).toLocaleString()}. `}
+                {migratedFrom !== null && `Converted from an older backup format (version ${migratedFrom}).`}
+              </p>
+
+              <div className="rounded-xl border border-slate-200 divide-y divide-slate-100">
+                {(Object.keys(SECTION_LABELS) as Section[])
+                  .filter(section => plan[section].total > 0)
+                  .map(section => (
+                    <div key={section} className="px-3 py-2 flex justify-between gap-3 text-sm">
+                      <span className="font-medium text-slate-700">{SECTION_LABELS[section]}</span>
+                      <span className="text-slate-500 text-right">{describeSection(section, plan[section])}</span>
+                    </div>
+                  ))}
+                {backup.data.proficiency && (
+                  <div className="px-3 py-2 flex justify-between gap-3 text-sm">
+                    <span className="font-medium text-slate-700">Proficiency</span>
+                    <span className="text-slate-500 text-right">
+                      {backup.data.proficiency.testType} {backup.data.proficiency.score}
+                      {plan.proficiency ? '' : ' (keeping yours)'}
+                    </span>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <p className="text-xs font-bold text-slate-400 uppercase mb-2">Already in this account</p>
+                <div className="grid grid-cols-3 gap-2">
+                  {DUPLICATE_MODES.map(option => (
+                    <button
+                      key={option.mode}
+                      onClick={() => setMode(option.mode)}
+                      className={`p-2 rounded-lg border-2 text-left transition-colors ${
+                        mode === option.mode ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'
+                      }`}
+                    >
+                      <div className="text-sm font-bold text-slate-800">{option.label}</div>
+                      <div className="text-xs text-slate-500">{option.description}</div>
+                    </button>
+                  ))}
+                </div>
+                {mode === 'keep_both' && (
+                  <p className="text-xs text-slate-400 mt-2">
+                    Review cards, chapter vocabulary and known words exist once per term, so duplicates of those are skipped.
+                  </p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {backup && plan && (
+          <div className="px-6 py-4 bg-slate-50 flex justify-end items-center gap-3">
+            <button
+              onClick={handleImport}
+              disabled={isImporting || !hasChanges}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2"
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {hasChanges ? 'Import' : 'Nothing to import'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BackupModal;
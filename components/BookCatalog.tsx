@@ -80,8 +80,12 @@ const BookCatalog: React.FC<BookCatalogProps> = ({
     dataService.updateBookLastOpened(userId, book.id);
   }, [userId, book.id]);
 
-  // Fix flat structure if needed (group units under categories)
-  const fixedStructure = useMemo(() => fixFlatStructure(book.structure), [book.structure]);
+  // Fix flat structure if needed (group units under categories). An EPUB's
+  // structure is the book's own TOC, so it's used as is.
+  const fixedStructure = useMemo(
+    () => book.fileName.toLowerCase().endsWith('.epub') ? book.structure : fixFlatStructure(book.structure),
+    [book.structure, book.fileName]
+  );
 
   // Auto-expand all categories on mount so users see units
   useEffect(() => {
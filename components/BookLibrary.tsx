@@ -18,6 +18,16 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ userId, onSelectBook, onUploa
     loadBooks();
   }, [userId]);
 
+  // Books added, opened or deleted in another tab or on another device
+  useEffect(() => dataService.onRealtimeChange(change => {
+    if (change.table !== 'saved_books') return;
+    setBooks(prev => {
+      const others = prev.filter(b => b.id !== change.id);
+      if (!change.book) return others;
+      return [change.book, ...others].sort((a, b) => (b.lastOpenedAt ?? b.createdAt) - (a.lastOpenedAt ?? a.createdAt));
+    });
+  }), []);
+
   const loadBooks = async () => {
     setIsLoading(true);
     try {
@@ -108,7 +118,7 @@ const BookLibrary: React.FC<BookLibraryProps> = ({ userId, onSelectBook, onUploa
         <div className="text-center py-16 bg-slate-50 rounded-xl border-2 border-dashed border-slate-200">
           <Book className="w-16 h-16 text-slate-300 mx-auto mb-4" />
           <h3 className="text-lg font-medium text-slate-600 mb-2">No books yet</h3>
-          <p className="text-slate-400 mb-6">Upload a PDF book to start learning</p>
+          <p className="text-slate-400 mb-6">Upload a PDF or EPUB book to start learning</p>
           <button
             onClick={onUploadNew}
             className="inline-flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-lg hover:bg-emerald-700 transition-colors"
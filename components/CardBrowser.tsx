@@ -0,0 +1,662 @@
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  X,
+  Search,
+  Loader2,
+  ChevronLeft,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  EyeOff,
+  Eye,
+  RotateCcw,
+  Trash2,
+  CalendarClock,
+  Edit2,
+  Bug,
+  Library,
+  Tag
+} from 'lucide-react';
+import { dataService } from '../services/dataService';
+import {
+  VocabularyReview,
+  VocabularyCategory,
+  CardBrowserFilters,
+  CardSort,
+  CardSortField,
+  CardDueFilter,
+  CardFieldUpdates,
+  ReviewSourceType,
+  CARD_TYPE_LABELS
+} from '../types';
+import { getCardType } from '../services/cardTypes';
+import { getCardState } from '../services/sm2Algorithm';
+import { parseTags, getTagTree } from '../services/tags';
+import TagEditor from './TagEditor';
+
+interface Props {
+  userId: string;
+  onClose: () => void;
+  onChanged?: () => void; // Called after any bulk action (dashboard stats may change)
+}
+
+const PAGE_SIZE = 50;
+
+const CATEGORY_LABELS: Record<VocabularyCategory, string> = {
+  idioms_fixed: 'Idioms & Fixed Expressions',
+  phrasal_verbs: 'Phrasal Verbs',
+  nuance_sarcasm: 'Nuance & Sarcasm',
+  chunks_structures: 'Structures & "Chunks"',
+  topic_specific: 'Topic Specific Jargon',
+};
+
+const SORT_LABELS: Record<CardSortField, string> = {
+  next_review_date: 'Due date',
+  term: 'Term',
+  ease_factor: 'Ease',
+  interval: 'Interval',
+  lapses: 'Lapses',
+  created_at: 'Date added',
+};
+
+const DUE_LABELS: Record<CardDueFilter, string> = {
+  new: 'New',
+  learning: 'Learning',
+  due: 'Due now',
+  not_due: 'Not due',
+};
+
+const SOURCE_LABELS: Record<ReviewSourceType, string> = {
+  text_analysis: 'Text Analysis',
+  book_library: 'Book Library',
+  imported: 'Imported',
+};
+
+// Filter selects for yes/no flags: '' = any
+type FlagValue = '' | 'yes' | 'no';
+const toFlag = (value: FlagValue): boolean | undefined =>
+  value === '' ? undefined : value === 'yes';
+
+const formatDue = (card: VocabularyReview): string => {
+  if (getCardState(card) === 'new') return 'New';
+  const days = Math.round((card.nextReviewDate.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+  if (days <= 0) return 'Due';
+  return `in ${days}d`;
+};
+
+const CardBrowser: React.FC<Props> = ({ userId, onClose, onChanged }) => {
+  const [cards, setCards] = useState<VocabularyReview[]>([]);
+  const [total, setTotal] = useState(0);
+  const [page, setPage] = useState(0);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isWorking, setIsWorking] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [difficultyLevels, setDifficultyLevels] = useState<string[]>([]);
+  const [allTags, setAllTags] = useState<string[]>([]);
+
+  // Filters
+  const [searchInput, setSearchInput] = useState('');
+  const [search, setSearch] = useState('');
+  const [sourceType, setSourceType] = useState<ReviewSourceType | ''>('');
+  const [category, setCategory] = useState<VocabularyCategory | ''>('');
+  const [difficultyLevel, setDifficultyLevel] = useState('');
+  const [due, setDue] = useState<CardDueFilter | ''>('');
+  const [suspended, setSuspended] = useState<FlagValue>('');
+  const [mastered, setMastered] = useState<FlagValue>('');
+  const [leech, setLeech] = useState<FlagValue>('');
+  const [tag, setTag] = useState('');
+  const [sort, setSort] = useState<CardSort>({ field: 'next_review_date', ascending: true });
+
+  // Bulk action inputs
+  const [showEdit, setShowEdit] = useState(false);
+  const [rescheduleDate, setRescheduleDate] = useState('');
+  const [tagInput, setTagInput] = useState('');
+
+  const searchTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Debounce typing in the search box
+  useEffect(() => {
+    if (searchTimer.current) clearTimeout(searchTimer.current);
+    searchTimer.current = setTimeout(() => setSearch(searchInput), 300);
+    return () => {
+      if (searchTimer.current) clearTimeout(searchTimer.current);
+    };
+  }, [searchInput]);
+
+  // Back to the first page whenever the query changes
+  useEffect(() => {
+    setPage(0);
+  }, [search, sourceType, category, difficultyLevel, due, suspended, mastered, leech, tag, sort]);
+
+  useEffect(() => {
+    loadCards();
+  }, [page, search, sourceType, category, difficultyLevel, due, suspended, mastered, leech, tag, sort]);
+
+  useEffect(() => {
+    dataService.fetchReviewDifficultyLevels(userId).then(setDifficultyLevels);
+    loadTags();
+  }, [userId]);
+
+  const loadTags = () => dataService.fetchReviewTags(userId).then(setAllTags);
+
+  const currentFilters = (): CardBrowserFilters => ({
+    search: search || undefined,
+    sourceType: sourceType || undefined,
+    category: category || undefined,
+    difficultyLevel: difficultyLevel || undefined,
+    due: due || undefined,
+    suspended: toFlag(suspended),
+    mastered: toFlag(mastered),
+    leech: toFlag(leech),
+    tag: tag || undefined,
+  });
+
+  const loadCards = async () => {
+    setIsLoading(true);
+    try {
+      const result = await dataService.browseVocabularyReviews(userId, currentFilters(), sort, page, PAGE_SIZE);
+      setCards(result.cards);
+      setTotal(result.total);
+    } catch (error) {
+      console.error('Error loading cards:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allOnPageSelected = cards.length > 0 && cards.every(card => selectedIds.has(card.id));
+
+  const toggleSelectPage = () => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      cards.forEach(card => {
+        if (allOnPageSelected) {
+          next.delete(card.id);
+        } else {
+          next.add(card.id);
+        }
+      });
+      return next;
+    });
+  };
+
+  // Run a bulk action on the selection, then reload
+  const runBulkAction = async (action: (ids: string[]) => Promise<number>) => {
+    const ids = [...selectedIds];
+    if (ids.length === 0) return;
+    setIsWorking(true);
+    try {
+      await action(ids);
+      await loadCards();
+      onChanged?.();
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleDelete = () => {
+    if (!confirm(`Delete ${selectedIds.size} card(s)? Their review history is kept for your stats.`)) return;
+    runBulkAction(async ids => {
+      const count = await dataService.bulkDeleteReviews(userId, ids);
+      setSelectedIds(new Set());
+      return count;
+    });
+  };
+
+  const handleReset = () => {
+    if (!confirm(`Reset progress for ${selectedIds.size} card(s)? They will start again as new cards.`)) return;
+    runBulkAction(ids => dataService.bulkResetReviews(userId, ids));
+  };
+
+  const handleReschedule = () => {
+    if (!rescheduleDate) return;
+    const [year, month, day] = rescheduleDate.split('-').map(Number);
+    runBulkAction(ids => dataService.bulkRescheduleReviews(userId, ids, new Date(year, month - 1, day)));
+    setRescheduleDate('');
+  };
+
+  const handleSaveEdit = async (fields: CardFieldUpdates) => {
+    await runBulkAction(ids => dataService.bulkUpdateReviewFields(userId, ids, fields));
+    if (fields.tags) loadTags();
+    setShowEdit(false);
+  };
+
+  const handleChangeTags = async (mode: 'add' | 'remove') => {
+    const tags = parseTags(tagInput);
+    if (tags.length === 0) return;
+    await runBulkAction(ids => mode === 'add'
+      ? dataService.bulkChangeTags(userId, ids, tags, [])
+      : dataService.bulkChangeTags(userId, ids, [], tags));
+    setTagInput('');
+    loadTags();
+  };
+
+  const toggleSort = (field: CardSortField) => {
+    setSort(prev => prev.field === field
+      ? { field, ascending: !prev.ascending }
+      : { field, ascending: true });
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const selectedCards = cards.filter(card => selectedIds.has(card.id));
+  const selectClass = 'px-2 py-1.5 text-sm border border-slate-200 rounded-lg bg-white outline-none focus:border-indigo-500';
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-6xl h-[90vh] flex flex-col overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3 text-white">
+            <Library className="w-5 h-5" />
+            <h2 className="text-lg font-bold">Card Browser</h2>
+            <span className="text-sm text-white/70">{total} cards</span>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Search & Filters */}
+        <div className="px-6 py-3 border-b border-slate-100 space-y-2">
+          <div className="relative">
+            <Search className="w-4 h-4 text-slate-400 absolute left-3 top-1/2 -translate-y-1/2" />
+            <input
+              type="text"
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search term or definition..."
+              className="w-full pl-9 pr-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors"
+            />
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <select value={sourceType} onChange={(e) => setSourceType(e.target.value as ReviewSourceType | '')} className={selectClass}>
+              <option value="">All sources</option>
+              {(Object.keys(SOURCE_LABELS) as ReviewSourceType[]).map(source => (
+                <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+              ))}
+            </select>
+            <select value={category} onChange={(e) => setCategory(e.target.value as VocabularyCategory | '')} className={selectClass}>
+              <option value="">All categories</option>
+              {(Object.keys(CATEGORY_LABELS) as VocabularyCategory[]).map(cat => (
+                <option key={cat} value={cat}>{CATEGORY_LABELS[cat]}</option>
+              ))}
+            </select>
+            <select value={difficultyLevel} onChange={(e) => setDifficultyLevel(e.target.value)} className={selectClass}>
+              <option value="">All difficulties</option>
+              {difficultyLevels.map(level => (
+                <option key={level} value={level}>{level}</option>
+              ))}
+            </select>
+            <select value={due} onChange={(e) => setDue(e.target.value as CardDueFilter | '')} className={selectClass}>
+              <option value="">Any due state</option>
+              {(Object.keys(DUE_LABELS) as CardDueFilter[]).map(state => (
+                <option key={state} value={state}>{DUE_LABELS[state]}</option>
+              ))}
+            </select>
+            <select value={suspended} onChange={(e) => setSuspended(e.target.value as FlagValue)} className={selectClass}>
+              <option value="">Suspended: any</option>
+              <option value="yes">Suspended</option>
+              <option value="no">Not suspended</option>
+            </select>
+            <select value={mastered} onChange={(e) => setMastered(e.target.value as FlagValue)} className={selectClass}>
+              <option value="">Mastered: any</option>
+              <option value="yes">Mastered</option>
+              <option value="no">Not mastered</option>
+            </select>
+            <select value={leech} onChange={(e) => setLeech(e.target.value as FlagValue)} className={selectClass}>
+              <option value="">Leech: any</option>
+              <option value="yes">Leeches</option>
+              <option value="no">Not leeches</option>
+            </select>
+            <select value={tag} onChange={(e) => setTag(e.target.value)} className={selectClass}>
+              <option value="">All tags</option>
+              {getTagTree(allTags).map(t => (
+                <option key={t} value={t}>{t}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* Bulk Actions */}
+        {selectedIds.size > 0 && (
+          <div className="px-6 py-2 bg-indigo-50 border-b border-indigo-100 flex flex-wrap items-center gap-2 text-sm">
+            <span className="font-medium text-indigo-700 mr-2">{selectedIds.size} selected</span>
+            <button
+              onClick={() => runBulkAction(ids => dataService.bulkSuspendReviews(userId, ids, true))}
+              disabled={isWorking}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <EyeOff className="w-4 h-4" /> Suspend
+            </button>
+            <button
+              onClick={() => runBulkAction(ids => dataService.bulkSuspendReviews(userId, ids, false))}
+              disabled={isWorking}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <Eye className="w-4 h-4" /> Unsuspend
+            </button>
+            <button
+              onClick={handleReset}
+              disabled={isWorking}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <RotateCcw className="w-4 h-4" /> Reset
+            </button>
+            <button
+              onClick={() => setShowEdit(true)}
+              disabled={isWorking}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+            >
+              <Edit2 className="w-4 h-4" /> Edit
+            </button>
+            <select
+              value=""
+              onChange={(e) => {
+                const value = e.target.value as VocabularyCategory;
+                if (value) runBulkAction(ids => dataService.bulkUpdateReviewFields(userId, ids, { category: value }));
+              }}
+              disabled={isWorking}
+              className={selectClass}
+            >
+              <option value="">Set category...</option>
+              {(Object.keys(CATEGORY_LABELS) as VocabularyCategory[]).map(cat => (
+                <option key={cat} value={cat}>{CATEGORY_LABELS[cat]}</option>
+              ))}
+            </select>
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={rescheduleDate}
+                onChange={(e) => setRescheduleDate(e.target.value)}
+                className={selectClass}
+              />
+              <button
+                onClick={handleReschedule}
+                disabled={isWorking || !rescheduleDate}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+              >
+                <CalendarClock className="w-4 h-4" /> Reschedule
+              </button>
+            </div>
+            <div className="flex items-center gap-1">
+              <input
+                type="text"
+                value={tagInput}
+                onChange={(e) => setTagInput(e.target.value)}
+                placeholder="work::meetings"
+                list="card-browser-tags"
+                className={`${selectClass} w-36`}
+              />
+              <datalist id="card-browser-tags">
+                {allTags.map(t => <option key={t} value={t} />)}
+              </datalist>
+              <button
+                onClick={() => handleChangeTags('add')}
+                disabled={isWorking || !tagInput.trim()}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+              >
+                <Tag className="w-4 h-4" /> Add tag
+              </button>
+              <button
+                onClick={() => handleChangeTags('remove')}
+                disabled={isWorking || !tagInput.trim()}
+                className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-slate-700 hover:bg-slate-100 disabled:opacity-50"
+              >
+                Remove tag
+              </button>
+            </div>
+            <button
+              onClick={handleDelete}
+              disabled={isWorking}
+              className="flex items-center gap-1 px-2 py-1 rounded-lg bg-white text-red-600 hover:bg-red-50 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4" /> Delete
+            </button>
+            <button
+              onClick={() => setSelectedIds(new Set())}
+              className="ml-auto text-slate-500 hover:text-slate-700"
+            >
+              Clear selection
+            </button>
+            {isWorking && <Loader2 className="w-4 h-4 animate-spin text-indigo-500" />}
+          </div>
+        )}
+
+        {/* Card Table */}
+        <div className="flex-1 overflow-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
+            </div>
+          ) : cards.length === 0 ? (
+            <div className="text-center py-12 text-slate-500">No cards match these filters.</div>
+          ) : (
+            <table className="w-full text-sm">
+              <thead className="bg-slate-50 text-slate-500 sticky top-0">
+                <tr>
+                  <th className="px-4 py-2 w-8">
+                    <input type="checkbox" checked={allOnPageSelected} onChange={toggleSelectPage} />
+                  </th>
+                  <th className="px-2 py-2 text-left">
+                    <SortHeader field="term" sort={sort} onSort={toggleSort} />
+                  </th>
+                  <th className="px-2 py-2 text-left font-medium">Definition</th>
+                  {(['next_review_date', 'interval', 'ease_factor', 'lapses'] as CardSortField[]).map(field => (
+                    <th key={field} className="px-2 py-2 text-right">
+                      <SortHeader field={field} sort={sort} onSort={toggleSort} />
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cards.map(card => (
+                  <tr
+                    key={card.id}
+                    onClick={() => toggleSelected(card.id)}
+                    className={`border-b border-slate-100 cursor-pointer ${
+                      selectedIds.has(card.id) ? 'bg-indigo-50' : 'hover:bg-slate-50'
+                    } ${card.isSuspended ? 'text-slate-400' : 'text-slate-700'}`}
+                  >
+                    <td className="px-4 py-2">
+                      <input
+                        type="checkbox"
+                        checked={selectedIds.has(card.id)}
+                        onChange={() => toggleSelected(card.id)}
+                        onClick={(e) => e.stopPropagation()}
+                      />
+                    </td>
+                    <td className="px-2 py-2">
+                      <div className="font-medium flex items-center gap-1">
+                        {card.term}
+                        {card.isLeech && <Bug className="w-3.5 h-3.5 text-amber-500" />}
+                        {card.isSuspended && <EyeOff className="w-3.5 h-3.5" />}
+                      </div>
+                      <div className="text-xs text-slate-400">
+                        {card.sourceType ? SOURCE_LABELS[card.sourceType] : ''}
+                        {getCardType(card) !== 'production' && ` · ${CARD_TYPE_LABELS[getCardType(card)]}`}
+                        {card.category && ` · ${CATEGORY_LABELS[card.category]}`}
+                      </div>
+                      {card.tags && card.tags.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mt-1">
+                          {card.tags.map(t => (
+                            <span key={t} className="px-1.5 py-0.5 bg-slate-100 text-slate-500 rounded text-xs">{t}</span>
+                          ))}
+                        </div>
+                      )}
+                    </td>
+                    <td className="px-2 py-2 max-w-xs truncate" title={card.definition}>{card.definition}</td>
+                    <td className="px-2 py-2 text-right whitespace-nowrap">{formatDue(card)}</td>
+                    <td className="px-2 py-2 text-right">{card.interval}d</td>
+                    <td className="px-2 py-2 text-right">{card.easeFactor.toFixed(2)}</td>
+                    <td className="px-2 py-2 text-right">{card.lapses ?? 0}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        {/* Footer: sort + pagination */}
+        <div className="px-6 py-3 bg-slate-50 flex items-center justify-between text-sm text-slate-600">
+          <div>
+            Sorted by {SORT_LABELS[sort.field]} ({sort.ascending ? 'ascending' : 'descending'})
+          </div>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => setPage(p => Math.max(0, p - 1))}
+              disabled={page === 0}
+              className="p-1 rounded hover:bg-slate-200 disabled:opacity-30"
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </button>
+            <span>Page {page + 1} / {pageCount}</span>
+            <button
+              onClick={() => setPage(p => Math.min(pageCount - 1, p + 1))}
+              disabled={page >= pageCount - 1}
+              className="p-1 rounded hover:bg-slate-200 disabled:opacity-30"
+            >
+              <ChevronRight className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {showEdit && (
+        <EditCardsModal
+          cards={selectedCards}
+          count={selectedIds.size}
+          tagSuggestions={allTags}
+          onClose={() => setShowEdit(false)}
+          onSave={handleSaveEdit}
+        />
+      )}
+    </div>
+  );
+};
+
+const SortHeader: React.FC<{ field: CardSortField; sort: CardSort; onSort: (field: CardSortField) => void }> = ({ field, sort, onSort }) => (
+  <button
+    onClick={() => onSort(field)}
+    className={`inline-flex items-center gap-1 font-medium hover:text-indigo-600 ${sort.field === field ? 'text-indigo-600' : ''}`}
+  >
+    {SORT_LABELS[field]}
+    {sort.field === field && (sort.ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}
+  </button>
+);
+
+interface EditCardsModalProps {
+  cards: VocabularyReview[]; // Selected cards on the current page (used to prefill a single edit)
+  count: number;             // Total selected
+  tagSuggestions: string[];
+  onClose: () => void;
+  onSave: (fields: CardFieldUpdates) => Promise<void>;
+}
+
+// Single selection edits every field; multiple selection only edits shared fields
+const EditCardsModal: React.FC<EditCardsModalProps> = ({ cards, count, tagSuggestions, onClose, onSave }) => {
+  const single = count === 1 && cards.length === 1 ? cards[0] : null;
+  const [term, setTerm] = useState(single?.term ?? '');
+  const [definition, setDefinition] = useState(single?.definition ?? '');
+  const [sourceContext, setSourceContext] = useState(single?.sourceContext ?? '');
+  const [imageryEtymology, setImageryEtymology] = useState(single?.imageryEtymology ?? '');
+  const [difficultyLevel, setDifficultyLevel] = useState(single?.difficultyLevel ?? '');
+  const [tags, setTags] = useState<string[]>(single?.tags ?? []);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      if (single) {
+        await onSave({ term: term.trim(), definition: definition.trim(), sourceContext, imageryEtymology, difficultyLevel, tags });
+      } else {
+        await onSave({ difficultyLevel });
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const inputClass = 'w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        <div className="px-6 py-4 border-b border-slate-100 flex items-center justify-between">
+          <h3 className="font-bold text-slate-800">
+            {single ? 'Edit card' : `Edit ${count} cards`}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-600">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <div className="p-6 space-y-3">
+          {single && (
+            <>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Term</span>
+                <input value={term} onChange={(e) => setTerm(e.target.value)} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Definition</span>
+                <textarea value={definition} onChange={(e) => setDefinition(e.target.value)} rows={2} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Source sentence</span>
+                <textarea value={sourceContext} onChange={(e) => setSourceContext(e.target.value)} rows={2} className={inputClass} />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Imagery / etymology</span>
+                <textarea value={imageryEtymology} onChange={(e) => setImageryEtymology(e.target.value)} rows={2} className={inputClass} />
+              </label>
+              <div>
+                <span className="block text-sm font-medium text-slate-700 mb-1">Tags</span>
+                <div className="px-3 py-2 border-2 border-slate-200 rounded-lg">
+                  <TagEditor tags={tags} onChange={setTags} suggestions={tagSuggestions} />
+                </div>
+              </div>
+            </>
+          )}
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">Difficulty level</span>
+            <input
+              value={difficultyLevel}
+              onChange={(e) => setDifficultyLevel(e.target.value)}
+              placeholder="e.g. IELTS 6-7"
+              className={inputClass}
+            />
+          </label>
+        </div>
+        <div className="px-6 py-4 bg-slate-50 flex justify-end gap-3">
+          <button onClick={onClose} className="px-4 py-2 text-slate-600 hover:text-slate-800 font-medium transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || (single ? !term.trim() || !definition.trim() : !difficultyLevel.trim())}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CardBrowser;
@@ -18,6 +18,7 @@ import {
   Edit3,
   Wand2
 } from 'lucide-react';
+import TagEditor from './TagEditor';
 
 interface ChapterViewProps {
   chapter: BookChapter;
@@ -25,7 +26,7 @@ interface ChapterViewProps {
   isStudied: boolean;
   onMarkStudied: () => void;
   onVocabularyGenerated: (vocab: VocabularyItem[]) => void;
-  onVocabularyUpdated: (vocab: VocabularyItem[]) => void;  // For add/delete operations
+  onVocabularyUpdated: (vocab: VocabularyItem[]) => void;  // For add/delete/tag operations
   bookSubject?: string;
 }
 
@@ -123,6 +124,15 @@ const ChapterView: React.FC<ChapterViewProps> = ({
     }
   };
 
+  // Replace the tags of a vocabulary item
+  const handleTagsChange = (indexToUpdate: number, tags: string[]) => {
+    const updatedVocab = vocabulary.map((item, idx) => idx === indexToUpdate ? { ...item, tags } : item);
+    onVocabularyUpdated(updatedVocab);
+  };
+
+  // Tags already used in this chapter, offered while tagging other items
+  const chapterTags = [...new Set(vocabulary.flatMap(v => v.tags || []))].sort();
+
   // Open add mode
   const handleAddMore = () => {
     setIsAddMode(true);
@@ -407,6 +417,14 @@ const ChapterView: React.FC<ChapterViewProps> = ({
                         <p className="text-slate-800 text-sm">{item.imagery_etymology}</p>
                       </div>
                     )}
+
+                    <div className="mt-4">
+                      <TagEditor
+                        tags={item.tags || []}
+                        onChange={(tags) => handleTagsChange(idx, tags)}
+                        suggestions={chapterTags}
+                      />
+                    </div>
                   </div>
                   
                   {/* Additional examples if any */}
@@ -0,0 +1,485 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Play, Save, Trash2, Filter, Zap } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { getTagTree } from '../services/tags';
+import {
+  SavedAnalysis,
+  AnalysisFolder,
+  SavedBook,
+  BookChapter,
+  FilteredDeck,
+  StudyFilter,
+  ReviewSourceType,
+  VocabularyCategory
+} from '../types';
+
+// A deck to study now; saved decks also have an id
+export type StudyDeck = Omit<FilteredDeck, 'id' | 'createdAt' | 'lastStudiedAt'> & { id?: string };
+
+interface Props {
+  userId: string;
+  savedAnalyses: SavedAnalysis[];
+  onClose: () => void;
+  onStart: (deck: StudyDeck) => Promise<void>;
+}
+
+const CATEGORY_LABELS: Record<VocabularyCategory, string> = {
+  idioms_fixed: 'Idioms & Fixed Expressions',
+  phrasal_verbs: 'Phrasal Verbs',
+  nuance_sarcasm: 'Nuance & Sarcasm',
+  chunks_structures: 'Structures & "Chunks"',
+  topic_specific: 'Topic Specific Jargon',
+};
+
+const SOURCE_LABELS: Record<ReviewSourceType, string> = {
+  text_analysis: 'Text Analysis',
+  book_library: 'Book Library',
+  imported: 'Imported',
+};
+
+const DEFAULT_CARD_LIMIT = 20;
+
+const analysisLabel = (analysis: SavedAnalysis): string =>
+  analysis.title || analysis.fileName || analysis.analysisResult?.summary?.slice(0, 50) || 'Text Analysis';
+
+// Chapters in reading order, with their nesting depth for indentation
+const flattenChapters = (chapters: BookChapter[], depth = 0): { chapter: BookChapter; depth: number }[] =>
+  chapters.flatMap(chapter => [
+    { chapter, depth },
+    ...flattenChapters(chapter.children || [], depth + 1),
+  ]);
+
+// Short description of a deck's filter for the saved deck list
+const describeFilter = (filter: StudyFilter, folders: AnalysisFolder[], analyses: SavedAnalysis[], books: SavedBook[]): string => {
+  const parts: string[] = [];
+  if (filter.sourceType) parts.push(SOURCE_LABELS[filter.sourceType]);
+  if (filter.folderId) parts.push(folders.find(f => f.id === filter.folderId)?.name || 'Folder');
+  if (filter.analysisId) {
+    const analysis = analyses.find(a => a.id === filter.analysisId);
+    parts.push(analysis ? analysisLabel(analysis) : 'Analysis');
+  }
+  if (filter.bookId) {
+    const book = books.find(b => b.id === filter.bookId);
+    parts.push(book?.title || 'Book');
+    if (filter.chapterId && book) {
+      const chapter = flattenChapters(book.structure).find(c => c.chapter.id === filter.chapterId);
+      if (chapter) parts.push(chapter.chapter.title);
+    }
+  }
+  if (filter.category) parts.push(CATEGORY_LABELS[filter.category]);
+  if (filter.difficultyLevel) parts.push(filter.difficultyLevel);
+  if (filter.tag) parts.push(`#${filter.tag}`);
+  if (filter.failedToday) parts.push('Failed today');
+  return parts.length > 0 ? parts.join(' · ') : 'All cards';
+};
+
+const CustomStudyModal: React.FC<Props> = ({ userId, savedAnalyses, onClose, onStart }) => {
+  const [decks, setDecks] = useState<FilteredDeck[]>([]);
+  const [folders, setFolders] = useState<AnalysisFolder[]>([]);
+  const [books, setBooks] = useState<SavedBook[]>([]);
+  const [difficultyLevels, setDifficultyLevels] = useState<string[]>([]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isStarting, setIsStarting] = useState(false);
+
+  // Deck being edited (id is set when editing a saved deck)
+  const [deckId, setDeckId] = useState<string | undefined>(undefined);
+  const [name, setName] = useState('');
+  const [filter, setFilter] = useState<StudyFilter>({});
+  const [cram, setCram] = useState(false);
+  const [cardLimit, setCardLimit] = useState(DEFAULT_CARD_LIMIT);
+
+  useEffect(() => {
+    loadOptions();
+  }, [userId]);
+
+  const loadOptions = async () => {
+    setIsLoading(true);
+    try {
+      const [deckData, folderData, bookData, levels, tagData] = await Promise.all([
+        dataService.fetchFilteredDecks(userId),
+        dataService.fetchFolders(userId),
+        dataService.fetchBooks(userId),
+        dataService.fetchReviewDifficultyLevels(userId),
+        dataService.fetchReviewTags(userId),
+      ]);
+      setDecks(deckData);
+      setFolders(folderData);
+      setBooks(bookData);
+      setDifficultyLevels(levels);
+      setTags(getTagTree(tagData));
+    } catch (error) {
+      console.error('Error loading custom study options:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const updateFilter = (updates: Partial<StudyFilter>) => {
+    setFilter(prev => {
+      const next: StudyFilter = { ...prev, ...updates };
+      // Drop unset criteria so saved filters stay small
+      (Object.keys(next) as (keyof StudyFilter)[]).forEach(key => {
+        if (next[key] === undefined || next[key] === '' || next[key] === false) delete next[key];
+      });
+      return next;
+    });
+  };
+
+  // Switching source clears the criteria that belong to the other source
+  const setSourceType = (sourceType: ReviewSourceType | undefined) => {
+    updateFilter({
+      sourceType,
+      ...(sourceType !== 'text_analysis' && { folderId: undefined, analysisId: undefined }),
+      ...(sourceType !== 'book_library' && { bookId: undefined, chapterId: undefined }),
+    });
+  };
+
+  const editDeck = (deck: FilteredDeck) => {
+    setDeckId(deck.id);
+    setName(deck.name);
+    setFilter(deck.filter);
+    setCram(deck.cram);
+    setCardLimit(deck.cardLimit);
+  };
+
+  const resetForm = () => {
+    setDeckId(undefined);
+    setName('');
+    setFilter({});
+    setCram(false);
+    setCardLimit(DEFAULT_CARD_LIMIT);
+  };
+
+  const currentDeck = (): StudyDeck => ({
+    id: deckId,
+    name: name.trim() || 'Custom study',
+    filter,
+    cram,
+    cardLimit,
+  });
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setIsSaving(true);
+    try {
+      // An edited deck keeps when it was created and last studied
+      const existing = decks.find(d => d.id === deckId);
+      const saved = await dataService.saveFilteredDeck(userId, { ...existing, ...currentDeck() });
+      if (saved) {
+        setDecks(prev => [saved, ...prev.filter(d => d.id !== saved.id)]);
+        setDeckId(saved.id);
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (deck: FilteredDeck) => {
+    if (!confirm(`Delete the deck "${deck.name}"? Its cards are not affected.`)) return;
+    const success = await dataService.deleteFilteredDeck(userId, deck.id);
+    if (success) {
+      setDecks(prev => prev.filter(d => d.id !== deck.id));
+      if (deckId === deck.id) resetForm();
+    }
+  };
+
+  const handleStart = async (deck: StudyDeck) => {
+    setIsStarting(true);
+    try {
+      await onStart(deck);
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const folderAnalyses = filter.folderId
+    ? savedAnalyses.filter(a => a.folderId === filter.folderId)
+    : savedAnalyses;
+  const selectedBook = books.find(b => b.id === filter.bookId);
+  const selectClass = 'w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors bg-white text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2 text-white">
+            <Filter className="w-5 h-5" />
+            <h2 className="text-lg font-bold">Custom Study</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
+            </div>
+          ) : (
+            <>
+              {/* Saved decks */}
+              {decks.length > 0 && (
+                <div>
+                  <h3 className="font-semibold text-slate-800 mb-2">Saved decks</h3>
+                  <div className="space-y-2">
+                    {decks.map(deck => (
+                      <div
+                        key={deck.id}
+                        className={`flex items-center gap-3 p-3 rounded-xl ${deck.id === deckId ? 'bg-indigo-50' : 'bg-slate-50'}`}
+                      >
+                        <button onClick={() => editDeck(deck)} className="flex-1 min-w-0 text-left">
+                          <div className="flex items-center gap-2">
+                            <span className="font-bold text-slate-800 truncate">{deck.name}</span>
+                            {deck.cram && (
+                              <span className="flex items-center gap-0.5 text-xs text-amber-600">
+                                <Zap className="w-3 h-3" />
+                                Cram
+                              </span>
+                            )}
+                          </div>
+                          <div className="text-xs text-slate-500 truncate">
+                            {describeFilter(deck.filter, folders, savedAnalyses, books)} · {deck.cardLimit} cards
+                          </div>
+                        </button>
+                        <button
+                          onClick={() => handleStart(deck)}
+                          disabled={isStarting}
+                          className="p-2 text-indigo-600 hover:bg-indigo-100 rounded-lg transition-colors disabled:opacity-50"
+                          title="Study"
+                        >
+                          <Play className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(deck)}
+                          className="p-2 text-slate-400 hover:text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                          title="Delete deck"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
+              {/* Filter form */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold text-slate-800">{deckId ? 'Edit deck' : 'New selection'}</h3>
+                  {deckId && (
+                    <button onClick={resetForm} className="text-xs text-slate-500 hover:text-indigo-600">
+                      Start over
+                    </button>
+                  )}
+                </div>
+
+                <label className="block">
+                  <span className="block text-sm font-medium text-slate-700 mb-1">Source</span>
+                  <select
+                    value={filter.sourceType || ''}
+                    onChange={(e) => setSourceType((e.target.value || undefined) as ReviewSourceType | undefined)}
+                    className={selectClass}
+                  >
+                    <option value="">All sources</option>
+                    {(Object.keys(SOURCE_LABELS) as ReviewSourceType[]).map(source => (
+                      <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+                    ))}
+                  </select>
+                </label>
+
+                {filter.sourceType === 'text_analysis' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="block text-sm font-medium text-slate-700 mb-1">Folder</span>
+                      <select
+                        value={filter.folderId || ''}
+                        onChange={(e) => updateFilter({ folderId: e.target.value || undefined, analysisId: undefined })}
+                        className={selectClass}
+                      >
+                        <option value="">All folders</option>
+                        {folders.map(folder => (
+                          <option key={folder.id} value={folder.id}>{folder.name}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className="block text-sm font-medium text-slate-700 mb-1">Analysis</span>
+                      <select
+                        value={filter.analysisId || ''}
+                        onChange={(e) => updateFilter({ analysisId: e.target.value || undefined })}
+                        className={selectClass}
+                      >
+                        <option value="">All analyses</option>
+                        {folderAnalyses.map(analysis => (
+                          <option key={analysis.id} value={analysis.id}>{analysisLabel(analysis)}</option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                )}
+
+                {filter.sourceType === 'book_library' && (
+                  <div className="grid grid-cols-2 gap-3">
+                    <label className="block">
+                      <span className="block text-sm font-medium text-slate-700 mb-1">Book</span>
+                      <select
+                        value={filter.bookId || ''}
+                        onChange={(e) => updateFilter({ bookId: e.target.value || undefined, chapterId: undefined })}
+                        className={selectClass}
+                      >
+                        <option value="">All books</option>
+                        {books.map(book => (
+                          <option key={book.id} value={book.id}>{book.title}</option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="block">
+                      <span className="block text-sm font-medium text-slate-700 mb-1">Chapter</span>
+                      <select
+                        value={filter.chapterId || ''}
+                        onChange={(e) => updateFilter({ chapterId: e.target.value || undefined })}
+                        disabled={!selectedBook}
+                        className={`${selectClass} disabled:opacity-50`}
+                      >
+                        <option value="">Whole book</option>
+                        {selectedBook && flattenChapters(selectedBook.structure).map(({ chapter, depth }) => (
+                          <option key={chapter.id} value={chapter.id}>
+                            {'  '.repeat(depth)}{chapter.title}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="block text-sm font-medium text-slate-700 mb-1">Category</span>
+                    <select
+                      value={filter.category || ''}
+                      onChange={(e) => updateFilter({ category: (e.target.value || undefined) as VocabularyCategory | undefined })}
+                      className={selectClass}
+                    >
+                      <option value="">All categories</option>
+                      {(Object.keys(CATEGORY_LABELS) as VocabularyCategory[]).map(category => (
+                        <option key={category} value={category}>{CATEGORY_LABELS[category]}</option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm font-medium text-slate-700 mb-1">Difficulty</span>
+                    <select
+                      value={filter.difficultyLevel || ''}
+                      onChange={(e) => updateFilter({ difficultyLevel: e.target.value || undefined })}
+                      className={selectClass}
+                    >
+                      <option value="">All levels</option>
+                      {difficultyLevels.map(level => (
+                        <option key={level} value={level}>{level}</option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+
+                {tags.length > 0 && (
+                  <label className="block">
+                    <span className="block text-sm font-medium text-slate-700 mb-1">Tag</span>
+                    <select
+                      value={filter.tag || ''}
+                      onChange={(e) => updateFilter({ tag: e.target.value || undefined })}
+                      className={selectClass}
+                    >
+                      <option value="">All tags</option>
+                      {tags.map(tag => (
+                        <option key={tag} value={tag}>{tag}</option>
+                      ))}
+                    </select>
+                    <span className="block text-xs text-slate-400 mt-1">Includes tags below it, e.g. "work" also picks "work::meetings"</span>
+                  </label>
+                )}
+
+                <label className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={!!filter.failedToday}
+                    onChange={(e) => updateFilter({ failedToday: e.target.checked })}
+                    className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  Only cards I got wrong today
+                </label>
+
+                <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={cram}
+                    onChange={(e) => setCram(e.target.checked)}
+                    className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                  />
+                  <span>
+                    Cram
+                    <span className="block text-xs text-slate-400">
+                      Study every matching card, due or not. Answers don't change their schedules.
+                    </span>
+                  </span>
+                </label>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <label className="block">
+                    <span className="block text-sm font-medium text-slate-700 mb-1">Cards</span>
+                    <input
+                      type="number"
+                      min={1}
+                      value={cardLimit}
+                      onChange={(e) => setCardLimit(Math.max(1, parseInt(e.target.value) || 1))}
+                      className="w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors text-sm"
+                    />
+                  </label>
+                  <label className="block">
+                    <span className="block text-sm font-medium text-slate-700 mb-1">Deck name</span>
+                    <input
+                      type="text"
+                      value={name}
+                      onChange={(e) => setName(e.target.value)}
+                      placeholder="e.g. Work idioms"
+                      className="w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors text-sm"
+                    />
+                  </label>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 flex justify-end gap-3">
+          <button
+            onClick={handleSave}
+            disabled={isSaving || isLoading || !name.trim()}
+            className="px-4 py-2 text-slate-600 hover:text-slate-800 font-medium transition-colors disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Save className="w-4 h-4" />}
+            {deckId ? 'Update deck' : 'Save deck'}
+          </button>
+          <button
+            onClick={() => handleStart(currentDeck())}
+            disabled={isStarting || isLoading}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2"
+          >
+            {isStarting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Play className="w-4 h-4" />}
+            Study now
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CustomStudyModal;
@@ -0,0 +1,254 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Download, FileDown, AlertCircle } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { createAnkiPackage, createTsv, downloadExport } from '../services/deckExport';
+import {
+  AnalysisFolder,
+  SavedBook,
+  DeckExportScope,
+  DeckExportFormat,
+  ReviewSourceType,
+  VocabularyReview
+} from '../types';
+
+interface Props {
+  userId: string;
+  resolveTerms: (scope: DeckExportScope) => Promise<Set<string> | null>;  // words in a folder or book (null = any word)
+  onClose: () => void;
+}
+
+const SOURCE_LABELS: Record<ReviewSourceType, string> = {
+  text_analysis: 'Text Analysis',
+  book_library: 'Book Library',
+  imported: 'Imported',
+};
+
+const FORMATS: { format: DeckExportFormat; label: string; description: string }[] = [
+  { format: 'apkg', label: 'Anki package', description: '.apkg, opens straight into Anki' },
+  { format: 'tsv', label: 'Text (TSV)', description: 'Tab-separated, for Anki or spreadsheets' },
+];
+
+// Export review cards for Anki, for one source, folder or book
+const DeckExportModal: React.FC<Props> = ({ userId, resolveTerms, onClose }) => {
+  const [folders, setFolders] = useState<AnalysisFolder[]>([]);
+  const [books, setBooks] = useState<SavedBook[]>([]);
+  const [scope, setScope] = useState<DeckExportScope>({});
+  const [cards, setCards] = useState<VocabularyReview[] | null>(null);
+  const [format, setFormat] = useState<DeckExportFormat>('apkg');
+  const [includeScheduling, setIncludeScheduling] = useState(true);
+  const [deckName, setDeckName] = useState('');
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    Promise.all([dataService.fetchFolders(userId), dataService.fetchBooks(userId)])
+      .then(([folderData, bookData]) => {
+        setFolders(folderData);
+        setBooks(bookData);
+      })
+      .catch(err => console.error('Error loading export options:', err));
+  }, [userId]);
+
+  // Cards in the selected scope, for the count and the export itself
+  useEffect(() => {
+    let cancelled = false;
+    setCards(null);
+    resolveTerms(scope)
+      .then(terms => dataService.fetchExportCards(userId, scope, terms))
+      .then(found => {
+        if (!cancelled) setCards(found);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, scope]);
+
+  const scopeLabel =
+    (scope.folderId && folders.find(f => f.id === scope.folderId)?.name) ||
+    (scope.bookId && books.find(b => b.id === scope.bookId)?.title) ||
+    (scope.sourceType && SOURCE_LABELS[scope.sourceType]) ||
+    'All cards';
+  const defaultDeckName = `WordDecode::${scopeLabel.replace(/::/g, ':')}`;
+  const termCount = cards ? new Set(cards.map(c => `${c.sourceType ?? 'text_analysis'}:${c.term.toLowerCase()}`)).size : 0;
+
+  const setSourceType = (sourceType: ReviewSourceType | undefined) => {
+    setScope(sourceType ? { sourceType } : {});
+  };
+
+  const handleExport = async () => {
+    if (!cards || cards.length === 0) return;
+    setIsExporting(true);
+    setError(null);
+    try {
+      const options = { format, deckName: deckName.trim() || defaultDeckName, includeScheduling };
+      const date = new Date().toISOString().split('T')[0];
+      const baseName = `worddecode-${scopeLabel.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${date}`;
+      if (format === 'apkg') {
+        downloadExport(await createAnkiPackage(cards, options), `${baseName}.apkg`);
+      } else {
+        downloadExport(createTsv(cards, options), `${baseName}.tsv`);
+      }
+    } catch (err) {
+      console.error('Error exporting cards:', err);
+      setError('The export could not be created.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const selectClass = 'w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors bg-white text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-4 flex items-center justify-between">
+          <div className="text-white">
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              <FileDown className="w-5 h-5" />
+              Export to Anki
+            </h2>
+            <p className="text-sm text-white/80">Terms, definitions, examples, imagery, source sentences and tags</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          {/* Scope */}
+          <div className="space-y-3">
+            <label className="block">
+              <span className="block text-sm font-medium text-slate-700 mb-1">Source</span>
+              <select
+                value={scope.sourceType || ''}
+                onChange={(e) => setSourceType((e.target.value || undefined) as ReviewSourceType | undefined)}
+                className={selectClass}
+              >
+                <option value="">All sources</option>
+                {(Object.keys(SOURCE_LABELS) as ReviewSourceType[]).map(source => (
+                  <option key={source} value={source}>{SOURCE_LABELS[source]}</option>
+                ))}
+              </select>
+            </label>
+
+            {scope.sourceType === 'text_analysis' && (
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Folder</span>
+                <select
+                  value={scope.folderId || ''}
+                  onChange={(e) => setScope({ sourceType: 'text_analysis', folderId: e.target.value || undefined })}
+                  className={selectClass}
+                >
+                  <option value="">All folders</option>
+                  {folders.map(folder => (
+                    <option key={folder.id} value={folder.id}>{folder.name}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            {scope.sourceType === 'book_library' && (
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Book</span>
+                <select
+                  value={scope.bookId || ''}
+                  onChange={(e) => setScope({ sourceType: 'book_library', bookId: e.target.value || undefined })}
+                  className={selectClass}
+                >
+                  <option value="">All books</option>
+                  {books.map(book => (
+                    <option key={book.id} value={book.id}>{book.title}</option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <p className="text-xs text-slate-500 flex items-center gap-1.5">
+              {cards === null ? (
+                <>
+                  <Loader2 className="w-3.5 h-3.5 animate-spin" />
+                  Finding cards…
+                </>
+              ) : (
+                `${cards.length} ${cards.length === 1 ? 'card' : 'cards'} · ${termCount} ${termCount === 1 ? 'term' : 'terms'}`
+              )}
+            </p>
+          </div>
+
+          {/* Format */}
+          <div>
+            <p className="text-xs font-bold text-slate-400 uppercase mb-2">Format</p>
+            <div className="grid grid-cols-2 gap-2">
+              {FORMATS.map(option => (
+                <button
+                  key={option.format}
+                  onClick={() => setFormat(option.format)}
+                  className={`p-2 rounded-lg border-2 text-left transition-colors ${
+                    format === option.format ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'
+                  }`}
+                >
+                  <div className="text-sm font-bold text-slate-800">{option.label}</div>
+                  <div className="text-xs text-slate-500">{option.description}</div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <label className="block">
+            <span className="block text-sm font-medium text-slate-700 mb-1">Anki deck</span>
+            <input
+              type="text"
+              value={deckName}
+              onChange={(e) => setDeckName(e.target.value)}
+              placeholder={defaultDeckName}
+              className={selectClass}
+            />
+          </label>
+
+          <label className="flex items-start gap-3 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeScheduling}
+              onChange={(e) => setIncludeScheduling(e.target.checked)}
+              className="mt-1 w-4 h-4 text-indigo-600 rounded"
+            />
+            <span>
+              <span className="block text-sm font-medium text-slate-700">Keep review schedule</span>
+              <span className="block text-xs text-slate-500">
+                {format === 'apkg'
+                  ? 'Intervals, ease, due dates and lapses carry over; otherwise every card starts as new.'
+                  : 'Adds due date, interval, ease and lapse columns (Anki imports text as new cards).'}
+              </span>
+            </span>
+          </label>
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {error}
+            </p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 flex justify-end items-center gap-3">
+          <button
+            onClick={handleExport}
+            disabled={isExporting || !cards || cards.length === 0}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2"
+          >
+            {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+            Export
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DeckExportModal;
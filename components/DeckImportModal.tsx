@@ -0,0 +1,285 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { X, Loader2, Upload, FileUp, AlertCircle, CheckCircle } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { guessFieldMapping, parseAnkiPackage, parseDelimited, planDeckImport } from '../services/deckImport';
+import { DeckImportSource, ImportFieldTarget } from '../types';
+
+interface Props {
+  userId: string;
+  onClose: () => void;
+  onImported: () => void;  // Called after cards were written, to refresh the queue
+}
+
+const TARGET_LABELS: Record<ImportFieldTarget, string> = {
+  term: 'Term',
+  definition: 'Definition',
+  example: 'Example',
+  imagery: 'Imagery / etymology',
+  sourceContext: 'Source context',
+  tags: 'Tags',
+  ignore: "Don't import",
+};
+
+// Import an Anki package or a CSV/TSV file as review cards, after mapping its fields
+const DeckImportModal: React.FC<Props> = ({ userId, onClose, onImported }) => {
+  const [existingTerms, setExistingTerms] = useState<Set<string> | null>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [text, setText] = useState<string | null>(null);  // CSV/TSV contents, re-parsed when the header option changes
+  const [firstRowIsHeader, setFirstRowIsHeader] = useState(true);
+  const [source, setSource] = useState<DeckImportSource | null>(null);
+  const [mapping, setMapping] = useState<Record<string, ImportFieldTarget>>({});
+  const [includeScheduling, setIncludeScheduling] = useState(true);
+  const [isReading, setIsReading] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [importedCount, setImportedCount] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const loadExistingTerms = async () => {
+    const reviews = await dataService.fetchVocabularyReviews(userId);
+    setExistingTerms(new Set(reviews.map(r => r.term.toLowerCase())));
+  };
+
+  useEffect(() => {
+    loadExistingTerms();
+  }, [userId]);
+
+  const applySource = (parsed: DeckImportSource) => {
+    setSource(parsed);
+    setMapping(guessFieldMapping(parsed.fields));
+    setIncludeScheduling(parsed.hasScheduling);
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setError(null);
+    setImportedCount(null);
+    setSource(null);
+    setText(null);
+    setIsReading(true);
+    try {
+      if (file.name.toLowerCase().endsWith('.apkg')) {
+        applySource(await parseAnkiPackage(file));
+      } else {
+        const contents = await file.text();
+        setText(contents);
+        applySource(parseDelimited(contents, firstRowIsHeader));
+      }
+      setFileName(file.name);
+    } catch (err) {
+      console.error('Error reading deck:', err);
+      setError(err instanceof Error ? err.message : 'Could not read this file.');
+    } finally {
+      setIsReading(false);
+    }
+  };
+
+  const handleHeaderToggle = (checked: boolean) => {
+    setFirstRowIsHeader(checked);
+    if (text !== null) applySource(parseDelimited(text, checked));
+  };
+
+  const plan = useMemo(
+    () => source && existingTerms ? planDeckImport(source, mapping, existingTerms, includeScheduling) : null,
+    [source, mapping, existingTerms, includeScheduling]
+  );
+
+  const handleImport = async () => {
+    if (!plan || plan.reviews.length === 0) return;
+    setIsImporting(true);
+    setError(null);
+    try {
+      const imported = await dataService.importDeck(userId, plan);
+      if (imported) {
+        setImportedCount(plan.reviews.length);
+        setSource(null);
+        setText(null);
+        await loadExistingTerms();
+        onImported();
+      } else {
+        setError('Some cards could not be imported. Check your connection and try again.');
+      }
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const hasTerm = Object.values(mapping).includes('term');
+  const hasDefinition = Object.values(mapping).includes('definition');
+  const sampleNote = source?.notes.find(note => Object.values(note.values).some(Boolean));
+  const selectClass = 'w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors bg-white text-sm';
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-4 flex items-center justify-between">
+          <div className="text-white">
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              <FileUp className="w-5 h-5" />
+              Import a deck
+            </h2>
+            <p className="text-sm text-white/80">Anki packages (.apkg) and CSV/TSV files, studied as "Imported"</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isReading || isImporting}
+            className="w-full p-3 rounded-xl border-2 border-slate-200 hover:border-indigo-400 hover:bg-indigo-50 transition-colors text-left disabled:opacity-50"
+          >
+            <div className="flex items-center gap-2 font-bold text-slate-800">
+              {isReading ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4 text-indigo-500" />}
+              {fileName && source ? fileName : 'Choose a file…'}
+            </div>
+            <div className="text-xs text-slate-500 mt-1">You'll match its fields to card fields before anything is added</div>
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".apkg,.csv,.tsv,.txt"
+            onChange={handleFileChange}
+            className="hidden"
+          />
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              {error}
+            </p>
+          )}
+
+          {importedCount !== null && (
+            <p className="text-sm text-emerald-600 flex items-center gap-2">
+              <CheckCircle className="w-4 h-4" />
+              {importedCount} {importedCount === 1 ? 'card' : 'cards'} imported.
+            </p>
+          )}
+
+          {source && (
+            <div className="space-y-4">
+              {text !== null && (
+                <label className="flex items-center gap-3 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={firstRowIsHeader}
+                    onChange={(e) => handleHeaderToggle(e.target.checked)}
+                    className="w-4 h-4 text-indigo-600 rounded"
+                  />
+                  <span className="text-sm font-medium text-slate-700">First row holds column names</span>
+                </label>
+              )}
+
+              {/* Field mapping */}
+              <div>
+                <p className="text-xs font-bold text-slate-400 uppercase mb-2">Fields</p>
+                <div className="rounded-xl border border-slate-200 divide-y divide-slate-100">
+                  {source.fields.map(field => (
+                    <div key={field} className="px-3 py-2 grid grid-cols-2 gap-3 items-center">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-slate-700 truncate">{field}</div>
+                        <div className="text-xs text-slate-400 truncate">{sampleNote?.values[field] || '—'}</div>
+                      </div>
+                      <select
+                        value={mapping[field] || 'ignore'}
+                        onChange={(e) => setMapping({ ...mapping, [field]: e.target.value as ImportFieldTarget })}
+                        className={selectClass}
+                      >
+                        {(Object.keys(TARGET_LABELS) as ImportFieldTarget[]).map(target => (
+                          <option key={target} value={target}>{TARGET_LABELS[target]}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                {(!hasTerm || !hasDefinition) && (
+                  <p className="text-xs text-amber-600 mt-2">Choose at least one field for the term and one for the definition.</p>
+                )}
+              </div>
+
+              <label className={`flex items-start gap-3 ${source.hasScheduling ? 'cursor-pointer' : 'opacity-50'}`}>
+                <input
+                  type="checkbox"
+                  checked={includeScheduling}
+                  disabled={!source.hasScheduling}
+                  onChange={(e) => setIncludeScheduling(e.target.checked)}
+                  className="mt-1 w-4 h-4 text-indigo-600 rounded"
+                />
+                <span>
+                  <span className="block text-sm font-medium text-slate-700">Import scheduling history</span>
+                  <span className="block text-xs text-slate-500">
+                    {source.hasScheduling
+                      ? 'Cards keep their due dates, intervals, ease and past reviews; otherwise they start as new.'
+                      : 'This file has no scheduling information, so cards start as new.'}
+                  </span>
+                </span>
+              </label>
+
+              {/* Preview */}
+              {plan ? (
+                <div className="rounded-xl border border-slate-200 divide-y divide-slate-100 text-sm">
+                  <div className="px-3 py-2 flex justify-between gap-3">
+                    <span className="font-medium text-slate-700">New cards</span>
+                    <span className="text-slate-500">{plan.reviews.length}</span>
+                  </div>
+                  {plan.existing > 0 && (
+                    <div className="px-3 py-2 flex justify-between gap-3">
+                      <span className="font-medium text-slate-700">Already have cards (skipped)</span>
+                      <span className="text-slate-500">{plan.existing}</span>
+                    </div>
+                  )}
+                  {plan.repeated > 0 && (
+                    <div className="px-3 py-2 flex justify-between gap-3">
+                      <span className="font-medium text-slate-700">Repeated in the file (skipped)</span>
+                      <span className="text-slate-500">{plan.repeated}</span>
+                    </div>
+                  )}
+                  {plan.incomplete > 0 && (
+                    <div className="px-3 py-2 flex justify-between gap-3">
+                      <span className="font-medium text-slate-700">No term or definition (skipped)</span>
+                      <span className="text-slate-500">{plan.incomplete}</span>
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="flex items-center gap-2 text-sm text-slate-500">
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                  Checking your existing cards…
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        {source && plan && (
+          <div className="px-6 py-4 bg-slate-50 flex justify-end items-center gap-3">
+            <button
+              onClick={handleImport}
+              disabled={isImporting || plan.reviews.length === 0}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2"
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Upload className="w-4 h-4" />}
+              {plan.reviews.length > 0
+                ? `Import ${plan.reviews.length} ${plan.reviews.length === 1 ? 'card' : 'cards'}`
+                : 'Nothing to import'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default DeckImportModal;
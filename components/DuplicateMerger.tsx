@@ -0,0 +1,268 @@
+import React, { useState, useEffect } from 'react';
+import { X, Loader2, Merge, CheckCircle, FileText, Package, BookOpen } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { VocabularyReview } from '../types';
+
+interface Props {
+  userId: string;
+  onClose: () => void;
+  onChanged?: () => void; // Called after a merge (dashboard stats may change)
+}
+
+// Per group: which card to keep and which of the others to merge into it
+interface GroupSelection {
+  keeperId: string;
+  mergeIds: Set<string>;
+}
+
+const formatInterval = (card: VocabularyReview): string => {
+  if (card.repetitions === 0 && card.interval === 0) return 'New';
+  return card.interval === 1 ? '1 day' : `${card.interval} days`;
+};
+
+const DuplicateMerger: React.FC<Props> = ({ userId, onClose, onChanged }) => {
+  const [groups, setGroups] = useState<VocabularyReview[][]>([]);
+  const [selections, setSelections] = useState<Record<number, GroupSelection>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [mergingIndex, setMergingIndex] = useState<number | 'all' | null>(null);
+  const [mergedCount, setMergedCount] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadGroups();
+  }, [userId]);
+
+  const loadGroups = async () => {
+    setIsLoading(true);
+    try {
+      const data = await dataService.findDuplicateReviews(userId);
+      setGroups(data);
+      // Keep the strongest card (groups are sorted strongest first) and merge the rest
+      const initial: Record<number, GroupSelection> = {};
+      data.forEach((group, i) => {
+        initial[i] = {
+          keeperId: group[0].id,
+          mergeIds: new Set(group.slice(1).map(c => c.id)),
+        };
+      });
+      setSelections(initial);
+    } catch (err) {
+      console.error('Error finding duplicates:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const setKeeper = (index: number, group: VocabularyReview[], keeperId: string) => {
+    setSelections(prev => ({
+      ...prev,
+      [index]: {
+        keeperId,
+        mergeIds: new Set(group.filter(c => c.id !== keeperId).map(c => c.id)),
+      },
+    }));
+  };
+
+  const toggleMerge = (index: number, cardId: string) => {
+    setSelections(prev => {
+      const mergeIds = new Set(prev[index].mergeIds);
+      if (mergeIds.has(cardId)) {
+        mergeIds.delete(cardId);
+      } else {
+        mergeIds.add(cardId);
+      }
+      return { ...prev, [index]: { ...prev[index], mergeIds } };
+    });
+  };
+
+  const mergeGroup = async (index: number): Promise<boolean> => {
+    const group = groups[index];
+    const selection = selections[index];
+    const keeper = group.find(c => c.id === selection.keeperId);
+    const others = group.filter(c => selection.mergeIds.has(c.id) && c.id !== selection.keeperId);
+    if (!keeper || others.length === 0) return false;
+
+    const merged = await dataService.mergeVocabularyReviews(userId, keeper, others);
+    if (!merged) {
+      setError(`Failed to merge "${keeper.term}". Please try again.`);
+      return false;
+    }
+    return true;
+  };
+
+  const removeGroups = (indexes: number[]) => {
+    const remaining = new Set(indexes);
+    const nextGroups: VocabularyReview[][] = [];
+    const nextSelections: Record<number, GroupSelection> = {};
+    groups.forEach((group, i) => {
+      if (remaining.has(i)) return;
+      nextSelections[nextGroups.length] = selections[i];
+      nextGroups.push(group);
+    });
+    setGroups(nextGroups);
+    setSelections(nextSelections);
+  };
+
+  const handleMerge = async (index: number) => {
+    setMergingIndex(index);
+    setError(null);
+    try {
+      if (await mergeGroup(index)) {
+        removeGroups([index]);
+        setMergedCount(prev => prev + 1);
+        onChanged?.();
+      }
+    } finally {
+      setMergingIndex(null);
+    }
+  };
+
+  const handleMergeAll = async () => {
+    setMergingIndex('all');
+    setError(null);
+    const done: number[] = [];
+    try {
+      for (let i = 0; i < groups.length; i++) {
+        if (await mergeGroup(i)) done.push(i);
+      }
+    } finally {
+      removeGroups(done);
+      setMergedCount(prev => prev + done.length);
+      if (done.length > 0) onChanged?.();
+      setMergingIndex(null);
+    }
+  };
+
+  const isMerging = mergingIndex !== null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-2xl overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-500 to-purple-500 px-6 py-4 flex items-center justify-between">
+          <div className="text-white">
+            <h2 className="text-lg font-bold">Duplicate Terms</h2>
+            <p className="text-sm text-white/80">The same word learned twice, from different sources or in another form</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4 max-h-[65vh] overflow-y-auto">
+          {isLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-8 h-8 animate-spin text-indigo-500" />
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-8">
+              <CheckCircle className="w-10 h-10 text-green-500 mx-auto mb-2" />
+              <p className="text-slate-600 font-medium">No duplicates found</p>
+              {mergedCount > 0 && (
+                <p className="text-sm text-slate-400 mt-1">
+                  Merged {mergedCount} {mergedCount === 1 ? 'term' : 'terms'}
+                </p>
+              )}
+            </div>
+          ) : (
+            groups.map((group, index) => {
+              const selection = selections[index];
+              const mergeCount = group.filter(c => selection?.mergeIds.has(c.id) && c.id !== selection.keeperId).length;
+              return (
+                <div key={group.map(c => c.id).join('|')} className="border border-slate-200 rounded-xl p-4">
+                  <div className="space-y-2">
+                    {group.map(card => {
+                      const isKeeper = selection?.keeperId === card.id;
+                      return (
+                        <div
+                          key={card.id}
+                          className={`flex items-center gap-3 p-2 rounded-lg ${isKeeper ? 'bg-indigo-50' : ''}`}
+                        >
+                          <input
+                            type="radio"
+                            name={`keeper-${index}`}
+                            checked={isKeeper}
+                            onChange={() => setKeeper(index, group, card.id)}
+                            disabled={isMerging}
+                            title="Keep this card"
+                          />
+                          <div className="flex-1 min-w-0">
+                            <div className="flex items-center gap-2">
+                              <span className="font-bold text-slate-800 truncate">{card.term}</span>
+                              <span className="flex items-center gap-1 text-xs text-slate-400">
+                                {card.sourceType === 'book_library'
+                                  ? <><BookOpen className="w-3 h-3" />Book</>
+                                  : card.sourceType === 'imported'
+                                    ? <><Package className="w-3 h-3" />Imported</>
+                                    : <><FileText className="w-3 h-3" />Text analysis</>}
+                              </span>
+                            </div>
+                            <div className="text-xs text-slate-500 truncate">{card.definition}</div>
+                          </div>
+                          <div className="text-xs text-slate-500 text-right flex-shrink-0">
+                            <div>{formatInterval(card)}</div>
+                            <div>{card.correctCount} correct · {card.incorrectCount} wrong</div>
+                          </div>
+                          {isKeeper ? (
+                            <span className="text-xs font-bold text-indigo-600 w-14 text-right">Keep</span>
+                          ) : (
+                            <label className="flex items-center gap-1 text-xs text-slate-500 w-14 justify-end">
+                              <input
+                                type="checkbox"
+                                checked={selection?.mergeIds.has(card.id) ?? false}
+                                onChange={() => toggleMerge(index, card.id)}
+                                disabled={isMerging}
+                              />
+                              Merge
+                            </label>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <div className="flex justify-end mt-3">
+                    <button
+                      onClick={() => handleMerge(index)}
+                      disabled={isMerging || mergeCount === 0}
+                      className="flex items-center gap-1 px-3 py-1.5 bg-indigo-50 text-indigo-700 rounded-lg text-sm font-medium hover:bg-indigo-100 transition-colors disabled:opacity-50"
+                    >
+                      {mergingIndex === index ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+                      Merge {mergeCount + 1} cards
+                    </button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 flex justify-between items-center gap-3">
+          <p className="text-xs text-slate-400">
+            Merging combines examples and contexts and keeps the better-known schedule.
+          </p>
+          {groups.length > 1 && (
+            <button
+              onClick={handleMergeAll}
+              disabled={isMerging}
+              className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2 whitespace-nowrap"
+            >
+              {mergingIndex === 'all' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Merge className="w-4 h-4" />}
+              Merge all
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DuplicateMerger;
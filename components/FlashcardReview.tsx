@@ -2,13 +2,32 @@ import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { 
   VocabularyReview, 
   ReviewStats, 
+  DailyReviewProgress,
   SimpleQuality,
   DetailedExample,
-  SavedAnalysis 
+  SavedAnalysis,
+  SrsSettings,
+  DEFAULT_SRS_SETTINGS,
+  ReviewSourceType,
+  CARD_TYPE_LABELS,
+  AnswerGrade,
+  VocabSyncResult,
+  StudyFilter
 } from '../types';
 import { dataService } from '../services/dataService';
-import { previewIntervals } from '../services/sm2Algorithm';
+import { previewIntervals, isInLearningSteps, getCardState } from '../services/sm2Algorithm';
 import { generateSpeech } from '../services/geminiService';
+import { getCardType, isTypedCardType, getClozeSentence } from '../services/cardTypes';
+import { createCloze } from '../services/clozeService';
+import { checkAnswer, suggestQuality } from '../services/answerChecker';
+import ReviewSettingsModal from './ReviewSettingsModal';
+import ReviewForecast from './ReviewForecast';
+import LeechList from './LeechList';
+import CardBrowser from './CardBrowser';
+import DuplicateMerger from './DuplicateMerger';
+import CustomStudyModal, { StudyDeck } from './CustomStudyModal';
+import DeckExportModal from './DeckExportModal';
+import DeckImportModal from './DeckImportModal';
 import { 
   X, 
   Play, 
@@ -30,11 +49,70 @@ import {
   BarChart3,
   RefreshCw,
   FileText,
-  Library
+  Library,
+  Merge,
+  Filter,
+  FileDown,
+  FileUp,
+  Package,
+  Settings,
+  Eye
 } from 'lucide-react';
 
+const ANSWER_GRADE_LABELS: Record<AnswerGrade, string> = {
+  exact: 'Correct!',
+  inflection: 'Correct (different form)',
+  typo: 'Almost - check the spelling',
+  wrong: 'Not quite',
+};
+
+// Delay before auto-grading applies the suggested rating
+const AUTO_GRADE_DELAY_MS = 2500;
+
+const QUALITY_LABELS: Record<SimpleQuality, string> = {
+  again: 'Again',
+  hard: 'Hard',
+  good: 'Good',
+  easy: 'Easy',
+};
+
+// Requeued learning cards wait out their step delay: a later card that is ready
+// moves up in front of a waiting one, otherwise the card due soonest does
+const bringReadyCardForward = (
+  queue: VocabularyReview[],
+  index: number,
+  isWaiting: (card: VocabularyReview) => boolean
+): VocabularyReview[] => {
+  const card = queue[index];
+  if (!card || !isWaiting(card)) return queue;
+
+  let pick = queue.findIndex((c, i) => i > index && !isWaiting(c));
+  if (pick < 0) {
+    pick = index;
+    queue.forEach((c, i) => {
+      if (i > index && c.nextReviewDate.getTime() < queue[pick].nextReviewDate.getTime()) pick = i;
+    });
+  }
+  if (pick === index) return queue;
+
+  const reordered = [...queue];
+  const [ready] = reordered.splice(pick, 1);
+  reordered.splice(index, 0, ready);
+  return reordered;
+};
+
+const isToday = (date?: Date) => {
+  const startOfDay = new Date();
+  startOfDay.setHours(0, 0, 0, 0);
+  return !!date && date >= startOfDay;
+};
+
+// Cards already queued today were counted toward the daily limits then
+const isIntroducedToday = (card: VocabularyReview) => isToday(card.introducedAt);
+const isReviewQueuedToday = (card: VocabularyReview) => isToday(card.reviewQueuedAt);
+
 // Study source types
-type StudySource = 'text_analysis' | 'book_library';
+type StudySource = ReviewSourceType;
 
 interface Props {
   userId: string;
@@ -49,9 +127,21 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
 
   // Dashboard state
   const [stats, setStats] = useState<ReviewStats | null>(null);
+  const [dailyProgress, setDailyProgress] = useState<DailyReviewProgress | null>(null);
   const [isLoadingStats, setIsLoadingStats] = useState(true);
   const [isSyncing, setIsSyncing] = useState(false);
   const [syncMessage, setSyncMessage] = useState<string | null>(null);
+  const [forecastRefreshKey, setForecastRefreshKey] = useState(0);
+  const [leechNotice, setLeechNotice] = useState<string | null>(null);
+
+  // SRS settings state
+  const [srsSettings, setSrsSettings] = useState<SrsSettings>(DEFAULT_SRS_SETTINGS);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showBrowser, setShowBrowser] = useState(false);
+  const [showDuplicates, setShowDuplicates] = useState(false);
+  const [showCustomStudy, setShowCustomStudy] = useState(false);
+  const [showExport, setShowExport] = useState(false);
+  const [showImport, setShowImport] = useState(false);
 
   // Session setup state
   const [showSetup, setShowSetup] = useState(false);
@@ -61,12 +151,18 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
 
   // Review session state
   const [isReviewing, setIsReviewing] = useState(false);
+  const [isCramSession, setIsCramSession] = useState(false); // answers don't change schedules
   const [reviewQueue, setReviewQueue] = useState<VocabularyReview[]>([]);
   const [currentIndex, setCurrentIndex] = useState(0);
   const [userAnswer, setUserAnswer] = useState('');
   const [showAnswer, setShowAnswer] = useState(false);
   const [answerResult, setAnswerResult] = useState<'correct' | 'incorrect' | null>(null);
+  const [answerGrade, setAnswerGrade] = useState<AnswerGrade | null>(null);
+  const [answerTimeMs, setAnswerTimeMs] = useState<number | null>(null);
+  const [responseLatencyMs, setResponseLatencyMs] = useState<number | null>(null);
+  const [autoGradePaused, setAutoGradePaused] = useState(false);
   const [isLoadingSession, setIsLoadingSession] = useState(false);
+  const [clock, setClock] = useState(() => Date.now()); // When requeued cards were last checked for being due
 
   // Session results
   const [showResults, setShowResults] = useState(false);
@@ -76,19 +172,120 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
   // Audio state
   const [playingId, setPlayingId] = useState<string | null>(null);
 
+  // Bumped for every card changed in another tab or on another device
+  const [remoteChangeKey, setRemoteChangeKey] = useState(0);
+
   const inputRef = useRef<HTMLInputElement>(null);
+  const cardShownAtRef = useRef<number>(Date.now());
+  const sessionRef = useRef({ currentIndex, isCramSession });
+  sessionRef.current = { currentIndex, isCramSession };
+  const requeuedIdsRef = useRef(new Set<string>()); // Learning cards answered earlier in this session
+  const isAnsweringRef = useRef(false); // A rating is being saved; further ratings are ignored
+  const autoGradeTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const handleQualitySelectRef = useRef<(quality: SimpleQuality) => Promise<void>>(); // Latest render's, for timers
 
-  // Load stats on mount and when study source changes
+  // A requeued card whose learning step hasn't passed yet
+  const isWaitingCard = (card: VocabularyReview, at: number) =>
+    requeuedIdsRef.current.has(card.id) && card.nextReviewDate.getTime() > at;
+  const waitingCard = isReviewing && !isCramSession && !showResults ? reviewQueue[currentIndex] : undefined;
+  const waitingUntil = waitingCard && isWaitingCard(waitingCard, clock) ? waitingCard.nextReviewDate : null;
+
+  // Load stats on mount and when study source or enabled card types change
   useEffect(() => {
     loadStats();
-  }, [userId, studySource]);
+  }, [userId, studySource, srsSettings.enabledCardTypes]);
+
+  // Load the user's SRS settings (scheduler etc.)
+  useEffect(() => {
+    dataService.fetchSrsSettings(userId).then(setSrsSettings);
+  }, [userId]);
+
+  // Load today's usage against the daily limits
+  useEffect(() => {
+    loadDailyProgress();
+  }, [userId, srsSettings]);
+
+  // Cards answered, suspended or deleted elsewhere leave the rest of this session
+  // (the card on screen stays; this tab's own answers come back unchanged)
+  useEffect(() => dataService.onRealtimeChange(change => {
+    if (change.table !== 'vocabulary_reviews') return;
+    setRemoteChangeKey(prev => prev + 1);
+    if (sessionRef.current.isCramSession) return;
+
+    const answeredElsewhere = (card: VocabularyReview, index: number) =>
+      index > sessionRef.current.currentIndex &&
+      card.id === change.id &&
+      (!change.review ||
+        change.review.isSuspended ||
+        (change.review.lastReviewDate?.getTime() ?? 0) > (card.lastReviewDate?.getTime() ?? 0));
+
+    setReviewQueue(prev => prev.some(answeredElsewhere) ? prev.filter((card, i) => !answeredElsewhere(card, i)) : prev);
+  }), []);
+
+  // Keep the dashboard current while cards change elsewhere (once per burst)
+  useEffect(() => {
+    if (remoteChangeKey === 0 || isReviewing) return;
+    const timer = setTimeout(() => {
+      loadStats();
+      loadDailyProgress();
+      setForecastRefreshKey(prev => prev + 1);
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [remoteChangeKey, isReviewing]);
 
   // Focus input when card changes
   useEffect(() => {
-    if (isReviewing && !showAnswer && inputRef.current) {
+    if (isReviewing && !showAnswer && !waitingUntil && inputRef.current) {
       inputRef.current.focus();
     }
-  }, [currentIndex, isReviewing, showAnswer]);
+  }, [currentIndex, isReviewing, showAnswer, waitingUntil]);
+
+  // Start the answer timer whenever a new card is shown (not when other cards in the queue change)
+  const shownCardId = reviewQueue[currentIndex]?.id;
+  useEffect(() => {
+    if (isReviewing && !waitingUntil) {
+      cardShownAtRef.current = Date.now();
+      setResponseLatencyMs(null);
+      setAutoGradePaused(false);
+    }
+  }, [currentIndex, shownCardId, isReviewing, waitingUntil]);
+
+  // Check again once the waiting card is due (and now and then for the countdown)
+  useEffect(() => {
+    if (!waitingUntil) return;
+    const timer = setTimeout(
+      () => setClock(Date.now()),
+      Math.min(Math.max(waitingUntil.getTime() - Date.now(), 0), 15000)
+    );
+    return () => clearTimeout(timer);
+  }, [waitingUntil, clock]);
+
+  // Auto-grade: apply the suggested rating shortly after a typed answer is revealed
+  useEffect(() => {
+    if (!isReviewing || !showAnswer || !answerGrade) return;
+    if (srsSettings.gradingMode !== 'auto' || autoGradePaused || isAnsweringRef.current) return;
+
+    const timer = setTimeout(() => {
+      autoGradeTimerRef.current = null;
+      handleQualitySelectRef.current?.(suggestQuality(answerGrade, responseLatencyMs ?? undefined));
+    }, AUTO_GRADE_DELAY_MS);
+    autoGradeTimerRef.current = timer;
+    return () => {
+      clearTimeout(timer);
+      if (autoGradeTimerRef.current === timer) autoGradeTimerRef.current = null;
+    };
+  }, [isReviewing, showAnswer, answerGrade, autoGradePaused, currentIndex, responseLatencyMs, srsSettings.gradingMode]);
+
+  // Listening cards play the term as soon as they are shown
+  useEffect(() => {
+    const currentCard = reviewQueue[currentIndex];
+    if (isReviewing && !showAnswer && !waitingUntil && currentCard && getCardType(currentCard) === 'listening') {
+      const timer = setTimeout(() => {
+        handlePlayAudio(currentCard.term, currentCard.id);
+      }, 300);
+      return () => clearTimeout(timer);
+    }
+  }, [currentIndex, isReviewing, showAnswer, reviewQueue, waitingUntil]);
 
   // Auto-play pronunciation when answer is revealed
   useEffect(() => {
@@ -105,8 +302,18 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
   // Keyboard shortcuts when answer is showing: a=again, s=hard, d=good, f=easy, space=good
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isReviewing || !showAnswer) return;
+      if (!isReviewing || waitingUntil) return;
       if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+
+      // Self-graded cards: Space/Enter reveals the answer
+      const currentCard = reviewQueue[currentIndex];
+      if (!showAnswer) {
+        if (currentCard && !isTypedCardType(getCardType(currentCard)) && (e.key === ' ' || e.key === 'Enter')) {
+          e.preventDefault();
+          handleRevealAnswer();
+        }
+        return;
+      }
       
       switch (e.key.toLowerCase()) {
         case 'a':
@@ -118,10 +325,13 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
           handleQualitySelect('hard');
           break;
         case 'd':
-        case ' ': // Space also triggers 'good'
           e.preventDefault();
           handleQualitySelect('good');
           break;
+        case ' ': // Space picks the suggested rating (good for self-graded cards)
+          e.preventDefault();
+          handleQualitySelect(answerGrade ? suggestQuality(answerGrade, responseLatencyMs ?? undefined) : 'good');
+          break;
         case 'f':
           e.preventDefault();
           handleQualitySelect('easy');
@@ -135,16 +345,32 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [isReviewing, showAnswer]);
+  }, [isReviewing, showAnswer, currentIndex, reviewQueue, answerGrade, responseLatencyMs, waitingUntil]);
 
   const loadStats = async () => {
     setIsLoadingStats(true);
-    const sourceTypeFilter = studySource === 'text_analysis' ? 'text_analysis' : 'book_library';
-    const reviewStats = await dataService.getReviewStats(userId, sourceTypeFilter);
+    const reviewStats = await dataService.getReviewStats(userId, studySource, srsSettings.enabledCardTypes[studySource]);
     setStats(reviewStats);
     setIsLoadingStats(false);
   };
 
+  const loadDailyProgress = async () => {
+    const progress = await dataService.getDailyReviewProgress(userId, srsSettings);
+    setDailyProgress(progress);
+  };
+
+  const saveSrsSettings = async (settings: SrsSettings) => {
+    const saved = await dataService.updateSrsSettings(userId, settings);
+    setSrsSettings(saved || settings);
+  };
+
+  const formatSyncResult = (result: VocabSyncResult, sourceLabel: string): string | null => {
+    const parts = [];
+    if (result.inserted > 0) parts.push(`${result.inserted} new`);
+    if (result.updated > 0) parts.push(`${result.updated} updated`);
+    return parts.length > 0 ? `Synced ${parts.join(', ')} words from ${sourceLabel}!` : null;
+  };
+
   // Sync vocabulary from saved analyses or books to review system
   const syncVocabulary = async () => {
     if (studySource === 'text_analysis') {
@@ -158,12 +384,8 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
       setSyncMessage(null);
       
       try {
-        const syncedCount = await dataService.syncVocabFromAnalyses(userId, savedAnalyses);
-        if (syncedCount > 0) {
-          setSyncMessage(`Synced ${syncedCount} new words from text analyses!`);
-        } else {
-          setSyncMessage('All text analysis vocabulary is already synced.');
-        }
+        const result = await dataService.syncVocabFromAnalyses(userId, savedAnalyses);
+        setSyncMessage(formatSyncResult(result, 'text analyses') || 'All text analysis vocabulary is already synced.');
         await loadStats();
       } catch (error: any) {
         console.error('Sync error:', error);
@@ -172,7 +394,7 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
         setTimeout(() => setSyncMessage(null), 8000);
         return;
       }
-    } else {
+    } else if (studySource === 'book_library') {
       // Book library sync
       if (!hasBooks) {
         setSyncMessage('No books found. Add some books to your library first!');
@@ -184,12 +406,8 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
       setSyncMessage(null);
       
       try {
-        const syncedCount = await dataService.syncVocabFromBooks(userId);
-        if (syncedCount > 0) {
-          setSyncMessage(`Synced ${syncedCount} new words from book library!`);
-        } else {
-          setSyncMessage('All book vocabulary is already synced.');
-        }
+        const result = await dataService.syncVocabFromBooks(userId);
+        setSyncMessage(formatSyncResult(result, 'book library') || 'All book vocabulary is already synced.');
         await loadStats();
       } catch (error: any) {
         console.error('Sync error:', error);
@@ -228,47 +446,10 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
     return maskedText;
   }, []);
 
-  // Smart answer matching
-  const stemWord = useCallback((word: string): string => {
-    if (word.length < 4) return word;
-    if (word.endsWith('ied')) return word.slice(0, -3) + 'y';
-    if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
-    if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
-    if (word.endsWith('es') && word.length > 4) return word.slice(0, -2);
-    if (word.endsWith('s') && word.length > 4) return word.slice(0, -1);
-    return word;
-  }, []);
-
-  const normalizeForComparison = useCallback((text: string): string => {
-    return text
-      .toLowerCase()
-      .replace(/[.,!?;:'"()\-–—]/g, '')
-      .replace(/\s+/g, ' ')
-      .trim()
-      .split(' ')
-      .filter(w => !['the', 'a', 'an', 'to', 'be'].includes(w))
-      .map(w => stemWord(w))
-      .sort()
-      .join(' ');
-  }, [stemWord]);
-
-  const checkAnswer = useCallback((userAnswer: string, correctTerm: string): boolean => {
-    if (!userAnswer.trim() || !correctTerm) return false;
-    
-    const normalizedUser = normalizeForComparison(userAnswer);
-    const normalizedCorrect = normalizeForComparison(correctTerm);
-    
-    if (normalizedUser === normalizedCorrect) return true;
-    
-    const userWords = normalizedUser.split(' ');
-    const correctWords = normalizedCorrect.split(' ');
-    const matchCount = userWords.filter(uw => 
-      correctWords.some(cw => cw.includes(uw) || uw.includes(cw))
-    ).length;
-    
-    const matchRatio = matchCount / Math.max(userWords.length, correctWords.length);
-    return matchRatio >= 0.6;
-  }, [normalizeForComparison]);
+  // Blank the term (in whatever form it appears) out of a sentence, falling back to plain masking
+  const maskSentence = useCallback((text: string, term: string): string => {
+    return createCloze(text, term)?.prompt ?? maskTerm(text, term);
+  }, [maskTerm]);
 
   const handlePlayAudio = async (text: string, id: string) => {
     if (playingId) return;
@@ -283,64 +464,217 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
   const startSession = async () => {
     setIsLoadingSession(true);
     
-    const sourceTypeFilter = studySource === 'text_analysis' ? 'text_analysis' : 'book_library';
+    const cardTypes = srsSettings.enabledCardTypes[studySource];
     let cards: VocabularyReview[] = [];
+
+    // Generate any missing cards for newly enabled card types
+    await dataService.ensureCardTypes(userId, studySource, cardTypes);
+    
+    // Respect the per-day caps shared across all sessions and devices
+    const progress = await dataService.getDailyReviewProgress(userId, srsSettings);
+    setDailyProgress(progress);
+    let reviewsLeft = progress.reviewsRemaining;
+    let newLeft = progress.newCardsRemaining;
+
+    // Cards in (re)learning steps don't count against the review cap
+    const fetchDue = async (limit: number) => {
+      const dueCards = await dataService.fetchDueReviews(userId, limit, studySource, cardTypes);
+      return dueCards.filter(card => {
+        if (isInLearningSteps(card) || isReviewQueuedToday(card)) return true;
+        if (reviewsLeft <= 0) return false;
+        reviewsLeft -= 1;
+        return true;
+      });
+    };
+
+    const fetchNew = async (limit: number) => {
+      const newCards = await dataService.fetchNewWordsForReview(userId, limit, studySource, cardTypes);
+      return newCards.filter(card => {
+        if (isIntroducedToday(card)) return true;
+        if (newLeft <= 0) return false;
+        newLeft -= 1;
+        return true;
+      });
+    };
     
     // Fetch due reviews first (priority)
     if (includeDue) {
-      const dueCards = await dataService.fetchDueReviews(userId, sessionSize, sourceTypeFilter);
+      const dueCards = await fetchDue(sessionSize);
       cards = [...cards, ...dueCards];
     }
     
     // If we need more cards, fetch new ones
     if (includeNew && cards.length < sessionSize) {
       const remaining = sessionSize - cards.length;
-      const newCards = await dataService.fetchNewWordsForReview(userId, remaining, sourceTypeFilter);
+      const newCards = await fetchNew(remaining);
       cards = [...cards, ...newCards];
     }
     
     // If still not enough and we haven't included one type, try the other
     if (cards.length < sessionSize) {
       if (!includeDue) {
-        const dueCards = await dataService.fetchDueReviews(userId, sessionSize - cards.length, sourceTypeFilter);
+        const dueCards = await fetchDue(sessionSize - cards.length);
         cards = [...cards, ...dueCards];
       }
       if (!includeNew) {
-        const newCards = await dataService.fetchNewWordsForReview(userId, sessionSize - cards.length, sourceTypeFilter);
+        const newCards = await fetchNew(sessionSize - cards.length);
         cards = [...cards, ...newCards];
       }
     }
     
+    // Only one card per term in a session (siblings would give each other away)
+    const seenTerms = new Set<string>();
+    cards = cards.filter(card => {
+      const key = card.term.toLowerCase();
+      if (seenTerms.has(key)) return false;
+      seenTerms.add(key);
+      return true;
+    });
+    
     // Shuffle and limit to requested session size
     cards = cards.sort(() => Math.random() - 0.5).slice(0, sessionSize);
     
     if (cards.length === 0) {
       setIsLoadingSession(false);
-      const sourceLabel = studySource === 'text_analysis' ? 'text analyses' : 'book library';
-      alert(`No cards available for review. Try adding more vocabulary from your ${sourceLabel}!`);
+      if (progress.newCardsRemaining === 0 && progress.reviewsRemaining === 0) {
+        alert('You\'ve reached today\'s limits for new cards and reviews. Come back tomorrow!');
+        return;
+      }
+      alert(studySource === 'imported'
+        ? 'No imported cards available for review. Import a deck to study it here!'
+        : `No cards available for review. Try adding more vocabulary from your ${studySource === 'text_analysis' ? 'text analyses' : 'book library'}!`);
       return;
     }
     
+    await reserveDailyCards(cards);
+    beginSession(cards, false);
+    setShowSetup(false);
+    setIsLoadingSession(false);
+  };
+
+  // New cards and reviews count toward today's limits once queued, so other tabs and devices see them
+  const reserveDailyCards = async (cards: VocabularyReview[]) => {
+    await dataService.markNewCardsIntroduced(
+      userId,
+      cards.filter(card => getCardState(card) === 'new' && !isIntroducedToday(card))
+    );
+    await dataService.markReviewsQueued(
+      userId,
+      cards.filter(card => getCardState(card) !== 'new' && !isInLearningSteps(card) && !isReviewQueuedToday(card))
+    );
+    loadDailyProgress();
+  };
+
+  const beginSession = (cards: VocabularyReview[], cram: boolean) => {
     setReviewQueue(cards);
+    setIsCramSession(cram);
+    requeuedIdsRef.current = new Set();
     setCurrentIndex(0);
     setUserAnswer('');
     setShowAnswer(false);
     setAnswerResult(null);
+    setAnswerGrade(null);
     setSessionCorrect(0);
     setSessionIncorrect(0);
     setShowResults(false);
     setIsReviewing(true);
-    setShowSetup(false);
-    setIsLoadingSession(false);
+  };
+
+  // Words from the analyses or book chapters a custom study filter points at (null = any word)
+  const resolveFilterTerms = async (filter: StudyFilter): Promise<Set<string> | null> => {
+    let terms: string[] | null = null;
+    if (filter.analysisId || filter.folderId) {
+      terms = savedAnalyses
+        .filter(a => filter.analysisId ? a.id === filter.analysisId : a.folderId === filter.folderId)
+        .flatMap(a => (a.analysisResult?.vocabulary || []).map(v => v.term));
+    } else if (filter.bookId) {
+      terms = await dataService.fetchChapterSubtreeTerms(userId, filter.bookId, filter.chapterId);
+    }
+    return terms ? new Set(terms.map(t => t.toLowerCase())) : null;
+  };
+
+  // Start a session from a custom study selection (saved filtered deck or one-off)
+  const startCustomSession = async (deck: StudyDeck) => {
+    const { filter } = deck;
+    const sources: ReviewSourceType[] = filter.sourceType ? [filter.sourceType] : ['text_analysis', 'book_library', 'imported'];
+    for (const source of sources) {
+      await dataService.ensureCardTypes(userId, source, srsSettings.enabledCardTypes[source]);
+    }
+
+    const terms = await resolveFilterTerms(filter);
+    let cards = await dataService.fetchStudyCards(userId, filter, {
+      terms,
+      cardTypes: [...new Set(sources.flatMap(source => srsSettings.enabledCardTypes[source]))],
+      cram: deck.cram,
+    });
+    cards = cards.filter(card =>
+      srsSettings.enabledCardTypes[card.sourceType || 'text_analysis'].includes(getCardType(card))
+    );
+
+    // Only one card per term in a session (siblings would give each other away)
+    const seenTerms = new Set<string>();
+    cards = cards.filter(card => {
+      const key = card.term.toLowerCase();
+      if (seenTerms.has(key)) return false;
+      seenTerms.add(key);
+      return true;
+    });
+
+    // Scheduled sessions still respect the per-day caps; cramming changes nothing, so it doesn't count
+    if (!deck.cram) {
+      const progress = await dataService.getDailyReviewProgress(userId, srsSettings);
+      setDailyProgress(progress);
+      let reviewsLeft = progress.reviewsRemaining;
+      let newLeft = progress.newCardsRemaining;
+      cards = cards.filter(card => {
+        if (getCardState(card) === 'new') {
+          if (isIntroducedToday(card)) return true;
+          if (newLeft <= 0) return false;
+          newLeft -= 1;
+          return true;
+        }
+        if (isInLearningSteps(card) || isReviewQueuedToday(card)) return true;
+        if (reviewsLeft <= 0) return false;
+        reviewsLeft -= 1;
+        return true;
+      });
+    }
+
+    cards = cards.sort(() => Math.random() - 0.5).slice(0, deck.cardLimit);
+
+    if (cards.length === 0) {
+      alert(deck.cram
+        ? 'No cards match this selection.'
+        : 'No cards in this selection are due. Turn on cram to study them anyway.');
+      return;
+    }
+
+    if (deck.id) {
+      dataService.markFilteredDeckStudied(userId, deck.id);
+    }
+    if (!deck.cram) {
+      await reserveDailyCards(cards);
+    }
+    beginSession(cards, deck.cram);
+    setShowCustomStudy(false);
   };
 
   const handleSubmitAnswer = () => {
     if (!userAnswer.trim()) return;
     
     const currentCard = reviewQueue[currentIndex];
-    const isCorrect = checkAnswer(userAnswer, currentCard.term);
+    // Cloze cards also accept the conjugated form used in the sentence ("packed into")
+    const clozeSentence = getClozeSentence(currentCard);
+    const cloze = clozeSentence ? createCloze(clozeSentence, currentCard.term) : null;
+    const { grade, isCorrect } = checkAnswer(userAnswer, currentCard.term, {
+      acceptedForms: cloze ? [cloze.answer] : [],
+    });
     
+    const elapsed = Date.now() - cardShownAtRef.current;
+    setAnswerTimeMs(elapsed);
+    if (responseLatencyMs === null) setResponseLatencyMs(elapsed);
     setAnswerResult(isCorrect ? 'correct' : 'incorrect');
+    setAnswerGrade(grade);
     setShowAnswer(true);
     
     if (isCorrect) {
@@ -351,23 +685,98 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
   };
 
   const handleSkip = () => {
+    setAnswerTimeMs(Date.now() - cardShownAtRef.current);
     setAnswerResult('incorrect');
+    setAnswerGrade('wrong');
     setShowAnswer(true);
     setSessionIncorrect(prev => prev + 1);
   };
 
+  // Self-graded cards (recognition) just reveal the answer
+  const handleRevealAnswer = () => {
+    const elapsed = Date.now() - cardShownAtRef.current;
+    setAnswerTimeMs(elapsed);
+    setResponseLatencyMs(elapsed);
+    setAnswerResult(null);
+    setAnswerGrade(null);
+    setShowAnswer(true);
+  };
+
   const handleQualitySelect = async (quality: SimpleQuality) => {
+    // One rating per card: a second key press or the auto-grade timer firing while
+    // the first rating is saved would answer the card twice
+    if (isAnsweringRef.current) return;
+    isAnsweringRef.current = true;
+    if (autoGradeTimerRef.current) {
+      clearTimeout(autoGradeTimerRef.current);
+      autoGradeTimerRef.current = null;
+    }
+
+    try {
+      await answerCurrentCard(quality);
+    } finally {
+      isAnsweringRef.current = false;
+    }
+  };
+  handleQualitySelectRef.current = handleQualitySelect;
+
+  const answerCurrentCard = async (quality: SimpleQuality) => {
     const currentCard = reviewQueue[currentIndex];
+
+    // Self-graded cards are scored by the rating the user picks
+    if (!isTypedCardType(getCardType(currentCard))) {
+      if (quality === 'again') {
+        setSessionIncorrect(prev => prev + 1);
+      } else {
+        setSessionCorrect(prev => prev + 1);
+      }
+    }
     
-    // Update the review in the database
-    await dataService.updateReviewAfterAnswer(userId, currentCard.id, quality);
+    let requeue: boolean;
+    if (isCramSession) {
+      // Cramming leaves the schedule alone: forgotten cards just come back later in this session
+      requeue = quality === 'again';
+      if (requeue) {
+        setReviewQueue(prev => [...prev, currentCard]);
+      }
+    } else {
+      // Update the review in the database (also appends to the review log)
+      const updatedCard = await dataService.updateReviewAfterAnswer(userId, currentCard.id, quality, srsSettings, {
+        typedAnswer: userAnswer.trim(),
+        answerGrade: answerGrade ?? undefined,
+        timeTakenMs: answerTimeMs ?? undefined,
+        responseLatencyMs: responseLatencyMs ?? undefined,
+      });
+
+      // Let the learner know when a card has just become a leech
+      if (updatedCard?.isLeech && !currentCard.isLeech) {
+        setLeechNotice(updatedCard.isSuspended
+          ? `"${updatedCard.term}" keeps slipping and has been suspended. Fix it from the Leeches list.`
+          : `"${updatedCard.term}" keeps slipping. Fix it from the Leeches list.`);
+        setTimeout(() => setLeechNotice(null), 5000);
+      }
+
+      // Cards still inside their (re)learning steps come back later in this session
+      requeue = !!updatedCard && !updatedCard.isSuspended && isInLearningSteps(updatedCard);
+      if (updatedCard && requeue) {
+        requeuedIdsRef.current.add(updatedCard.id);
+        setReviewQueue(prev => [...prev, updatedCard]);
+      }
+    }
+    const queueLength = reviewQueue.length + (requeue ? 1 : 0);
     
     // Move to next card or show results
-    if (currentIndex < reviewQueue.length - 1) {
+    if (currentIndex < queueLength - 1) {
+      if (!isCramSession) {
+        const now = Date.now();
+        setClock(now);
+        setReviewQueue(prev => bringReadyCardForward(prev, currentIndex + 1, card => isWaitingCard(card, now)));
+      }
       setCurrentIndex(prev => prev + 1);
       setUserAnswer('');
       setShowAnswer(false);
       setAnswerResult(null);
+      setAnswerGrade(null);
     } else {
       setShowResults(true);
     }
@@ -379,10 +788,16 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
     
     // Move to next card
     if (currentIndex < reviewQueue.length - 1) {
+      if (!isCramSession) {
+        const now = Date.now();
+        setClock(now);
+        setReviewQueue(prev => bringReadyCardForward(prev, currentIndex + 1, card => isWaitingCard(card, now)));
+      }
       setCurrentIndex(prev => prev + 1);
       setUserAnswer('');
       setShowAnswer(false);
       setAnswerResult(null);
+      setAnswerGrade(null);
     } else {
       setShowResults(true);
     }
@@ -393,13 +808,23 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
     setShowResults(false);
     setReviewQueue([]);
     loadStats(); // Refresh stats
+    loadDailyProgress();
+    setForecastRefreshKey(prev => prev + 1);
+  };
+
+  // Study a waiting learning card before its step delay has passed
+  const handleStudyNow = () => {
+    if (waitingCard) requeuedIdsRef.current.delete(waitingCard.id);
+    setClock(Date.now());
   };
 
   const retrySession = () => {
+    requeuedIdsRef.current = new Set();
     setCurrentIndex(0);
     setUserAnswer('');
     setShowAnswer(false);
     setAnswerResult(null);
+    setAnswerGrade(null);
     setSessionCorrect(0);
     setSessionIncorrect(0);
     setShowResults(false);
@@ -409,13 +834,18 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
 
   // Get interval previews for current card
   const getIntervalPreviews = () => {
-    if (!reviewQueue[currentIndex]) return null;
+    if (!reviewQueue[currentIndex] || isCramSession) return null;
     const card = reviewQueue[currentIndex];
     return previewIntervals({
       easeFactor: card.easeFactor,
       interval: card.interval,
       repetitions: card.repetitions,
-    });
+      stability: card.stability,
+      difficulty: card.difficulty,
+      lastReviewDate: card.lastReviewDate,
+      cardState: card.cardState,
+      learningStep: card.learningStep,
+    }, srsSettings);
   };
 
   // Dashboard View
@@ -430,6 +860,48 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
           </div>
           <h1 className="text-3xl font-bold text-slate-800 mb-2">Flashcard Review</h1>
           <p className="text-slate-500">Master your vocabulary with scientifically-proven spaced repetition</p>
+          <button
+            onClick={() => setShowSettings(true)}
+            className="inline-flex items-center gap-1.5 mt-3 px-3 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            <Settings className="w-3.5 h-3.5" />
+            Review settings ({srsSettings.scheduler === 'fsrs' ? 'FSRS' : 'SM-2'})
+          </button>
+          <button
+            onClick={() => setShowBrowser(true)}
+            className="inline-flex items-center gap-1.5 mt-3 px-3 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            <Library className="w-3.5 h-3.5" />
+            Browse cards
+          </button>
+          <button
+            onClick={() => setShowDuplicates(true)}
+            className="inline-flex items-center gap-1.5 mt-3 px-3 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            <Merge className="w-3.5 h-3.5" />
+            Merge duplicates
+          </button>
+          <button
+            onClick={() => setShowCustomStudy(true)}
+            className="inline-flex items-center gap-1.5 mt-3 px-3 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            <Filter className="w-3.5 h-3.5" />
+            Custom study
+          </button>
+          <button
+            onClick={() => setShowExport(true)}
+            className="inline-flex items-center gap-1.5 mt-3 px-3 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            <FileDown className="w-3.5 h-3.5" />
+            Export to Anki
+          </button>
+          <button
+            onClick={() => setShowImport(true)}
+            className="inline-flex items-center gap-1.5 mt-3 px-3 py-1 text-xs font-medium text-slate-500 hover:text-indigo-600 transition-colors"
+          >
+            <FileUp className="w-3.5 h-3.5" />
+            Import deck
+          </button>
           
           {/* Study Source Selector */}
           <div className="flex justify-center mt-6">
@@ -456,6 +928,17 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                 <Library className="w-4 h-4" />
                 Book Library
               </button>
+              <button
+                onClick={() => setStudySource('imported')}
+                className={`flex items-center gap-2 px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  studySource === 'imported'
+                    ? 'bg-white text-slate-900 shadow-sm'
+                    : 'text-slate-500 hover:text-slate-700'
+                }`}
+              >
+                <Package className="w-4 h-4" />
+                Imported
+              </button>
             </div>
           </div>
         </div>
@@ -523,6 +1006,12 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                       + {stats.newWords} new words available to learn
                     </div>
                   )}
+                  {dailyProgress && (
+                    <div className="inline-flex items-center gap-1.5 mt-3 px-3 py-1 bg-white/15 rounded-full text-xs font-medium text-white">
+                      <Target className="w-3.5 h-3.5" />
+                      {dailyProgress.newCardsRemaining} new / {dailyProgress.reviewsRemaining} reviews left today
+                    </div>
+                  )}
                 </div>
                 <button
                   onClick={() => setShowSetup(true)}
@@ -535,6 +1024,23 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
               </div>
             </div>
 
+            {/* Due forecast for the next 30 days */}
+            {stats.totalWords > 0 && (
+              <ReviewForecast
+                userId={userId}
+                sourceType={studySource}
+                refreshKey={forecastRefreshKey}
+              />
+            )}
+
+            {/* Cards that keep failing */}
+            <LeechList
+              userId={userId}
+              sourceType={studySource}
+              refreshKey={forecastRefreshKey}
+              onChanged={loadStats}
+            />
+
             {/* No words message - with sync option if source has content */}
             {stats.totalWords === 0 && (
               <div className="bg-slate-50 rounded-2xl p-8 text-center">
@@ -564,6 +1070,19 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                       Analyze some text first to build your vocabulary, then come back to review!
                     </p>
                   )
+                ) : studySource === 'imported' ? (
+                  <>
+                    <p className="text-slate-500 mb-4">
+                      Bring in an Anki deck or a spreadsheet to study it here.
+                    </p>
+                    <button
+                      onClick={() => setShowImport(true)}
+                      className="inline-flex items-center gap-2 px-6 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-colors"
+                    >
+                      <FileUp className="w-5 h-5" />
+                      Import a Deck
+                    </button>
+                  </>
                 ) : (
                   hasBooks ? (
                     <>
@@ -631,6 +1150,69 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
           </>
         ) : null}
 
+        {/* Review Settings Modal */}
+        <ReviewSettingsModal
+          isOpen={showSettings}
+          onClose={() => setShowSettings(false)}
+          settings={srsSettings}
+          onSave={saveSrsSettings}
+        />
+
+        {/* Card Browser */}
+        {showBrowser && (
+          <CardBrowser
+            userId={userId}
+            onClose={() => setShowBrowser(false)}
+            onChanged={() => {
+              loadStats();
+              setForecastRefreshKey(prev => prev + 1);
+            }}
+          />
+        )}
+
+        {/* Custom Study */}
+        {showCustomStudy && (
+          <CustomStudyModal
+            userId={userId}
+            savedAnalyses={savedAnalyses}
+            onClose={() => setShowCustomStudy(false)}
+            onStart={startCustomSession}
+          />
+        )}
+
+        {/* Anki Export */}
+        {showExport && (
+          <DeckExportModal
+            userId={userId}
+            resolveTerms={resolveFilterTerms}
+            onClose={() => setShowExport(false)}
+          />
+        )}
+
+        {/* Deck Import */}
+        {showImport && (
+          <DeckImportModal
+            userId={userId}
+            onClose={() => setShowImport(false)}
+            onImported={() => {
+              loadStats();
+              setForecastRefreshKey(prev => prev + 1);
+            }}
+          />
+        )}
+
+        {/* Duplicate Terms */}
+        {showDuplicates && (
+          <DuplicateMerger
+            userId={userId}
+            onClose={() => setShowDuplicates(false)}
+            onChanged={() => {
+              loadStats();
+              setForecastRefreshKey(prev => prev + 1);
+            }}
+          />
+        )}
+
         {/* Session Setup Modal */}
         {showSetup && (
           <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
@@ -797,10 +1379,68 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
     );
   }
 
+  if (waitingUntil) {
+    // Only learning cards whose step delay hasn't passed are left
+    const minutesLeft = Math.max(1, Math.ceil((waitingUntil.getTime() - clock) / 60000));
+
+    return (
+      <div className="fixed inset-0 bg-slate-900/95 z-50 flex flex-col items-center justify-center p-4">
+        <button
+          onClick={closeSession}
+          className="absolute top-6 right-6 p-3 text-slate-400 hover:text-white hover:bg-slate-800 rounded-full transition-colors"
+        >
+          <X className="w-6 h-6" />
+        </button>
+
+        <div className="w-full max-w-md">
+          <div className="bg-white rounded-2xl shadow-2xl p-8 text-center">
+            <div className="mx-auto w-20 h-20 rounded-full flex items-center justify-center mb-6 bg-indigo-100">
+              <Clock className="w-10 h-10 text-indigo-600" />
+            </div>
+            <h2 className="text-2xl font-bold text-slate-700 mb-2">
+              Next card in {minutesLeft} min
+            </h2>
+            <p className="text-slate-500 mb-6">
+              The cards you're still learning come back once their step delay has passed. Take a short break, or study them now.
+            </p>
+            <div className="flex gap-3">
+              <button
+                onClick={handleStudyNow}
+                className="flex-1 py-3 bg-slate-100 text-slate-700 rounded-xl font-bold hover:bg-slate-200 transition-colors flex items-center justify-center gap-2"
+              >
+                <Play className="w-5 h-5" />
+                Study it now
+              </button>
+              <button
+                onClick={() => setShowResults(true)}
+                className="flex-1 py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2"
+              >
+                <CheckCircle className="w-5 h-5" />
+                Finish
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   // Active Review Card
+  const cardType = getCardType(currentCard);
+  const isTypedCard = isTypedCardType(cardType);
   const example = currentCard.examples && currentCard.examples.length > 0 
     ? currentCard.examples[0].sentence 
     : currentCard.sourceContext;
+  // Example cloze prefers an example that isn't the original source sentence
+  const clozeExample = currentCard.examples?.find(e => e.sentence && e.sentence !== currentCard.sourceContext)
+    || currentCard.examples?.[0];
+  const clozeSentence = cardType === 'context_cloze' || cardType === 'example_cloze'
+    ? getClozeSentence(currentCard)
+    : undefined;
+  const cloze = clozeSentence ? createCloze(clozeSentence, currentCard.term) : null;
+  const suggestedQuality = answerGrade ? suggestQuality(answerGrade, responseLatencyMs ?? undefined) : null;
+  const suggestedRing = (quality: SimpleQuality) =>
+    suggestedQuality === quality ? ' ring-2 ring-offset-1 ring-slate-400' : '';
 
   return (
     <div className="fixed inset-0 bg-slate-900/95 z-50 flex flex-col items-center justify-center p-4">
@@ -815,6 +1455,7 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
       {/* Progress */}
       <div className="absolute top-6 left-6 text-slate-300 text-sm font-medium">
         {currentIndex + 1} / {reviewQueue.length}
+        {isCramSession && <span className="ml-2 text-amber-400">Cram · schedules unchanged</span>}
       </div>
 
       {/* Score */}
@@ -827,6 +1468,13 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
         </span>
       </div>
 
+      {/* Leech notice */}
+      {leechNotice && (
+        <div className="absolute top-16 left-1/2 -translate-x-1/2 px-4 py-2 bg-amber-500 text-white text-sm rounded-xl shadow-lg max-w-md text-center">
+          {leechNotice}
+        </div>
+      )}
+
       {/* Card */}
       <div className="w-full max-w-xl">
         <div className="bg-white rounded-2xl shadow-2xl p-6 min-h-[400px] flex flex-col">
@@ -839,26 +1487,111 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
             </div>
           )}
 
-          {/* Definition Card */}
+          {/* Card Type Label */}
+          {cardType !== 'production' && (
+            <div className="text-center text-xs font-medium text-slate-400 -mt-2 mb-3">
+              {CARD_TYPE_LABELS[cardType]}
+            </div>
+          )}
+
+          {/* Card Prompt */}
           <div className="flex-1 flex flex-col justify-center text-center">
-            <p className="text-xl text-slate-700 mb-4 leading-relaxed">
-              {currentCard.definition}
-            </p>
-            
-            {example && (
-              <p className="text-slate-500 italic text-sm mb-4">
-                "{maskTerm(example, currentCard.term)}"
-              </p>
+            {cardType === 'production' && (
+              <>
+                <p className="text-xl text-slate-700 mb-4 leading-relaxed">
+                  {currentCard.definition}
+                </p>
+                
+                {example && (
+                  <p className="text-slate-500 italic text-sm mb-4">
+                    "{maskSentence(example, currentCard.term)}"
+                  </p>
+                )}
+              </>
+            )}
+
+            {cardType === 'recognition' && (
+              <>
+                <p className="text-3xl font-bold text-slate-800 mb-4">
+                  {currentCard.term}
+                </p>
+                {currentCard.sourceContext && (
+                  <p className="text-slate-500 italic text-sm mb-4">
+                    "{currentCard.sourceContext}"
+                  </p>
+                )}
+                {!showAnswer && (
+                  <p className="text-sm text-slate-400">What does it mean?</p>
+                )}
+              </>
+            )}
+
+            {cardType === 'context_cloze' && currentCard.sourceContext && (
+              <>
+                <p className="text-xl text-slate-700 mb-4 leading-relaxed">
+                  "{maskSentence(currentCard.sourceContext, currentCard.term)}"
+                </p>
+                <p className="text-slate-500 text-sm mb-4">
+                  {currentCard.definition}
+                </p>
+              </>
+            )}
+
+            {cardType === 'example_cloze' && clozeExample && (
+              <>
+                {clozeExample.context_label && (
+                  <span className="text-xs font-bold uppercase tracking-wider text-slate-400 mb-2">
+                    {clozeExample.context_label}
+                  </span>
+                )}
+                <p className="text-xl text-slate-700 mb-4 leading-relaxed">
+                  "{maskSentence(clozeExample.sentence, currentCard.term)}"
+                </p>
+                <p className="text-slate-500 text-sm mb-4">
+                  {currentCard.definition}
+                </p>
+              </>
+            )}
+
+            {cardType === 'listening' && (
+              <div className="flex flex-col items-center mb-4">
+                <button
+                  onClick={() => handlePlayAudio(currentCard.term, currentCard.id)}
+                  className={`p-6 rounded-full bg-indigo-100 hover:bg-indigo-200 transition-colors ${
+                    playingId === currentCard.id ? 'text-indigo-700 animate-pulse' : 'text-indigo-600'
+                  }`}
+                >
+                  <Volume2 className="w-10 h-10" />
+                </button>
+                <p className="text-sm text-slate-400 mt-3">Type what you hear</p>
+              </div>
             )}
 
             {/* Answer Section */}
-            {!showAnswer ? (
+            {!showAnswer && !isTypedCard ? (
+              <div className="mt-4">
+                <button
+                  onClick={handleRevealAnswer}
+                  className="w-full py-3 bg-indigo-600 text-white rounded-xl font-bold hover:bg-indigo-700 transition-colors flex items-center justify-center gap-2"
+                >
+                  <Eye className="w-5 h-5" />
+                  Show Answer
+                  <kbd className="px-1.5 py-0.5 bg-indigo-500 rounded text-xs">Space</kbd>
+                </button>
+              </div>
+            ) : !showAnswer ? (
               <div className="mt-4 space-y-4">
                 <input
                   ref={inputRef}
                   type="text"
                   value={userAnswer}
-                  onChange={(e) => setUserAnswer(e.target.value)}
+                  onChange={(e) => {
+                    // Response latency: how long before the learner started typing
+                    if (responseLatencyMs === null && e.target.value) {
+                      setResponseLatencyMs(Date.now() - cardShownAtRef.current);
+                    }
+                    setUserAnswer(e.target.value);
+                  }}
                   onKeyDown={(e) => e.key === 'Enter' && handleSubmitAnswer()}
                   placeholder="Type the phrase or word..."
                   className="w-full px-4 py-3 text-center text-lg border-2 border-slate-200 rounded-xl focus:border-indigo-500 focus:ring-0 outline-none transition-colors"
@@ -881,7 +1614,16 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
               </div>
             ) : (
               <div className="mt-4 space-y-4">
-                {/* Answer Result */}
+                {/* Self-graded answer */}
+                {!isTypedCard ? (
+                  <div className="p-4 rounded-xl bg-slate-50 border-2 border-slate-200 text-center">
+                    <p className="text-lg text-slate-800 leading-relaxed">{currentCard.definition}</p>
+                    {example && example !== currentCard.sourceContext && (
+                      <p className="text-slate-500 italic text-sm mt-2">"{example}"</p>
+                    )}
+                  </div>
+                ) : (
+                /* Answer Result */
                 <div className={`p-4 rounded-xl ${
                   answerResult === 'correct' 
                     ? 'bg-emerald-50 border-2 border-emerald-200' 
@@ -896,13 +1638,46 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                     <span className={`font-bold text-lg ${
                       answerResult === 'correct' ? 'text-emerald-700' : 'text-red-700'
                     }`}>
-                      {answerResult === 'correct' ? 'Correct!' : 'Not quite'}
+                      {answerGrade ? ANSWER_GRADE_LABELS[answerGrade] : answerResult === 'correct' ? 'Correct!' : 'Not quite'}
                     </span>
                   </div>
                   <div className="text-center">
                     <span className="font-bold text-slate-800 text-xl">{currentCard.term}</span>
+                    {cloze && cloze.answer.toLowerCase() !== currentCard.term.toLowerCase() && (
+                      <p className="text-sm text-slate-500 mt-1">
+                        In the sentence: <span className="font-semibold text-slate-700">{cloze.answer}</span>
+                      </p>
+                    )}
                   </div>
+                  {responseLatencyMs !== null && (
+                    <p className="text-xs text-slate-400 text-center mt-2">
+                      Started typing after {(responseLatencyMs / 1000).toFixed(1)}s
+                    </p>
+                  )}
                 </div>
+                )}
+
+                {/* Auto-grade notice */}
+                {srsSettings.gradingMode === 'auto' && suggestedQuality && (
+                  <div className="flex items-center justify-between gap-2 px-4 py-2 bg-slate-50 rounded-xl text-sm text-slate-600">
+                    {autoGradePaused ? (
+                      <span>Auto-grade paused - pick a rating</span>
+                    ) : (
+                      <span className="flex items-center gap-2">
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                        Rating as <span className="font-semibold">{QUALITY_LABELS[suggestedQuality]}</span>...
+                      </span>
+                    )}
+                    {!autoGradePaused && (
+                      <button
+                        onClick={() => setAutoGradePaused(true)}
+                        className="text-indigo-600 hover:text-indigo-800 font-medium"
+                      >
+                        Let me choose
+                      </button>
+                    )}
+                  </div>
+                )}
 
                 {/* Audio Button */}
                 <div className="flex justify-center">
@@ -922,7 +1697,7 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                   <div className="grid grid-cols-4 gap-2">
                     <button
                       onClick={() => handleQualitySelect('again')}
-                      className="py-3 px-2 bg-red-100 text-red-700 rounded-xl font-medium hover:bg-red-200 transition-colors text-sm"
+                      className={`py-3 px-2 bg-red-100 text-red-700 rounded-xl font-medium hover:bg-red-200 transition-colors text-sm${suggestedRing('again')}`}
                     >
                       <div className="flex items-center justify-center gap-1">
                         Again
@@ -934,7 +1709,7 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                     </button>
                     <button
                       onClick={() => handleQualitySelect('hard')}
-                      className="py-3 px-2 bg-amber-100 text-amber-700 rounded-xl font-medium hover:bg-amber-200 transition-colors text-sm"
+                      className={`py-3 px-2 bg-amber-100 text-amber-700 rounded-xl font-medium hover:bg-amber-200 transition-colors text-sm${suggestedRing('hard')}`}
                     >
                       <div className="flex items-center justify-center gap-1">
                         Hard
@@ -946,7 +1721,7 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                     </button>
                     <button
                       onClick={() => handleQualitySelect('good')}
-                      className="py-3 px-2 bg-emerald-100 text-emerald-700 rounded-xl font-medium hover:bg-emerald-200 transition-colors text-sm"
+                      className={`py-3 px-2 bg-emerald-100 text-emerald-700 rounded-xl font-medium hover:bg-emerald-200 transition-colors text-sm${suggestedRing('good')}`}
                     >
                       <div className="flex items-center justify-center gap-1">
                         Good
@@ -958,7 +1733,7 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
                     </button>
                     <button
                       onClick={() => handleQualitySelect('easy')}
-                      className="py-3 px-2 bg-indigo-100 text-indigo-700 rounded-xl font-medium hover:bg-indigo-200 transition-colors text-sm"
+                      className={`py-3 px-2 bg-indigo-100 text-indigo-700 rounded-xl font-medium hover:bg-indigo-200 transition-colors text-sm${suggestedRing('easy')}`}
                     >
                       <div className="flex items-center justify-center gap-1">
                         Easy
@@ -983,7 +1758,11 @@ const FlashcardReview: React.FC<Props> = ({ userId, savedAnalyses, hasBooks = fa
 
                 {/* Keyboard hints */}
                 <p className="text-xs text-slate-400 text-center">
-                  <kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-slate-600">Space</kbd> or <kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-slate-600">D</kbd> = Good
+                  {suggestedQuality ? (
+                    <><kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-slate-600">Space</kbd> = suggested ({QUALITY_LABELS[suggestedQuality]})</>
+                  ) : (
+                    <><kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-slate-600">Space</kbd> or <kbd className="px-1.5 py-0.5 bg-slate-100 rounded text-slate-600">D</kbd> = Good</>
+                  )}
                 </p>
               </div>
             )}
@@ -1,7 +1,8 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { SavedAnalysis, AnalysisFolder, VocabularyItem } from '../types';
+import { SavedAnalysis, AnalysisFolder, VocabularyItem, AnswerGrade } from '../types';
 import { Volume2, Trash2, ChevronLeft, ChevronRight, BookOpen, Calendar, ArrowRight, FolderPlus, Folder, FolderOpen, ChevronDown, ChevronUp, MoreHorizontal, Edit2, X, Check, GripVertical, CheckCircle, XCircle, GraduationCap, Trophy, RotateCcw, Award } from 'lucide-react';
 import { generateSpeech } from '../services/geminiService';
+import { checkAnswer } from '../services/answerChecker';
 
 interface Props {
   savedAnalyses: SavedAnalysis[];
@@ -46,6 +47,7 @@ const HistoryView: React.FC<Props> = ({
   const [flashcardIndex, setFlashcardIndex] = useState(0);
   const [userAnswer, setUserAnswer] = useState('');
   const [answerResult, setAnswerResult] = useState<'correct' | 'incorrect' | null>(null);
+  const [answerGrade, setAnswerGrade] = useState<AnswerGrade | null>(null);
   const [showAnswer, setShowAnswer] = useState(false);
   const inputRef = useRef<HTMLInputElement>(null);
   
@@ -111,6 +113,7 @@ const HistoryView: React.FC<Props> = ({
     setFlashcardIndex(0);
     setUserAnswer('');
     setAnswerResult(null);
+    setAnswerGrade(null);
     setShowAnswer(false);
     setCorrectCount(0);
     setIncorrectCount(0);
@@ -121,6 +124,7 @@ const HistoryView: React.FC<Props> = ({
     setPracticeAnalysis(null);
     setUserAnswer('');
     setAnswerResult(null);
+    setAnswerGrade(null);
     setShowAnswer(false);
     setCorrectCount(0);
     setIncorrectCount(0);
@@ -131,145 +135,21 @@ const HistoryView: React.FC<Props> = ({
     setFlashcardIndex(0);
     setUserAnswer('');
     setAnswerResult(null);
+    setAnswerGrade(null);
     setShowAnswer(false);
     setCorrectCount(0);
     setIncorrectCount(0);
     setShowResults(false);
   };
 
-  // Smart answer matching that handles variations like:
-  // "overstepped her bound" ≈ "overstep the bound" ≈ "overstep bound"
-  
-  // Simple stemming: remove common verb endings to match tenses
-  const stemWord = useCallback((word: string): string => {
-    if (word.length < 4) return word;
-    // Handle common verb endings: -ed, -ing, -s, -es
-    if (word.endsWith('ied')) return word.slice(0, -3) + 'y'; // carried → carry
-    if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2); // overstepped → overstep, but not "red"
-    if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3); // running → runn → will match run
-    if (word.endsWith('es') && word.length > 4) return word.slice(0, -2); // watches → watch
-    if (word.endsWith('s') && !word.endsWith('ss') && word.length > 3) return word.slice(0, -1); // runs → run
-    return word;
-  }, []);
-
-  const normalizeForComparison = useCallback((text: string): string => {
-    return text
-      .toLowerCase()
-      .trim()
-      // Remove common placeholder patterns
-      .replace(/\(something\)/gi, '')
-      .replace(/\(sth\)/gi, '')
-      .replace(/\(someone\)/gi, '')
-      .replace(/\(sb\)/gi, '')
-      .replace(/\(somebody\)/gi, '')
-      .replace(/\(one\)/gi, '')
-      .replace(/\(one's\)/gi, '')
-      .replace(/\(somewhere\)/gi, '')
-      .replace(/\(somehow\)/gi, '')
-      .replace(/\([^)]*\)/g, '') // Remove any remaining parenthetical content
-      // Normalize common variations
-      .replace(/\bsth\b/gi, '')
-      .replace(/\bsb\b/gi, '')
-      .replace(/\bsmth\b/gi, '')
-      // Remove articles
-      .replace(/\b(a|an|the)\b/gi, '')
-      // Remove pronouns (her, his, their, my, your, its, our, one's)
-      .replace(/\b(her|his|their|my|your|its|our|one's)\b/gi, '')
-      // Remove common filler words
-      .replace(/\b(it|to|of|in|on|at|for|with|by)\b/gi, '')
-      // Clean up whitespace
-      .replace(/\s+/g, ' ')
-      .trim();
-  }, []);
-
-  // Check if two words match (considering stems)
-  const wordsMatch = useCallback((word1: string, word2: string): boolean => {
-    if (word1 === word2) return true;
-    const stem1 = stemWord(word1);
-    const stem2 = stemWord(word2);
-    // Check stem match
-    if (stem1 === stem2) return true;
-    // Check if one contains the other (for partial matches)
-    if (stem1.length >= 3 && stem2.length >= 3) {
-      if (stem1.includes(stem2) || stem2.includes(stem1)) return true;
-    }
-    return false;
-  }, [stemWord]);
-
-  const checkAnswerMatch = useCallback((userInput: string, correctTerm: string): boolean => {
-    const normalizedUser = normalizeForComparison(userInput);
-    const normalizedTerm = normalizeForComparison(correctTerm);
-    
-    // Exact match after normalization
-    if (normalizedUser === normalizedTerm) return true;
-    
-    // Get core words (ignore very short words)
-    const termWords = normalizedTerm.split(' ').filter(w => w.length > 2);
-    const userWords = normalizedUser.split(' ').filter(w => w.length > 2);
-    
-    // If no significant words to compare, check similarity
-    if (termWords.length === 0 || userWords.length === 0) {
-      return calculateSimilarity(normalizedUser, normalizedTerm) >= 0.7;
-    }
-    
-    // Check if user answer contains all key words from the term (using stem matching)
-    const allTermWordsPresent = termWords.every(tw => 
-      userWords.some(uw => wordsMatch(tw, uw))
-    );
-    
-    // If all core words match, it's correct
-    if (allTermWordsPresent) return true;
-    
-    // Fuzzy match: allow for minor typos using similarity
-    const similarity = calculateSimilarity(normalizedUser, normalizedTerm);
-    if (similarity >= 0.75) return true;
-    
-    return false;
-  }, [normalizeForComparison, wordsMatch]);
-
-  // Simple similarity calculation (0 to 1)
-  const calculateSimilarity = (str1: string, str2: string): number => {
-    if (str1 === str2) return 1;
-    if (!str1 || !str2) return 0;
-    
-    const longer = str1.length > str2.length ? str1 : str2;
-    const shorter = str1.length > str2.length ? str2 : str1;
-    
-    if (longer.length === 0) return 1;
-    
-    // Simple Levenshtein distance
-    const matrix: number[][] = [];
-    for (let i = 0; i <= shorter.length; i++) {
-      matrix[i] = [i];
-    }
-    for (let j = 0; j <= longer.length; j++) {
-      matrix[0][j] = j;
-    }
-    for (let i = 1; i <= shorter.length; i++) {
-      for (let j = 1; j <= longer.length; j++) {
-        if (shorter[i-1] === longer[j-1]) {
-          matrix[i][j] = matrix[i-1][j-1];
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i-1][j-1] + 1,
-            matrix[i][j-1] + 1,
-            matrix[i-1][j] + 1
-          );
-        }
-      }
-    }
-    
-    const distance = matrix[shorter.length][longer.length];
-    return (longer.length - distance) / longer.length;
-  };
-
   const handleCheckAnswer = async () => {
     if (!userAnswer.trim() || !practiceAnalysis) return;
     
     const currentItem = practiceAnalysis.analysisResult.vocabulary[flashcardIndex];
-    const isCorrect = checkAnswerMatch(userAnswer, currentItem.term);
+    const { grade, isCorrect } = checkAnswer(userAnswer, currentItem.term);
     
     setAnswerResult(isCorrect ? 'correct' : 'incorrect');
+    setAnswerGrade(grade);
     setShowAnswer(true);
     
     // Track score
@@ -311,6 +191,7 @@ const HistoryView: React.FC<Props> = ({
       setFlashcardIndex(prev => prev + 1);
       setUserAnswer('');
       setAnswerResult(null);
+      setAnswerGrade(null);
       setShowAnswer(false);
     }
   };
@@ -353,6 +234,7 @@ const HistoryView: React.FC<Props> = ({
       setFlashcardIndex(prev => prev - 1);
       setUserAnswer('');
       setAnswerResult(null);
+      setAnswerGrade(null);
       setShowAnswer(false);
     }
   };
@@ -991,6 +873,9 @@ const HistoryView: React.FC<Props> = ({
                             <p className={`font-bold ${answerResult === 'correct' ? 'text-emerald-700' : 'text-red-700'}`}>
                               {answerResult === 'correct' ? 'Correct!' : 'Not quite...'}
                             </p>
+                            {answerGrade === 'typo' && (
+                              <p className="text-sm text-emerald-600">Watch the spelling: "{userAnswer}"</p>
+                            )}
                             {answerResult === 'incorrect' && userAnswer && (
                               <p className="text-sm text-red-600">Your answer: "{userAnswer}"</p>
                             )}
@@ -0,0 +1,108 @@
+import React, { useState, useEffect } from 'react';
+import { Bug, Loader2, EyeOff, Wrench } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { VocabularyReview, CARD_TYPE_LABELS } from '../types';
+import { getCardType } from '../services/cardTypes';
+import LeechRemediationModal from './LeechRemediationModal';
+
+interface Props {
+  userId: string;
+  sourceType?: string;
+  refreshKey?: number; // Bump to reload after a session
+  onChanged?: () => void; // Called after a leech is resolved (stats may change)
+}
+
+const LeechList: React.FC<Props> = ({ userId, sourceType, refreshKey = 0, onChanged }) => {
+  const [leeches, setLeeches] = useState<VocabularyReview[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [selectedLeech, setSelectedLeech] = useState<VocabularyReview | null>(null);
+
+  useEffect(() => {
+    loadLeeches();
+  }, [userId, sourceType, refreshKey]);
+
+  const loadLeeches = async () => {
+    setIsLoading(true);
+    try {
+      const data = await dataService.fetchLeeches(userId, sourceType);
+      setLeeches(data);
+    } catch (error) {
+      console.error('Error loading leeches:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleResolved = () => {
+    loadLeeches();
+    onChanged?.();
+  };
+
+  // Nothing to show until a card actually becomes a leech
+  if (!isLoading && leeches.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <Bug className="w-5 h-5 text-amber-500" />
+          <h2 className="text-lg font-bold text-slate-800">Leeches</h2>
+        </div>
+        <div className="text-sm text-slate-500">
+          {leeches.length} {leeches.length === 1 ? 'card keeps' : 'cards keep'} slipping
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-6 h-6 animate-spin text-amber-500" />
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {leeches.map(leech => (
+            <div
+              key={leech.id}
+              className="flex items-center justify-between gap-3 p-3 bg-amber-50 rounded-xl"
+            >
+              <div className="min-w-0">
+                <div className="flex items-center gap-2">
+                  <span className="font-bold text-slate-800 truncate">{leech.term}</span>
+                  {getCardType(leech) !== 'production' && (
+                    <span className="text-xs text-slate-400">{CARD_TYPE_LABELS[getCardType(leech)]}</span>
+                  )}
+                  {leech.isSuspended && (
+                    <span className="flex items-center gap-1 text-xs text-slate-500">
+                      <EyeOff className="w-3 h-3" />
+                      Suspended
+                    </span>
+                  )}
+                </div>
+                <div className="text-xs text-slate-500">
+                  Forgotten {leech.lapses ?? 0} times · {leech.incorrectCount} wrong answers
+                </div>
+              </div>
+              <button
+                onClick={() => setSelectedLeech(leech)}
+                className="flex items-center gap-1 px-3 py-1.5 bg-white text-amber-700 rounded-lg text-sm font-medium hover:bg-amber-100 transition-colors flex-shrink-0"
+              >
+                <Wrench className="w-4 h-4" />
+                Fix
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {selectedLeech && (
+        <LeechRemediationModal
+          userId={userId}
+          leech={selectedLeech}
+          onClose={() => setSelectedLeech(null)}
+          onResolved={handleResolved}
+        />
+      )}
+    </div>
+  );
+};
+
+export default LeechList;
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { X, Sparkles, Lightbulb, Loader2, RotateCcw } from 'lucide-react';
+import { VocabularyReview, DetailedExample } from '../types';
+import { generateLeechRemediation, LeechRemediationMode } from '../services/geminiService';
+import { dataService } from '../services/dataService';
+
+interface Props {
+  userId: string;
+  leech: VocabularyReview;
+  onClose: () => void;
+  onResolved: () => void;
+}
+
+const LeechRemediationModal: React.FC<Props> = ({ userId, leech, onClose, onResolved }) => {
+  const [loadingMode, setLoadingMode] = useState<LeechRemediationMode | null>(null);
+  const [newExamples, setNewExamples] = useState<DetailedExample[] | null>(null);
+  const [newImagery, setNewImagery] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const handleGenerate = async (mode: LeechRemediationMode) => {
+    setLoadingMode(mode);
+    setError(null);
+    try {
+      const result = await generateLeechRemediation(leech.term, leech.definition, mode, leech.sourceContext);
+      if (mode === 'mnemonic') {
+        setNewExamples(result.examples || []);
+      } else {
+        setNewImagery(result.imagery_etymology || null);
+      }
+    } catch (err) {
+      console.error('Error generating remediation:', err);
+      setError('Could not generate help for this word. Please try again.');
+    } finally {
+      setLoadingMode(null);
+    }
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const success = await dataService.resolveLeech(userId, leech, {
+        // Fresh mnemonics go first so they show on the card
+        examples: newExamples && newExamples.length > 0
+          ? [...newExamples, ...(leech.examples || [])]
+          : undefined,
+        imageryEtymology: newImagery || undefined,
+      });
+      if (success) {
+        onResolved();
+        onClose();
+      } else {
+        setError('Failed to save. Please try again.');
+      }
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const hasNewMaterial = (newExamples && newExamples.length > 0) || !!newImagery;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-amber-500 to-orange-500 px-6 py-4 flex items-center justify-between">
+          <div className="text-white">
+            <h2 className="text-lg font-bold">{leech.term}</h2>
+            <p className="text-sm text-white/80">Forgotten {leech.lapses ?? 0} times</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[70vh] overflow-y-auto">
+          <div>
+            <p className="text-slate-700">{leech.definition}</p>
+            {leech.sourceContext && (
+              <p className="text-sm text-slate-500 italic mt-2">"{leech.sourceContext}"</p>
+            )}
+          </div>
+
+          {/* Generate buttons */}
+          <div className="grid grid-cols-2 gap-3">
+            <button
+              onClick={() => handleGenerate('mnemonic')}
+              disabled={loadingMode !== null}
+              className="p-3 rounded-xl border-2 border-slate-200 hover:border-amber-400 hover:bg-amber-50 transition-colors text-left disabled:opacity-50"
+            >
+              <div className="flex items-center gap-2 font-bold text-slate-800">
+                {loadingMode === 'mnemonic' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Sparkles className="w-4 h-4 text-amber-500" />}
+                Mnemonic examples
+              </div>
+              <div className="text-xs text-slate-500 mt-1">Vivid new sentences that are easy to picture</div>
+            </button>
+            <button
+              onClick={() => handleGenerate('imagery_etymology')}
+              disabled={loadingMode !== null}
+              className="p-3 rounded-xl border-2 border-slate-200 hover:border-amber-400 hover:bg-amber-50 transition-colors text-left disabled:opacity-50"
+            >
+              <div className="flex items-center gap-2 font-bold text-slate-800">
+                {loadingMode === 'imagery_etymology' ? <Loader2 className="w-4 h-4 animate-spin" /> : <Lightbulb className="w-4 h-4 text-amber-500" />}
+                Imagery & etymology
+              </div>
+              <div className="text-xs text-slate-500 mt-1">The picture or origin behind the words</div>
+            </button>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600">{error}</p>
+          )}
+
+          {/* Current imagery */}
+          {!newImagery && leech.imageryEtymology && (
+            <div className="p-3 bg-slate-50 rounded-xl">
+              <p className="text-xs font-bold text-slate-400 uppercase mb-1">Current imagery</p>
+              <p className="text-sm text-slate-600">{leech.imageryEtymology}</p>
+            </div>
+          )}
+
+          {/* Generated material */}
+          {newImagery && (
+            <div className="p-3 bg-amber-50 border border-amber-200 rounded-xl">
+              <p className="text-xs font-bold text-amber-600 uppercase mb-1">New imagery</p>
+              <p className="text-sm text-slate-700">{newImagery}</p>
+            </div>
+          )}
+
+          {newExamples && newExamples.length > 0 && (
+            <div className="space-y-2">
+              <p className="text-xs font-bold text-amber-600 uppercase">New examples</p>
+              {newExamples.map((example, i) => (
+                <div key={i} className="p-3 bg-amber-50 border border-amber-200 rounded-xl">
+                  <p className="text-sm text-slate-700 italic">"{example.sentence}"</p>
+                  {example.explanation && (
+                    <p className="text-xs text-slate-500 mt-1">{example.explanation}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 flex justify-between items-center gap-3">
+          <p className="text-xs text-slate-400">Saving clears the leech flag and brings the card back.</p>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || loadingMode !== null}
+            className="px-4 py-2 bg-amber-500 text-white rounded-lg font-medium hover:bg-amber-600 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2 whitespace-nowrap"
+          >
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+            {hasNewMaterial ? 'Save & restart' : 'Restart card'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LeechRemediationModal;
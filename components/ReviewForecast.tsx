@@ -0,0 +1,96 @@
+import React, { useState, useEffect } from 'react';
+import { CalendarDays, Loader2 } from 'lucide-react';
+import { dataService } from '../services/dataService';
+import { DueForecastDay } from '../types';
+
+interface Props {
+  userId: string;
+  sourceType?: string;
+  days?: number;
+  refreshKey?: number; // Bump to reload after a session
+}
+
+const formatDayLabel = (date: string, index: number): string => {
+  if (index === 0) return 'Today';
+  if (index === 1) return 'Tmrw';
+  const [, month, day] = date.split('-');
+  return `${parseInt(month)}/${parseInt(day)}`;
+};
+
+const ReviewForecast: React.FC<Props> = ({ userId, sourceType, days = 30, refreshKey = 0 }) => {
+  const [forecast, setForecast] = useState<DueForecastDay[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    loadForecast();
+  }, [userId, sourceType, days, refreshKey]);
+
+  const loadForecast = async () => {
+    setIsLoading(true);
+    try {
+      const data = await dataService.fetchDueForecast(userId, days, sourceType);
+      setForecast(data);
+    } catch (error) {
+      console.error('Error loading review forecast:', error);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const maxCount = Math.max(1, ...forecast.map(day => day.count));
+  const totalCount = forecast.reduce((sum, day) => sum + day.count, 0);
+  const weekCount = forecast.slice(0, 7).reduce((sum, day) => sum + day.count, 0);
+
+  return (
+    <div className="bg-white rounded-2xl shadow-lg p-6 mb-6">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center gap-2">
+          <CalendarDays className="w-5 h-5 text-indigo-600" />
+          <h2 className="text-lg font-bold text-slate-800">Upcoming Reviews</h2>
+        </div>
+        <div className="text-sm text-slate-500">
+          {weekCount} this week · {totalCount} in {days} days
+        </div>
+      </div>
+
+      {isLoading ? (
+        <div className="flex justify-center py-8">
+          <Loader2 className="w-6 h-6 animate-spin text-indigo-500" />
+        </div>
+      ) : (
+        <>
+          <div className="flex items-end gap-0.5 h-32">
+            {forecast.map((day, index) => (
+              <div
+                key={day.date}
+                className="flex-1 h-full flex flex-col justify-end group relative"
+              >
+                <div
+                  className={`w-full rounded-t transition-all ${
+                    index === 0 ? 'bg-indigo-500' : 'bg-indigo-300 group-hover:bg-indigo-400'
+                  }`}
+                  style={{ height: `${(day.count / maxCount) * 100}%`, minHeight: day.count > 0 ? '2px' : '0' }}
+                />
+                {/* Tooltip */}
+                <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-1 px-2 py-1 bg-slate-800 text-white text-xs rounded whitespace-nowrap opacity-0 group-hover:opacity-100 pointer-events-none z-10">
+                  {formatDayLabel(day.date, index)}: {day.count} {day.count === 1 ? 'card' : 'cards'}
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="flex justify-between mt-2 text-xs text-slate-400">
+            {forecast.length > 0 && (
+              <>
+                <span>{formatDayLabel(forecast[0].date, 0)}</span>
+                <span>{formatDayLabel(forecast[Math.floor(forecast.length / 2)].date, Math.floor(forecast.length / 2))}</span>
+                <span>{formatDayLabel(forecast[forecast.length - 1].date, forecast.length - 1)}</span>
+              </>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ReviewForecast;
@@ -0,0 +1,386 @@
+import React, { useState, useEffect } from 'react';
+import { X, Settings, Brain, Loader2, Footprints, CalendarClock, Layers, Timer, Bug, ListPlus } from 'lucide-react';
+import { SrsSettings, SchedulerType, ReviewSourceType, CardType, CARD_TYPE_LABELS, GradingMode, LeechAction, VocabularyCategory } from '../types';
+import { ALL_CARD_TYPES } from '../services/cardTypes';
+import { FAST_RESPONSE_MS, SLOW_RESPONSE_MS } from '../services/answerChecker';
+
+interface Props {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: SrsSettings;
+  onSave: (settings: SrsSettings) => Promise<void>;
+}
+
+const SCHEDULER_OPTIONS: { type: SchedulerType; name: string; description: string }[] = [
+  {
+    type: 'sm2',
+    name: 'SM-2',
+    description: 'Classic SuperMemo algorithm. Intervals grow by an ease factor after each correct answer.',
+  },
+  {
+    type: 'fsrs',
+    name: 'FSRS',
+    description: 'Models memory stability and difficulty. Handles long gaps and lapses more accurately.',
+  },
+];
+
+const GRADING_OPTIONS: { mode: GradingMode; name: string; description: string }[] = [
+  {
+    mode: 'manual',
+    name: 'Manual',
+    description: 'Always pick Again / Hard / Good / Easy yourself. The suggested rating is highlighted.',
+  },
+  {
+    mode: 'auto',
+    name: 'Auto-grade',
+    description: 'Typed answers are rated from correctness and how quickly you started typing. You can still step in.',
+  },
+];
+
+const SOURCE_LABELS: Record<ReviewSourceType, string> = {
+  text_analysis: 'Text Analysis',
+  book_library: 'Book Library',
+  imported: 'Imported',
+};
+
+const CATEGORY_LABELS: Record<VocabularyCategory, string> = {
+  idioms_fixed: 'Idioms & Fixed Expressions',
+  phrasal_verbs: 'Phrasal Verbs',
+  nuance_sarcasm: 'Nuance & Sarcasm',
+  chunks_structures: 'Structures & "Chunks"',
+  topic_specific: 'Topic Specific Jargon',
+};
+
+// Steps are edited as space/comma separated minutes, e.g. "1 10"
+const formatSteps = (steps: number[]): string => steps.join(' ');
+
+const parseSteps = (value: string): number[] | null => {
+  const parts = value.split(/[\s,]+/).filter(Boolean);
+  const steps = parts.map(Number);
+  if (steps.some(step => !Number.isInteger(step) || step <= 0)) return null;
+  return steps;
+};
+
+const ReviewSettingsModal: React.FC<Props> = ({ isOpen, onClose, settings, onSave }) => {
+  const [draft, setDraft] = useState<SrsSettings>(settings);
+  const [learningStepsText, setLearningStepsText] = useState(formatSteps(settings.learningSteps));
+  const [relearningStepsText, setRelearningStepsText] = useState(formatSteps(settings.relearningSteps));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Reset draft from saved settings whenever the modal opens
+  useEffect(() => {
+    setDraft(settings);
+    setLearningStepsText(formatSteps(settings.learningSteps));
+    setRelearningStepsText(formatSteps(settings.relearningSteps));
+  }, [settings, isOpen]);
+
+  if (!isOpen) return null;
+
+  const learningSteps = parseSteps(learningStepsText);
+  const relearningSteps = parseSteps(relearningStepsText);
+  const hasCardTypes = (Object.keys(SOURCE_LABELS) as ReviewSourceType[]).every(source => draft.enabledCardTypes[source].length > 0);
+  const isValid = learningSteps !== null && relearningSteps !== null && hasCardTypes;
+
+  const toggleCardType = (source: ReviewSourceType, type: CardType) => {
+    setDraft(prev => {
+      const current = prev.enabledCardTypes[source];
+      const next = current.includes(type)
+        ? current.filter(t => t !== type)
+        : ALL_CARD_TYPES.filter(t => t === type || current.includes(t));
+      return { ...prev, enabledCardTypes: { ...prev.enabledCardTypes, [source]: next } };
+    });
+  };
+
+  const toggleExcludedCategory = (category: VocabularyCategory) => {
+    setDraft(prev => ({
+      ...prev,
+      autoAddExcludedCategories: prev.autoAddExcludedCategories.includes(category)
+        ? prev.autoAddExcludedCategories.filter(c => c !== category)
+        : [...prev.autoAddExcludedCategories, category],
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!learningSteps || !relearningSteps) return;
+    setIsSaving(true);
+    try {
+      await onSave({ ...draft, learningSteps, relearningSteps });
+      onClose();
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-600 to-purple-600 px-6 py-4 flex items-center justify-between">
+          <div className="flex items-center gap-3 text-white">
+            <Settings className="w-5 h-5" />
+            <h2 className="text-lg font-bold">Review Settings</h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-6 max-h-[70vh] overflow-y-auto">
+          {/* Scheduler Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Brain className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-semibold text-slate-800">Scheduling Algorithm</h3>
+            </div>
+            <div className="space-y-2">
+              {SCHEDULER_OPTIONS.map(option => (
+                <button
+                  key={option.type}
+                  onClick={() => setDraft(prev => ({ ...prev, scheduler: option.type }))}
+                  className={`w-full text-left p-3 rounded-xl border-2 transition-colors ${
+                    draft.scheduler === option.type
+                      ? 'border-indigo-500 bg-indigo-50'
+                      : 'border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  <div className="font-bold text-slate-800">{option.name}</div>
+                  <div className="text-sm text-slate-500">{option.description}</div>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              Your existing review history carries over when you switch.
+            </p>
+          </div>
+
+          {/* Grading Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Timer className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-semibold text-slate-800">Grading</h3>
+            </div>
+            <div className="space-y-2">
+              {GRADING_OPTIONS.map(option => (
+                <button
+                  key={option.mode}
+                  onClick={() => setDraft(prev => ({ ...prev, gradingMode: option.mode }))}
+                  className={`w-full text-left p-3 rounded-xl border-2 transition-colors ${
+                    draft.gradingMode === option.mode
+                      ? 'border-indigo-500 bg-indigo-50'
+                      : 'border-slate-200 hover:border-slate-300'
+                  }`}
+                >
+                  <div className="font-bold text-slate-800">{option.name}</div>
+                  <div className="text-sm text-slate-500">{option.description}</div>
+                </button>
+              ))}
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              Correct within {FAST_RESPONSE_MS / 1000}s suggests Easy, after {SLOW_RESPONSE_MS / 1000}s suggests Hard.
+            </p>
+          </div>
+
+          {/* Learning Steps Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Footprints className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-semibold text-slate-800">Learning Steps</h3>
+            </div>
+            <p className="text-sm text-slate-500 mb-3">
+              Minutes between repeats within a session, separated by spaces. Cards inside their steps come back before the session ends.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">New cards</span>
+                <input
+                  type="text"
+                  value={learningStepsText}
+                  onChange={(e) => setLearningStepsText(e.target.value)}
+                  placeholder="1 10"
+                  className={`w-full px-3 py-2 border-2 rounded-lg outline-none transition-colors ${
+                    learningSteps ? 'border-slate-200 focus:border-indigo-500' : 'border-red-300'
+                  }`}
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Lapsed cards</span>
+                <input
+                  type="text"
+                  value={relearningStepsText}
+                  onChange={(e) => setRelearningStepsText(e.target.value)}
+                  placeholder="10"
+                  className={`w-full px-3 py-2 border-2 rounded-lg outline-none transition-colors ${
+                    relearningSteps ? 'border-slate-200 focus:border-indigo-500' : 'border-red-300'
+                  }`}
+                />
+              </label>
+            </div>
+            <p className="text-xs text-slate-400 mt-2">
+              Leave empty to skip steps and schedule straight into days.
+            </p>
+          </div>
+
+          {/* Daily Limits Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <CalendarClock className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-semibold text-slate-800">Daily Limits</h3>
+            </div>
+            <p className="text-sm text-slate-500 mb-3">
+              Shared across all sessions and devices. Resets at midnight.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">New cards / day</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.newCardsPerDay}
+                  onChange={(e) => setDraft(prev => ({ ...prev, newCardsPerDay: Math.max(0, parseInt(e.target.value) || 0) }))}
+                  className="w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Reviews / day</span>
+                <input
+                  type="number"
+                  min={0}
+                  value={draft.reviewsPerDay}
+                  onChange={(e) => setDraft(prev => ({ ...prev, reviewsPerDay: Math.max(0, parseInt(e.target.value) || 0) }))}
+                  className="w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors"
+                />
+              </label>
+            </div>
+          </div>
+
+          {/* Leeches Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Bug className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-semibold text-slate-800">Leeches</h3>
+            </div>
+            <p className="text-sm text-slate-500 mb-3">
+              A card becomes a leech once you forget it this many times after learning it.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">Lapse threshold</span>
+                <input
+                  type="number"
+                  min={1}
+                  value={draft.leechThreshold}
+                  onChange={(e) => setDraft(prev => ({ ...prev, leechThreshold: Math.max(1, parseInt(e.target.value) || 1) }))}
+                  className="w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors"
+                />
+              </label>
+              <label className="block">
+                <span className="block text-sm font-medium text-slate-700 mb-1">When detected</span>
+                <select
+                  value={draft.leechAction}
+                  onChange={(e) => setDraft(prev => ({ ...prev, leechAction: e.target.value as LeechAction }))}
+                  className="w-full px-3 py-2 border-2 border-slate-200 rounded-lg outline-none focus:border-indigo-500 transition-colors bg-white"
+                >
+                  <option value="tag">Tag only</option>
+                  <option value="suspend">Tag and suspend</option>
+                </select>
+              </label>
+            </div>
+          </div>
+
+          {/* Auto-add Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <ListPlus className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-semibold text-slate-800">Auto-add</h3>
+            </div>
+            <label className="flex items-start gap-2 text-sm text-slate-600 cursor-pointer mb-3">
+              <input
+                type="checkbox"
+                checked={draft.autoAddVocabulary}
+                onChange={(e) => setDraft(prev => ({ ...prev, autoAddVocabulary: e.target.checked }))}
+                className="mt-0.5 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+              />
+              Add new words to review as soon as an analysis or chapter vocabulary is saved
+            </label>
+            {draft.autoAddVocabulary && (
+              <div>
+                <span className="block text-sm font-medium text-slate-700 mb-1">Categories to add</span>
+                <div className="space-y-1">
+                  {(Object.keys(CATEGORY_LABELS) as VocabularyCategory[]).map(category => (
+                    <label key={category} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                      <input
+                        type="checkbox"
+                        checked={!draft.autoAddExcludedCategories.includes(category)}
+                        onChange={() => toggleExcludedCategory(category)}
+                        className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                      />
+                      {CATEGORY_LABELS[category]}
+                    </label>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Card Types Section */}
+          <div>
+            <div className="flex items-center gap-2 mb-3">
+              <Layers className="w-5 h-5 text-indigo-600" />
+              <h3 className="font-semibold text-slate-800">Card Types</h3>
+            </div>
+            <p className="text-sm text-slate-500 mb-3">
+              Each enabled type becomes its own card with its own schedule. Cloze cards are only created when the word has a sentence to blank out.
+            </p>
+            <div className="grid grid-cols-2 gap-3">
+              {(Object.keys(SOURCE_LABELS) as ReviewSourceType[]).map(source => (
+                <div key={source}>
+                  <span className="block text-sm font-medium text-slate-700 mb-1">{SOURCE_LABELS[source]}</span>
+                  <div className="space-y-1">
+                    {ALL_CARD_TYPES.map(type => (
+                      <label key={type} className="flex items-center gap-2 text-sm text-slate-600 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          checked={draft.enabledCardTypes[source].includes(type)}
+                          onChange={() => toggleCardType(source, type)}
+                          className="rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                        />
+                        {CARD_TYPE_LABELS[type]}
+                      </label>
+                    ))}
+                  </div>
+                  {draft.enabledCardTypes[source].length === 0 && (
+                    <p className="text-xs text-red-500 mt-1">Pick at least one</p>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 flex justify-end gap-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 text-slate-600 hover:text-slate-800 font-medium transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSaving || !isValid}
+            className="px-6 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSettingsModal;
@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { SavedAnalysis, UserProficiency } from '../types';
-import { Plus, MessageSquare, Trash2, ChevronLeft, Sparkles, LogOut, LogIn, Cloud, CloudOff, History, FolderOpen, Check, X, Settings } from 'lucide-react';
+import { Plus, MessageSquare, Trash2, ChevronLeft, Sparkles, LogOut, LogIn, Cloud, CloudOff, History, FolderOpen, Check, X, Settings, DatabaseBackup } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
 import AuthModal from './AuthModal';
 import CalendarHeatmap from './CalendarHeatmap';
@@ -18,6 +18,7 @@ interface Props {
     isHistoryActive?: boolean;
     proficiency: UserProficiency | null;
     onSaveProficiency: (proficiency: UserProficiency) => void;
+    onOpenBackup?: () => void;
 }
 
 // Helper function to generate a smart display name for an analysis
@@ -38,7 +39,7 @@ const getAnalysisDisplayName = (analysis: SavedAnalysis): string => {
     return firstSentence.substring(0, 37) + '...';
 };
 
-const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis, onRemoveAnalysis, onRenameAnalysis, isOpen, toggleSidebar, onOpenHistory, isHistoryActive, proficiency, onSaveProficiency }) => {
+const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis, onRemoveAnalysis, onRenameAnalysis, isOpen, toggleSidebar, onOpenHistory, isHistoryActive, proficiency, onSaveProficiency, onOpenBackup }) => {
     const [isAuthModalOpen, setIsAuthModalOpen] = useState(false);
     const [isHeatmapOpen, setIsHeatmapOpen] = useState(false);
     const [isSettingsOpen, setIsSettingsOpen] = useState(false);
@@ -250,6 +251,15 @@ const Sidebar: React.FC<Props> = ({ savedAnalyses, onLoadAnalysis, onNewAnalysis
                             </span>
                         )}
                     </button>
+                    {onOpenBackup && (
+                        <button
+                            onClick={onOpenBackup}
+                            className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 text-slate-300 rounded-lg hover:bg-slate-700 hover:text-white transition-all text-sm"
+                        >
+                            <DatabaseBackup className="w-4 h-4" />
+                            Backup &amp; Restore
+                        </button>
+                    )}
                 </div>
 
                 {/* Footer - User Section */}
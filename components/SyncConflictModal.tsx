@@ -0,0 +1,144 @@
+import React, { useState } from 'react';
+import { X, GitMerge, Laptop, Cloud, Loader2 } from 'lucide-react';
+import { SyncConflict, AnalysisFolder, Note } from '../types';
+
+export type ConflictChoice = 'local' | 'remote';
+
+interface Props {
+  conflicts: SyncConflict[];
+  folders: AnalysisFolder[];
+  onResolve: (choices: { conflict: SyncConflict; keep: ConflictChoice }[]) => Promise<void>;
+  onClose: () => void;  // Decide later: this device keeps its values for now
+}
+
+const FIELD_LABELS: Record<SyncConflict['field'], string> = {
+  title: 'Title',
+  notes: 'Notes',
+  folderId: 'Folder',
+  flashcardPassed: 'Flashcards',
+  name: 'Folder name',
+  color: 'Folder colour',
+};
+
+const conflictKey = (conflict: SyncConflict) => `${conflict.kind}:${conflict.recordId}:${conflict.field}`;
+
+// Shown when the same field of an analysis or folder was changed on this device and on another one
+const SyncConflictModal: React.FC<Props> = ({ conflicts, folders, onResolve, onClose }) => {
+  const [choices, setChoices] = useState<Record<string, ConflictChoice>>({});
+  const [isSaving, setIsSaving] = useState(false);
+
+  const describe = (conflict: SyncConflict, value: unknown): string => {
+    switch (conflict.field) {
+      case 'notes': {
+        const notes = (value as Note[]) || [];
+        if (notes.length === 0) return 'No notes';
+        const words = notes.slice(0, 3).map(n => n.word).join(', ');
+        return `${notes.length} ${notes.length === 1 ? 'note' : 'notes'}: ${words}${notes.length > 3 ? '…' : ''}`;
+      }
+      case 'folderId':
+        return value ? folders.find(f => f.id === value)?.name || 'Another folder' : 'No folder';
+      case 'flashcardPassed':
+        return value ? 'Passed' : 'Not passed';
+      default:
+        return value ? String(value) : '(none)';
+    }
+  };
+
+  const allChosen = conflicts.every(c => choices[conflictKey(c)]);
+
+  const chooseAll = (keep: ConflictChoice) => {
+    setChoices(Object.fromEntries(conflicts.map(c => [conflictKey(c), keep])));
+  };
+
+  const handleApply = async () => {
+    setIsSaving(true);
+    try {
+      await onResolve(conflicts.map(conflict => ({ conflict, keep: choices[conflictKey(conflict)] })));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderOption = (conflict: SyncConflict, keep: ConflictChoice) => {
+    const selected = choices[conflictKey(conflict)] === keep;
+    const value = keep === 'local' ? conflict.localValue : conflict.remoteValue;
+    return (
+      <button
+        onClick={() => setChoices(prev => ({ ...prev, [conflictKey(conflict)]: keep }))}
+        className={`p-3 rounded-xl border-2 text-left transition-colors ${
+          selected ? 'border-indigo-500 bg-indigo-50' : 'border-slate-200 hover:border-indigo-300'
+        }`}
+      >
+        <div className="flex items-center gap-1.5 text-xs font-bold text-slate-400 uppercase mb-1">
+          {keep === 'local' ? <Laptop className="w-3.5 h-3.5" /> : <Cloud className="w-3.5 h-3.5" />}
+          {keep === 'local' ? 'This device' : 'Other device'}
+        </div>
+        <p className="text-sm text-slate-700 break-words">{describe(conflict, value)}</p>
+      </button>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden">
+        {/* Header */}
+        <div className="bg-gradient-to-r from-indigo-500 to-purple-500 px-6 py-4 flex items-center justify-between">
+          <div className="text-white">
+            <h2 className="text-lg font-bold flex items-center gap-2">
+              <GitMerge className="w-5 h-5" />
+              Changes on two devices
+            </h2>
+            <p className="text-sm text-white/80">
+              {conflicts.length} {conflicts.length === 1 ? 'change was' : 'changes were'} made both here and elsewhere. Pick which to keep.
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="text-white/80 hover:text-white transition-colors"
+            title="Decide later"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-5 max-h-[60vh] overflow-y-auto">
+          {conflicts.map(conflict => (
+            <div key={conflictKey(conflict)}>
+              <p className="text-sm font-bold text-slate-800 truncate">
+                {conflict.recordName}
+                <span className="ml-2 font-medium text-slate-400">{FIELD_LABELS[conflict.field]}</span>
+              </p>
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                {renderOption(conflict, 'local')}
+                {renderOption(conflict, 'remote')}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="px-6 py-4 bg-slate-50 flex justify-between items-center gap-3">
+          <div className="flex gap-3 text-xs font-medium">
+            <button onClick={() => chooseAll('local')} className="text-indigo-600 hover:text-indigo-800">
+              All from this device
+            </button>
+            <button onClick={() => chooseAll('remote')} className="text-indigo-600 hover:text-indigo-800">
+              All from other device
+            </button>
+          </div>
+          <button
+            onClick={handleApply}
+            disabled={!allChosen || isSaving}
+            className="px-4 py-2 bg-indigo-600 text-white rounded-lg font-medium hover:bg-indigo-700 transition-colors shadow-lg disabled:opacity-50 flex items-center gap-2 whitespace-nowrap"
+          >
+            {isSaving && <Loader2 className="w-4 h-4 animate-spin" />}
+            Keep selected
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SyncConflictModal;
@@ -0,0 +1,32 @@
+import React, { useState, useEffect } from 'react';
+import { CloudOff, RefreshCw } from 'lucide-react';
+import { syncEngine, SyncStatus } from '../services/syncEngine';
+
+// Shows when the app is offline or still has changes waiting to reach the cloud
+const SyncStatusBadge: React.FC = () => {
+  const [status, setStatus] = useState<SyncStatus | null>(null);
+
+  useEffect(() => syncEngine.subscribe(setStatus), []);
+
+  if (!status || (status.online && status.pending === 0)) return null;
+
+  const changes = `${status.pending} ${status.pending === 1 ? 'change' : 'changes'}`;
+
+  return (
+    <div className="absolute bottom-4 right-4 z-40 flex items-center gap-2 px-3 py-1.5 bg-white rounded-full shadow-md border border-slate-200 text-xs font-medium text-slate-600">
+      {status.online ? (
+        <>
+          <RefreshCw className={`w-3.5 h-3.5 text-indigo-500 ${status.syncing ? 'animate-spin' : ''}`} />
+          Syncing {changes}…
+        </>
+      ) : (
+        <>
+          <CloudOff className="w-3.5 h-3.5 text-amber-500" />
+          Offline{status.pending > 0 ? ` · ${changes} saved on this device` : ''}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default SyncStatusBadge;
@@ -0,0 +1,80 @@
+import React, { useState, useId } from 'react';
+import { Tag, X } from 'lucide-react';
+import { parseTags, mergeTags } from '../services/tags';
+
+interface Props {
+  tags: string[];
+  onChange: (tags: string[]) => void;
+  suggestions?: string[]; // Existing tags offered while typing
+  placeholder?: string;
+}
+
+// Tag chips with an input. Enter or comma adds the typed tags ("work::meetings, show::succession").
+const TagEditor: React.FC<Props> = ({ tags, onChange, suggestions = [], placeholder = 'Add tag…' }) => {
+  const [input, setInput] = useState('');
+  const listId = useId();
+
+  const addTyped = () => {
+    const typed = parseTags(input);
+    setInput('');
+    if (typed.length === 0) return;
+    const next = mergeTags(tags, typed);
+    if (next.length !== tags.length) onChange(next);
+  };
+
+  const removeTag = (tag: string) => {
+    onChange(tags.filter(t => t !== tag));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTyped();
+    } else if (e.key === 'Backspace' && input === '' && tags.length > 0) {
+      removeTag(tags[tags.length - 1]);
+    }
+  };
+
+  return (
+    <div
+      className="flex flex-wrap items-center gap-1.5"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <Tag className="w-3.5 h-3.5 text-slate-400" />
+      {tags.map(tag => (
+        <span
+          key={tag}
+          className="inline-flex items-center gap-1 px-2 py-0.5 bg-slate-100 text-slate-600 rounded-full text-xs font-medium"
+        >
+          {tag}
+          <button
+            onClick={() => removeTag(tag)}
+            className="text-slate-400 hover:text-red-500 transition-colors"
+            title="Remove tag"
+          >
+            <X className="w-3 h-3" />
+          </button>
+        </span>
+      ))}
+      <input
+        type="text"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={handleKeyDown}
+        onBlur={addTyped}
+        placeholder={placeholder}
+        list={suggestions.length > 0 ? listId : undefined}
+        className="flex-1 min-w-[100px] px-1 py-0.5 text-xs bg-transparent outline-none text-slate-600 placeholder-slate-400"
+      />
+      {suggestions.length > 0 && (
+        <datalist id={listId}>
+          {suggestions.filter(s => !tags.includes(s)).map(s => (
+            <option key={s} value={s} />
+          ))}
+        </datalist>
+      )}
+    </div>
+  );
+};
+
+export default TagEditor;
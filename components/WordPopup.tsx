@@ -1,7 +1,8 @@
 import React from 'react';
-import { X, Volume2, Check, HelpCircle, BarChart3 } from 'lucide-react';
+import { X, Volume2, Check, HelpCircle, BarChart3, Clock } from 'lucide-react';
 import { VocabularyItem, UserProficiency, EnglishTestType } from '../types';
 import { generateSpeech } from '../services/geminiService';
+import { formatTimestamp } from '../services/subtitleService';
 
 interface Props {
     item: VocabularyItem;
@@ -144,7 +145,14 @@ const WordPopup: React.FC<Props> = ({ item, position, isKnown, onClose, onMarkKn
                 {/* Context */}
                 {item.source_context && (
                     <div className="px-4 py-3 bg-slate-50 border-b border-slate-100">
-                        <p className="text-xs font-bold text-slate-400 uppercase mb-1">In context</p>
+                        <p className="text-xs font-bold text-slate-400 uppercase mb-1 flex items-center gap-1">
+                            In context
+                            {item.source_timestamp_ms !== undefined && (
+                                <span className="ml-auto flex items-center gap-1 font-mono text-indigo-500" title="When it was said">
+                                    <Clock className="w-3 h-3" /> {formatTimestamp(item.source_timestamp_ms)}
+                                </span>
+                            )}
+                        </p>
                         <p className="text-sm text-slate-600 italic">"{item.source_context}"</p>
                     </div>
                 )}
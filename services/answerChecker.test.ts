@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { checkAnswer, suggestQuality } from './answerChecker';
+import { AnswerGrade } from '../types';
+
+describe('checkAnswer', () => {
+  it.each<[string, string, AnswerGrade]>([
+    // Same words as the term
+    ['run into', 'run into', 'exact'],
+    ['Run Into!', 'run into', 'exact'],
+    ['to run into', 'run into', 'exact'],
+    // Another form of the term
+    ['ran into', 'run into', 'inflection'],
+    ['running into', 'run into', 'inflection'],
+    ['packed into', 'pack into', 'inflection'],
+    ['overstepped the bounds', 'overstep one\'s bounds', 'inflection'],
+    // sb/sth placeholders can be typed or left out
+    ['look down on', 'look down on sb', 'exact'],
+    ['look down on sb', 'look down on sb', 'exact'],
+    ['put off', 'put sth off', 'exact'],
+    ['put it off', 'put sth off', 'exact'],
+    ['looked down on someone', 'look down on sb', 'inflection'],
+    // Optional particles
+    ['fit in', 'fit in (with)', 'exact'],
+    ['fit in with', 'fit in (with)', 'exact'],
+    ['fitted in with', 'fit in (with)', 'inflection'],
+    // Alternatives
+    ['make do', 'make do, get by', 'exact'],
+    ['get by', 'make do, get by', 'exact'],
+    // Misspellings are typos, other words are wrong
+    ['pakc into', 'pack into', 'typo'],
+    ['overstpe', 'overstep', 'typo'],
+    ['pack onto', 'pack into', 'wrong'],
+    ['run out', 'run into', 'wrong'],
+    ['fit', 'fit in (with)', 'wrong'],
+    ['rnu into', 'run into', 'wrong'],
+    ['', 'run into', 'wrong'],
+  ])('grades "%s" for "%s" as %s', (answer, term, grade) => {
+    const result = checkAnswer(answer, term);
+    expect(result.grade).toBe(grade);
+    expect(result.isCorrect).toBe(grade !== 'wrong');
+  });
+
+  it('accepts forms from a cloze sentence as exact', () => {
+    expect(checkAnswer('was packed into', 'pack into', { acceptedForms: ['was packed into'] }).grade).toBe('exact');
+  });
+});
+
+describe('suggestQuality', () => {
+  it.each<[AnswerGrade, number | undefined, string]>([
+    ['exact', undefined, 'good'],
+    ['exact', 1000, 'easy'],
+    ['inflection', 1000, 'good'],
+    ['exact', 15000, 'hard'],
+    ['typo', 1000, 'hard'],
+    ['wrong', 1000, 'again'],
+  ])('suggests for %s after %s ms: %s', (grade, latency, quality) => {
+    expect(suggestQuality(grade, latency)).toBe(quality);
+  });
+});
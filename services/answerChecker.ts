@@ -0,0 +1,204 @@
+/**
+ * Answer Checking
+ *
+ * One place that decides whether a typed answer matches a vocabulary term.
+ * Used by flashcard review and analysis practice so both grade the same way.
+ *
+ * Grades:
+ * - exact:      same words as the term (ignoring case, punctuation, articles, sb/sth)
+ * - inflection: same words in another form ("ran into" for "run into")
+ * - typo:       close enough to count, but misspelt ("pakc into")
+ * - wrong:      anything else
+ */
+
+import { AnswerGrade, SimpleQuality } from '../types';
+import { parseTerm, matchesTermToken, isPlaceholder, TermToken } from './inflections';
+
+export interface AnswerCheckResult {
+  grade: AnswerGrade;
+  isCorrect: boolean;   // exact, inflection and typo all count as correct
+  matchedForm: string;  // The form of the term the answer was compared against
+}
+
+export interface AnswerCheckOptions {
+  // Extra forms that count as exact, e.g. the conjugated form in a cloze sentence ("packed into")
+  acceptedForms?: string[];
+}
+
+// Words that don't change the meaning of an answer ("overstep her bounds" = "overstep the bounds")
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the',
+  'my', 'your', 'his', 'her', 'its', 'our', 'their',
+  'it', 'him', 'them', 'me', 'us',
+  'myself', 'yourself', 'himself', 'herself', 'itself', 'ourselves', 'yourselves', 'themselves',
+]);
+
+const normalizeWords = (text: string): string[] =>
+  text
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/\([^)]*\)/g, ' ')
+    .replace(/[.,!?;:"\-–—]/g, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+
+// Drop placeholders, fillers and a leading infinitive "to"
+const contentWords = (words: string[]): string[] => {
+  const filtered = words.filter(w => !isPlaceholder(w) && !FILLER_WORDS.has(w));
+  return filtered[0] === 'to' && filtered.length > 1 ? filtered.slice(1) : filtered;
+};
+
+const contentTokens = (tokens: TermToken[]): TermToken[] => {
+  const filtered = tokens.filter(t => !t.placeholder && !FILLER_WORDS.has(t.word));
+  return filtered[0]?.word === 'to' && filtered.length > 1 ? filtered.slice(1) : filtered;
+};
+
+// Particles change the meaning of a phrasal verb, so "pack onto" is not a typo of "pack into"
+const PARTICLES = new Set([
+  'about', 'across', 'after', 'against', 'along', 'around', 'at', 'away', 'back', 'by',
+  'down', 'for', 'from', 'in', 'into', 'off', 'on', 'onto', 'out', 'over', 'through',
+  'to', 'up', 'with', 'without',
+]);
+
+/**
+ * Edit distance between two strings (Levenshtein, with swapped neighbours counting as one edit)
+ */
+export function editDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a) return b.length;
+  if (!b) return a.length;
+
+  const d: number[][] = [];
+  for (let i = 0; i <= a.length; i++) d[i] = [i];
+  for (let j = 0; j <= b.length; j++) d[0][j] = j;
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
+
+// How many typos a word of this length can absorb
+const allowedEdits = (length: number): number => {
+  if (length <= 3) return 0;
+  if (length <= 6) return 1;
+  return 2;
+};
+
+const isTypoOf = (candidate: string, target: string): boolean =>
+  editDistance(candidate, target) <= allowedEdits(target.length);
+
+/**
+ * The ways a term can be written: each "a, b" / "a or b" alternative,
+ * with and without its optional particles
+ */
+const getTermVariants = (term: string): TermToken[][] => {
+  const alternatives = [term, ...term.split(/[,;]|\s+or\s+/i)]
+    .map(s => s.trim())
+    .filter(Boolean);
+
+  const variants: TermToken[][] = [];
+  for (const alt of new Set(alternatives)) {
+    const tokens = contentTokens(parseTerm(alt));
+    if (tokens.length === 0) continue;
+    variants.push(tokens);
+    if (tokens.some(t => t.optional)) {
+      variants.push(tokens.filter(t => !t.optional));
+    }
+  }
+  return variants;
+};
+
+const tokensToText = (tokens: TermToken[]): string => tokens.map(t => t.word).join(' ');
+
+const gradeAgainstVariant = (answer: string[], variant: TermToken[]): AnswerGrade => {
+  if (answer.length !== variant.length) return 'wrong';
+
+  if (answer.every((word, i) => variant[i].word.split('/').includes(word))) {
+    return 'exact';
+  }
+  if (answer.every((word, i) => matchesTermToken(word, variant[i]))) {
+    return 'inflection';
+  }
+  // Each word is either a valid form or a small misspelling of the base word
+  if (answer.every((word, i) =>
+    matchesTermToken(word, variant[i]) ||
+    (!PARTICLES.has(variant[i].word) && variant[i].word.split('/').some(alt => isTypoOf(word, alt)))
+  )) {
+    return 'typo';
+  }
+  return 'wrong';
+};
+
+const GRADE_RANK: Record<AnswerGrade, number> = { exact: 3, inflection: 2, typo: 1, wrong: 0 };
+
+/**
+ * Grade a typed answer against a vocabulary term
+ */
+export function checkAnswer(
+  userAnswer: string,
+  term: string,
+  options: AnswerCheckOptions = {}
+): AnswerCheckResult {
+  const answer = contentWords(normalizeWords(userAnswer));
+  if (answer.length === 0 || !term.trim()) {
+    return { grade: 'wrong', isCorrect: false, matchedForm: term };
+  }
+
+  // Accepted forms (e.g. from a cloze sentence) count as exact when typed as-is
+  for (const form of options.acceptedForms || []) {
+    const formWords = contentWords(normalizeWords(form));
+    if (formWords.length > 0 && formWords.join(' ') === answer.join(' ')) {
+      return { grade: 'exact', isCorrect: true, matchedForm: form };
+    }
+  }
+
+  let best: AnswerCheckResult = { grade: 'wrong', isCorrect: false, matchedForm: term };
+  for (const variant of getTermVariants(term)) {
+    const grade = gradeAgainstVariant(answer, variant);
+    if (GRADE_RANK[grade] > GRADE_RANK[best.grade]) {
+      best = { grade, isCorrect: grade !== 'wrong', matchedForm: tokensToText(variant) };
+      if (grade === 'exact') break;
+    }
+  }
+
+  return best;
+}
+
+// Response latency (card shown -> first keystroke) that counts as instant / hesitant recall
+export const FAST_RESPONSE_MS = 3000;
+export const SLOW_RESPONSE_MS = 10000;
+
+/**
+ * Suggested review quality for an answer grade
+ */
+export function gradeToQuality(grade: AnswerGrade): SimpleQuality {
+  switch (grade) {
+    case 'exact':
+    case 'inflection':
+      return 'good';
+    case 'typo':
+      return 'hard';
+    case 'wrong':
+      return 'again';
+  }
+}
+
+/**
+ * Suggested review quality from the answer grade and how long the learner
+ * hesitated before answering: fast and correct -> easy, slow and correct -> hard
+ */
+export function suggestQuality(grade: AnswerGrade, responseLatencyMs?: number): SimpleQuality {
+  const base = gradeToQuality(grade);
+  if (base !== 'good' || responseLatencyMs === undefined) return base;
+
+  if (responseLatencyMs >= SLOW_RESPONSE_MS) return 'hard';
+  if (grade === 'exact' && responseLatencyMs <= FAST_RESPONSE_MS) return 'easy';
+  return 'good';
+}
@@ -0,0 +1,279 @@
+/**
+ * Account Backup
+ *
+ * The full-account backup file: analyses, folders, review cards with their
+ * scheduling state, books with their chapter vocabulary, known words and
+ * proficiency. Files written by older versions are migrated step by step on
+ * import, and every import is planned before anything is written, so the
+ * learner can preview it and choose what happens to duplicates.
+ */
+
+import {
+  AccountBackup,
+  BackupData,
+  BackupImportPlan,
+  BackupSectionPlan,
+  DuplicateMode,
+  SavedAnalysis,
+  SavedVocabularyItem,
+  VocabularyReview,
+} from '../types';
+import { createNewReview } from './sm2Algorithm';
+
+export const BACKUP_APP_NAME = 'WordDecode';
+export const BACKUP_VERSION = 2;
+
+// A backup file of any version, checked only as far as its header
+interface BackupFile {
+  appName: string;
+  version: unknown;  // version 1 wrote "1.0"
+  exportDate?: string;
+  data: object;
+}
+
+// 1.0: exportToJson wrote analyses and the old saved vocabulary list only
+interface BackupFileV1 extends BackupFile {
+  data: { analyses?: SavedAnalysis[]; vocabulary?: SavedVocabularyItem[] };
+}
+
+// The current version; sections missing from a file import as empty
+interface BackupFileV2 extends BackupFile {
+  version: 2;
+  data: Partial<BackupData>;
+}
+
+// Older files, each migrated to the next version
+const MIGRATIONS: Record<number, (file: BackupFile) => BackupFile> = {
+  // The vocabulary becomes new review cards
+  1: (file: BackupFileV1): BackupFileV2 => ({
+    ...file,
+    version: 2,
+    data: {
+      analyses: file.data.analyses ?? [],
+      reviews: (file.data.vocabulary ?? []).map((item): VocabularyReview => ({
+        ...createNewReview(item.term, item.definition, {
+          category: item.category,
+          sourceContext: item.source_context,
+          examples: item.examples,
+          imageryEtymology: item.imagery_etymology,
+          difficultyLevel: item.difficulty_level,
+        }),
+        id: crypto.randomUUID(),
+        sourceType: 'text_analysis',
+        cardType: 'production',
+        tags: item.tags ?? [],
+      })),
+    },
+  }),
+};
+
+/**
+ * A backup file of the current version
+ */
+export const createBackup = (data: BackupData): AccountBackup => ({
+  appName: BACKUP_APP_NAME,
+  version: BACKUP_VERSION,
+  exportDate: new Date().toISOString(),
+  data,
+});
+
+const isBackupFile = (value: unknown): value is BackupFile => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { appName, data } = value as Record<string, unknown>;
+  return appName === BACKUP_APP_NAME && typeof data === 'object' && data !== null;
+};
+
+// Version 1 wrote "1.0"
+const fileVersion = (version: unknown): number =>
+  typeof version === 'number' ? version : Math.floor(parseFloat(String(version)));
+
+// Dates come back from JSON as strings
+const reviveReview = (review: VocabularyReview): VocabularyReview => ({
+  ...review,
+  nextReviewDate: new Date(review.nextReviewDate),
+  lastReviewDate: review.lastReviewDate ? new Date(review.lastReviewDate) : undefined,
+  createdAt: new Date(review.createdAt),
+});
+
+/**
+ * Read a backup file, migrating it from older versions. Throws an Error with a
+ * message for the learner when the file can't be imported.
+ */
+export const parseBackup = (text: string): { backup: AccountBackup; migratedFrom: number | null } => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('This file is not a backup (it could not be read as JSON).');
+  }
+
+  if (!isBackupFile(parsed)) {
+    throw new Error('This file is not a WordDecode backup.');
+  }
+  let file: BackupFile = parsed;
+
+  const originalVersion = fileVersion(file.version);
+  if (!originalVersion || !(originalVersion in MIGRATIONS || originalVersion === BACKUP_VERSION)) {
+    if (originalVersion > BACKUP_VERSION) {
+      throw new Error('This backup was made by a newer version of the app. Update the app to import it.');
+    }
+    throw new Error(`Unknown backup version: ${String(file.version)}`);
+  }
+
+  let version = originalVersion;
+  while (version < BACKUP_VERSION) {
+    file = MIGRATIONS[version](file);
+    version = fileVersion(file.version);
+  }
+
+  const data = (file as BackupFileV2).data;
+  return {
+    backup: {
+      appName: BACKUP_APP_NAME,
+      version: BACKUP_VERSION,
+      exportDate: typeof file.exportDate === 'string' ? file.exportDate : '',
+      data: {
+        analyses: data.analyses ?? [],
+        folders: data.folders ?? [],
+        reviews: (data.reviews ?? []).map(reviveReview),
+        books: data.books ?? [],
+        chapterVocabulary: data.chapterVocabulary ?? [],
+        knownWords: data.knownWords ?? {},
+        proficiency: data.proficiency ?? null,
+      },
+    },
+    migratedFrom: originalVersion < BACKUP_VERSION ? originalVersion : null,
+  };
+};
+
+// How records of one kind are matched against the account
+interface SectionRules<T> {
+  idOf: (item: T) => string;
+  keyOf?: (item: T) => string;          // same content under another id is a duplicate too
+  withId?: (item: T, id: string) => T;  // overwriting keeps the existing record's id
+  copy?: (item: T) => T;                // a separate copy for keep_both; without one duplicates are skipped
+}
+
+// Imported id -> id the record ends up with (so references can follow it)
+type IdMap = Map<string, string>;
+
+const planSection = <T>(
+  incoming: T[],
+  existing: T[],
+  mode: DuplicateMode,
+  rules: SectionRules<T>,
+  ids: IdMap = new Map()
+): BackupSectionPlan<T> => {
+  const byId = new Map(existing.map(item => [rules.idOf(item), item]));
+  const byKey = rules.keyOf ? new Map(existing.map(item => [rules.keyOf!(item), item])) : null;
+  const plan: BackupSectionPlan<T> = { add: [], overwrite: [], total: incoming.length, duplicates: 0 };
+
+  for (const item of incoming) {
+    const id = rules.idOf(item);
+    const match = byId.get(id) ?? byKey?.get(rules.keyOf!(item));
+    if (!match) {
+      plan.add.push(item);
+      ids.set(id, id);
+      continue;
+    }
+
+    plan.duplicates++;
+    if (mode === 'overwrite') {
+      const replacement = rules.withId ? rules.withId(item, rules.idOf(match)) : item;
+      plan.overwrite.push(replacement);
+      ids.set(id, rules.idOf(replacement));
+    } else if (mode === 'keep_both' && rules.copy) {
+      const copy = rules.copy(item);
+      plan.add.push(copy);
+      ids.set(id, rules.idOf(copy));
+    } else {
+      ids.set(id, rules.idOf(match));
+    }
+  }
+
+  return plan;
+};
+
+/**
+ * Work out what importing a backup into the current account would do.
+ * References between records (analysis -> folder, card -> analysis,
+ * chapter vocabulary -> book) follow records that were merged or copied.
+ */
+export const planBackupImport = (backup: AccountBackup, current: BackupData, mode: DuplicateMode): BackupImportPlan => {
+  const { data } = backup;
+
+  const folderIds: IdMap = new Map();
+  const folders = planSection(data.folders, current.folders, mode, {
+    idOf: folder => folder.id,
+    keyOf: folder => folder.name.trim().toLowerCase(),
+    withId: (folder, id) => ({ ...folder, id }),
+    copy: folder => ({ ...folder, id: crypto.randomUUID(), name: `${folder.name} (imported)` }),
+  }, folderIds);
+
+  const accountFolderIds = new Set(current.folders.map(f => f.id));
+  const analysisIds: IdMap = new Map();
+  const analyses = planSection(
+    data.analyses.map(analysis => ({
+      ...analysis,
+      folderId: analysis.folderId
+        ? folderIds.get(analysis.folderId) ?? (accountFolderIds.has(analysis.folderId) ? analysis.folderId : null)
+        : null,
+    })),
+    current.analyses,
+    mode,
+    {
+      idOf: analysis => analysis.id,
+      // The same file or pasted text (as when saving an analysis)
+      keyOf: analysis => analysis.fileName ? `file:${analysis.fileName}` : `text:${analysis.inputText}`,
+      withId: (analysis, id) => ({ ...analysis, id }),
+      copy: analysis => ({ ...analysis, id: crypto.randomUUID() }),
+    },
+    analysisIds
+  );
+
+  const bookIds: IdMap = new Map();
+  const books = planSection(data.books, current.books, mode, {
+    idOf: book => book.id,
+    keyOf: book => `${book.fileName}:${book.title}`,
+    withId: (book, id) => ({ ...book, id }),
+    copy: book => ({ ...book, id: crypto.randomUUID(), title: `${book.title} (imported)` }),
+  }, bookIds);
+
+  const chapterVocabulary = planSection(
+    data.chapterVocabulary.map(chapter => ({ ...chapter, bookId: bookIds.get(chapter.bookId) ?? chapter.bookId })),
+    current.chapterVocabulary,
+    mode,
+    { idOf: chapter => `${chapter.bookId}:${chapter.chapterId}` }
+  );
+
+  // Cards keep pointing at their analysis only if it is in the account after the import
+  const accountAnalysisIds = new Set(current.analyses.map(a => a.id));
+  const sourceAnalysis = (id?: string) =>
+    id ? analysisIds.get(id) ?? (accountAnalysisIds.has(id) ? id : undefined) : undefined;
+
+  // One card per term, source and card type, so duplicates can't be kept twice
+  const reviews = planSection(
+    data.reviews.map(review => ({ ...review, sourceAnalysisId: sourceAnalysis(review.sourceAnalysisId) })),
+    current.reviews,
+    mode,
+    {
+      idOf: review => review.id,
+      keyOf: review => `${review.term.toLowerCase()}|${review.sourceType ?? 'text_analysis'}|${review.cardType ?? 'production'}`,
+      withId: (review, id) => ({ ...review, id }),
+    }
+  );
+
+  const knownWords = planSection(Object.values(data.knownWords), Object.values(current.knownWords), mode, {
+    idOf: word => word.term.toLowerCase(),
+  });
+
+  return {
+    analyses,
+    folders,
+    reviews,
+    books,
+    chapterVocabulary,
+    knownWords,
+    proficiency: data.proficiency && (mode === 'overwrite' || !current.proficiency) ? data.proficiency : null,
+  };
+};
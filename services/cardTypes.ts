@@ -0,0 +1,63 @@
+/**
+ * Card Type Templates
+ *
+ * One vocabulary term can produce several cards (see CardType in types.ts).
+ * Each card is its own vocabulary_reviews row so it is scheduled separately;
+ * the 'production' card is the base row that siblings are generated from.
+ */
+
+import { CardType, VocabularyReview } from '../types';
+import { findTermInSentence } from './clozeService';
+
+export const ALL_CARD_TYPES: CardType[] = [
+  'production',
+  'recognition',
+  'context_cloze',
+  'listening',
+  'example_cloze',
+];
+
+/**
+ * Card types that ask the user to type an answer (the rest are self-graded)
+ */
+export function isTypedCardType(cardType: CardType): boolean {
+  return cardType !== 'recognition';
+}
+
+/**
+ * Check whether a term has the data a card type needs
+ * (e.g. a cloze card needs a sentence to blank out)
+ */
+export function canGenerateCardType(
+  review: Pick<VocabularyReview, 'term' | 'sourceContext' | 'examples'>,
+  cardType: CardType
+): boolean {
+  switch (cardType) {
+    case 'context_cloze':
+      return !!review.sourceContext && !!findTermInSentence(review.sourceContext, review.term);
+    case 'example_cloze':
+      return !!review.examples && review.examples.some(e => !!e.sentence);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Get the card type of a review (rows created before card types existed are 'production')
+ */
+export function getCardType(review: Pick<VocabularyReview, 'cardType'>): CardType {
+  return review.cardType ?? 'production';
+}
+
+/**
+ * The sentence a card blanks the term out of: the original source sentence
+ * for context cloze, otherwise the first example that isn't the source sentence
+ */
+export function getClozeSentence(
+  review: Pick<VocabularyReview, 'cardType' | 'sourceContext' | 'examples'>
+): string | undefined {
+  if (getCardType(review) === 'context_cloze') return review.sourceContext;
+  const example = review.examples?.find(e => e.sentence && e.sentence !== review.sourceContext)
+    || review.examples?.[0];
+  return example?.sentence || review.sourceContext;
+}
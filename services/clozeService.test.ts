@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import { createCloze, findTermInSentence } from './clozeService';
+import { checkAnswer } from './answerChecker';
+import { AnswerGrade } from '../types';
+
+const CLOZES: [string, string, string, string][] = [
+  // Inflected forms
+  ['We packed into the tiny car.', 'pack into', 'We _____ the tiny car.', 'packed into'],
+  ['She ran into an old friend.', 'run into', 'She _____ an old friend.', 'ran into'],
+  ['Prices are running into the thousands.', 'run into', 'Prices are _____ the thousands.', 'running into'],
+  // Separated particles
+  ['Just look it up online.', 'look up', 'Just _____ it _____ online.', 'look up'],
+  ['She looked the word up.', 'look up', 'She _____ the word _____.', 'looked up'],
+  // Optional words
+  ['He never fitted in with the others.', 'fit in (with)', 'He never _____ the others.', 'fitted in with'],
+  ['She fits in.', 'fit in (with)', 'She _____.', 'fits in'],
+  // Object placeholders stay visible
+  ['They looked down on him.', 'look down on sb', 'They _____ him.', 'looked down on'],
+  ['We put the meeting off.', 'put sth off', 'We _____ the meeting _____.', 'put off'],
+  // Possessive and reflexive placeholders are part of the phrase
+  ['He overstepped his bounds.', "overstep one's bounds", 'He _____.', 'overstepped his bounds'],
+  ['She prides herself on her cooking.', 'pride oneself on', 'She _____ her cooking.', 'prides herself on'],
+  ['They enjoyed themselves.', 'enjoy oneself', 'They _____.', 'enjoyed themselves'],
+  ['They enjoyed the party.', 'enjoy oneself', 'They _____ the party.', 'enjoyed'],
+  // Alternatives
+  ['We got by somehow.', 'make do, get by', 'We _____ somehow.', 'got by'],
+];
+
+describe('createCloze', () => {
+  it.each(CLOZES)('blanks "%s" for "%s"', (sentence, term, prompt, answer) => {
+    expect(createCloze(sentence, term)).toEqual({ prompt, answer });
+  });
+
+  it.each([
+    ['He ran away.', 'run into'],
+    ['They packed the car.', 'pack into'],
+    ['', 'run into'],
+    ['She ran into a friend.', ''],
+  ])('finds no "%s" in "%s"', (sentence, term) => {
+    expect(createCloze(sentence, term)).toBeNull();
+    expect(findTermInSentence(sentence, term)).toBeNull();
+  });
+});
+
+// The review screen grades a cloze answer against the term, with the words in the blanks as an accepted form
+describe('cloze answers', () => {
+  it.each(CLOZES)('accepts the answer for "%s" ("%s")', (sentence, term) => {
+    const cloze = createCloze(sentence, term)!;
+    expect(checkAnswer(cloze.answer, term, { acceptedForms: [cloze.answer] }).grade).toBe('exact');
+    expect(checkAnswer(cloze.answer, term).isCorrect).toBe(true);
+  });
+
+  it.each<[string, AnswerGrade]>([
+    ['overstepped his bounds', 'exact'],
+    ['overstepped bounds', 'exact'],
+    ['overstep the bounds', 'exact'],
+    ['overstepping her bounds', 'inflection'],
+    ['overstepped his limits', 'wrong'],
+  ])('grades "%s" for "He overstepped his bounds." as %s', (answer, grade) => {
+    const cloze = createCloze('He overstepped his bounds.', "overstep one's bounds")!;
+    expect(checkAnswer(answer, "overstep one's bounds", { acceptedForms: [cloze.answer] }).grade).toBe(grade);
+  });
+});
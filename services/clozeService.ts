@@ -0,0 +1,180 @@
+/**
+ * Cloze Deletion
+ *
+ * Finds a vocabulary term inside a real sentence - including inflected forms
+ * ("packed into" for "pack into") and separated phrasal verbs ("looked it up"
+ * for "look up") - and blanks it out for review.
+ */
+
+import { parseTerm, matchesTermToken, TermToken } from './inflections';
+
+export const CLOZE_BLANK = '_____';
+
+// Max words allowed between two parts of a term ("look [the word] up")
+const MAX_GAP = 3;
+
+// Placeholders that belong to the phrase itself: the word filling them is blanked
+// with the term ("He _____." for "overstep one's bounds", answer "overstepped his bounds")
+const PHRASE_SLOTS = new Set(["one's", "someone's", "somebody's", 'oneself']);
+
+export interface ClozeMatch {
+  ranges: [number, number][]; // Character ranges in the sentence, one per blank
+  text: string;               // The term as written in the sentence, e.g. "packed into" / "looked up"
+}
+
+export interface Cloze {
+  prompt: string;  // Sentence with the term blanked
+  answer: string;  // The inflected form expected in the blanks
+}
+
+interface SentenceWord {
+  word: string;
+  start: number;
+  end: number;
+}
+
+const tokenizeSentence = (sentence: string): SentenceWord[] => {
+  const words: SentenceWord[] = [];
+  const regex = /[A-Za-z]+(?:['’][A-Za-z]+)*/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(sentence)) !== null) {
+    words.push({
+      word: match[0].toLowerCase().replace(/’/g, "'"),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+  return words;
+};
+
+/**
+ * Try to match the term's words starting at sentence word `start`.
+ * Returns the indices of matched sentence words, or null.
+ */
+const matchAt = (words: SentenceWord[], tokens: TermToken[], start: number): number[] | null => {
+  const matched: number[] = [];
+  let pos = start;
+  let gapAllowed = 0;
+  let phraseSlot = false;
+
+  for (let t = 0; t < tokens.length; t++) {
+    const token = tokens[t];
+
+    // Object slots can be filled by any few words
+    if (token.placeholder) {
+      gapAllowed = MAX_GAP;
+      phraseSlot = PHRASE_SLOTS.has(token.word);
+      continue;
+    }
+
+    // First word must match exactly where we start
+    if (matched.length === 0) {
+      if (!matchesTermToken(words[pos].word, token)) return null;
+      matched.push(pos);
+      pos++;
+      gapAllowed = MAX_GAP;
+      continue;
+    }
+
+    let found = -1;
+    for (let i = pos; i < words.length && i <= pos + gapAllowed; i++) {
+      if (matchesTermToken(words[i].word, token)) {
+        found = i;
+        break;
+      }
+    }
+
+    if (found === -1) {
+      if (token.optional) continue;
+      return null;
+    }
+    // Optional particles only count when directly attached to the previous part
+    if (token.optional && found !== pos) continue;
+
+    if (phraseSlot && found === pos + 1) matched.push(pos);
+    matched.push(found);
+    pos = found + 1;
+    gapAllowed = MAX_GAP;
+    phraseSlot = false;
+  }
+
+  // A reflexive at the end of the term ("enjoy oneself" -> "enjoyed themselves")
+  if (phraseSlot && matched.length > 0 && /sel(f|ves)$/.test(words[pos]?.word ?? '')) matched.push(pos);
+
+  return matched.length > 0 ? matched : null;
+};
+
+// Join adjacent matched words into one blank ("packed into" -> one range)
+const toRanges = (sentence: string, words: SentenceWord[], indices: number[]): [number, number][] => {
+  const ranges: [number, number][] = [];
+  for (const i of indices) {
+    const last = ranges[ranges.length - 1];
+    if (last && /^\s*$/.test(sentence.slice(last[1], words[i].start))) {
+      last[1] = words[i].end;
+    } else {
+      ranges.push([words[i].start, words[i].end]);
+    }
+  }
+  return ranges;
+};
+
+/**
+ * Find a term in a sentence, allowing inflections and separated particles.
+ * Prefers the tightest match when the term could match in several places.
+ */
+export function findTermInSentence(sentence: string, term: string): ClozeMatch | null {
+  if (!sentence || !term) return null;
+
+  const words = tokenizeSentence(sentence);
+  const tokens = parseTerm(term);
+  if (words.length === 0 || tokens.every(t => t.placeholder || t.optional)) return null;
+
+  // A leading placeholder ("sb's turn") is skipped - matching starts at the first real word
+  const firstReal = tokens.findIndex(t => !t.placeholder);
+  const searchTokens = tokens.slice(firstReal);
+
+  let best: number[] | null = null;
+  for (let start = 0; start < words.length; start++) {
+    const matched = matchAt(words, searchTokens, start);
+    if (!matched) continue;
+    const span = matched[matched.length - 1] - matched[0];
+    if (!best || span < best[best.length - 1] - best[0]) {
+      best = matched;
+    }
+  }
+
+  if (!best) {
+    // Terms like "pack into, cram into" - try each alternative on its own
+    const alternatives = term.split(/[,;]|\s+or\s+/i).map(s => s.trim()).filter(Boolean);
+    if (alternatives.length > 1) {
+      for (const alt of alternatives) {
+        const altMatch = findTermInSentence(sentence, alt);
+        if (altMatch) return altMatch;
+      }
+    }
+    return null;
+  }
+
+  return {
+    ranges: toRanges(sentence, words, best),
+    text: best.map(i => sentence.slice(words[i].start, words[i].end)).join(' '),
+  };
+}
+
+/**
+ * Build a cloze prompt from a sentence. Returns null if the term can't be found in it.
+ */
+export function createCloze(sentence: string, term: string): Cloze | null {
+  const match = findTermInSentence(sentence, term);
+  if (!match) return null;
+
+  let prompt = '';
+  let cursor = 0;
+  for (const [start, end] of match.ranges) {
+    prompt += sentence.slice(cursor, start) + CLOZE_BLANK;
+    cursor = end;
+  }
+  prompt += sentence.slice(cursor);
+
+  return { prompt, answer: match.text };
+}
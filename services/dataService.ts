@@ -1,7 +1,14 @@
 import { supabase } from './supabaseClient';
-import { SavedAnalysis, SavedVocabularyItem, SourceType, Note, AnalysisFolder, VocabularyReview, ReviewStats, VocabularyItem, DetailedExample, VocabularyCategory, SavedBook, BookChapter, ChapterProgress } from '../types';
-import { calculateNextReview, simpleToSM2Quality, createNewReview } from './sm2Algorithm';
-import type { ReviewQuality, SimpleQuality } from '../types';
+import { AnalysisResult, AnswerGrade, GradingMode, LeechAction, SavedAnalysis, SavedVocabularyItem, SourceType, Note, AnalysisFolder, VocabularyReview, ReviewStats, VocabularyItem, DetailedExample, VocabularyCategory, SavedBook, BookChapter, ChapterProgress, SrsSettings, DEFAULT_SRS_SETTINGS, ReviewLogEntry, DailyReviewProgress, DueForecastDay, CardType, ReviewSourceType, VocabSyncResult, CardBrowserFilters, CardSort, CardFieldUpdates, StudyFilter, FilteredDeck, AnalysisMergeField, FolderMergeField, SyncConflict, RecordSyncResult, RealtimeChange, AccountBackup, BackupData, BackupImportPlan, ChapterVocabularyBackup, DeckExportScope, DeckImportPlan } from '../types';
+import { scheduleReview, simpleToSM2Quality, createNewReview, getCardState, getFuzzRange, applyLoadBalancing } from './sm2Algorithm';
+import { canGenerateCardType } from './cardTypes';
+import { findDuplicateGroups, buildMergedReview } from './duplicateTerms';
+import { mergeTags, matchesTag } from './tags';
+import { localStore, StoreName } from './localStore';
+import { syncEngine, isNetworkError, SyncTable } from './syncEngine';
+import { mergeFields, FieldValues } from './recordMerge';
+import type { ReviewQuality, SimpleQuality, SchedulerType, CardState } from '../types';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 
 // Database row types (matching Supabase schema)
 interface DbSavedAnalysis {
@@ -17,6 +24,7 @@ interface DbSavedAnalysis {
   folder_id: string | null;
   flashcard_passed: boolean | null;
   created_at: string;
+  updated_at: string;
 }
 
 interface DbUserVisit {
@@ -35,6 +43,7 @@ interface DbSavedVocabulary {
   imagery_etymology: string | null;
   examples: object | null;
   nuance: string | null;
+  tags: string[] | null;
   date_added: number;
   created_at: string;
 }
@@ -45,6 +54,7 @@ interface DbAnalysisFolder {
   name: string;
   color: string | null;
   created_at: string;
+  updated_at: string;
 }
 
 interface DbVocabularyReview {
@@ -53,13 +63,21 @@ interface DbVocabularyReview {
   term: string;
   definition: string;
   source_analysis_id: string | null;
+  source_type: string | null;
+  card_type: string | null;
   ease_factor: number;
   interval: number;
   repetitions: number;
   next_review_date: string;
   last_review_date: string | null;
+  card_state: string | null;
+  learning_step: number | null;
+  stability: number | null;
+  difficulty: number | null;
   is_suspended: boolean;
   is_mastered: boolean;
+  is_leech: boolean | null;
+  lapses: number | null;
   correct_count: number;
   incorrect_count: number;
   category: string | null;
@@ -67,17 +85,76 @@ interface DbVocabularyReview {
   examples: object | null;
   imagery_etymology: string | null;
   difficulty_level: string | null;
+  tags: string[] | null;
+  introduced_at: string | null;
+  review_queued_at: string | null;
+  synced_source: object | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface DbReviewLog {
+  id: string;
+  user_id: string;
+  review_id: string;
+  reviewed_at: string;
+  quality: string;
+  previous_card_state: string | null;
+  typed_answer: string | null;
+  answer_grade: string | null;
+  time_taken_ms: number | null;
+  response_latency_ms: number | null;
+  previous_interval: number;
+  new_interval: number;
+  previous_ease_factor: number;
+  new_ease_factor: number;
+  created_at: string;
+}
+
+interface DbSrsSettings {
+  user_id: string;
+  scheduler: string;
+  learning_steps: number[] | null;
+  relearning_steps: number[] | null;
+  new_cards_per_day: number | null;
+  reviews_per_day: number | null;
+  enabled_card_types: Partial<Record<ReviewSourceType, CardType[]>> | null;
+  grading_mode: string | null;
+  leech_threshold: number | null;
+  leech_action: string | null;
+  auto_add_vocabulary: boolean | null;
+  auto_add_excluded_categories: string[] | null;
   created_at: string;
   updated_at: string;
 }
 
+interface DbFilteredDeck {
+  id: string;
+  user_id: string;
+  name: string;
+  filter: StudyFilter | null;
+  cram: boolean;
+  card_limit: number;
+  created_at: string;
+  last_studied_at: string | null;
+}
+
+// Items saved before vocabulary items had ids get the id their cards were synced under:
+// "<analysis id>:<lowercased term>" or "<book id>:<chapter id>:<lowercased term>".
+// It is saved with the item from then on, so edits to the term keep the link.
+const withLegacyVocabIds = (vocabulary: VocabularyItem[], scope: string): (VocabularyItem & { id: string })[] =>
+  vocabulary.map(vocab => vocab.id ? { ...vocab, id: vocab.id } : { ...vocab, id: `${scope}:${vocab.term?.toLowerCase()}` });
+
+const withAnalysisVocabIds = (analysisId: string, result: AnalysisResult): AnalysisResult =>
+  result && { ...result, vocabulary: withLegacyVocabIds(result.vocabulary || [], analysisId) };
+
 // Transform database row to app type
 const dbToAnalysis = (row: DbSavedAnalysis): SavedAnalysis => ({
   id: row.id,
   date: row.date,
   sourceType: row.source_type as SourceType,
   inputText: row.input_text,
-  analysisResult: row.analysis_result as SavedAnalysis['analysisResult'],
+  analysisResult: withAnalysisVocabIds(row.id, row.analysis_result as SavedAnalysis['analysisResult']),
   fileName: row.file_name,
   title: row.title,
   notes: (row.notes as Note[]) || [],
@@ -101,6 +178,7 @@ const dbToVocabulary = (row: DbSavedVocabulary): SavedVocabularyItem => ({
   imagery_etymology: row.imagery_etymology ?? undefined,
   examples: (row.examples as SavedVocabularyItem['examples']) ?? [],
   nuance: row.nuance ?? undefined,
+  tags: row.tags ?? [],
   dateAdded: row.date_added,
 });
 
@@ -109,23 +187,533 @@ const dbToVocabularyReview = (row: DbVocabularyReview): VocabularyReview => ({
   term: row.term,
   definition: row.definition,
   sourceAnalysisId: row.source_analysis_id ?? undefined,
+  sourceType: (row.source_type as ReviewSourceType) ?? undefined,
+  cardType: (row.card_type as CardType) ?? 'production',
   easeFactor: row.ease_factor,
   interval: row.interval,
   repetitions: row.repetitions,
   nextReviewDate: new Date(row.next_review_date),
   lastReviewDate: row.last_review_date ? new Date(row.last_review_date) : undefined,
+  cardState: (row.card_state as CardState) ?? undefined,
+  learningStep: row.learning_step ?? undefined,
+  stability: row.stability ?? undefined,
+  difficulty: row.difficulty ?? undefined,
   isSuspended: row.is_suspended,
   isMastered: row.is_mastered,
+  isLeech: row.is_leech ?? false,
+  lapses: row.lapses ?? 0,
   correctCount: row.correct_count,
   incorrectCount: row.incorrect_count,
   createdAt: new Date(row.created_at),
+  introducedAt: row.introduced_at ? new Date(row.introduced_at) : undefined,
+  reviewQueuedAt: row.review_queued_at ? new Date(row.review_queued_at) : undefined,
   category: row.category as VocabularyCategory | undefined,
   sourceContext: row.source_context ?? undefined,
   examples: (row.examples as DetailedExample[]) ?? undefined,
   imageryEtymology: row.imagery_etymology ?? undefined,
   difficultyLevel: row.difficulty_level ?? undefined,
+  tags: row.tags ?? [],
+});
+
+// A review card with its scheduling state, as a full row (imports)
+const vocabularyReviewToDb = (userId: string, review: VocabularyReview) => ({
+  id: review.id,
+  user_id: userId,
+  term: review.term,
+  definition: review.definition,
+  source_analysis_id: review.sourceAnalysisId || null,
+  source_type: review.sourceType || 'text_analysis',
+  card_type: review.cardType || 'production',
+  ease_factor: review.easeFactor,
+  interval: review.interval,
+  repetitions: review.repetitions,
+  next_review_date: review.nextReviewDate.toISOString(),
+  last_review_date: review.lastReviewDate?.toISOString() || null,
+  card_state: review.cardState ?? 'new',
+  learning_step: review.learningStep ?? null,
+  stability: review.stability ?? null,
+  difficulty: review.difficulty ?? null,
+  is_suspended: review.isSuspended,
+  is_mastered: review.isMastered,
+  is_leech: review.isLeech ?? false,
+  lapses: review.lapses ?? 0,
+  correct_count: review.correctCount,
+  incorrect_count: review.incorrectCount,
+  category: review.category || null,
+  source_context: review.sourceContext || null,
+  examples: review.examples || null,
+  imagery_etymology: review.imageryEtymology || null,
+  difficulty_level: review.difficultyLevel || null,
+  tags: review.tags || [],
+  introduced_at: review.introducedAt?.toISOString() || null,
+  review_queued_at: review.reviewQueuedAt?.toISOString() || null,
+  created_at: review.createdAt.toISOString(),
+});
+
+// Apply column updates to the cached copies of cards, so the local copy matches the cloud
+const updateCachedReviews = async (userId: string, reviewIds: string[], updates: Partial<DbVocabularyReview>): Promise<void> => {
+  const cached = (await Promise.all(reviewIds.map(id => localStore.get<VocabularyReview>('reviews', id))))
+    .filter((review): review is VocabularyReview => !!review);
+  await localStore.putAll('reviews', cached.map(review => dbToVocabularyReview({
+    ...vocabularyReviewToDb(userId, review),
+    synced_source: null,
+    updated_at: new Date().toISOString(),
+    ...updates,
+  })));
+};
+
+const reviewLogToDb = (userId: string, entry: ReviewLogEntry) => ({
+  id: entry.id,
+  user_id: userId,
+  review_id: entry.reviewId,
+  reviewed_at: entry.reviewedAt.toISOString(),
+  quality: entry.quality,
+  previous_card_state: entry.previousCardState ?? null,
+  typed_answer: entry.typedAnswer ?? null,
+  answer_grade: entry.answerGrade ?? null,
+  time_taken_ms: entry.timeTakenMs !== undefined ? Math.round(entry.timeTakenMs) : null,
+  response_latency_ms: entry.responseLatencyMs !== undefined ? Math.round(entry.responseLatencyMs) : null,
+  previous_interval: entry.previousInterval,
+  new_interval: entry.newInterval,
+  previous_ease_factor: entry.previousEaseFactor,
+  new_ease_factor: entry.newEaseFactor,
+});
+
+const dbToReviewLog = (row: DbReviewLog): ReviewLogEntry => ({
+  id: row.id,
+  reviewId: row.review_id,
+  reviewedAt: new Date(row.reviewed_at),
+  quality: row.quality as SimpleQuality,
+  previousCardState: (row.previous_card_state as CardState) ?? undefined,
+  typedAnswer: row.typed_answer ?? undefined,
+  answerGrade: (row.answer_grade as AnswerGrade) ?? undefined,
+  timeTakenMs: row.time_taken_ms ?? undefined,
+  responseLatencyMs: row.response_latency_ms ?? undefined,
+  previousInterval: row.previous_interval,
+  newInterval: row.new_interval,
+  previousEaseFactor: row.previous_ease_factor,
+  newEaseFactor: row.new_ease_factor,
+});
+
+const dbToSrsSettings = (row: DbSrsSettings): SrsSettings => ({
+  scheduler: (row.scheduler as SchedulerType) || DEFAULT_SRS_SETTINGS.scheduler,
+  learningSteps: row.learning_steps ?? DEFAULT_SRS_SETTINGS.learningSteps,
+  relearningSteps: row.relearning_steps ?? DEFAULT_SRS_SETTINGS.relearningSteps,
+  newCardsPerDay: row.new_cards_per_day ?? DEFAULT_SRS_SETTINGS.newCardsPerDay,
+  reviewsPerDay: row.reviews_per_day ?? DEFAULT_SRS_SETTINGS.reviewsPerDay,
+  enabledCardTypes: {
+    ...DEFAULT_SRS_SETTINGS.enabledCardTypes,
+    ...(row.enabled_card_types || {}),
+  },
+  gradingMode: (row.grading_mode as GradingMode) ?? DEFAULT_SRS_SETTINGS.gradingMode,
+  leechThreshold: row.leech_threshold ?? DEFAULT_SRS_SETTINGS.leechThreshold,
+  leechAction: (row.leech_action as LeechAction) ?? DEFAULT_SRS_SETTINGS.leechAction,
+  autoAddVocabulary: row.auto_add_vocabulary ?? DEFAULT_SRS_SETTINGS.autoAddVocabulary,
+  autoAddExcludedCategories: (row.auto_add_excluded_categories as VocabularyCategory[]) ?? DEFAULT_SRS_SETTINGS.autoAddExcludedCategories,
+});
+
+// One vocabulary item as sent to the sync_vocabulary_reviews RPC
+interface VocabSyncItem {
+  vocab_id: string;  // stable id of the item in its source (see migration 014)
+  term: string;
+  definition: string;
+  category: string | null;
+  source_context: string | null;
+  examples: DetailedExample[] | null;
+  imagery_etymology: string | null;
+  difficulty_level: string | null;
+  tags: string[];
+  created_at: string;
+}
+
+const EMPTY_SYNC_RESULT: VocabSyncResult = { inserted: 0, updated: 0, skipped: 0 };
+
+const toVocabSyncItem = (vocab: VocabularyItem & { id: string }, createdAt: Date): VocabSyncItem => ({
+  vocab_id: vocab.id,
+  term: vocab.term?.trim(),
+  definition: vocab.definition,
+  category: vocab.category || null,
+  source_context: vocab.source_context || null,
+  examples: vocab.examples || null,
+  imagery_etymology: vocab.imagery_etymology || null,
+  difficulty_level: vocab.difficulty_level || null,
+  tags: vocab.tags || [],
+  created_at: createdAt.toISOString(),
+});
+
+// Oldest first, so a term learned twice keeps its first analysis (and its date)
+const analysisSyncItems = (analyses: SavedAnalysis[]): VocabSyncItem[] =>
+  [...analyses]
+    .sort((a, b) => a.date - b.date)
+    .flatMap(analysis => withLegacyVocabIds(analysis.analysisResult?.vocabulary || [], analysis.id).map(vocab =>
+      toVocabSyncItem(vocab, new Date(analysis.date))
+    ));
+
+const chapterSyncItems = (bookId: string, chapterId: string, vocabulary: VocabularyItem[], createdAt: Date): VocabSyncItem[] =>
+  withLegacyVocabIds(vocabulary || [], `${bookId}:${chapterId}`).map(vocab => toVocabSyncItem(vocab, createdAt));
+
+// The vocabulary of every saved book chapter, oldest chapter first. Throws on failure.
+const fetchBookSyncItems = async (userId: string): Promise<VocabSyncItem[]> => {
+  if (!supabase) return [];
+
+  const { data, error } = await supabase
+    .from('book_chapter_vocabulary')
+    .select('vocabulary, book_id, chapter_id, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+
+  return (data || []).flatMap(row =>
+    chapterSyncItems(row.book_id, row.chapter_id, row.vocabulary as VocabularyItem[], new Date(row.created_at))
+  );
+};
+
+const dbToFilteredDeck = (row: DbFilteredDeck): FilteredDeck => ({
+  id: row.id,
+  name: row.name,
+  filter: row.filter || {},
+  cram: row.cram,
+  cardLimit: row.card_limit,
+  createdAt: new Date(row.created_at).getTime(),
+  lastStudiedAt: row.last_studied_at ? new Date(row.last_studied_at).getTime() : undefined,
+});
+
+// Ids of a chapter and all of its sub-chapters (every chapter when chapterId is unset)
+const collectChapterIds = (chapters: BookChapter[], chapterId?: string, inSubtree = !chapterId): string[] =>
+  chapters.flatMap(chapter => {
+    const included = inSubtree || chapter.id === chapterId;
+    return [
+      ...(included ? [chapter.id] : []),
+      ...collectChapterIds(chapter.children || [], chapterId, included),
+    ];
+  });
+
+// ---- Offline copies (see localStore and syncEngine) ----
+
+// Cloud rows only overwrite the local copy once every queued write has reached the cloud
+const refreshCache = async <T>(name: StoreName, values: T[], replace = false): Promise<void> => {
+  if (await syncEngine.pendingCount() > 0) return;
+  await (replace ? localStore.replaceAll(name, values) : localStore.putAll(name, values));
+};
+
+// Cached cards, filtered like the review queries
+const cachedReviews = async (sourceType?: string, cardTypes?: CardType[]): Promise<VocabularyReview[]> =>
+  (await localStore.getAll<VocabularyReview>('reviews')).filter(review =>
+    (!sourceType || review.sourceType === sourceType) &&
+    (!cardTypes || cardTypes.includes(review.cardType ?? 'production'))
+  );
+
+const byDateDesc = (a: SavedAnalysis, b: SavedAnalysis) => b.date - a.date;
+
+// ---- Multi-device merge for analyses and folders (see recordMerge) ----
+
+type VersionedTable = 'saved_analyses' | 'analysis_folders';
+
+// The version of a row this device last agreed on with the cloud
+interface SyncBase {
+  key: string;        // "<table>:<id>"
+  updatedAt: string;  // the row's updated_at exactly as the server sent it
+  fields: FieldValues;
+}
+
+const ANALYSIS_COLUMNS: Record<AnalysisMergeField, string> = {
+  title: 'title',
+  notes: 'notes',
+  folderId: 'folder_id',
+  flashcardPassed: 'flashcard_passed',
+};
+
+const FOLDER_COLUMNS: Record<FolderMergeField, string> = {
+  name: 'name',
+  color: 'color',
+};
+
+// Mergeable fields, normalised the way they are stored
+const analysisFields = (analysis: SavedAnalysis): Record<AnalysisMergeField, unknown> => ({
+  title: analysis.title || null,
+  notes: analysis.notes || [],
+  folderId: analysis.folderId || null,
+  flashcardPassed: analysis.flashcardPassed || false,
+});
+
+const folderFields = (folder: AnalysisFolder): Record<FolderMergeField, unknown> => ({
+  name: folder.name,
+  color: folder.color || null,
+});
+
+const toColumns = (fields: FieldValues, columns: Record<string, string>): Record<string, unknown> =>
+  Object.fromEntries(Object.entries(fields).map(([field, value]) => [columns[field], value]));
+
+// The analysed text itself isn't merged field by field: the newer copy wins
+const analysisContentRow = (analysis: SavedAnalysis) => ({
+  date: analysis.date,
+  source_type: analysis.sourceType,
+  input_text: analysis.inputText,
+  analysis_result: analysis.analysisResult,
+  file_name: analysis.fileName || null,
 });
 
+// Cloud rows of the record types merged field by field
+type VersionedRow = DbSavedAnalysis | DbAnalysisFolder;
+
+interface VersionedSpec<T, Row extends VersionedRow, F extends string> {
+  table: VersionedTable;
+  label: string;  // for error messages
+  columns: Record<F, string>;
+  fromRow: (row: Row) => T;
+  toRow: (userId: string, record: T) => Record<string, unknown>;
+  fields: (record: T) => Record<F, unknown>;
+  conflict: (local: T, field: F, localValue: unknown, remoteValue: unknown) => SyncConflict;
+  newerContent?: (local: T, cloud: T) => Record<string, unknown> | null;
+}
+
+const ANALYSIS_SPEC: VersionedSpec<SavedAnalysis, DbSavedAnalysis, AnalysisMergeField> = {
+  table: 'saved_analyses',
+  label: 'analyses',
+  columns: ANALYSIS_COLUMNS,
+  fromRow: dbToAnalysis,
+  toRow: (userId, analysis) => ({
+    id: analysis.id,
+    user_id: userId,
+    ...analysisContentRow(analysis),
+    ...toColumns(analysisFields(analysis), ANALYSIS_COLUMNS),
+  }),
+  fields: analysisFields,
+  conflict: (analysis, field, localValue, remoteValue) => ({
+    kind: 'analysis',
+    recordId: analysis.id,
+    recordName: analysis.title || analysis.fileName || analysis.inputText.slice(0, 40),
+    field,
+    localValue,
+    remoteValue,
+  }),
+  newerContent: (local, cloud) => local.date > cloud.date ? analysisContentRow(local) : null,
+};
+
+const FOLDER_SPEC: VersionedSpec<AnalysisFolder, DbAnalysisFolder, FolderMergeField> = {
+  table: 'analysis_folders',
+  label: 'folders',
+  columns: FOLDER_COLUMNS,
+  fromRow: dbToFolder,
+  toRow: (userId, folder) => ({
+    id: folder.id,
+    user_id: userId,
+    ...toColumns(folderFields(folder), FOLDER_COLUMNS),
+  }),
+  fields: folderFields,
+  conflict: (folder, field, localValue, remoteValue) => ({
+    kind: 'folder',
+    recordId: folder.id,
+    recordName: folder.name,
+    field,
+    localValue,
+    remoteValue,
+  }),
+};
+
+/**
+ * Update an analysis or folder only while the cloud row is still the version
+ * this device last synced. If another device changed it first nothing is
+ * written, and the sync pass that follows merges both sides field by field.
+ */
+const writeVersioned = async (
+  userId: string,
+  table: VersionedTable,
+  id: string,
+  values: Record<string, unknown>,
+  fields: FieldValues,
+  errorLabel: string
+): Promise<boolean> => {
+  if (!supabase) return false;
+
+  const key = `${table}:${id}`;
+  const base = await localStore.get<SyncBase>('sync_base', key);
+  const match = base ? { id, user_id: userId, updated_at: base.updatedAt } : { id, user_id: userId };
+
+  if (syncEngine.isOnline() && (await syncEngine.pendingCount()) === 0) {
+    const { data, error } = await supabase
+      .from(table)
+      .update(values)
+      .match(match)
+      .select('updated_at');
+
+    if (!error) {
+      if (base && data && data.length > 0) {
+        await localStore.put<SyncBase>('sync_base', { key, updatedAt: data[0].updated_at, fields: { ...base.fields, ...fields } });
+      } else if (base) {
+        // Changed on another device first: App merges after every sync pass
+        void syncEngine.flush().catch(flushError => console.error('Error starting a sync pass:', flushError));
+      }
+      return true;
+    }
+    if (!isNetworkError(error)) {
+      console.error(`${errorLabel}:`, error);
+      return false;
+    }
+  }
+
+  // Replayed later with the same version check
+  return syncEngine.run(userId, { op: 'update', table, values, match }, errorLabel);
+};
+
+/**
+ * Merge this device's records with the cloud's: new records are uploaded,
+ * records deleted elsewhere dropped, and fields changed on one side only
+ * applied to the other. Returns null when offline or while writes are queued.
+ */
+const syncVersioned = async <T extends { id: string }, Row extends VersionedRow, F extends string>(
+  userId: string,
+  locals: T[],
+  spec: VersionedSpec<T, Row, F>
+): Promise<RecordSyncResult<T> | null> => {
+  if (!supabase || !syncEngine.isOnline() || (await syncEngine.pendingCount()) > 0) return null;
+
+  const { data, error } = await supabase
+    .from(spec.table)
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    if (!isNetworkError(error)) console.error(`Error syncing ${spec.label}:`, error);
+    return null;
+  }
+
+  const baseKey = (id: string) => `${spec.table}:${id}`;
+  const oldBases = (await localStore.getAll<SyncBase>('sync_base')).filter(b => b.key.startsWith(`${spec.table}:`));
+  const baseByKey = new Map(oldBases.map(b => [b.key, b]));
+  const remoteById = new Map(((data || []) as Row[]).map(row => [row.id, row]));
+
+  const records: T[] = [];
+  const conflicts: SyncConflict[] = [];
+  const bases: SyncBase[] = [];
+  const newRecords: T[] = [];
+
+  for (const local of locals) {
+    const row = remoteById.get(local.id);
+    const base = baseByKey.get(baseKey(local.id));
+
+    if (!row) {
+      // Synced before and gone from the cloud: deleted on another device
+      if (!base) {
+        newRecords.push(local);
+        records.push(local);
+      }
+      continue;
+    }
+    remoteById.delete(local.id);
+
+    const cloud = spec.fromRow(row);
+    const cloudFields = spec.fields(cloud);
+    const merge = mergeFields(spec.fields(local), cloudFields, base?.fields);
+    const content = spec.newerContent?.(local, cloud) ?? null;
+    records.push({ ...(content ? local : cloud), ...merge.values });
+
+    merge.conflicts.forEach(field => conflicts.push(spec.conflict(local, field, merge.values[field], cloudFields[field])));
+
+    let version: SyncBase = { key: baseKey(local.id), updatedAt: row.updated_at, fields: merge.base };
+    if (content || Object.keys(merge.push).length > 0) {
+      // Only if nobody changed the row since it was read; otherwise the next pass merges again
+      const { data: written, error: writeError } = await supabase
+        .from(spec.table)
+        .update({ ...content, ...toColumns(merge.push, spec.columns) })
+        .match({ id: local.id, user_id: userId, updated_at: row.updated_at })
+        .select('updated_at');
+
+      if (writeError) {
+        console.error(`Error syncing ${spec.label}:`, writeError);
+      } else if (written && written.length > 0) {
+        version = { ...version, updatedAt: written[0].updated_at, fields: { ...merge.base, ...merge.push } };
+      }
+    }
+    bases.push(version);
+  }
+
+  // Added on another device
+  remoteById.forEach(row => {
+    const cloud = spec.fromRow(row);
+    records.push(cloud);
+    bases.push({ key: baseKey(cloud.id), updatedAt: row.updated_at, fields: spec.fields(cloud) });
+  });
+
+  if (newRecords.length > 0) {
+    const { data: inserted, error: insertError } = await supabase
+      .from(spec.table)
+      .insert(newRecords.map(record => spec.toRow(userId, record)))
+      .select('id, updated_at');
+
+    if (insertError) {
+      console.error(`Error syncing ${spec.label}:`, insertError);
+    } else {
+      (inserted || []).forEach(row => {
+        const record = newRecords.find(r => r.id === row.id);
+        if (record) bases.push({ key: baseKey(record.id), updatedAt: row.updated_at, fields: spec.fields(record) });
+      });
+    }
+  }
+
+  await localStore.removeAll('sync_base', oldBases.map(b => b.key));
+  await localStore.putAll('sync_base', bases);
+  return { records, conflicts };
+};
+
+// Rows per request when importing a backup or a deck
+const IMPORT_BATCH_SIZE = 200;
+
+// Upsert rows in batches; false as soon as the server rejects one
+const writeBatches = async (
+  userId: string,
+  table: SyncTable,
+  rows: Record<string, unknown>[],
+  errorLabel: string,
+  onConflict?: string
+): Promise<boolean> => {
+  for (let i = 0; i < rows.length; i += IMPORT_BATCH_SIZE) {
+    const written = await syncEngine.run(userId, {
+      op: 'upsert',
+      table,
+      values: rows.slice(i, i + IMPORT_BATCH_SIZE),
+      onConflict,
+    }, errorLabel);
+    if (!written) return false;
+  }
+  return true;
+};
+
+// Components listening for changes made in other tabs and on other devices
+const realtimeListeners = new Set<(change: RealtimeChange) => void>();
+
+type ReviewStatsRow = Pick<VocabularyReview, 'isSuspended' | 'isMastered' | 'cardState' | 'nextReviewDate'>;
+
+const summarizeReviews = (reviews: ReviewStatsRow[]): ReviewStats => {
+  const today = new Date();
+  today.setHours(23, 59, 59, 999);
+
+  const totalWords = reviews.length;
+  const suspendedWords = reviews.filter(r => r.isSuspended).length;
+  const masteredWords = reviews.filter(r => r.isMastered && !r.isSuspended).length;
+  const newWords = reviews.filter(r => r.cardState === 'new' && !r.isSuspended).length;
+  const learningWords = reviews.filter(r => r.cardState !== 'new' && !r.isMastered && !r.isSuspended).length;
+  const dueToday = reviews.filter(r => {
+    if (r.isSuspended) return false;
+    if (r.cardState === 'new') return false; // New words are not "due" - they're new
+    return r.nextReviewDate <= today;
+  }).length;
+
+  const activeWords = totalWords - suspendedWords;
+  const masteryPercentage = activeWords > 0 ? (masteredWords / activeWords) * 100 : 0;
+
+  return {
+    totalWords,
+    masteredWords,
+    learningWords,
+    newWords,
+    dueToday,
+    suspendedWords,
+    masteryPercentage,
+  };
+};
+
 export const dataService = {
   // ==================== ANALYSES ====================
 
@@ -135,6 +723,10 @@ export const dataService = {
   async fetchAnalyses(userId: string): Promise<SavedAnalysis[]> {
     if (!supabase) return [];
 
+    // Offline: the app's local copy (kept up to date by App)
+    const local = async () => (await localStore.getAll<SavedAnalysis>('analyses')).sort(byDateDesc);
+    if (!syncEngine.isOnline()) return local();
+
     const { data, error } = await supabase
       .from('saved_analyses')
       .select('*')
@@ -142,6 +734,7 @@ export const dataService = {
       .order('date', { ascending: false });
 
     if (error) {
+      if (isNetworkError(error)) return local();
       console.error('Error fetching analyses:', error);
       return [];
     }
@@ -160,9 +753,10 @@ export const dataService = {
 
     console.log('Saving analysis to Supabase...', { userId, analysisId: analysis.id });
 
-    const { data, error } = await supabase
-      .from('saved_analyses')
-      .insert({
+    const saved = await syncEngine.run(userId, {
+      op: 'insert',
+      table: 'saved_analyses',
+      values: {
         id: analysis.id,
         user_id: userId,
         date: analysis.date,
@@ -174,17 +768,14 @@ export const dataService = {
         notes: analysis.notes || [],
         folder_id: analysis.folderId || null,
         flashcard_passed: analysis.flashcardPassed || false,
-      })
-      .select()
-      .single();
+      },
+    }, 'Error saving analysis to Supabase');
 
-    if (error) {
-      console.error('Error saving analysis to Supabase:', error);
-      return null;
-    }
+    if (!saved) return null;
 
-    console.log('Analysis saved successfully to Supabase!', data);
-    return dbToAnalysis(data);
+    console.log('Analysis saved to Supabase (or queued until back online)');
+    await this.autoAddAnalysisVocabulary(userId, [analysis]);
+    return analysis;
   },
 
   /**
@@ -198,31 +789,21 @@ export const dataService = {
 
     console.log('Updating analysis in Supabase...', { userId, analysisId: analysis.id });
 
-    const { data, error } = await supabase
-      .from('saved_analyses')
-      .update({
-        date: analysis.date,
-        source_type: analysis.sourceType,
-        input_text: analysis.inputText,
-        analysis_result: analysis.analysisResult,
-        file_name: analysis.fileName || null,
-        title: analysis.title || null,
-        notes: analysis.notes || [],
-        folder_id: analysis.folderId || null,
-        flashcard_passed: analysis.flashcardPassed || false,
-      })
-      .eq('id', analysis.id)
-      .eq('user_id', userId)
-      .select()
-      .single();
+    const fields = analysisFields(analysis);
+    const updated = await writeVersioned(
+      userId,
+      'saved_analyses',
+      analysis.id,
+      { ...analysisContentRow(analysis), ...toColumns(fields, ANALYSIS_COLUMNS) },
+      fields,
+      'Error updating analysis in Supabase'
+    );
 
-    if (error) {
-      console.error('Error updating analysis in Supabase:', error);
-      return null;
-    }
+    if (!updated) return null;
 
-    console.log('Analysis updated successfully in Supabase!', data);
-    return dbToAnalysis(data);
+    console.log('Analysis updated in Supabase (or queued until back online)');
+    await this.autoAddAnalysisVocabulary(userId, [analysis]);
+    return analysis;
   },
 
   /**
@@ -231,55 +812,21 @@ export const dataService = {
   async deleteAnalysis(userId: string, analysisId: string): Promise<boolean> {
     if (!supabase) return false;
 
-    const { error } = await supabase
-      .from('saved_analyses')
-      .delete()
-      .eq('id', analysisId)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error deleting analysis:', error);
-      return false;
-    }
-
-    return true;
+    return syncEngine.run(userId, {
+      op: 'delete',
+      table: 'saved_analyses',
+      match: { id: analysisId, user_id: userId },
+    }, 'Error deleting analysis');
   },
 
   /**
-   * Sync multiple analyses (used when user logs in to upload local data)
+   * Merge this device's analyses with the cloud (on sign-in and after every
+   * sync pass). Fields changed on both sides come back as conflicts.
    */
-  async syncAnalyses(userId: string, analyses: SavedAnalysis[]): Promise<void> {
-    if (!supabase || analyses.length === 0) return;
-
-    // Get existing IDs to avoid duplicates
-    const { data: existing } = await supabase
-      .from('saved_analyses')
-      .select('id')
-      .eq('user_id', userId);
-
-    const existingIds = new Set((existing || []).map(e => e.id));
-
-    // Filter out analyses that already exist
-    const newAnalyses = analyses.filter(a => !existingIds.has(a.id));
-
-    if (newAnalyses.length === 0) return;
-
-    const { error } = await supabase
-      .from('saved_analyses')
-      .insert(newAnalyses.map(analysis => ({
-        id: analysis.id,
-        user_id: userId,
-        date: analysis.date,
-        source_type: analysis.sourceType,
-        input_text: analysis.inputText,
-        analysis_result: analysis.analysisResult,
-        file_name: analysis.fileName || null,
-        folder_id: analysis.folderId || null,
-      })));
-
-    if (error) {
-      console.error('Error syncing analyses:', error);
-    }
+  async syncAnalyses(userId: string, analyses: SavedAnalysis[]): Promise<RecordSyncResult<SavedAnalysis> | null> {
+    const result = await syncVersioned(userId, analyses, ANALYSIS_SPEC);
+    if (result) result.records.sort(byDateDesc);
+    return result;
   },
 
   // ==================== VOCABULARY ====================
@@ -322,6 +869,7 @@ export const dataService = {
         imagery_etymology: item.imagery_etymology || null,
         examples: item.examples || [],
         nuance: item.nuance || null,
+        tags: item.tags || [],
         date_added: item.dateAdded,
       })));
 
@@ -380,6 +928,10 @@ export const dataService = {
   async fetchFolders(userId: string): Promise<AnalysisFolder[]> {
     if (!supabase) return [];
 
+    // Offline: the app's local copy (kept up to date by App)
+    const local = async () => (await localStore.getAll<AnalysisFolder>('folders')).sort((a, b) => a.createdAt - b.createdAt);
+    if (!syncEngine.isOnline()) return local();
+
     const { data, error } = await supabase
       .from('analysis_folders')
       .select('*')
@@ -387,6 +939,7 @@ export const dataService = {
       .order('created_at', { ascending: true });
 
     if (error) {
+      if (isNetworkError(error)) return local();
       console.error('Error fetching folders:', error);
       return [];
     }
@@ -403,23 +956,18 @@ export const dataService = {
       return null;
     }
 
-    const { data, error } = await supabase
-      .from('analysis_folders')
-      .insert({
+    const created = await syncEngine.run(userId, {
+      op: 'insert',
+      table: 'analysis_folders',
+      values: {
         id: folder.id,
         user_id: userId,
         name: folder.name,
         color: folder.color || null,
-      })
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error creating folder:', error);
-      return null;
-    }
+      },
+    }, 'Error creating folder');
 
-    return dbToFolder(data);
+    return created ? folder : null;
   },
 
   /**
@@ -428,23 +976,17 @@ export const dataService = {
   async updateFolder(userId: string, folder: AnalysisFolder): Promise<AnalysisFolder | null> {
     if (!supabase) return null;
 
-    const { data, error } = await supabase
-      .from('analysis_folders')
-      .update({
-        name: folder.name,
-        color: folder.color || null,
-      })
-      .eq('id', folder.id)
-      .eq('user_id', userId)
-      .select()
-      .single();
-
-    if (error) {
-      console.error('Error updating folder:', error);
-      return null;
-    }
+    const fields = folderFields(folder);
+    const updated = await writeVersioned(
+      userId,
+      'analysis_folders',
+      folder.id,
+      toColumns(fields, FOLDER_COLUMNS),
+      fields,
+      'Error updating folder'
+    );
 
-    return dbToFolder(data);
+    return updated ? folder : null;
   },
 
   /**
@@ -453,18 +995,11 @@ export const dataService = {
   async deleteFolder(userId: string, folderId: string): Promise<boolean> {
     if (!supabase) return false;
 
-    const { error } = await supabase
-      .from('analysis_folders')
-      .delete()
-      .eq('id', folderId)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error deleting folder:', error);
-      return false;
-    }
-
-    return true;
+    return syncEngine.run(userId, {
+      op: 'delete',
+      table: 'analysis_folders',
+      match: { id: folderId, user_id: userId },
+    }, 'Error deleting folder');
   },
 
   /**
@@ -473,18 +1008,7 @@ export const dataService = {
   async updateAnalysisFolder(userId: string, analysisId: string, folderId: string | null): Promise<boolean> {
     if (!supabase) return false;
 
-    const { error } = await supabase
-      .from('saved_analyses')
-      .update({ folder_id: folderId })
-      .eq('id', analysisId)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error updating analysis folder:', error);
-      return false;
-    }
-
-    return true;
+    return writeVersioned(userId, 'saved_analyses', analysisId, { folder_id: folderId }, { folderId }, 'Error updating analysis folder');
   },
 
   /**
@@ -493,18 +1017,7 @@ export const dataService = {
   async updateFlashcardPassed(userId: string, analysisId: string, passed: boolean): Promise<boolean> {
     if (!supabase) return false;
 
-    const { error } = await supabase
-      .from('saved_analyses')
-      .update({ flashcard_passed: passed })
-      .eq('id', analysisId)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error updating flashcard passed status:', error);
-      return false;
-    }
-
-    return true;
+    return writeVersioned(userId, 'saved_analyses', analysisId, { flashcard_passed: passed }, { flashcardPassed: passed }, 'Error updating flashcard passed status');
   },
 
   /**
@@ -513,67 +1026,53 @@ export const dataService = {
   async updateAnalysisTitle(userId: string, analysisId: string, title: string | null): Promise<boolean> {
     if (!supabase) return false;
 
-    const { error } = await supabase
-      .from('saved_analyses')
-      .update({ title })
-      .eq('id', analysisId)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error updating analysis title:', error);
-      return false;
-    }
-
-    return true;
+    return writeVersioned(userId, 'saved_analyses', analysisId, { title }, { title: title || null }, 'Error updating analysis title');
   },
 
   /**
-   * Sync folders (used when user logs in)
+   * Merge this device's folders with the cloud, like syncAnalyses
    */
-  async syncFolders(userId: string, folders: AnalysisFolder[]): Promise<void> {
-    if (!supabase || folders.length === 0) return;
-
-    const { data: existing } = await supabase
-      .from('analysis_folders')
-      .select('id')
-      .eq('user_id', userId);
-
-    const existingIds = new Set((existing || []).map(e => e.id));
-    const newFolders = folders.filter(f => !existingIds.has(f.id));
-
-    if (newFolders.length === 0) return;
+  async syncFolders(userId: string, folders: AnalysisFolder[]): Promise<RecordSyncResult<AnalysisFolder> | null> {
+    const result = await syncVersioned(userId, folders, FOLDER_SPEC);
+    if (result) result.records.sort((a, b) => a.createdAt - b.createdAt);
+    return result;
+  },
 
-    const { error } = await supabase
-      .from('analysis_folders')
-      .insert(newFolders.map(folder => ({
-        id: folder.id,
-        user_id: userId,
-        name: folder.name,
-        color: folder.color || null,
-      })));
+  /**
+   * Settle a conflict with the value the user picked. This device's copy is
+   * updated by the caller.
+   */
+  async resolveSyncConflict(userId: string, conflict: SyncConflict, value: unknown): Promise<boolean> {
+    if (!supabase) return false;
 
-    if (error) {
-      console.error('Error syncing folders:', error);
+    const table: VersionedTable = conflict.kind === 'analysis' ? 'saved_analyses' : 'analysis_folders';
+    const columns: Record<string, string> = conflict.kind === 'analysis' ? ANALYSIS_COLUMNS : FOLDER_COLUMNS;
+
+    // Written regardless of version: both sides' values are known
+    const resolved = await syncEngine.run(userId, {
+      op: 'update',
+      table,
+      values: toColumns({ [conflict.field]: value }, columns),
+      match: { id: conflict.recordId, user_id: userId },
+    }, 'Error resolving sync conflict');
+
+    // Both sides now agree on this field. The version stays as it was, so the
+    // next write goes through a sync pass that picks up the new version.
+    const key = `${table}:${conflict.recordId}`;
+    const base = await localStore.get<SyncBase>('sync_base', key);
+    if (resolved && base) {
+      await localStore.put<SyncBase>('sync_base', { ...base, fields: { ...base.fields, [conflict.field]: value } });
     }
+    return resolved;
   },
 
-  // ==================== EXPORT ====================
+  // ==================== BACKUP ====================
 
   /**
-   * Export all data as JSON and trigger download
+   * Download a backup file (see services/backup.ts)
    */
-  exportToJson(analyses: SavedAnalysis[], vocabulary: SavedVocabularyItem[]): void {
-    const exportData = {
-      exportDate: new Date().toISOString(),
-      appName: 'WordDecode',
-      version: '1.0',
-      data: {
-        analyses,
-        vocabulary,
-      },
-    };
-
-    const blob = new Blob([JSON.stringify(exportData, null, 2)], { type: 'application/json' });
+  exportToJson(backup: AccountBackup): void {
+    const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     
     const link = document.createElement('a');
@@ -585,25 +1084,100 @@ export const dataService = {
     URL.revokeObjectURL(url);
   },
 
-  // ==================== USER VISITS ====================
-
   /**
-   * Record a user visit
+   * The parts of a backup that live only in the cloud: review cards with their
+   * scheduling state, books and chapter vocabulary
    */
-  async recordVisit(userId: string): Promise<void> {
-    if (!supabase) return;
+  async fetchBackupData(userId: string): Promise<Pick<BackupData, 'reviews' | 'books' | 'chapterVocabulary'>> {
+    if (!supabase) return { reviews: [], books: [], chapterVocabulary: [] };
+
+    const [reviews, books] = await Promise.all([
+      this.fetchVocabularyReviews(userId),
+      this.fetchBooks(userId),
+    ]);
+
+    const cachedChapters = async (): Promise<ChapterVocabularyBackup[]> =>
+      (await localStore.getAll<{ id: string; vocabulary: VocabularyItem[] }>('chapter_vocabulary')).map(row => {
+        const [bookId, chapterId] = row.id.split(':');
+        return { bookId, chapterId, vocabulary: row.vocabulary };
+      });
+    if (!syncEngine.isOnline()) return { reviews, books, chapterVocabulary: await cachedChapters() };
 
-    const { error } = await supabase
-      .from('user_visits')
-      .insert({
-        id: crypto.randomUUID(),
-        user_id: userId,
-        visited_at: new Date().toISOString(),
-      });
+    const { data, error } = await supabase
+      .from('book_chapter_vocabulary')
+      .select('book_id, chapter_id, vocabulary')
+      .eq('user_id', userId);
 
     if (error) {
-      console.error('Error recording visit:', error);
+      if (isNetworkError(error)) return { reviews, books, chapterVocabulary: await cachedChapters() };
+      console.error('Error fetching chapter vocabulary for backup:', error);
     }
+
+    return {
+      reviews,
+      books,
+      chapterVocabulary: (data || []).map(row => ({
+        bookId: row.book_id,
+        chapterId: row.chapter_id,
+        vocabulary: row.vocabulary as VocabularyItem[],
+      })),
+    };
+  },
+
+  /**
+   * Write an import planned by planBackupImport to the cloud. Parents go
+   * before the rows that point at them; a write the server rejects stops the
+   * import. Known words and proficiency stay on the device (App).
+   */
+  async importBackup(userId: string, plan: BackupImportPlan): Promise<boolean> {
+    if (!supabase) return false;
+
+    const folders = [...plan.folders.add, ...plan.folders.overwrite];
+    const analyses = [...plan.analyses.add, ...plan.analyses.overwrite];
+    const books = [...plan.books.add, ...plan.books.overwrite].map(book => ({ ...book, userId }));
+    const chapters = [...plan.chapterVocabulary.add, ...plan.chapterVocabulary.overwrite];
+    const reviews = [...plan.reviews.add, ...plan.reviews.overwrite];
+
+    const imported =
+      await writeBatches(userId, 'analysis_folders', folders.map(f => FOLDER_SPEC.toRow(userId, f)), 'Error importing folders') &&
+      await writeBatches(userId, 'saved_analyses', analyses.map(a => ANALYSIS_SPEC.toRow(userId, a)), 'Error importing analyses') &&
+      await writeBatches(userId, 'saved_books', books.map(b => bookToDb(userId, b)), 'Error importing books') &&
+      await writeBatches(userId, 'book_chapter_vocabulary', chapters.map(chapter => ({
+        user_id: userId,
+        book_id: chapter.bookId,
+        chapter_id: chapter.chapterId,
+        vocabulary: chapter.vocabulary,
+      })), 'Error importing chapter vocabulary', 'user_id,book_id,chapter_id') &&
+      await writeBatches(userId, 'vocabulary_reviews', reviews.map(r => vocabularyReviewToDb(userId, r)), 'Error importing review cards');
+    // Rejected rows never reached the cloud, so they get no offline copy either
+    if (!imported) return false;
+
+    // Offline copies
+    await localStore.putAll('reviews', reviews);
+    await localStore.putAll('books', books);
+    await localStore.putAll('chapter_vocabulary', chapters.map(chapter => ({
+      id: `${chapter.bookId}:${chapter.chapterId}`,
+      vocabulary: chapter.vocabulary,
+    })));
+
+    return true;
+  },
+
+  // ==================== USER VISITS ====================
+
+  /**
+   * Record a user visit
+   */
+  async recordVisit(userId: string): Promise<void> {
+    if (!supabase) return;
+
+    const visit = { id: crypto.randomUUID(), visitedAt: new Date().toISOString() };
+    await localStore.put('visits', visit);
+    await syncEngine.run(userId, {
+      op: 'insert',
+      table: 'user_visits',
+      values: { id: visit.id, user_id: userId, visited_at: visit.visitedAt },
+    }, 'Error recording visit');
   },
 
   /**
@@ -616,21 +1190,33 @@ export const dataService = {
     const startDate = new Date(year, month, 1);
     const endDate = new Date(year, month + 1, 0, 23, 59, 59, 999);
 
-    const { data, error } = await supabase
-      .from('user_visits')
-      .select('visited_at')
-      .eq('user_id', userId)
-      .gte('visited_at', startDate.toISOString())
-      .lte('visited_at', endDate.toISOString());
+    // Offline: visits cached from earlier months and recorded on this device
+    const local = async () => (await localStore.getAll<{ id: string; visitedAt: string }>('visits'))
+      .filter(visit => visit.visitedAt >= startDate.toISOString() && visit.visitedAt <= endDate.toISOString())
+      .map(visit => ({ id: visit.id, visited_at: visit.visitedAt }));
 
-    if (error) {
-      console.error('Error fetching visits:', error);
-      return [];
+    let rows: { id: string; visited_at: string }[];
+    if (!syncEngine.isOnline()) {
+      rows = await local();
+    } else {
+      const { data, error } = await supabase
+        .from('user_visits')
+        .select('id, visited_at')
+        .eq('user_id', userId)
+        .gte('visited_at', startDate.toISOString())
+        .lte('visited_at', endDate.toISOString());
+
+      if (error && !isNetworkError(error)) {
+        console.error('Error fetching visits:', error);
+        return [];
+      }
+      rows = error ? await local() : data || [];
+      if (!error) await refreshCache('visits', rows.map(row => ({ id: row.id, visitedAt: row.visited_at })));
     }
 
     // Aggregate visits by date
     const visitCounts: Record<string, number> = {};
-    (data || []).forEach((row: { visited_at: string }) => {
+    rows.forEach(row => {
       const date = row.visited_at.split('T')[0]; // YYYY-MM-DD
       visitCounts[date] = (visitCounts[date] || 0) + 1;
     });
@@ -646,6 +1232,10 @@ export const dataService = {
   async fetchVocabularyReviews(userId: string): Promise<VocabularyReview[]> {
     if (!supabase) return [];
 
+    const local = async () => (await cachedReviews())
+      .sort((a, b) => a.nextReviewDate.getTime() - b.nextReviewDate.getTime());
+    if (!syncEngine.isOnline()) return local();
+
     const { data, error } = await supabase
       .from('vocabulary_reviews')
       .select('*')
@@ -653,35 +1243,49 @@ export const dataService = {
       .order('next_review_date', { ascending: true });
 
     if (error) {
+      if (isNetworkError(error)) return local();
       console.error('Error fetching vocabulary reviews:', error);
       return [];
     }
 
-    return (data || []).map(dbToVocabularyReview);
+    // The full set replaces the offline copy, so cards deleted elsewhere go too
+    const reviews = (data || []).map(dbToVocabularyReview);
+    await refreshCache('reviews', reviews, true);
+    return reviews;
   },
 
   /**
-   * Fetch reviews that are due for review (not suspended, next_review_date <= today)
+   * Fetch reviews that are due for review (not suspended, already seen, next_review_date <= today)
    */
-  async fetchDueReviews(userId: string, limit?: number, sourceType?: string): Promise<VocabularyReview[]> {
+  async fetchDueReviews(userId: string, limit?: number, sourceType?: string, cardTypes?: CardType[]): Promise<VocabularyReview[]> {
     if (!supabase) return [];
 
     const today = new Date();
     today.setHours(23, 59, 59, 999); // End of today
 
+    const local = async () => (await cachedReviews(sourceType, cardTypes))
+      .filter(r => !r.isSuspended && r.cardState !== 'new' && r.nextReviewDate <= today)
+      .sort((a, b) => a.nextReviewDate.getTime() - b.nextReviewDate.getTime())
+      .slice(0, limit);
+    if (!syncEngine.isOnline()) return local();
+
     let query = supabase
       .from('vocabulary_reviews')
       .select('*')
       .eq('user_id', userId)
       .eq('is_suspended', false)
       .lte('next_review_date', today.toISOString())
-      .gt('repetitions', 0) // Has been reviewed at least once
+      .neq('card_state', 'new') // Has been answered at least once (incl. learning steps)
       .order('next_review_date', { ascending: true });
 
     if (sourceType) {
       query = query.eq('source_type', sourceType);
     }
 
+    if (cardTypes) {
+      query = query.in('card_type', cardTypes);
+    }
+
     if (limit) {
       query = query.limit(limit);
     }
@@ -689,31 +1293,48 @@ export const dataService = {
     const { data, error } = await query;
 
     if (error) {
+      if (isNetworkError(error)) return local();
       console.error('Error fetching due reviews:', error);
       return [];
     }
 
-    return (data || []).map(dbToVocabularyReview);
+    const reviews = (data || []).map(dbToVocabularyReview);
+    await refreshCache('reviews', reviews);
+    return reviews;
   },
 
   /**
    * Fetch new words (never reviewed) for review
    */
-  async fetchNewWordsForReview(userId: string, limit?: number, sourceType?: string): Promise<VocabularyReview[]> {
+  async fetchNewWordsForReview(userId: string, limit?: number, sourceType?: string, cardTypes?: CardType[]): Promise<VocabularyReview[]> {
     if (!supabase) return [];
 
+    // Cards already queued today come first, so an unfinished session's new cards aren't skipped
+    const local = async () => (await cachedReviews(sourceType, cardTypes))
+      .filter(r => !r.isSuspended && r.cardState === 'new')
+      .sort((a, b) =>
+        (b.introducedAt?.getTime() ?? 0) - (a.introducedAt?.getTime() ?? 0) ||
+        a.createdAt.getTime() - b.createdAt.getTime())
+      .slice(0, limit);
+    if (!syncEngine.isOnline()) return local();
+
     let query = supabase
       .from('vocabulary_reviews')
       .select('*')
       .eq('user_id', userId)
       .eq('is_suspended', false)
-      .eq('repetitions', 0) // Never reviewed
+      .eq('card_state', 'new') // Never reviewed
+      .order('introduced_at', { ascending: false, nullsFirst: false })
       .order('created_at', { ascending: true });
 
     if (sourceType) {
       query = query.eq('source_type', sourceType);
     }
 
+    if (cardTypes) {
+      query = query.in('card_type', cardTypes);
+    }
+
     if (limit) {
       query = query.limit(limit);
     }
@@ -721,82 +1342,53 @@ export const dataService = {
     const { data, error } = await query;
 
     if (error) {
+      if (isNetworkError(error)) return local();
       console.error('Error fetching new words for review:', error);
       return [];
     }
 
-    return (data || []).map(dbToVocabularyReview);
+    const reviews = (data || []).map(dbToVocabularyReview);
+    await refreshCache('reviews', reviews);
+    return reviews;
   },
 
   /**
    * Get review statistics for the dashboard
    */
-  async getReviewStats(userId: string, sourceType?: string): Promise<ReviewStats> {
-    if (!supabase) {
-      return {
-        totalWords: 0,
-        masteredWords: 0,
-        learningWords: 0,
-        newWords: 0,
-        dueToday: 0,
-        suspendedWords: 0,
-        masteryPercentage: 0,
-      };
-    }
+  async getReviewStats(userId: string, sourceType?: string, cardTypes?: CardType[]): Promise<ReviewStats> {
+    if (!supabase) return summarizeReviews([]);
 
-    const today = new Date();
-    today.setHours(23, 59, 59, 999);
+    const local = async () => summarizeReviews(await cachedReviews(sourceType, cardTypes));
+    if (!syncEngine.isOnline()) return local();
 
     // Fetch all reviews for the user (optionally filtered by source type)
     let query = supabase
       .from('vocabulary_reviews')
-      .select('is_suspended, is_mastered, repetitions, next_review_date')
+      .select('is_suspended, is_mastered, card_state, next_review_date')
       .eq('user_id', userId);
 
     if (sourceType) {
       query = query.eq('source_type', sourceType);
     }
 
+    if (cardTypes) {
+      query = query.in('card_type', cardTypes);
+    }
+
     const { data, error } = await query;
 
     if (error) {
+      if (isNetworkError(error)) return local();
       console.error('Error fetching review stats:', error);
-      return {
-        totalWords: 0,
-        masteredWords: 0,
-        learningWords: 0,
-        newWords: 0,
-        dueToday: 0,
-        suspendedWords: 0,
-        masteryPercentage: 0,
-      };
+      return summarizeReviews([]);
     }
 
-    const reviews = data || [];
-    const totalWords = reviews.length;
-    const suspendedWords = reviews.filter(r => r.is_suspended).length;
-    const masteredWords = reviews.filter(r => r.is_mastered && !r.is_suspended).length;
-    const newWords = reviews.filter(r => r.repetitions === 0 && !r.is_suspended).length;
-    const learningWords = reviews.filter(r => r.repetitions > 0 && !r.is_mastered && !r.is_suspended).length;
-    const dueToday = reviews.filter(r => {
-      if (r.is_suspended) return false;
-      if (r.repetitions === 0) return false; // New words are not "due" - they're new
-      const reviewDate = new Date(r.next_review_date);
-      return reviewDate <= today;
-    }).length;
-
-    const activeWords = totalWords - suspendedWords;
-    const masteryPercentage = activeWords > 0 ? (masteredWords / activeWords) * 100 : 0;
-
-    return {
-      totalWords,
-      masteredWords,
-      learningWords,
-      newWords,
-      dueToday,
-      suspendedWords,
-      masteryPercentage,
-    };
+    return summarizeReviews((data || []).map(row => ({
+      isSuspended: row.is_suspended,
+      isMastered: row.is_mastered,
+      cardState: row.card_state as CardState,
+      nextReviewDate: new Date(row.next_review_date),
+    })));
   },
 
   /**
@@ -812,11 +1404,17 @@ export const dataService = {
         term: review.term,
         definition: review.definition,
         source_analysis_id: review.sourceAnalysisId || null,
+        source_type: review.sourceType || 'text_analysis',
+        card_type: review.cardType || 'production',
         ease_factor: review.easeFactor,
         interval: review.interval,
         repetitions: review.repetitions,
         next_review_date: review.nextReviewDate.toISOString(),
         last_review_date: review.lastReviewDate?.toISOString() || null,
+        card_state: review.cardState ?? 'new',
+        learning_step: review.learningStep ?? null,
+        stability: review.stability ?? null,
+        difficulty: review.difficulty ?? null,
         is_suspended: review.isSuspended,
         is_mastered: review.isMastered,
         correct_count: review.correctCount,
@@ -826,8 +1424,9 @@ export const dataService = {
         examples: review.examples || null,
         imagery_etymology: review.imageryEtymology || null,
         difficulty_level: review.difficultyLevel || null,
+        tags: review.tags || [],
       }, {
-        onConflict: 'user_id,term',
+        onConflict: 'user_id,term,source_type,card_type',
       })
       .select()
       .single();
@@ -841,529 +1440,1409 @@ export const dataService = {
   },
 
   /**
-   * Update a review after the user answers (applies SM-2 algorithm)
+   * Update a review after the user answers (applies the user's scheduler and learning steps)
    */
   async updateReviewAfterAnswer(
     userId: string,
     reviewId: string,
-    quality: SimpleQuality
+    quality: SimpleQuality,
+    settings: SrsSettings = DEFAULT_SRS_SETTINGS,
+    answer?: { typedAnswer?: string; answerGrade?: AnswerGrade; timeTakenMs?: number; responseLatencyMs?: number }
   ): Promise<VocabularyReview | null> {
     if (!supabase) return null;
 
-    // First fetch the current review
-    const { data: currentData, error: fetchError } = await supabase
-      .from('vocabulary_reviews')
-      .select('*')
-      .eq('id', reviewId)
-      .eq('user_id', userId)
-      .single();
-
-    if (fetchError || !currentData) {
-      console.error('Error fetching review for update:', fetchError);
-      return null;
-    }
+    const currentReview = await this.fetchReviewForAnswer(userId, reviewId);
+    if (!currentReview) return null;
 
-    const currentReview = dbToVocabularyReview(currentData);
     const sm2Quality = simpleToSM2Quality(quality);
     
-    // Calculate new SM-2 values
-    const { easeFactor, interval, repetitions, nextReviewDate, isMastered } = calculateNextReview(
-      currentReview,
-      sm2Quality
-    );
+    // Calculate new scheduling values
+    let scheduled = scheduleReview(currentReview, sm2Quality, settings);
+
+    // Spread the due date over nearby days based on how many cards are already scheduled
+    if (scheduled.cardState === 'review') {
+      const { min, max } = getFuzzRange(scheduled.interval);
+      if (min !== max) {
+        const dueCounts = await this.fetchDueCountsByDay(userId, min, max);
+        scheduled = applyLoadBalancing(scheduled, dueCounts);
+      }
+    }
+
+    const { easeFactor, interval, repetitions, nextReviewDate, isMastered, stability, difficulty, cardState, learningStep } = scheduled;
 
     // Update stats
     const isCorrect = sm2Quality >= 3;
     const newCorrectCount = isCorrect ? currentReview.correctCount + 1 : currentReview.correctCount;
     const newIncorrectCount = !isCorrect ? currentReview.incorrectCount + 1 : currentReview.incorrectCount;
 
-    // Update the review
-    const { data, error } = await supabase
-      .from('vocabulary_reviews')
-      .update({
+    // A lapse is forgetting a card that had graduated to review
+    const previousCardState = getCardState(currentReview);
+    const isLapse = quality === 'again' && previousCardState === 'review';
+    const lapses = (currentReview.lapses ?? 0) + (isLapse ? 1 : 0);
+    const becameLeech = isLapse && !currentReview.isLeech && lapses >= settings.leechThreshold;
+
+    const updatedReview: VocabularyReview = {
+      ...currentReview,
+      easeFactor,
+      interval,
+      repetitions,
+      nextReviewDate,
+      lastReviewDate: new Date(),
+      cardState: cardState ?? 'review',
+      learningStep,
+      stability,
+      difficulty,
+      isMastered,
+      correctCount: newCorrectCount,
+      incorrectCount: newIncorrectCount,
+      lapses,
+      ...(becameLeech && {
+        isLeech: true,
+        isSuspended: settings.leechAction === 'suspend' || currentReview.isSuspended,
+      }),
+    };
+
+    // Update the review (queued when offline)
+    const updated = await syncEngine.run(userId, {
+      op: 'update',
+      table: 'vocabulary_reviews',
+      values: {
         ease_factor: easeFactor,
         interval: interval,
         repetitions: repetitions,
         next_review_date: nextReviewDate.toISOString(),
-        last_review_date: new Date().toISOString(),
+        last_review_date: updatedReview.lastReviewDate!.toISOString(),
+        card_state: cardState ?? 'review',
+        learning_step: learningStep ?? null,
+        stability: stability ?? null,
+        difficulty: difficulty ?? null,
         is_mastered: isMastered,
         correct_count: newCorrectCount,
         incorrect_count: newIncorrectCount,
-      })
+        lapses,
+        ...(becameLeech && {
+          is_leech: true,
+          is_suspended: updatedReview.isSuspended,
+        }),
+      },
+      match: { id: reviewId, user_id: userId },
+    }, 'Error updating review after answer');
+
+    if (!updated) return null;
+    await localStore.put('reviews', updatedReview);
+
+    // Keep a full history of the answer (failure here shouldn't block the review)
+    await this.insertReviewLog(userId, {
+      reviewId,
+      reviewedAt: new Date(),
+      quality,
+      previousCardState,
+      typedAnswer: answer?.typedAnswer,
+      answerGrade: answer?.answerGrade,
+      timeTakenMs: answer?.timeTakenMs,
+      responseLatencyMs: answer?.responseLatencyMs,
+      previousInterval: currentReview.interval,
+      newInterval: interval,
+      previousEaseFactor: currentReview.easeFactor,
+      newEaseFactor: easeFactor,
+    });
+
+    return updatedReview;
+  },
+
+  /**
+   * The card as it stands before an answer: from the cloud when it is reachable
+   * and up to date, otherwise from the offline copy
+   */
+  async fetchReviewForAnswer(userId: string, reviewId: string): Promise<VocabularyReview | null> {
+    if (!supabase) return null;
+
+    const cached = await localStore.get<VocabularyReview>('reviews', reviewId);
+    if (cached && (!syncEngine.isOnline() || await syncEngine.pendingCount() > 0)) return cached;
+
+    const { data, error } = await supabase
+      .from('vocabulary_reviews')
+      .select('*')
       .eq('id', reviewId)
       .eq('user_id', userId)
-      .select()
       .single();
 
-    if (error) {
-      console.error('Error updating review after answer:', error);
+    if (error || !data) {
+      if (cached && isNetworkError(error)) return cached;
+      console.error('Error fetching review for update:', error);
       return null;
     }
 
     return dbToVocabularyReview(data);
   },
 
+  // ==================== REVIEW LOG ====================
+
   /**
-   * Suspend a word (mark as "don't show again")
+   * Append an entry to the review log
    */
-  async suspendWord(userId: string, reviewId: string, suspended: boolean = true): Promise<boolean> {
+  async insertReviewLog(userId: string, entry: Omit<ReviewLogEntry, 'id'>): Promise<boolean> {
     if (!supabase) return false;
 
-    const { error } = await supabase
-      .from('vocabulary_reviews')
-      .update({ is_suspended: suspended })
-      .eq('id', reviewId)
-      .eq('user_id', userId);
+    // Client-side id, so a replayed insert is recognised as a duplicate
+    const id = crypto.randomUUID();
+    await localStore.put<ReviewLogEntry>('review_log', { ...entry, id });
+
+    return syncEngine.run(userId, {
+      op: 'insert',
+      table: 'review_log',
+      values: reviewLogToDb(userId, { ...entry, id }),
+    }, 'Error inserting review log');
+  },
+
+  /**
+   * Fetch the answer history of a single card (oldest first)
+   */
+  async fetchReviewLogForCard(userId: string, reviewId: string): Promise<ReviewLogEntry[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('review_log')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('review_id', reviewId)
+      .order('reviewed_at', { ascending: true });
 
     if (error) {
-      console.error('Error suspending word:', error);
-      return false;
+      console.error('Error fetching review log for card:', error);
+      return [];
     }
 
-    return true;
+    return (data || []).map(dbToReviewLog);
   },
 
   /**
-   * Sync vocabulary from saved analyses to the review system
-   * Creates new review records for any vocabulary not already in the system
+   * Fetch review log entries for the current user (newest first), optionally within a time range
    */
-  async syncVocabFromAnalyses(userId: string, analyses: SavedAnalysis[]): Promise<number> {
-    if (!supabase || analyses.length === 0) {
-      console.log('syncVocabFromAnalyses: No supabase or empty analyses');
-      return 0;
-    }
+  async fetchReviewLogs(
+    userId: string,
+    options: { since?: Date; until?: Date; limit?: number } = {}
+  ): Promise<ReviewLogEntry[]> {
+    if (!supabase) return [];
 
-    console.log(`syncVocabFromAnalyses: Processing ${analyses.length} analyses for user ${userId}`);
+    let query = supabase
+      .from('review_log')
+      .select('*')
+      .eq('user_id', userId)
+      .order('reviewed_at', { ascending: false });
 
-    // Count total vocabulary items in all analyses
-    let totalVocabInAnalyses = 0;
-    for (const analysis of analyses) {
-      const vocabCount = analysis.analysisResult?.vocabulary?.length || 0;
-      totalVocabInAnalyses += vocabCount;
+    if (options.since) {
+      query = query.gte('reviewed_at', options.since.toISOString());
     }
-    console.log(`syncVocabFromAnalyses: Total vocabulary items in analyses: ${totalVocabInAnalyses}`);
 
-    if (totalVocabInAnalyses === 0) {
-      console.log('syncVocabFromAnalyses: No vocabulary found in any analysis');
-      return 0;
+    if (options.until) {
+      query = query.lte('reviewed_at', options.until.toISOString());
     }
 
-    // Get existing terms for text_analysis source only
-    const { data: existingData, error: fetchError } = await supabase
-      .from('vocabulary_reviews')
-      .select('term')
-      .eq('user_id', userId)
-      .eq('source_type', 'text_analysis');
-
-    if (fetchError) {
-      console.error('syncVocabFromAnalyses: Error fetching existing terms:', fetchError);
-      throw fetchError;
-    }
-
-    const existingTerms = new Set((existingData || []).map(r => r.term.toLowerCase()));
-    console.log(`syncVocabFromAnalyses: Found ${existingTerms.size} existing text_analysis terms`);
-
-    // Collect all new vocabulary items - WITHOUT source_analysis_id foreign key constraint
-    const newReviews: Array<{
-      user_id: string;
-      term: string;
-      definition: string;
-      ease_factor: number;
-      interval: number;
-      repetitions: number;
-      next_review_date: string;
-      created_at: string;
-      is_suspended: boolean;
-      is_mastered: boolean;
-      correct_count: number;
-      incorrect_count: number;
-      category: string | null;
-      source_context: string | null;
-      examples: object | null;
-      imagery_etymology: string | null;
-      difficulty_level: string | null;
-      source_type: string;
-    }> = [];
-
-    // Sort analyses by date ascending (oldest first) so older vocab gets earlier created_at
-    const sortedAnalyses = [...analyses].sort((a, b) => a.date - b.date);
-
-    for (const analysis of sortedAnalyses) {
-      if (!analysis.analysisResult?.vocabulary) continue;
-      
-      // Use the analysis date for created_at so older analyses' vocab appears first
-      const analysisDate = new Date(analysis.date);
-      
-      for (const vocab of analysis.analysisResult.vocabulary) {
-        if (!vocab.term || !vocab.definition) continue;
-        
-        // Skip if already exists (case-insensitive)
-        if (existingTerms.has(vocab.term.toLowerCase())) continue;
-
-        // Mark as added to avoid duplicates in this batch
-        existingTerms.add(vocab.term.toLowerCase());
-
-        newReviews.push({
-          user_id: userId,
-          term: vocab.term,
-          definition: vocab.definition,
-          ease_factor: 2.5,
-          interval: 0,
-          repetitions: 0,
-          next_review_date: analysisDate.toISOString(),
-          created_at: analysisDate.toISOString(),
-          is_suspended: false,
-          is_mastered: false,
-          correct_count: 0,
-          incorrect_count: 0,
-          category: vocab.category || null,
-          source_context: vocab.source_context || null,
-          examples: vocab.examples || null,
-          imagery_etymology: vocab.imagery_etymology || null,
-          difficulty_level: vocab.difficulty_level || null,
-          source_type: 'text_analysis',
-        });
-      }
+    if (options.limit) {
+      query = query.limit(options.limit);
     }
 
-    console.log(`syncVocabFromAnalyses: ${newReviews.length} new terms to insert`);
-
-    if (newReviews.length === 0) return 0;
-
-    // Insert in batches of 100
-    const batchSize = 100;
-    let insertedCount = 0;
+    const { data, error } = await query;
 
-    for (let i = 0; i < newReviews.length; i += batchSize) {
-      const batch = newReviews.slice(i, i + batchSize);
-      console.log(`syncVocabFromAnalyses: Inserting batch ${i / batchSize + 1}, size: ${batch.length}`);
-      
-      const { data, error } = await supabase
-        .from('vocabulary_reviews')
-        .insert(batch)
-        .select();
-
-      if (error) {
-        console.error('Error syncing vocabulary batch:', error);
-        console.error('First item in failed batch:', JSON.stringify(batch[0], null, 2));
-        throw new Error(`Failed to sync vocabulary: ${error.message}`);
-      } else {
-        console.log(`syncVocabFromAnalyses: Successfully inserted ${data?.length || batch.length} items`);
-        insertedCount += data?.length || batch.length;
-      }
+    if (error) {
+      console.error('Error fetching review logs:', error);
+      return [];
     }
 
-    console.log(`Synced ${insertedCount} new vocabulary items to review system`);
-    return insertedCount;
+    return (data || []).map(dbToReviewLog);
   },
 
   /**
-   * Sync vocabulary from book library to the review system
+   * Count scheduled (non-new, non-suspended) cards per day, keyed by days from today.
+   * When fromDay <= 0, overdue cards are counted on day 0.
    */
-  async syncVocabFromBooks(userId: string): Promise<number> {
-    if (!supabase) {
-      console.log('syncVocabFromBooks: No supabase');
-      return 0;
-    }
-
-    console.log(`syncVocabFromBooks: Fetching book vocabulary for user ${userId}`);
-
-    // Fetch all book chapter vocabulary for this user
-    const { data: bookVocabData, error: fetchBookError } = await supabase
-      .from('book_chapter_vocabulary')
-      .select('vocabulary, book_id, chapter_id')
-      .eq('user_id', userId);
-
-    if (fetchBookError) {
-      console.error('syncVocabFromBooks: Error fetching book vocabulary:', fetchBookError);
-      throw fetchBookError;
-    }
+  async fetchDueCountsByDay(
+    userId: string,
+    fromDay: number,
+    toDay: number,
+    sourceType?: string
+  ): Promise<Map<number, number>> {
+    const counts = new Map<number, number>();
+    if (!supabase) return counts;
 
-    if (!bookVocabData || bookVocabData.length === 0) {
-      console.log('syncVocabFromBooks: No book vocabulary found');
-      return 0;
-    }
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const rangeStart = new Date(today);
+    rangeStart.setDate(rangeStart.getDate() + fromDay);
+    const rangeEnd = new Date(today);
+    rangeEnd.setDate(rangeEnd.getDate() + toDay);
+    rangeEnd.setHours(23, 59, 59, 999);
+
+    const local = async () => (await cachedReviews(sourceType))
+      .filter(r => !r.isSuspended && r.cardState !== 'new' && r.nextReviewDate <= rangeEnd &&
+        (fromDay <= 0 || r.nextReviewDate >= rangeStart))
+      .map(r => ({ next_review_date: r.nextReviewDate.toISOString() }));
+
+    let rows: { next_review_date: string }[];
+    if (!syncEngine.isOnline()) {
+      rows = await local();
+    } else {
+      let query = supabase
+        .from('vocabulary_reviews')
+        .select('next_review_date')
+        .eq('user_id', userId)
+        .eq('is_suspended', false)
+        .neq('card_state', 'new')
+        .lte('next_review_date', rangeEnd.toISOString());
+
+      if (fromDay > 0) {
+        query = query.gte('next_review_date', rangeStart.toISOString());
+      }
 
-    // Count total vocabulary
-    let totalVocab = 0;
-    for (const row of bookVocabData) {
-      totalVocab += (row.vocabulary as VocabularyItem[])?.length || 0;
-    }
-    console.log(`syncVocabFromBooks: Total vocabulary items in books: ${totalVocab}`);
+      if (sourceType) {
+        query = query.eq('source_type', sourceType);
+      }
 
-    if (totalVocab === 0) return 0;
+      const { data, error } = await query;
 
-    // Get existing terms for book_library source only
-    const { data: existingData, error: existingError } = await supabase
-      .from('vocabulary_reviews')
-      .select('term')
-      .eq('user_id', userId)
-      .eq('source_type', 'book_library');
-
-    if (existingError) {
-      console.error('syncVocabFromBooks: Error fetching existing terms:', existingError);
-      throw existingError;
-    }
-
-    const existingTerms = new Set((existingData || []).map(r => r.term.toLowerCase()));
-    console.log(`syncVocabFromBooks: Found ${existingTerms.size} existing book_library terms`);
-
-    // Collect new vocabulary items
-    const newReviews: Array<{
-      user_id: string;
-      term: string;
-      definition: string;
-      ease_factor: number;
-      interval: number;
-      repetitions: number;
-      next_review_date: string;
-      created_at: string;
-      is_suspended: boolean;
-      is_mastered: boolean;
-      correct_count: number;
-      incorrect_count: number;
-      category: string | null;
-      source_context: string | null;
-      examples: object | null;
-      imagery_etymology: string | null;
-      difficulty_level: string | null;
-      source_type: string;
-    }> = [];
-
-    const now = new Date();
-
-    for (const row of bookVocabData) {
-      const vocabItems = row.vocabulary as VocabularyItem[];
-      if (!vocabItems) continue;
-
-      for (const vocab of vocabItems) {
-        if (!vocab.term || !vocab.definition) continue;
-        
-        // Skip if already exists (case-insensitive)
-        if (existingTerms.has(vocab.term.toLowerCase())) continue;
-
-        // Mark as added to avoid duplicates in this batch
-        existingTerms.add(vocab.term.toLowerCase());
-
-        newReviews.push({
-          user_id: userId,
-          term: vocab.term,
-          definition: vocab.definition,
-          ease_factor: 2.5,
-          interval: 0,
-          repetitions: 0,
-          next_review_date: now.toISOString(),
-          created_at: now.toISOString(),
-          is_suspended: false,
-          is_mastered: false,
-          correct_count: 0,
-          incorrect_count: 0,
-          category: vocab.category || null,
-          source_context: vocab.source_context || null,
-          examples: vocab.examples || null,
-          imagery_etymology: vocab.imagery_etymology || null,
-          difficulty_level: vocab.difficulty_level || null,
-          source_type: 'book_library',
-        });
+      if (error && !isNetworkError(error)) {
+        console.error('Error fetching due counts:', error);
+        return counts;
       }
+      rows = error ? await local() : data || [];
     }
 
-    console.log(`syncVocabFromBooks: ${newReviews.length} new terms to insert`);
-
-    if (newReviews.length === 0) return 0;
+    rows.forEach(row => {
+      const dueDay = new Date(row.next_review_date);
+      dueDay.setHours(0, 0, 0, 0);
+      const offset = Math.max(0, Math.round((dueDay.getTime() - today.getTime()) / (24 * 60 * 60 * 1000)));
+      counts.set(offset, (counts.get(offset) || 0) + 1);
+    });
 
-    // Insert in batches of 100
-    const batchSize = 100;
-    let insertedCount = 0;
+    return counts;
+  },
 
-    for (let i = 0; i < newReviews.length; i += batchSize) {
-      const batch = newReviews.slice(i, i + batchSize);
-      console.log(`syncVocabFromBooks: Inserting batch ${i / batchSize + 1}, size: ${batch.length}`);
-      
-      const { data, error } = await supabase
-        .from('vocabulary_reviews')
-        .insert(batch)
-        .select();
-
-      if (error) {
-        console.error('Error syncing book vocabulary batch:', error);
-        throw new Error(`Failed to sync book vocabulary: ${error.message}`);
-      } else {
-        console.log(`syncVocabFromBooks: Successfully inserted ${data?.length || batch.length} items`);
-        insertedCount += data?.length || batch.length;
-      }
+  /**
+   * Forecast how many cards come due each day (today includes overdue cards)
+   */
+  async fetchDueForecast(userId: string, days: number = 30, sourceType?: string): Promise<DueForecastDay[]> {
+    const counts = await this.fetchDueCountsByDay(userId, 0, days - 1, sourceType);
+
+    const forecast: DueForecastDay[] = [];
+    for (let offset = 0; offset < days; offset++) {
+      const date = new Date();
+      date.setDate(date.getDate() + offset);
+      const y = date.getFullYear();
+      const m = String(date.getMonth() + 1).padStart(2, '0');
+      const d = String(date.getDate()).padStart(2, '0');
+      forecast.push({ date: `${y}-${m}-${d}`, count: counts.get(offset) || 0 });
     }
 
-    console.log(`Synced ${insertedCount} new book vocabulary items to review system`);
-    return insertedCount;
+    return forecast;
   },
 
   /**
-   * Delete a vocabulary review
+   * Count today's new cards and reviews (across all sessions and devices) against the daily caps.
+   * Cards count once queued (introduced_at, review_queued_at), so sessions started side by side
+   * share the caps. When today's count can't be read, nothing is left rather than everything.
    */
-  async deleteVocabularyReview(userId: string, reviewId: string): Promise<boolean> {
-    if (!supabase) return false;
+  async getDailyReviewProgress(userId: string, settings: SrsSettings): Promise<DailyReviewProgress> {
+    const progress = (newCardsStudied: number, reviewsDone: number): DailyReviewProgress => ({
+      newCardsStudied,
+      reviewsDone,
+      newCardsRemaining: Math.max(0, settings.newCardsPerDay - newCardsStudied),
+      reviewsRemaining: Math.max(0, settings.reviewsPerDay - reviewsDone),
+    });
 
-    const { error } = await supabase
+    if (!supabase) return progress(0, 0);
+
+    // Start of the user's local day
+    const startOfDay = new Date();
+    startOfDay.setHours(0, 0, 0, 0);
+
+    // Cards queued today, plus any answered today without being queued first
+    const countCards = (queuedIds: string[], answeredIds: string[]) =>
+      new Set([...queuedIds, ...answeredIds]).size;
+
+    // Offline: cards queued and answers given on this device today
+    const local = async () => {
+      const today = (await localStore.getAll<ReviewLogEntry>('review_log')).filter(entry => entry.reviewedAt >= startOfDay);
+      const cached = await localStore.getAll<VocabularyReview>('reviews');
+      const answeredIds = (state: CardState) => today.filter(entry => entry.previousCardState === state).map(entry => entry.reviewId);
+      return progress(
+        countCards(cached.filter(review => review.introducedAt && review.introducedAt >= startOfDay).map(review => review.id), answeredIds('new')),
+        countCards(cached.filter(review => review.reviewQueuedAt && review.reviewQueuedAt >= startOfDay).map(review => review.id), answeredIds('review'))
+      );
+    };
+    if (!syncEngine.isOnline()) return local();
+
+    const queuedSince = (column: string) => supabase
       .from('vocabulary_reviews')
-      .delete()
-      .eq('id', reviewId)
-      .eq('user_id', userId);
+      .select('id')
+      .eq('user_id', userId)
+      .gte(column, startOfDay.toISOString());
+    const answeredFrom = (state: CardState) => supabase
+      .from('review_log')
+      .select('review_id')
+      .eq('user_id', userId)
+      .eq('previous_card_state', state)
+      .gte('reviewed_at', startOfDay.toISOString());
+
+    const [introducedResult, newResult, queuedResult, reviewResult] = await Promise.all([
+      queuedSince('introduced_at'),
+      answeredFrom('new'),
+      queuedSince('review_queued_at'),
+      answeredFrom('review'),
+    ]);
 
+    const error = introducedResult.error || newResult.error || queuedResult.error || reviewResult.error;
     if (error) {
-      console.error('Error deleting vocabulary review:', error);
-      return false;
+      if (isNetworkError(error)) return local();
+      console.error('Error fetching daily review progress:', error);
+      // Don't let sessions past the caps just because they couldn't be checked
+      return { newCardsStudied: 0, reviewsDone: 0, newCardsRemaining: 0, reviewsRemaining: 0 };
     }
 
-    return true;
+    const ids = (rows: { id: unknown }[] | null) => (rows || []).map(row => row.id as string);
+    const reviewIds = (rows: { review_id: unknown }[] | null) => (rows || []).map(row => row.review_id as string);
+    return progress(
+      countCards(ids(introducedResult.data), reviewIds(newResult.data)),
+      countCards(ids(queuedResult.data), reviewIds(reviewResult.data))
+    );
   },
 
-  // ==================== BOOK LIBRARY ====================
-
   /**
-   * Fetch all saved books for a user
+   * Record that new cards were put in a study queue, so they count toward
+   * today's new-card limit before they are answered
    */
-  async fetchBooks(userId: string): Promise<SavedBook[]> {
-    if (!supabase) return [];
-
-    const { data, error } = await supabase
-      .from('saved_books')
-      .select('*')
-      .eq('user_id', userId)
-      .order('last_opened_at', { ascending: false });
-
-    if (error) {
-      console.error('Error fetching books:', error);
-      return [];
-    }
+  async markNewCardsIntroduced(userId: string, reviews: VocabularyReview[]): Promise<void> {
+    await this.bulkUpdateReviews(userId, reviews.map(review => review.id), { introduced_at: new Date().toISOString() });
+  },
 
-    return (data || []).map((row: DbSavedBook) => dbToBook(row));
+  /**
+   * Record that review cards were put in a study queue, so they count toward
+   * today's review limit before they are answered
+   */
+  async markReviewsQueued(userId: string, reviews: VocabularyReview[]): Promise<void> {
+    await this.bulkUpdateReviews(userId, reviews.map(review => review.id), { review_queued_at: new Date().toISOString() });
   },
 
+  // ==================== SRS SETTINGS ====================
+
   /**
-   * Fetch a single book by ID
+   * Fetch spaced repetition settings for the current user (defaults if none saved)
    */
-  async fetchBook(userId: string, bookId: string): Promise<SavedBook | null> {
-    if (!supabase) return null;
+  async fetchSrsSettings(userId: string): Promise<SrsSettings> {
+    if (!supabase) return { ...DEFAULT_SRS_SETTINGS };
+
+    const local = async () => (await localStore.getMeta<SrsSettings>('srsSettings')) ?? { ...DEFAULT_SRS_SETTINGS };
+    if (!syncEngine.isOnline()) return local();
 
     const { data, error } = await supabase
-      .from('saved_books')
+      .from('srs_settings')
       .select('*')
-      .eq('id', bookId)
       .eq('user_id', userId)
-      .single();
+      .maybeSingle();
 
     if (error) {
-      console.error('Error fetching book:', error);
-      return null;
+      if (isNetworkError(error)) return local();
+      console.error('Error fetching SRS settings:', error);
+      return { ...DEFAULT_SRS_SETTINGS };
     }
 
-    return data ? dbToBook(data) : null;
+    const settings = data ? dbToSrsSettings(data) : { ...DEFAULT_SRS_SETTINGS };
+    await localStore.setMeta('srsSettings', settings);
+    return settings;
   },
 
   /**
-   * Save a new book
+   * Save spaced repetition settings for the current user
    */
-  async saveBook(userId: string, book: Omit<SavedBook, 'id' | 'userId'>): Promise<SavedBook | null> {
+  async updateSrsSettings(userId: string, settings: SrsSettings): Promise<SrsSettings | null> {
     if (!supabase) return null;
 
-    const dbBook = {
-      user_id: userId,
-      title: book.title,
-      author: book.author || null,
-      book_subject: book.bookSubject || null,
-      file_name: book.fileName,
-      page_count: book.pageCount,
-      structure: book.structure,
-      raw_text: book.rawText,
-      page_texts: [], // Will be populated if needed
-      progress: book.progress || [],
-      created_at: new Date(book.createdAt).toISOString(),
-      last_opened_at: new Date(book.lastOpenedAt || book.createdAt).toISOString(),
-    };
-
     const { data, error } = await supabase
-      .from('saved_books')
-      .insert(dbBook)
+      .from('srs_settings')
+      .upsert({
+        user_id: userId,
+        scheduler: settings.scheduler,
+        learning_steps: settings.learningSteps,
+        relearning_steps: settings.relearningSteps,
+        new_cards_per_day: settings.newCardsPerDay,
+        reviews_per_day: settings.reviewsPerDay,
+        enabled_card_types: settings.enabledCardTypes,
+        grading_mode: settings.gradingMode,
+        leech_threshold: settings.leechThreshold,
+        leech_action: settings.leechAction,
+        auto_add_vocabulary: settings.autoAddVocabulary,
+        auto_add_excluded_categories: settings.autoAddExcludedCategories,
+      }, {
+        onConflict: 'user_id',
+      })
       .select()
       .single();
 
     if (error) {
-      console.error('Error saving book:', error);
+      console.error('Error updating SRS settings:', error);
       return null;
     }
 
-    return data ? dbToBook(data) : null;
+    return dbToSrsSettings(data);
   },
 
   /**
-   * Update a book (e.g., structure, progress)
+   * Suspend a word (mark as "don't show again")
    */
-  async updateBook(userId: string, bookId: string, updates: Partial<SavedBook>): Promise<boolean> {
+  async suspendWord(userId: string, reviewId: string, suspended: boolean = true): Promise<boolean> {
     if (!supabase) return false;
 
-    const dbUpdates: Record<string, unknown> = {};
-    if (updates.title !== undefined) dbUpdates.title = updates.title;
-    if (updates.author !== undefined) dbUpdates.author = updates.author;
-    if (updates.bookSubject !== undefined) dbUpdates.book_subject = updates.bookSubject;
-    if (updates.structure !== undefined) dbUpdates.structure = updates.structure;
-    if (updates.progress !== undefined) dbUpdates.progress = updates.progress;
-    if (updates.lastOpenedAt !== undefined) dbUpdates.last_opened_at = new Date(updates.lastOpenedAt).toISOString();
-
-    const { error } = await supabase
-      .from('saved_books')
-      .update(dbUpdates)
-      .eq('id', bookId)
-      .eq('user_id', userId);
-
-    if (error) {
-      console.error('Error updating book:', error);
-      return false;
-    }
+    const cached = await localStore.get<VocabularyReview>('reviews', reviewId);
+    if (cached) await localStore.put('reviews', { ...cached, isSuspended: suspended });
 
-    return true;
+    return syncEngine.run(userId, {
+      op: 'update',
+      table: 'vocabulary_reviews',
+      values: { is_suspended: suspended },
+      match: { id: reviewId, user_id: userId },
+    }, 'Error suspending word');
   },
 
   /**
-   * Update last opened timestamp
+   * Sync vocabulary from saved analyses to the review system.
+   * Runs server-side in one transaction (sync_vocabulary_reviews): new terms become
+   * cards, edited terms update their cards, and re-running it changes nothing.
    */
-  async updateBookLastOpened(userId: string, bookId: string): Promise<boolean> {
-    if (!supabase) return false;
+  async syncVocabFromAnalyses(userId: string, analyses: SavedAnalysis[]): Promise<VocabSyncResult> {
+    if (!supabase || analyses.length === 0) return { ...EMPTY_SYNC_RESULT };
 
-    const { error } = await supabase
-      .from('saved_books')
-      .update({ last_opened_at: new Date().toISOString() })
-      .eq('id', bookId)
-      .eq('user_id', userId);
+    const items = analysisSyncItems(analyses);
 
-    if (error) {
-      console.error('Error updating book last opened:', error);
-      return false;
+    console.log(`syncVocabFromAnalyses: Syncing ${items.length} vocabulary items from ${analyses.length} analyses`);
+    return this.syncVocabItems(userId, 'text_analysis', items);
+  },
+
+  /**
+   * Sync vocabulary from book library to the review system (see syncVocabFromAnalyses)
+   */
+  async syncVocabFromBooks(userId: string): Promise<VocabSyncResult> {
+    if (!supabase) return { ...EMPTY_SYNC_RESULT };
+
+    let items: VocabSyncItem[];
+    try {
+      items = await fetchBookSyncItems(userId);
+    } catch (error) {
+      console.error('syncVocabFromBooks: Error fetching book vocabulary:', error);
+      throw error;
     }
 
-    return true;
+    console.log(`syncVocabFromBooks: Syncing ${items.length} vocabulary items from books`);
+    return this.syncVocabItems(userId, 'book_library', items);
   },
 
   /**
-   * Delete a book
+   * Upsert vocabulary items for one source through the sync_vocabulary_reviews RPC.
+   * Throws on failure; the RPC is a single transaction, so nothing is half-synced.
    */
-  async deleteBook(userId: string, bookId: string): Promise<boolean> {
-    if (!supabase) return false;
+  async syncVocabItems(userId: string, sourceType: ReviewSourceType, items: VocabSyncItem[]): Promise<VocabSyncResult> {
+    const validItems = items.filter(item => item.term && item.definition);
+    if (!supabase || validItems.length === 0) {
+      return { ...EMPTY_SYNC_RESULT, skipped: items.length };
+    }
 
-    const { error } = await supabase
-      .from('saved_books')
-      .delete()
-      .eq('id', bookId)
+    const { data, error } = await supabase.rpc('sync_vocabulary_reviews', {
+      p_source_type: sourceType,
+      p_items: validItems,
+    });
+
+    if (error) {
+      console.error(`Error syncing ${sourceType} vocabulary for user ${userId}:`, error);
+      throw new Error(`Failed to sync vocabulary: ${error.message}`);
+    }
+
+    const result = data as VocabSyncResult;
+    const synced = {
+      inserted: result.inserted,
+      updated: result.updated,
+      skipped: result.skipped + (items.length - validItems.length),
+    };
+    console.log(`Synced ${sourceType} vocabulary: ${synced.inserted} inserted, ${synced.updated} updated, ${synced.skipped} skipped`);
+    return synced;
+  },
+
+  /**
+   * Add saved vocabulary to the review system when the user has auto-add on,
+   * leaving out excluded categories. Never throws: a save must not fail because of it.
+   */
+  async autoAddVocabulary(userId: string, sourceType: ReviewSourceType, items: VocabSyncItem[]): Promise<VocabSyncResult | null> {
+    // Offline, new vocabulary is picked up on the next load (App auto-adds analyses and books then)
+    if (!supabase || items.length === 0 || !syncEngine.isOnline()) return null;
+
+    const settings = await this.fetchSrsSettings(userId);
+    if (!settings.autoAddVocabulary) return null;
+
+    const excluded = new Set<string>(settings.autoAddExcludedCategories);
+    const included = items.filter(item => !item.category || !excluded.has(item.category));
+
+    try {
+      return await this.syncVocabItems(userId, sourceType, included);
+    } catch (error) {
+      console.error('Error auto-adding vocabulary to review system:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Auto-add the vocabulary of saved analyses (see autoAddVocabulary)
+   */
+  async autoAddAnalysisVocabulary(userId: string, analyses: SavedAnalysis[]): Promise<VocabSyncResult | null> {
+    return this.autoAddVocabulary(userId, 'text_analysis', analysisSyncItems(analyses));
+  },
+
+  /**
+   * Auto-add the vocabulary of every saved book chapter (see autoAddVocabulary),
+   * including chapters saved while offline
+   */
+  async autoAddBookVocabulary(userId: string): Promise<VocabSyncResult | null> {
+    if (!supabase || !syncEngine.isOnline()) return null;
+
+    try {
+      return await this.autoAddVocabulary(userId, 'book_library', await fetchBookSyncItems(userId));
+    } catch (error) {
+      console.error('Error fetching book vocabulary to auto-add:', error);
+      return null;
+    }
+  },
+
+  /**
+   * Make sure every base card of a source has sibling cards for the enabled card types.
+   * Siblings copy the term's metadata and start as new cards.
+   * Returns the number of cards created.
+   */
+  async ensureCardTypes(userId: string, sourceType: ReviewSourceType, cardTypes: CardType[]): Promise<number> {
+    const siblingTypes = cardTypes.filter(type => type !== 'production');
+    if (!supabase || siblingTypes.length === 0 || !syncEngine.isOnline()) return 0;
+
+    const { data, error } = await supabase
+      .from('vocabulary_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('source_type', sourceType);
+
+    if (error) {
+      console.error('Error fetching cards for card type generation:', error);
+      return 0;
+    }
+
+    const rows = (data || []) as DbVocabularyReview[];
+    const existing = new Set(rows.map(r => `${r.term.toLowerCase()}|${r.card_type || 'production'}`));
+    const baseRows = rows.filter(r => (r.card_type || 'production') === 'production');
+
+    const newCards: { card: VocabularyReview; row: Record<string, unknown> }[] = [];
+    for (const row of baseRows) {
+      const base = dbToVocabularyReview(row);
+      for (const cardType of siblingTypes) {
+        if (existing.has(`${base.term.toLowerCase()}|${cardType}`)) continue;
+        if (!canGenerateCardType(base, cardType)) continue;
+        // Client-side id, so the cached copy matches the cloud row
+        const card: VocabularyReview = {
+          ...createNewReview(base.term, base.definition, {
+            sourceAnalysisId: base.sourceAnalysisId,
+            category: base.category,
+            sourceContext: base.sourceContext,
+            examples: base.examples,
+            imageryEtymology: base.imageryEtymology,
+            difficultyLevel: base.difficultyLevel,
+          }),
+          id: crypto.randomUUID(),
+          sourceType,
+          cardType,
+          tags: base.tags || [],
+        };
+        // Same content as the base card, so later syncs update it the same way
+        newCards.push({ card, row: { ...vocabularyReviewToDb(userId, card), synced_source: row.synced_source } });
+      }
+    }
+
+    if (newCards.length === 0) return 0;
+
+    // Insert in batches of 100
+    const batchSize = 100;
+    let insertedCount = 0;
+
+    for (let i = 0; i < newCards.length; i += batchSize) {
+      const batch = newCards.slice(i, i + batchSize);
+      const inserted = await syncEngine.run(userId, {
+        op: 'insert',
+        table: 'vocabulary_reviews',
+        values: batch.map(({ row }) => row),
+      }, 'Error creating card type siblings');
+
+      if (!inserted) break;
+      await localStore.putAll('reviews', batch.map(({ card }) => card));
+      insertedCount += batch.length;
+    }
+
+    console.log(`ensureCardTypes: Created ${insertedCount} ${sourceType} cards for types ${siblingTypes.join(', ')}`);
+    return insertedCount;
+  },
+
+  /**
+   * Delete a vocabulary review
+   */
+  async deleteVocabularyReview(userId: string, reviewId: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    await localStore.remove('reviews', reviewId);
+
+    return syncEngine.run(userId, {
+      op: 'delete',
+      table: 'vocabulary_reviews',
+      match: { id: reviewId, user_id: userId },
+    }, 'Error deleting vocabulary review');
+  },
+
+  // ==================== CARD BROWSER ====================
+
+  /**
+   * Search, filter, sort and page through vocabulary reviews.
+   * Returns one page of cards plus the total number of matches.
+   */
+  async browseVocabularyReviews(
+    userId: string,
+    filters: CardBrowserFilters = {},
+    sort: CardSort = { field: 'next_review_date', ascending: true },
+    page: number = 0,
+    pageSize: number = 50
+  ): Promise<{ cards: VocabularyReview[]; total: number }> {
+    if (!supabase) return { cards: [], total: 0 };
+
+    let query = supabase
+      .from('vocabulary_reviews')
+      .select('*', { count: 'exact' })
       .eq('user_id', userId);
 
+    const search = filters.search?.trim().replace(/[,()%]/g, ' ');
+    if (search) {
+      query = query.or(`term.ilike.%${search}%,definition.ilike.%${search}%`);
+    }
+    if (filters.sourceType) query = query.eq('source_type', filters.sourceType);
+    if (filters.category) query = query.eq('category', filters.category);
+    if (filters.difficultyLevel) query = query.eq('difficulty_level', filters.difficultyLevel);
+    if (filters.suspended !== undefined) query = query.eq('is_suspended', filters.suspended);
+    if (filters.mastered !== undefined) query = query.eq('is_mastered', filters.mastered);
+    if (filters.leech !== undefined) query = query.eq('is_leech', filters.leech);
+    if (filters.tag) query = query.contains('tag_paths', [filters.tag]);
+
+    const now = new Date().toISOString();
+    switch (filters.due) {
+      case 'new':
+        query = query.eq('card_state', 'new');
+        break;
+      case 'learning':
+        query = query.in('card_state', ['learning', 'relearning']);
+        break;
+      case 'due':
+        query = query.neq('card_state', 'new').lte('next_review_date', now);
+        break;
+      case 'not_due':
+        query = query.neq('card_state', 'new').gt('next_review_date', now);
+        break;
+    }
+
+    const { data, error, count } = await query
+      .order(sort.field, { ascending: sort.ascending })
+      .order('term', { ascending: true })
+      .range(page * pageSize, (page + 1) * pageSize - 1);
+
     if (error) {
-      console.error('Error deleting book:', error);
-      return false;
+      console.error('Error browsing vocabulary reviews:', error);
+      return { cards: [], total: 0 };
+    }
+
+    return { cards: (data || []).map(dbToVocabularyReview), total: count ?? 0 };
+  },
+
+  /**
+   * Distinct difficulty levels in the user's cards (for the browser filter)
+   */
+  async fetchReviewDifficultyLevels(userId: string): Promise<string[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('vocabulary_reviews')
+      .select('difficulty_level')
+      .eq('user_id', userId)
+      .not('difficulty_level', 'is', null);
+
+    if (error) {
+      console.error('Error fetching difficulty levels:', error);
+      return [];
+    }
+
+    const levels = new Set((data || []).map((row: { difficulty_level: string }) => row.difficulty_level));
+    return [...levels].sort();
+  },
+
+  /**
+   * Distinct tags in the user's cards (for tag filters and suggestions)
+   */
+  async fetchReviewTags(userId: string): Promise<string[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('vocabulary_reviews')
+      .select('tags')
+      .eq('user_id', userId)
+      .neq('tags', '{}');
+
+    if (error) {
+      console.error('Error fetching tags:', error);
+      return [];
+    }
+
+    const tags = new Set((data || []).flatMap((row: { tags: string[] | null }) => row.tags || []));
+    return [...tags].sort();
+  },
+
+  /**
+   * Apply the same column updates to many reviews, in batches of 100 ids.
+   * Returns the number of reviews updated.
+   */
+  async bulkUpdateReviews(userId: string, reviewIds: string[], updates: Partial<DbVocabularyReview>): Promise<number> {
+    if (!supabase || reviewIds.length === 0) return 0;
+
+    const batchSize = 100;
+    let updatedCount = 0;
+
+    for (let i = 0; i < reviewIds.length; i += batchSize) {
+      const batch = reviewIds.slice(i, i + batchSize);
+      await updateCachedReviews(userId, batch, updates);
+
+      const updated = await syncEngine.run(userId, {
+        op: 'update',
+        table: 'vocabulary_reviews',
+        values: updates,
+        match: { user_id: userId },
+        matchAny: { id: batch },
+      }, 'Error bulk updating reviews');
+
+      if (!updated) break;
+      updatedCount += batch.length;
+    }
+
+    return updatedCount;
+  },
+
+  /**
+   * Suspend or unsuspend many reviews
+   */
+  async bulkSuspendReviews(userId: string, reviewIds: string[], suspended: boolean): Promise<number> {
+    return this.bulkUpdateReviews(userId, reviewIds, { is_suspended: suspended });
+  },
+
+  /**
+   * Reset reviews back to brand-new cards (scheduling, stats and leech state)
+   */
+  async bulkResetReviews(userId: string, reviewIds: string[]): Promise<number> {
+    return this.bulkUpdateReviews(userId, reviewIds, {
+      ease_factor: 2.5,
+      interval: 0,
+      repetitions: 0,
+      next_review_date: new Date().toISOString(),
+      last_review_date: null,
+      card_state: 'new',
+      learning_step: null,
+      stability: null,
+      difficulty: null,
+      is_mastered: false,
+      correct_count: 0,
+      incorrect_count: 0,
+      lapses: 0,
+      is_leech: false,
+    });
+  },
+
+  /**
+   * Set the due date of many reviews. Cards become review cards due on that day.
+   */
+  async bulkRescheduleReviews(userId: string, reviewIds: string[], dueDate: Date): Promise<number> {
+    const today = new Date();
+    today.setHours(0, 0, 0, 0);
+    const due = new Date(dueDate);
+    due.setHours(0, 0, 0, 0);
+    const days = Math.max(1, Math.round((due.getTime() - today.getTime()) / (1000 * 60 * 60 * 24)));
+
+    return this.bulkUpdateReviews(userId, reviewIds, {
+      next_review_date: due.toISOString(),
+      interval: days,
+      card_state: 'review',
+      learning_step: null,
+    });
+  },
+
+  /**
+   * Edit card content (term, definition, category, ...) on many reviews
+   */
+  async bulkUpdateReviewFields(userId: string, reviewIds: string[], fields: CardFieldUpdates): Promise<number> {
+    const updates: Partial<DbVocabularyReview> = {};
+    if (fields.term !== undefined) updates.term = fields.term;
+    if (fields.definition !== undefined) updates.definition = fields.definition;
+    if (fields.category !== undefined) updates.category = fields.category;
+    if (fields.sourceContext !== undefined) updates.source_context = fields.sourceContext || null;
+    if (fields.difficultyLevel !== undefined) updates.difficulty_level = fields.difficultyLevel || null;
+    if (fields.imageryEtymology !== undefined) updates.imagery_etymology = fields.imageryEtymology || null;
+    if (fields.tags !== undefined) updates.tags = fields.tags;
+    if (Object.keys(updates).length === 0) return 0;
+
+    return this.bulkUpdateReviews(userId, reviewIds, updates);
+  },
+
+  /**
+   * Add or remove tags on many reviews. Removing a tag also removes the tags below
+   * it. Each card keeps its other tags, so cards are read first and updated in
+   * groups that end up with the same tags.
+   * Returns the number of reviews updated.
+   */
+  async bulkChangeTags(userId: string, reviewIds: string[], add: string[], remove: string[]): Promise<number> {
+    if (!supabase || reviewIds.length === 0) return 0;
+
+    const batchSize = 100;
+    let updatedCount = 0;
+
+    for (let i = 0; i < reviewIds.length; i += batchSize) {
+      const batch = reviewIds.slice(i, i + batchSize);
+      const { data, error } = await supabase
+        .from('vocabulary_reviews')
+        .select('id, tags')
+        .eq('user_id', userId)
+        .in('id', batch);
+
+      let rows = (data || []) as { id: string; tags: string[] | null }[];
+      if (error && isNetworkError(error)) {
+        // Offline: the tags of the cached cards
+        const cached = await Promise.all(batch.map(id => localStore.get<VocabularyReview>('reviews', id)));
+        rows = cached.flatMap(review => review ? [{ id: review.id, tags: review.tags ?? [] }] : []);
+      } else if (error) {
+        console.error('Error fetching card tags:', error);
+        break;
+      }
+
+      const idsByTags = new Map<string, string[]>();
+      for (const row of rows) {
+        const tags = mergeTags(row.tags || [], add).filter(tag => !remove.some(r => matchesTag([tag], r)));
+        const key = JSON.stringify(tags);
+        idsByTags.set(key, [...(idsByTags.get(key) || []), row.id]);
+      }
+
+      for (const [key, ids] of idsByTags) {
+        updatedCount += await this.bulkUpdateReviews(userId, ids, { tags: JSON.parse(key) });
+      }
+    }
+
+    return updatedCount;
+  },
+
+  /**
+   * Delete many reviews, in batches of 100 ids. Their review log stays for stats.
+   */
+  async bulkDeleteReviews(userId: string, reviewIds: string[]): Promise<number> {
+    if (!supabase || reviewIds.length === 0) return 0;
+
+    const batchSize = 100;
+    let deletedCount = 0;
+
+    for (let i = 0; i < reviewIds.length; i += batchSize) {
+      const batch = reviewIds.slice(i, i + batchSize);
+      await localStore.removeAll('reviews', batch);
+
+      const deleted = await syncEngine.run(userId, {
+        op: 'delete',
+        table: 'vocabulary_reviews',
+        match: { user_id: userId },
+        matchAny: { id: batch },
+      }, 'Error bulk deleting reviews');
+
+      if (!deleted) break;
+      deletedCount += batch.length;
+    }
+
+    return deletedCount;
+  },
+
+  // ==================== LEECHES ====================
+
+  /**
+   * Fetch cards flagged as leeches, most lapses first
+   */
+  async fetchLeeches(userId: string, sourceType?: string): Promise<VocabularyReview[]> {
+    if (!supabase) return [];
+
+    let query = supabase
+      .from('vocabulary_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_leech', true)
+      .order('lapses', { ascending: false });
+
+    if (sourceType) {
+      query = query.eq('source_type', sourceType);
+    }
+
+    const { data, error } = await query;
+
+    if (error) {
+      console.error('Error fetching leeches:', error);
+      return [];
+    }
+
+    return (data || []).map(dbToVocabularyReview);
+  },
+
+  /**
+   * Save remediation material for a leech and give it a fresh start:
+   * clears the leech flag and lapse count and unsuspends it.
+   * New examples/imagery are copied to every card of the same term.
+   */
+  async resolveLeech(
+    userId: string,
+    review: VocabularyReview,
+    remediation: { examples?: DetailedExample[]; imageryEtymology?: string } = {}
+  ): Promise<boolean> {
+    if (!supabase) return false;
+
+    const fresh = { is_leech: false, lapses: 0, is_suspended: false };
+    await updateCachedReviews(userId, [review.id], fresh);
+
+    const resolved = await syncEngine.run(userId, {
+      op: 'update',
+      table: 'vocabulary_reviews',
+      values: fresh,
+      match: { id: review.id, user_id: userId },
+    }, 'Error resolving leech');
+
+    if (!resolved) return false;
+
+    if (remediation.examples || remediation.imageryEtymology) {
+      const sourceType = review.sourceType || 'text_analysis';
+      const content = {
+        ...(remediation.examples && { examples: remediation.examples }),
+        ...(remediation.imageryEtymology && { imagery_etymology: remediation.imageryEtymology }),
+      };
+
+      const siblings = (await localStore.getAll<VocabularyReview>('reviews'))
+        .filter(r => r.term === review.term && (r.sourceType || 'text_analysis') === sourceType);
+      await updateCachedReviews(userId, siblings.map(r => r.id), content);
+
+      return syncEngine.run(userId, {
+        op: 'update',
+        table: 'vocabulary_reviews',
+        values: content,
+        match: { user_id: userId, term: review.term, source_type: sourceType },
+      }, 'Error saving leech remediation');
     }
 
     return true;
   },
 
+  // ==================== DUPLICATES ====================
+
+  /**
+   * Find cards that are the same term learned more than once
+   * (across sources, or as case/inflection variants), strongest schedule first
+   */
+  async findDuplicateReviews(userId: string): Promise<VocabularyReview[][]> {
+    const reviews = await this.fetchVocabularyReviews(userId);
+    return findDuplicateGroups(reviews);
+  },
+
+  /**
+   * Merge duplicate cards into `keeper`: combines examples and contexts, keeps the
+   * stronger schedule, moves answer history over and deletes the other cards
+   * (with their sibling card types). The merged terms are remembered as aliases
+   * so vocabulary sync links them to the kept card instead of re-creating them.
+   * Runs server-side in one transaction (merge_vocabulary_reviews).
+   */
+  async mergeVocabularyReviews(userId: string, keeper: VocabularyReview, others: VocabularyReview[]): Promise<VocabularyReview | null> {
+    if (!supabase || others.length === 0) return null;
+
+    const merged = buildMergedReview(keeper, others);
+    const content = {
+      definition: merged.definition,
+      category: merged.category || null,
+      source_context: merged.sourceContext || null,
+      examples: merged.examples || null,
+      imagery_etymology: merged.imageryEtymology || null,
+      difficulty_level: merged.difficultyLevel || null,
+      tags: merged.tags || [],
+    };
+
+    const { data, error } = await supabase.rpc('merge_vocabulary_reviews', {
+      p_keeper_id: keeper.id,
+      p_other_ids: others.map(r => r.id),
+      p_merged: {
+        ...content,
+        ease_factor: merged.easeFactor,
+        interval: merged.interval,
+        repetitions: merged.repetitions,
+        next_review_date: merged.nextReviewDate.toISOString(),
+        last_review_date: merged.lastReviewDate?.toISOString() || null,
+        card_state: merged.cardState || 'new',
+        learning_step: merged.learningStep ?? null,
+        stability: merged.stability ?? null,
+        difficulty: merged.difficulty ?? null,
+        is_suspended: merged.isSuspended,
+        is_mastered: merged.isMastered,
+        is_leech: merged.isLeech ?? false,
+        correct_count: merged.correctCount,
+        incorrect_count: merged.incorrectCount,
+        lapses: merged.lapses ?? 0,
+      },
+    });
+
+    if (error) {
+      console.error('Error merging duplicate cards:', error);
+      return null;
+    }
+
+    // Same changes to the local copy: the merged cards and their sibling card
+    // types are gone, every card type of the kept term has the merged content
+    const sameTerm = (a: VocabularyReview, b: VocabularyReview) =>
+      a.term === b.term && (a.sourceType ?? null) === (b.sourceType ?? null);
+    const cached = (await localStore.getAll<VocabularyReview>('reviews')).filter(r => r.id !== keeper.id);
+    await localStore.removeAll('reviews', cached.filter(r => others.some(other => sameTerm(r, other))).map(r => r.id));
+    await updateCachedReviews(userId, cached.filter(r => sameTerm(r, keeper)).map(r => r.id), content);
+
+    const kept = dbToVocabularyReview(data as DbVocabularyReview);
+    await localStore.put('reviews', kept);
+    return kept;
+  },
+
+  // ==================== CUSTOM STUDY ====================
+
+  /**
+   * Fetch saved filtered decks, most recently studied first
+   */
+  async fetchFilteredDecks(userId: string): Promise<FilteredDeck[]> {
+    if (!supabase) return [];
+
+    const { data, error } = await supabase
+      .from('filtered_decks')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_studied_at', { ascending: false, nullsFirst: false })
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching filtered decks:', error);
+      return [];
+    }
+
+    return (data || []).map(dbToFilteredDeck);
+  },
+
+  /**
+   * Create a filtered deck, or update it when it has an id
+   */
+  async saveFilteredDeck(
+    userId: string,
+    deck: Omit<FilteredDeck, 'id' | 'createdAt'> & Partial<Pick<FilteredDeck, 'id' | 'createdAt'>>
+  ): Promise<FilteredDeck | null> {
+    if (!supabase) return null;
+
+    const row = {
+      user_id: userId,
+      name: deck.name,
+      filter: deck.filter,
+      cram: deck.cram,
+      card_limit: deck.cardLimit,
+    };
+
+    // Client-side id for new decks, so a replayed insert is recognised as a duplicate
+    const saved: FilteredDeck = { ...deck, id: deck.id ?? crypto.randomUUID(), createdAt: deck.createdAt ?? Date.now() };
+
+    const written = deck.id
+      ? await syncEngine.run(userId, {
+          op: 'update',
+          table: 'filtered_decks',
+          values: row,
+          match: { id: deck.id, user_id: userId },
+        }, 'Error saving filtered deck')
+      : await syncEngine.run(userId, {
+          op: 'insert',
+          table: 'filtered_decks',
+          values: { ...row, id: saved.id, created_at: new Date(saved.createdAt).toISOString() },
+        }, 'Error saving filtered deck');
+
+    return written ? saved : null;
+  },
+
+  /**
+   * Delete a filtered deck (its cards are untouched)
+   */
+  async deleteFilteredDeck(userId: string, deckId: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    return syncEngine.run(userId, {
+      op: 'delete',
+      table: 'filtered_decks',
+      match: { id: deckId, user_id: userId },
+    }, 'Error deleting filtered deck');
+  },
+
+  /**
+   * Record that a filtered deck was just studied
+   */
+  async markFilteredDeckStudied(userId: string, deckId: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    return syncEngine.run(userId, {
+      op: 'update',
+      table: 'filtered_decks',
+      values: { last_studied_at: new Date().toISOString() },
+      match: { id: deckId, user_id: userId },
+    }, 'Error updating filtered deck');
+  },
+
+  /**
+   * Terms extracted from a book chapter and its sub-chapters (the whole book without chapterId)
+   */
+  async fetchChapterSubtreeTerms(userId: string, bookId: string, chapterId?: string): Promise<string[]> {
+    if (!supabase) return [];
+
+    const book = await this.fetchBook(userId, bookId);
+    if (!book) return [];
+
+    const chapterIds = collectChapterIds(book.structure, chapterId);
+    if (chapterIds.length === 0) return [];
+
+    const { data, error } = await supabase
+      .from('book_chapter_vocabulary')
+      .select('vocabulary')
+      .eq('user_id', userId)
+      .eq('book_id', bookId)
+      .in('chapter_id', chapterIds);
+
+    if (error) {
+      console.error('Error fetching chapter vocabulary:', error);
+      return [];
+    }
+
+    return (data || []).flatMap(row => ((row.vocabulary as VocabularyItem[]) || []).map(v => v.term));
+  },
+
+  /**
+   * Cards for a custom study session.
+   * Normal sessions only get cards that are due (or new); cram sessions get every
+   * matching card. `terms` narrows to words from specific analyses or chapters.
+   */
+  async fetchStudyCards(
+    userId: string,
+    filter: StudyFilter,
+    options: { terms?: Set<string> | null; cardTypes?: CardType[]; cram: boolean }
+  ): Promise<VocabularyReview[]> {
+    if (!supabase) return [];
+
+    let failedIds: string[] | null = null;
+    if (filter.failedToday) {
+      const startOfDay = new Date();
+      startOfDay.setHours(0, 0, 0, 0);
+
+      const { data: logs, error: logError } = await supabase
+        .from('review_log')
+        .select('review_id')
+        .eq('user_id', userId)
+        .eq('quality', 'again')
+        .gte('reviewed_at', startOfDay.toISOString());
+
+      if (logError) {
+        console.error('Error fetching failed cards:', logError);
+        return [];
+      }
+      failedIds = [...new Set((logs || []).map(l => l.review_id as string))];
+      if (failedIds.length === 0) return [];
+    }
+
+    let query = supabase
+      .from('vocabulary_reviews')
+      .select('*')
+      .eq('user_id', userId)
+      .eq('is_suspended', false);
+
+    if (filter.sourceType) query = query.eq('source_type', filter.sourceType);
+    if (filter.category) query = query.eq('category', filter.category);
+    if (filter.difficultyLevel) query = query.eq('difficulty_level', filter.difficultyLevel);
+    if (filter.tag) query = query.contains('tag_paths', [filter.tag]);
+    if (options.cardTypes && options.cardTypes.length > 0) query = query.in('card_type', options.cardTypes);
+    if (failedIds) query = query.in('id', failedIds);
+    if (!options.cram) query = query.lte('next_review_date', new Date().toISOString());
+
+    const { data, error } = await query.order('next_review_date', { ascending: true });
+
+    if (error) {
+      console.error('Error fetching study cards:', error);
+      return [];
+    }
+
+    const cards = (data || []).map(dbToVocabularyReview);
+    const terms = options.terms;
+    if (!terms) return cards;
+    return cards.filter(card => terms.has(card.term.toLowerCase()));
+  },
+
+  // ==================== DECK EXPORT ====================
+
+  /**
+   * Cards to export, suspended ones included. `terms` narrows to words from a
+   * folder's analyses or a book's chapters.
+   */
+  async fetchExportCards(userId: string, scope: DeckExportScope, terms: Set<string> | null): Promise<VocabularyReview[]> {
+    const cards = await this.fetchVocabularyReviews(userId);
+    return cards.filter(card =>
+      (!scope.sourceType || (card.sourceType ?? 'text_analysis') === scope.sourceType) &&
+      (!terms || terms.has(card.term.toLowerCase()))
+    );
+  },
+
+  // ==================== DECK IMPORT ====================
+
+  /**
+   * Write the cards of a deck import planned by planDeckImport, then the review
+   * history they brought along (which points at them)
+   */
+  async importDeck(userId: string, plan: DeckImportPlan): Promise<boolean> {
+    if (!supabase) return false;
+
+    const history: ReviewLogEntry[] = plan.history.map(entry => ({ ...entry, id: crypto.randomUUID() }));
+    const imported =
+      await writeBatches(userId, 'vocabulary_reviews', plan.reviews.map(r => vocabularyReviewToDb(userId, r)), 'Error importing deck cards') &&
+      await writeBatches(userId, 'review_log', history.map(entry => reviewLogToDb(userId, entry)), 'Error importing review history');
+    if (!imported) return false;
+
+    // Offline copies, once the cloud has the deck
+    await localStore.putAll('reviews', plan.reviews);
+    await localStore.putAll('review_log', history);
+
+    return true;
+  },
+
+  // ==================== BOOK LIBRARY ====================
+
+  /**
+   * Fetch all saved books for a user
+   */
+  async fetchBooks(userId: string): Promise<SavedBook[]> {
+    if (!supabase) return [];
+
+    const local = async () => (await localStore.getAll<SavedBook>('books'))
+      .sort((a, b) => (b.lastOpenedAt ?? b.createdAt) - (a.lastOpenedAt ?? a.createdAt));
+    if (!syncEngine.isOnline()) return local();
+
+    const { data, error } = await supabase
+      .from('saved_books')
+      .select('*')
+      .eq('user_id', userId)
+      .order('last_opened_at', { ascending: false });
+
+    if (error) {
+      if (isNetworkError(error)) return local();
+      console.error('Error fetching books:', error);
+      return [];
+    }
+
+    const books = (data || []).map((row: DbSavedBook) => dbToBook(row));
+    await refreshCache('books', books, true);
+    return books;
+  },
+
+  /**
+   * Fetch a single book by ID
+   */
+  async fetchBook(userId: string, bookId: string): Promise<SavedBook | null> {
+    if (!supabase) return null;
+
+    const local = async () => (await localStore.get<SavedBook>('books', bookId)) ?? null;
+    if (!syncEngine.isOnline()) return local();
+
+    const { data, error } = await supabase
+      .from('saved_books')
+      .select('*')
+      .eq('id', bookId)
+      .eq('user_id', userId)
+      .single();
+
+    if (error) {
+      if (isNetworkError(error)) return local();
+      console.error('Error fetching book:', error);
+      return null;
+    }
+
+    if (!data) return null;
+    const book = dbToBook(data);
+    await refreshCache('books', [book]);
+    return book;
+  },
+
+  /**
+   * Save a new book
+   */
+  async saveBook(userId: string, book: Omit<SavedBook, 'id' | 'userId'>): Promise<SavedBook | null> {
+    if (!supabase) return null;
+
+    const saved: SavedBook = { ...book, id: crypto.randomUUID(), userId };
+
+    const inserted = await syncEngine.run(userId, {
+      op: 'insert',
+      table: 'saved_books',
+      values: bookToDb(userId, saved),
+    }, 'Error saving book');
+
+    if (!inserted) return null;
+    await localStore.put('books', saved);
+    return saved;
+  },
+
+  /**
+   * Update a book (e.g., structure, progress)
+   */
+  async updateBook(userId: string, bookId: string, updates: Partial<SavedBook>): Promise<boolean> {
+    if (!supabase) return false;
+
+    const dbUpdates: Record<string, unknown> = {};
+    if (updates.title !== undefined) dbUpdates.title = updates.title;
+    if (updates.author !== undefined) dbUpdates.author = updates.author;
+    if (updates.bookSubject !== undefined) dbUpdates.book_subject = updates.bookSubject;
+    if (updates.structure !== undefined) dbUpdates.structure = updates.structure;
+    if (updates.progress !== undefined) dbUpdates.progress = updates.progress;
+    if (updates.lastOpenedAt !== undefined) dbUpdates.last_opened_at = new Date(updates.lastOpenedAt).toISOString();
+
+    const cached = await localStore.get<SavedBook>('books', bookId);
+    if (cached) await localStore.put('books', { ...cached, ...updates });
+
+    return syncEngine.run(userId, {
+      op: 'update',
+      table: 'saved_books',
+      values: dbUpdates,
+      match: { id: bookId, user_id: userId },
+    }, 'Error updating book');
+  },
+
+  /**
+   * Update last opened timestamp
+   */
+  async updateBookLastOpened(userId: string, bookId: string): Promise<boolean> {
+    return this.updateBook(userId, bookId, { lastOpenedAt: Date.now() });
+  },
+
+  /**
+   * Delete a book
+   */
+  async deleteBook(userId: string, bookId: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    await localStore.remove('books', bookId);
+    return syncEngine.run(userId, {
+      op: 'delete',
+      table: 'saved_books',
+      match: { id: bookId, user_id: userId },
+    }, 'Error deleting book');
+  },
+
   /**
    * Save extracted vocabulary for a chapter
    */
@@ -1375,22 +2854,23 @@ export const dataService = {
   ): Promise<boolean> {
     if (!supabase) return false;
 
-    const { error } = await supabase
-      .from('book_chapter_vocabulary')
-      .upsert({
+    await localStore.put('chapter_vocabulary', { id: `${bookId}:${chapterId}`, vocabulary });
+
+    const saved = await syncEngine.run(userId, {
+      op: 'upsert',
+      table: 'book_chapter_vocabulary',
+      values: {
         user_id: userId,
         book_id: bookId,
         chapter_id: chapterId,
         vocabulary: vocabulary,
-      }, {
-        onConflict: 'user_id,book_id,chapter_id'
-      });
+      },
+      onConflict: 'user_id,book_id,chapter_id',
+    }, 'Error saving chapter vocabulary');
 
-    if (error) {
-      console.error('Error saving chapter vocabulary:', error);
-      return false;
-    }
+    if (!saved) return false;
 
+    await this.autoAddVocabulary(userId, 'book_library', chapterSyncItems(bookId, chapterId, vocabulary, new Date()));
     return true;
   },
 
@@ -1404,6 +2884,11 @@ export const dataService = {
   ): Promise<VocabularyItem[]> {
     if (!supabase) return [];
 
+    const cacheId = `${bookId}:${chapterId}`;
+    const local = async () =>
+      withLegacyVocabIds((await localStore.get<{ id: string; vocabulary: VocabularyItem[] }>('chapter_vocabulary', cacheId))?.vocabulary || [], cacheId);
+    if (!syncEngine.isOnline()) return local();
+
     const { data, error } = await supabase
       .from('book_chapter_vocabulary')
       .select('vocabulary')
@@ -1413,13 +2898,16 @@ export const dataService = {
       .single();
 
     if (error) {
+      if (isNetworkError(error)) return local();
       if (error.code !== 'PGRST116') { // Not found is ok
         console.error('Error fetching chapter vocabulary:', error);
       }
       return [];
     }
 
-    return (data?.vocabulary as VocabularyItem[]) || [];
+    const vocabulary = withLegacyVocabIds((data?.vocabulary as VocabularyItem[]) || [], cacheId);
+    await refreshCache('chapter_vocabulary', [{ id: cacheId, vocabulary }]);
+    return vocabulary;
   },
 
   /**
@@ -1455,6 +2943,116 @@ export const dataService = {
 
     return this.updateBook(userId, bookId, { progress });
   },
+
+  // ==================== OFFLINE ====================
+
+  /**
+   * Replay queued writes, then refresh the offline copy of the user's cards,
+   * books, chapter vocabulary and settings so the next session works without
+   * a connection.
+   */
+  async refreshOfflineCache(userId: string): Promise<void> {
+    if (!supabase || !syncEngine.isOnline()) return;
+
+    await syncEngine.flush();
+
+    const { data, error } = await supabase
+      .from('book_chapter_vocabulary')
+      .select('book_id, chapter_id, vocabulary')
+      .eq('user_id', userId);
+
+    if (error) {
+      console.error('Error caching chapter vocabulary:', error);
+    } else {
+      await refreshCache('chapter_vocabulary', (data || []).map(row => ({
+        id: `${row.book_id}:${row.chapter_id}`,
+        vocabulary: row.vocabulary as VocabularyItem[],
+      })), true);
+    }
+
+    await Promise.all([
+      this.fetchVocabularyReviews(userId),
+      this.fetchBooks(userId),
+      this.fetchSrsSettings(userId),
+    ]);
+  },
+
+  // ==================== REALTIME ====================
+
+  /**
+   * Listen for changes to the user's analyses, folders, review cards and books
+   * made in other tabs or on other devices, and keep the offline copy current.
+   * Returns a function that closes the channel.
+   */
+  startRealtime(userId: string): () => void {
+    if (!supabase) return () => {};
+
+    const emit = (change: RealtimeChange) => realtimeListeners.forEach(listener => listener(change));
+
+    // Analyses and folders are merged field by field again; this device's own
+    // writes come back at the version it already has and are ignored
+    const handleVersioned = (table: VersionedTable) => async (payload: RealtimePostgresChangesPayload<VersionedRow>) => {
+      if (payload.eventType === 'DELETE') {
+        const id = payload.old.id;
+        if (id && await localStore.get<SyncBase>('sync_base', `${table}:${id}`)) emit({ table });
+        return;
+      }
+      const base = await localStore.get<SyncBase>('sync_base', `${table}:${payload.new.id}`);
+      if (base?.updatedAt === payload.new.updated_at) return;
+      emit({ table });
+    };
+
+    const handleReview = async (payload: RealtimePostgresChangesPayload<DbVocabularyReview>) => {
+      if (payload.eventType === 'DELETE') {
+        // Deletes only carry the id (and aren't filtered by user)
+        const id = payload.old.id;
+        if (!id || !(await localStore.get<VocabularyReview>('reviews', id))) return;
+        if ((await syncEngine.pendingCount()) === 0) await localStore.remove('reviews', id);
+        emit({ table: 'vocabulary_reviews', id, review: null });
+        return;
+      }
+      const review = dbToVocabularyReview(payload.new);
+      await refreshCache('reviews', [review]);
+      emit({ table: 'vocabulary_reviews', id: review.id, review });
+    };
+
+    const handleBook = async (payload: RealtimePostgresChangesPayload<DbSavedBook>) => {
+      if (payload.eventType === 'DELETE') {
+        const id = payload.old.id;
+        if (!id || !(await localStore.get<SavedBook>('books', id))) return;
+        if ((await syncEngine.pendingCount()) === 0) await localStore.remove('books', id);
+        emit({ table: 'saved_books', id, book: null });
+        return;
+      }
+      // Whole books can be too large for a realtime message, so read it back
+      const book = await this.fetchBook(userId, payload.new.id);
+      if (book) emit({ table: 'saved_books', id: book.id, book });
+    };
+
+    const filter = `user_id=eq.${userId}`;
+    const channel = supabase
+      .channel(`user-data:${userId}`)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'saved_analyses', filter }, handleVersioned('saved_analyses'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'analysis_folders', filter }, handleVersioned('analysis_folders'))
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'vocabulary_reviews', filter }, handleReview)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'saved_books', filter }, handleBook)
+      .subscribe();
+
+    return () => {
+      supabase!.removeChannel(channel);
+    };
+  },
+
+  /**
+   * Be told about changes pushed by startRealtime. Returns a function that
+   * stops listening.
+   */
+  onRealtimeChange(listener: (change: RealtimeChange) => void): () => void {
+    realtimeListeners.add(listener);
+    return () => {
+      realtimeListeners.delete(listener);
+    };
+  },
 };
 
 // Database row type for books
@@ -1491,3 +3089,20 @@ const dbToBook = (row: DbSavedBook): SavedBook => ({
   lastOpenedAt: row.last_opened_at ? new Date(row.last_opened_at).getTime() : undefined,
 });
 
+// Transform app type to database row
+const bookToDb = (userId: string, book: SavedBook) => ({
+  id: book.id,
+  user_id: userId,
+  title: book.title,
+  author: book.author || null,
+  book_subject: book.bookSubject || null,
+  file_name: book.fileName,
+  page_count: book.pageCount,
+  structure: book.structure,
+  raw_text: book.rawText,
+  page_texts: [], // Will be populated if needed
+  progress: book.progress || [],
+  created_at: new Date(book.createdAt).toISOString(),
+  last_opened_at: new Date(book.lastOpenedAt || book.createdAt).toISOString(),
+});
+
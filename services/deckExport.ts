@@ -0,0 +1,419 @@
+/**
+ * Deck Export
+ *
+ * Review cards for use in Anki: an Anki package (.apkg, a zipped Anki
+ * collection database) or tab-separated text. Cards for the same term and
+ * source become one Anki note; its "Definition → Term" and "Term → Definition"
+ * cards can carry over their SM-2 scheduling state. Cloze and listening cards
+ * have no Anki counterpart; a term with only those arrives as a new card.
+ */
+
+import { CARD_TYPE_LABELS, DeckExportOptions, DetailedExample, VocabularyReview } from '../types';
+import { getCardState } from './sm2Algorithm';
+import { getCardType } from './cardTypes';
+import { writeDatabase, SqlTable } from './sqliteWriter';
+import { createZip } from './zipWriter';
+
+// Fixed so that exporting again updates the same note type in Anki
+const MODEL_ID = 1718000000000;
+const MODEL_NAME = 'WordDecode Vocabulary';
+const FIELD_NAMES = ['Term', 'Definition', 'Examples', 'Imagery', 'Source Context'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Cards for one term from one source
+interface ExportNote {
+  key: string;
+  term: string;
+  fields: string[];  // HTML, in FIELD_NAMES order
+  tags: string[];
+  production?: VocabularyReview;
+  recognition?: VocabularyReview;
+}
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\r?\n/g, '<br>');
+
+const examplesHtml = (examples: DetailedExample[] = []): string =>
+  examples.length === 0 ? '' : `<ul>${examples.map(example =>
+    `<li><b>${escapeHtml(example.context_label)}:</b> ${escapeHtml(example.sentence)}` +
+    (example.explanation ? ` <i>${escapeHtml(example.explanation)}</i>` : '') +
+    '</li>'
+  ).join('')}</ul>`;
+
+const groupNotes = (cards: VocabularyReview[], includeScheduling: boolean): ExportNote[] => {
+  const notes = new Map<string, ExportNote>();
+
+  for (const card of cards) {
+    const key = `${card.sourceType ?? 'text_analysis'}:${card.term.trim().toLowerCase()}`;
+    let note = notes.get(key);
+    if (!note) {
+      note = {
+        key,
+        term: card.term.trim(),
+        fields: [
+          escapeHtml(card.term),
+          escapeHtml(card.definition),
+          examplesHtml(card.examples),
+          escapeHtml(card.imageryEtymology || ''),
+          escapeHtml(card.sourceContext || ''),
+        ],
+        tags: [],
+      };
+      notes.set(key, note);
+    }
+
+    note.tags = [...new Set([...note.tags, ...(card.tags || [])])];
+    if (includeScheduling && card.isLeech && !note.tags.includes('leech')) note.tags.push('leech');
+
+    const cardType = getCardType(card);
+    if (cardType === 'production' || cardType === 'recognition') note[cardType] = card;
+  }
+
+  return [...notes.values()];
+};
+
+const startOfDay = (date: Date): number => {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day.getTime();
+};
+
+const sha1Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-1', new TextEncoder().encode(text));
+  return [...new Uint8Array(digest)].map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * The cards table columns from type to data (see Anki's schema 11):
+ * type 0 new / 1 learning / 2 review / 3 relearning; queue -1 suspended,
+ * 0 new, 1 learning (due in seconds), 2 review (due in days since the
+ * collection was created), 3 learning across days (due in days).
+ */
+const ankiScheduling = (
+  review: VocabularyReview | undefined,
+  position: number,
+  collectionStart: number,
+  now: number
+): { type: number; queue: number; due: number; ivl: number; factor: number; reps: number; lapses: number; left: number } => {
+  const state = review ? getCardState(review) : 'new';
+  if (!review || state === 'new') {
+    return { type: 0, queue: review?.isSuspended ? -1 : 0, due: position, ivl: 0, factor: 0, reps: 0, lapses: 0, left: 0 };
+  }
+
+  const next = review.nextReviewDate.getTime();
+  const dueDay = Math.round((startOfDay(review.nextReviewDate) - collectionStart) / DAY_MS);
+  const common = {
+    factor: Math.round(review.easeFactor * 1000),
+    reps: review.correctCount + review.incorrectCount,
+    lapses: review.lapses ?? 0,
+  };
+
+  let scheduling;
+  if (state === 'review') {
+    scheduling = { type: 2, queue: 2, due: dueDay, ivl: Math.max(1, review.interval), left: 0, ...common };
+  } else {
+    const acrossDays = next - now >= DAY_MS;
+    scheduling = {
+      type: state === 'learning' ? 1 : 3,
+      queue: acrossDays ? 3 : 1,
+      due: acrossDays ? dueDay : Math.floor(next / 1000),
+      ivl: state === 'relearning' ? Math.max(1, review.interval) : 0,
+      left: 1001,  // one step left, done today
+      ...common,
+    };
+  }
+
+  return review.isSuspended ? { ...scheduling, queue: -1 } : scheduling;
+};
+
+const CARD_CSS = `.card {
+  font-family: Georgia, serif;
+  font-size: 22px;
+  text-align: center;
+  color: #1e293b;
+  background: #ffffff;
+}
+.term { font-size: 30px; font-weight: bold; }
+.definition { margin-top: 8px; }
+.extra { margin-top: 16px; font-size: 16px; text-align: left; color: #475569; }
+.context { font-style: italic; }`;
+
+const ANSWER_EXTRAS = `{{#Examples}}<div class="extra">{{Examples}}</div>{{/Examples}}
+{{#Imagery}}<div class="extra">{{Imagery}}</div>{{/Imagery}}
+{{#Source Context}}<div class="extra context">{{Source Context}}</div>{{/Source Context}}`;
+
+const TEMPLATES = [
+  {
+    name: CARD_TYPE_LABELS.production,
+    qfmt: '<div class="definition">{{Definition}}</div>',
+    afmt: `{{FrontSide}}\n<hr id=answer>\n<div class="term">{{Term}}</div>\n${ANSWER_EXTRAS}`,
+  },
+  {
+    name: CARD_TYPE_LABELS.recognition,
+    qfmt: '<div class="term">{{Term}}</div>',
+    afmt: `{{FrontSide}}\n<hr id=answer>\n<div class="definition">{{Definition}}</div>\n${ANSWER_EXTRAS}`,
+  },
+];
+
+// Collection settings, note type and decks as the col table stores them (JSON)
+const collectionJson = (deckId: number, deckName: string, nextPosition: number, now: number) => {
+  const seconds = Math.floor(now / 1000);
+
+  const model = {
+    id: MODEL_ID,
+    name: MODEL_NAME,
+    type: 0,
+    mod: seconds,
+    usn: -1,
+    sortf: 0,
+    did: deckId,
+    tags: [],
+    vers: [],
+    flds: FIELD_NAMES.map((name, ord) => ({ name, ord, sticky: false, rtl: false, font: 'Arial', size: 20, media: [] })),
+    tmpls: TEMPLATES.map((template, ord) => ({ ...template, ord, did: null, bqfmt: '', bafmt: '' })),
+    css: CARD_CSS,
+    latexPre: '\\documentclass[12pt]{article}\n\\special{papersize=3in,5in}\n\\usepackage[utf8]{inputenc}\n' +
+      '\\usepackage{amssymb,amsmath}\n\\pagestyle{empty}\n\\setlength{\\parindent}{0in}\n\\begin{document}\n',
+    latexPost: '\\end{document}',
+    latexsvg: false,
+    // Which fields a card needs to be generated: the definition, and the term
+    req: [[0, 'any', [1]], [1, 'any', [0]]],
+  };
+
+  const deck = (id: number, name: string) => ({
+    id,
+    name,
+    desc: '',
+    mod: seconds,
+    usn: -1,
+    collapsed: false,
+    browserCollapsed: false,
+    dyn: 0,
+    conf: 1,
+    extendNew: 0,
+    extendRev: 0,
+    newToday: [0, 0],
+    revToday: [0, 0],
+    lrnToday: [0, 0],
+    timeToday: [0, 0],
+  });
+
+  const deckConfig = {
+    id: 1,
+    name: 'Default',
+    mod: 0,
+    usn: 0,
+    maxTaken: 60,
+    autoplay: true,
+    timer: 0,
+    replayq: true,
+    dyn: false,
+    new: { delays: [1, 10], ints: [1, 4, 7], initialFactor: 2500, order: 1, perDay: 20, bury: false },
+    rev: { perDay: 200, ease4: 1.3, ivlFct: 1, maxIvl: 36500, bury: false, hardFactor: 1.2 },
+    lapse: { delays: [10], mult: 0, minInt: 1, leechFails: 8, leechAction: 1 },
+  };
+
+  const conf = {
+    activeDecks: [1],
+    curDeck: deckId,
+    newSpread: 0,
+    collapseTime: 1200,
+    timeLim: 0,
+    estTimes: true,
+    dueCounts: true,
+    curModel: MODEL_ID,
+    nextPos: nextPosition,
+    sortType: 'noteFld',
+    sortBackwards: false,
+    addToCur: true,
+  };
+
+  return {
+    conf: JSON.stringify(conf),
+    models: JSON.stringify({ [MODEL_ID]: model }),
+    decks: JSON.stringify({ 1: deck(1, 'Default'), [deckId]: deck(deckId, deckName) }),
+    dconf: JSON.stringify({ 1: deckConfig }),
+  };
+};
+
+/**
+ * An Anki package with one note per term and source
+ */
+export const createAnkiPackage = async (cards: VocabularyReview[], options: DeckExportOptions): Promise<Blob> => {
+  const notes = groupNotes(cards, options.includeScheduling);
+  const now = Date.now();
+  const seconds = Math.floor(now / 1000);
+  const deckId = now;
+
+  // The collection "starts" before any exported card was due, so due days stay positive
+  const collectionStart = startOfDay(new Date(cards.reduce((earliest, c) => Math.min(earliest, c.nextReviewDate.getTime()), now)));
+
+  const noteRows: (string | number)[][] = [];
+  const cardRows: (string | number)[][] = [];
+  for (const [i, note] of notes.entries()) {
+    const noteId = now + i;
+    const [guid, checksum] = await Promise.all([sha1Hex(note.key), sha1Hex(note.term)]);
+
+    noteRows.push([
+      noteId,
+      guid.slice(0, 16),  // stable, so importing again updates the note instead of duplicating it
+      MODEL_ID,
+      seconds,
+      -1,
+      note.tags.length > 0 ? ` ${note.tags.join(' ')} ` : '',
+      note.fields.join('\x1f'),
+      note.term,
+      parseInt(checksum.slice(0, 8), 16),
+      0,
+      '',
+    ]);
+
+    const ankiCards = [{ ord: 0, review: note.production }];
+    if (note.recognition) ankiCards.push({ ord: 1, review: note.recognition });
+    for (const { ord, review } of ankiCards) {
+      const scheduling = ankiScheduling(options.includeScheduling ? review : undefined, i + 1, collectionStart, now);
+      cardRows.push([
+        now + cardRows.length,
+        noteId,
+        deckId,
+        ord,
+        seconds,
+        -1,
+        scheduling.type,
+        scheduling.queue,
+        scheduling.due,
+        scheduling.ivl,
+        scheduling.factor,
+        scheduling.reps,
+        scheduling.lapses,
+        scheduling.left,
+        0,
+        0,
+        0,
+        '',
+      ]);
+    }
+  }
+
+  const json = collectionJson(deckId, options.deckName, notes.length + 1, now);
+  const tables: SqlTable[] = [
+    {
+      name: 'col',
+      sql: 'CREATE TABLE col (id integer primary key, crt integer not null, mod integer not null, ' +
+        'scm integer not null, ver integer not null, dty integer not null, usn integer not null, ' +
+        'ls integer not null, conf text not null, models text not null, decks text not null, ' +
+        'dconf text not null, tags text not null)',
+      rowidColumn: 0,
+      rows: [[1, Math.floor(collectionStart / 1000), now, now, 11, 0, 0, 0, json.conf, json.models, json.decks, json.dconf, '{}']],
+    },
+    {
+      name: 'notes',
+      sql: 'CREATE TABLE notes (id integer primary key, guid text not null, mid integer not null, ' +
+        'mod integer not null, usn integer not null, tags text not null, flds text not null, ' +
+        'sfld integer not null, csum integer not null, flags integer not null, data text not null)',
+      rowidColumn: 0,
+      rows: noteRows,
+      indexes: [
+        { name: 'ix_notes_usn', sql: 'CREATE INDEX ix_notes_usn on notes (usn)', columns: [4] },
+        { name: 'ix_notes_csum', sql: 'CREATE INDEX ix_notes_csum on notes (csum)', columns: [8] },
+      ],
+    },
+    {
+      name: 'cards',
+      sql: 'CREATE TABLE cards (id integer primary key, nid integer not null, did integer not null, ' +
+        'ord integer not null, mod integer not null, usn integer not null, type integer not null, ' +
+        'queue integer not null, due integer not null, ivl integer not null, factor integer not null, ' +
+        'reps integer not null, lapses integer not null, left integer not null, odue integer not null, ' +
+        'odid integer not null, flags integer not null, data text not null)',
+      rowidColumn: 0,
+      rows: cardRows,
+      indexes: [
+        { name: 'ix_cards_usn', sql: 'CREATE INDEX ix_cards_usn on cards (usn)', columns: [5] },
+        { name: 'ix_cards_nid', sql: 'CREATE INDEX ix_cards_nid on cards (nid)', columns: [1] },
+        { name: 'ix_cards_sched', sql: 'CREATE INDEX ix_cards_sched on cards (did, queue, due)', columns: [2, 7, 8] },
+      ],
+    },
+    {
+      name: 'revlog',
+      sql: 'CREATE TABLE revlog (id integer primary key, cid integer not null, usn integer not null, ' +
+        'ease integer not null, ivl integer not null, lastIvl integer not null, factor integer not null, ' +
+        'time integer not null, type integer not null)',
+      rowidColumn: 0,
+      rows: [],
+      indexes: [
+        { name: 'ix_revlog_usn', sql: 'CREATE INDEX ix_revlog_usn on revlog (usn)', columns: [2] },
+        { name: 'ix_revlog_cid', sql: 'CREATE INDEX ix_revlog_cid on revlog (cid)', columns: [1] },
+      ],
+    },
+    {
+      name: 'graves',
+      sql: 'CREATE TABLE graves (usn integer not null, oid integer not null, type integer not null)',
+      rows: [],
+    },
+  ];
+
+  return createZip([
+    { name: 'collection.anki2', data: writeDatabase(tables) },
+    { name: 'media', data: new TextEncoder().encode('{}') },
+  ]);
+};
+
+// Anki reads a field in double quotes verbatim, so quote any that would break the line
+const tsvField = (value: string): string =>
+  /["\t\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Tab-separated notes, one per line, with the header lines Anki's text import
+ * understands. With scheduling, the "Definition → Term" card's state follows
+ * in extra columns (for spreadsheets; Anki can't import scheduling from text).
+ */
+export const createTsv = (cards: VocabularyReview[], options: DeckExportOptions): Blob => {
+  const notes = groupNotes(cards, options.includeScheduling);
+  const columns = [...FIELD_NAMES, 'Tags'];
+  if (options.includeScheduling) columns.push('State', 'Due', 'Interval', 'Ease', 'Reviews', 'Lapses');
+
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    `#deck:${options.deckName}`,
+    `#tags column:${FIELD_NAMES.length + 1}`,
+    `#columns:${columns.join('\t')}`,
+  ];
+
+  for (const note of notes) {
+    const values = [...note.fields, note.tags.join(' ')];
+    if (options.includeScheduling) {
+      const review = note.production ?? note.recognition;
+      values.push(...(review ? [
+        getCardState(review),
+        review.nextReviewDate.toISOString().split('T')[0],
+        String(review.interval),
+        review.easeFactor.toFixed(2),
+        String(review.correctCount + review.incorrectCount),
+        String(review.lapses ?? 0),
+      ] : ['new', '', '', '', '', '']));
+    }
+    lines.push(values.map(tsvField).join('\t'));
+  }
+
+  return new Blob([lines.join('\n') + '\n'], { type: 'text/tab-separated-values' });
+};
+
+/**
+ * Save an export through the browser
+ */
+export const downloadExport = (file: Blob, fileName: string): void => {
+  const url = URL.createObjectURL(file);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
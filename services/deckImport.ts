@@ -0,0 +1,420 @@
+/**
+ * Deck Import
+ *
+ * Reads Anki packages (.apkg) and CSV/TSV files into notes, maps their fields
+ * onto review card fields, and plans the import: one "Definition → Term" card
+ * per term, marked as imported, skipping terms that already have cards. Anki's
+ * scheduling state and review history can come along.
+ */
+
+import {
+  CardState,
+  DeckImportPlan,
+  DeckImportSource,
+  DetailedExample,
+  ImportedNote,
+  ImportedSchedule,
+  ImportFieldTarget,
+  ReviewLogEntry,
+  SimpleQuality,
+  VocabularyReview,
+} from '../types';
+import { createNewReview, MASTERY_INTERVAL_THRESHOLD } from './sm2Algorithm';
+import { normalizeTag, parseTags } from './tags';
+import { readZip } from './zipReader';
+import { openDatabase, SqlRow } from './sqliteReader';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Anki answer buttons, 1-4
+const ANKI_EASE_QUALITY: Record<number, SimpleQuality> = { 1: 'again', 2: 'hard', 3: 'good', 4: 'easy' };
+
+// Anki's field separator within a note
+const FIELD_SEPARATOR = '\x1f';
+
+/**
+ * Plain text of an Anki field: line breaks kept, markup, images and sounds dropped
+ */
+const htmlToText = (html: string): string => {
+  const marked = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li)>/gi, '\n')
+    .replace(/\[sound:[^\]]*\]/g, '');
+  const text = new DOMParser().parseFromString(marked, 'text/html').body.textContent || '';
+  return text
+    .replace(/\u00a0/g, ' ')
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+};
+
+// ==================== ANKI ====================
+
+// Anki intervals are days, or negative seconds while in learning steps
+const ankiDays = (interval: number): number => Math.max(0, interval);
+
+const ankiHistory = (log: SqlRow[]): ImportedSchedule['history'] => {
+  let previousEase = DEFAULT_EASE;
+  return log
+    .filter(entry => (entry.ease as number) >= 1)  // 0: rescheduled by hand, not an answer
+    .map((entry, i) => {
+      const factor = entry.factor as number;
+      const newEase = factor > 0 ? factor / 1000 : previousEase;
+      const type = entry.type as number;
+      const previousCardState: CardState =
+        type === 0 ? (i === 0 ? 'new' : 'learning') :
+        type === 2 ? 'relearning' :
+        'review';
+      const item = {
+        reviewedAt: new Date(entry.id as number),
+        quality: ANKI_EASE_QUALITY[entry.ease as number] ?? 'good',
+        previousCardState,
+        timeTakenMs: (entry.time as number) || undefined,
+        previousInterval: ankiDays(entry.lastIvl as number),
+        newInterval: ankiDays(entry.ivl as number),
+        previousEaseFactor: previousEase,
+        newEaseFactor: newEase,
+      };
+      previousEase = newEase;
+      return item;
+    });
+};
+
+/**
+ * A card's schedule (Anki schema 11). Due is a position for new cards,
+ * epoch seconds for cards in same-day learning and days since the collection
+ * was created otherwise; cards in a filtered deck keep their home due in odue.
+ */
+const ankiSchedule = (card: SqlRow, collectionCreated: number, log: SqlRow[]): ImportedSchedule => {
+  const type = card.type as number;
+  const queue = card.queue as number;
+  const due = (card.odid as number) ? (card.odue as number) : (card.due as number);
+  const easeFactor = Math.max(MIN_EASE, (card.factor as number) / 1000 || DEFAULT_EASE);
+
+  const cardState: CardState = type === 1 ? 'learning' : type === 2 ? 'review' : type === 3 ? 'relearning' : 'new';
+  const dueDate =
+    cardState === 'new' ? new Date() :
+    due > 1_000_000_000 ? new Date(due * 1000) :  // learning: a timestamp, not a day
+    new Date((collectionCreated + due * 86400) * 1000);
+
+  return {
+    cardState,
+    dueDate,
+    interval: ankiDays(card.ivl as number),
+    easeFactor,
+    reviews: card.reps as number,
+    lapses: card.lapses as number,
+    isSuspended: queue === -1,
+    history: ankiHistory(log),
+  };
+};
+
+/**
+ * Notes of an Anki package, with the schedule of each note's first card.
+ * Packages in the newest format (collection.anki21b) can't be read; Anki
+ * writes the older format when "Support older Anki versions" is ticked.
+ */
+export const parseAnkiPackage = async (file: Blob): Promise<DeckImportSource> => {
+  let files: Map<string, Uint8Array>;
+  try {
+    files = await readZip(file, ['collection.anki21b', 'collection.anki21', 'collection.anki2']);
+  } catch {
+    throw new Error('This file is not an Anki package.');
+  }
+
+  const collection = files.get('collection.anki21') ?? (files.has('collection.anki21b') ? undefined : files.get('collection.anki2'));
+  if (!collection) {
+    throw new Error(files.has('collection.anki21b')
+      ? 'This package uses the newest Anki format. Export it again from Anki with "Support older Anki versions" ticked.'
+      : 'This file is not an Anki package.');
+  }
+
+  const db = openDatabase(collection);
+  const col = db.readTable('col')[0];
+  if (!col) throw new Error('This Anki package has no collection in it.');
+
+  // Field names of every note type, in field order
+  const models: Record<string, { flds: { name: string; ord: number }[] }> = JSON.parse(col.models as string);
+  const fieldNames = (mid: number): string[] =>
+    [...(models[mid]?.flds || [])].sort((a, b) => a.ord - b.ord).map(field => field.name);
+
+  const firstCards = new Map<number, SqlRow>();
+  for (const card of db.readTable('cards')) {
+    const current = firstCards.get(card.nid as number);
+    if (!current || (card.ord as number) < (current.ord as number)) firstCards.set(card.nid as number, card);
+  }
+
+  const logByCard = new Map<number, SqlRow[]>();
+  for (const entry of db.readTable('revlog')) {
+    const cardId = entry.cid as number;
+    if (!logByCard.has(cardId)) logByCard.set(cardId, []);
+    logByCard.get(cardId)!.push(entry);
+  }
+
+  const fields: string[] = [];
+  const notes: ImportedNote[] = db.readTable('notes').map(note => {
+    const names = fieldNames(note.mid as number);
+    names.forEach(name => {
+      if (!fields.includes(name)) fields.push(name);
+    });
+
+    const values = ((note.flds as string) || '').split(FIELD_SEPARATOR);
+    const card = firstCards.get(note.id as number);
+    return {
+      values: Object.fromEntries(names.map((name, i) => [name, htmlToText(values[i] || '')])),
+      tags: ((note.tags as string) || '').split(/\s+/).map(normalizeTag).filter(Boolean),
+      schedule: card
+        ? ankiSchedule(card, col.crt as number, (logByCard.get(card.id as number) || []).sort((a, b) => (a.id as number) - (b.id as number)))
+        : undefined,
+    };
+  });
+
+  return { format: 'apkg', fields, notes, hasScheduling: notes.some(note => note.schedule) };
+};
+
+// ==================== CSV / TSV ====================
+
+const SEPARATOR_NAMES: Record<string, string> = {
+  tab: '\t',
+  comma: ',',
+  semicolon: ';',
+  pipe: '|',
+  colon: ':',
+  space: ' ',
+};
+
+// Rows of a delimited file; quoted fields may contain the separator, quotes ("") and line breaks
+const splitRows = (text: string, separator: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter(r => r.some(value => value.trim() !== ''));
+};
+
+// Spreadsheet columns holding a schedule, as written by the deck export
+const csvSchedule = (row: Record<string, string>): ImportedSchedule | undefined => {
+  const value = (name: string) => Object.entries(row).find(([column]) => column.toLowerCase() === name)?.[1]?.trim() || '';
+  const due = new Date(value('due'));
+  const interval = parseInt(value('interval'), 10);
+  if (isNaN(due.getTime()) || isNaN(interval)) return undefined;
+
+  const state = value('state') as CardState;
+  return {
+    cardState: ['new', 'learning', 'review', 'relearning'].includes(state) ? state : interval > 0 ? 'review' : 'new',
+    dueDate: due,
+    interval,
+    easeFactor: Math.max(MIN_EASE, parseFloat(value('ease')) || DEFAULT_EASE),
+    reviews: parseInt(value('reviews'), 10) || 0,
+    lapses: parseInt(value('lapses'), 10) || 0,
+    isSuspended: false,
+    history: [],
+  };
+};
+
+/**
+ * Rows of a CSV or TSV file. Anki's header lines (#separator, #html, #columns,
+ * #tags column) are honoured; otherwise the separator is guessed from the
+ * first line and, when `firstRowIsHeader`, the first row names the columns.
+ */
+export const parseDelimited = (text: string, firstRowIsHeader: boolean): DeckImportSource => {
+  const lines = text.replace(/^\ufeff/, '').split(/\r?\n/);
+  const headers: Record<string, string> = {};
+  while (lines.length > 0 && lines[0].startsWith('#') && lines[0].includes(':')) {
+    const line = lines.shift()!.slice(1);
+    const colon = line.indexOf(':');
+    headers[line.slice(0, colon).trim().toLowerCase()] = line.slice(colon + 1);
+  }
+
+  const body = lines.join('\n');
+  const firstLine = lines.find(line => line.trim() !== '') || '';
+  const separator = headers.separator !== undefined
+    ? SEPARATOR_NAMES[headers.separator.trim().toLowerCase()] ?? headers.separator
+    : ['\t', ';', ','].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, '\t');
+
+  const rows = splitRows(body, separator);
+  const isHtml = headers.html?.trim().toLowerCase() === 'true';
+
+  let names: string[];
+  if (headers.columns !== undefined) {
+    names = headers.columns.split(separator).map(name => name.trim());
+  } else if (firstRowIsHeader && rows.length > 0) {
+    names = rows.shift()!.map(name => name.trim());
+  } else {
+    names = [];
+  }
+
+  const width = rows.reduce((widest, row) => Math.max(widest, row.length), names.length);
+  const tagsColumn = parseInt(headers['tags column'] ?? '', 10);
+  const fields = Array.from({ length: width }, (_, i) =>
+    names[i] || (i + 1 === tagsColumn ? 'Tags' : `Column ${i + 1}`));
+
+  const notes: ImportedNote[] = rows.map(row => {
+    const values = Object.fromEntries(fields.map((name, i) => {
+      const raw = row[i] ?? '';
+      return [name, isHtml ? htmlToText(raw) : raw.trim()];
+    }));
+    return { values, tags: [], schedule: csvSchedule(values) };
+  });
+
+  return { format: 'csv', fields, notes, hasScheduling: notes.some(note => note.schedule) };
+};
+
+// ==================== MAPPING ====================
+
+const TARGET_PATTERNS: [Exclude<ImportFieldTarget, 'ignore'>, RegExp][] = [
+  ['term', /^(term|word|front|expression|vocab(ulary)?|phrase|question|target)$/i],
+  ['definition', /^(definition|meaning|back|gloss|translation|answer)$/i],
+  ['example', /example|sentence/i],
+  ['imagery', /imagery|etymology|mnemonic/i],
+  ['sourceContext', /context|source/i],
+  ['tags', /^tags?$/i],
+];
+
+/**
+ * A first guess at what each field holds, from its name. Without a named term
+ * and definition, the first two fields are taken for them.
+ */
+export const guessFieldMapping = (fields: string[]): Record<string, ImportFieldTarget> => {
+  const mapping: Record<string, ImportFieldTarget> = Object.fromEntries(fields.map(field => [field, 'ignore']));
+  const used = new Set<ImportFieldTarget>();
+
+  for (const field of fields) {
+    const match = TARGET_PATTERNS.find(([target, pattern]) =>
+      pattern.test(field.trim()) && (target === 'example' || !used.has(target)));
+    if (match) {
+      mapping[field] = match[0];
+      used.add(match[0]);
+    }
+  }
+
+  for (const target of ['term', 'definition'] as const) {
+    if (used.has(target)) continue;
+    const free = fields.find(field => mapping[field] === 'ignore');
+    if (free) {
+      mapping[free] = target;
+      used.add(target);
+    }
+  }
+
+  return mapping;
+};
+
+// ==================== PLAN ====================
+
+/**
+ * The cards an import will create. Terms that already have cards (from any
+ * source) and later copies within the file are skipped; `existingTerms` holds
+ * lowercased terms. With `includeScheduling`, cards keep their schedule and
+ * review history; otherwise they start as new.
+ */
+export const planDeckImport = (
+  source: DeckImportSource,
+  mapping: Record<string, ImportFieldTarget>,
+  existingTerms: Set<string>,
+  includeScheduling: boolean
+): DeckImportPlan => {
+  const plan: DeckImportPlan = { reviews: [], history: [], existing: 0, repeated: 0, incomplete: 0 };
+  const seen = new Set<string>();
+  const fieldsFor = (target: ImportFieldTarget) => source.fields.filter(name => mapping[name] === target);
+
+  for (const note of source.notes) {
+    const joined = (target: ImportFieldTarget, separator: string) =>
+      fieldsFor(target).map(name => note.values[name]?.trim()).filter(Boolean).join(separator);
+
+    const term = joined('term', ' ');
+    const definition = joined('definition', '\n');
+    if (!term || !definition) {
+      plan.incomplete++;
+      continue;
+    }
+
+    const key = term.toLowerCase();
+    if (existingTerms.has(key)) {
+      plan.existing++;
+      continue;
+    }
+    if (seen.has(key)) {
+      plan.repeated++;
+      continue;
+    }
+    seen.add(key);
+
+    const examples: DetailedExample[] = fieldsFor('example')
+      .filter(name => note.values[name]?.trim())
+      .map(name => ({ context_label: name, sentence: note.values[name].trim() }));
+    const tags = [...new Set([...note.tags, ...fieldsFor('tags').flatMap(name => parseTags(note.values[name] || ''))])];
+
+    let review: VocabularyReview = {
+      ...createNewReview(term, definition, {
+        sourceContext: joined('sourceContext', '\n') || undefined,
+        examples: examples.length > 0 ? examples : undefined,
+        imageryEtymology: joined('imagery', '\n') || undefined,
+      }),
+      id: crypto.randomUUID(),
+      sourceType: 'imported',
+      cardType: 'production',
+      tags,
+    };
+
+    const schedule = includeScheduling ? note.schedule : undefined;
+    if (schedule && schedule.cardState !== 'new') {
+      const lastAnswer = schedule.history[schedule.history.length - 1]?.reviewedAt;
+      review = {
+        ...review,
+        cardState: schedule.cardState,
+        learningStep: schedule.cardState === 'review' ? undefined : 0,
+        easeFactor: schedule.easeFactor,
+        interval: schedule.interval,
+        repetitions: schedule.cardState === 'review' ? Math.max(1, schedule.reviews - schedule.lapses) : 0,
+        nextReviewDate: schedule.dueDate,
+        lastReviewDate: lastAnswer ?? new Date(schedule.dueDate.getTime() - schedule.interval * DAY_MS),
+        isMastered: schedule.interval >= MASTERY_INTERVAL_THRESHOLD,
+        correctCount: Math.max(0, schedule.reviews - schedule.lapses),
+        incorrectCount: schedule.lapses,
+        lapses: schedule.lapses,
+      };
+      plan.history.push(...schedule.history.map((entry): Omit<ReviewLogEntry, 'id'> => ({ ...entry, reviewId: review.id })));
+    }
+    if (schedule?.isSuspended) review.isSuspended = true;
+
+    plan.reviews.push(review);
+  }
+
+  return plan;
+};
@@ -0,0 +1,237 @@
+/**
+ * Document Parsing Service
+ * Extracts paragraph text from Word (.docx) and HTML files in the browser
+ */
+
+import { readZip } from './zipReader';
+
+export interface DocumentParseResult {
+  text: string;
+  paragraphs: string[];
+  metadata?: {
+    title?: string;
+  };
+}
+
+// A paragraph-level block of text, with the element ids found in it (link targets)
+export interface TextBlock {
+  text: string;
+  ids: string[];
+}
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+// Elements that start a new paragraph
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'section', 'article', 'header', 'footer', 'aside', 'nav', 'main',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'figure', 'figcaption',
+  'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'tr', 'hr', 'body',
+]);
+const SKIPPED_TAGS = new Set(['head', 'script', 'style', 'svg', 'math', 'noscript']);
+
+// Page furniture around the content of a web page or newsletter
+const BOILERPLATE_SELECTOR = [
+  'nav', 'header', 'footer', 'aside', 'form', 'button', 'iframe', 'template',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]', '[hidden]',
+].join(', ');
+const BOILERPLATE_NAME = /(^|[\s_-])(nav|navbar|menu|breadcrumbs?|sidebar|footer|header|masthead|cookies?|consent|banner|share|social|subscribe|newsletter-signup|advert|ads?|promo|related|comments?|unsubscribe|preheader)([\s_-]|$)/i;
+
+/**
+ * Collapse the whitespace of a paragraph, keeping its line breaks
+ */
+function cleanParagraph(text: string): string {
+  return text
+    .split('\n')
+    .map(line => line.replace(/\s+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n');
+}
+
+/**
+ * Paragraphs of an HTML or XHTML element, keeping line breaks within them
+ */
+export function extractBlocks(root: Element): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let current = '';
+  let pendingIds: string[] = [];
+
+  const flush = () => {
+    const text = cleanParagraph(current);
+    if (text) {
+      blocks.push({ text, ids: pendingIds });
+      pendingIds = [];
+    }
+    current = '';
+  };
+
+  const visit = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      current += (node.textContent || '').replace(/\s+/g, ' ');
+      return;
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return;
+
+    const element = node as Element;
+    const tag = element.localName.toLowerCase();
+    if (SKIPPED_TAGS.has(tag)) return;
+
+    const isBlock = BLOCK_TAGS.has(tag);
+    if (isBlock) flush();
+
+    const id = element.getAttribute('id') || (tag === 'a' ? element.getAttribute('name') : null);
+    if (id) pendingIds.push(id);
+
+    if (tag === 'br') current += '\n';
+    else if (tag === 'td' || tag === 'th') current += ' ';
+
+    element.childNodes.forEach(visit);
+    if (isBlock) flush();
+  };
+
+  visit(root);
+  flush();
+
+  // Ids after the last paragraph still point at the end of this document
+  if (pendingIds.length > 0 && blocks.length > 0) {
+    blocks[blocks.length - 1].ids.push(...pendingIds);
+  }
+  return blocks;
+}
+
+/**
+ * Decode an HTML file using the charset it declares (UTF-8 otherwise)
+ */
+function decodeHtml(bytes: Uint8Array): string {
+  const head = new TextDecoder('latin1').decode(bytes.subarray(0, 2048));
+  const charset = head.match(/<meta[^>]+charset=["']?([\w-]+)/i)?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(bytes);
+  } catch {
+    return new TextDecoder().decode(bytes);
+  }
+}
+
+/**
+ * Extract the main text of an HTML page, leaving out navigation, headers,
+ * footers, sidebars and similar page furniture
+ */
+export async function parseHTML(file: File): Promise<DocumentParseResult> {
+  const source = decodeHtml(new Uint8Array(await file.arrayBuffer()));
+  const doc = new DOMParser().parseFromString(source, 'text/html');
+
+  // A wrapper holding most of the page is never boilerplate, whatever it's called
+  const pageLength = (doc.body?.textContent || '').length;
+  doc.body?.querySelectorAll('*').forEach(element => {
+    if (!element.isConnected) return;
+    const names = `${element.getAttribute('class') || ''} ${element.getAttribute('id') || ''}`;
+    const isBoilerplate = element.matches(BOILERPLATE_SELECTOR) || BOILERPLATE_NAME.test(names);
+    if (isBoilerplate && (element.textContent || '').length < pageLength / 2) element.remove();
+  });
+
+  // The article itself when the page marks it, otherwise the whole body
+  const articles = Array.from(doc.querySelectorAll('article'));
+  const root = doc.querySelector('main, [role="main"]') ||
+    (articles.length === 1 ? articles[0] : null) ||
+    doc.body ||
+    doc.documentElement;
+
+  const paragraphs = extractBlocks(root).map(block => block.text);
+  const title = doc.title.trim() || doc.querySelector('h1')?.textContent?.trim();
+
+  return {
+    text: paragraphs.join('\n\n'),
+    paragraphs,
+    metadata: { title: title || undefined },
+  };
+}
+
+/**
+ * Extract the body text of a Word document. Headers, footers, comments and
+ * tracked deletions are left out; table cells become separate paragraphs.
+ */
+export async function parseDOCX(file: File): Promise<DocumentParseResult> {
+  const files = await readZip(file, ['word/document.xml', 'docProps/core.xml']);
+  const documentXml = files.get('word/document.xml');
+  if (!documentXml) {
+    throw new Error('Not a Word document');
+  }
+
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(new TextDecoder().decode(documentXml), 'application/xml');
+  const body = doc.getElementsByTagNameNS(WORD_NAMESPACE, 'body')[0];
+  if (!body) {
+    throw new Error('Damaged Word document');
+  }
+
+  const paragraphs: string[] = [];
+  let current = '';
+
+  const flush = () => {
+    const text = cleanParagraph(current);
+    if (text) paragraphs.push(text);
+    current = '';
+  };
+
+  const visit = (element: Element) => {
+    switch (element.localName) {
+      case 't':
+        current += element.textContent || '';
+        return;
+      case 'tab':
+        current += ' ';
+        return;
+      case 'br':
+      case 'cr':
+        current += '\n';
+        return;
+      // Field codes, deleted text and the legacy copy of text boxes
+      case 'instrText':
+      case 'delText':
+      case 'Fallback':
+        return;
+    }
+
+    const isParagraph = element.localName === 'p' && element.namespaceURI === WORD_NAMESPACE;
+    if (isParagraph) flush();
+    Array.from(element.children).forEach(visit);
+    if (isParagraph) flush();
+  };
+
+  visit(body);
+  flush();
+
+  let title: string | undefined;
+  const coreXml = files.get('docProps/core.xml');
+  if (coreXml) {
+    const core = parser.parseFromString(new TextDecoder().decode(coreXml), 'application/xml');
+    title = core.getElementsByTagNameNS(DC_NAMESPACE, 'title')[0]?.textContent?.trim() || undefined;
+  }
+
+  return {
+    text: paragraphs.join('\n\n'),
+    paragraphs,
+    metadata: { title },
+  };
+}
+
+/**
+ * Check if a file is a Word document (.docx; the older binary .doc isn't supported)
+ */
+export function isDOCXFile(file: File): boolean {
+  return (
+    file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' ||
+    file.name.toLowerCase().endsWith('.docx')
+  );
+}
+
+/**
+ * Check if a file is an HTML page
+ */
+export function isHTMLFile(file: File): boolean {
+  return (
+    file.type === 'text/html' ||
+    /\.(html?|xhtml)$/i.test(file.name)
+  );
+}
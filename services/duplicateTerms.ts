@@ -0,0 +1,173 @@
+/**
+ * Duplicate Terms
+ *
+ * Finds review cards that are really the same term: the same words learned
+ * from different sources, in a different case or in another form
+ * ("Circle back" / "circled back" / "circle back"), and works out what a
+ * merged card should look like.
+ */
+
+import { VocabularyReview, DetailedExample, ReviewSourceType } from '../types';
+import { parseTerm, getBaseForms } from './inflections';
+import { getCardType } from './cardTypes';
+import { mergeTags } from './tags';
+
+// Articles and possessives don't make a term different ("lose your temper" = "lose one's temper")
+const FILLER_WORDS = new Set([
+  'a', 'an', 'the',
+  'my', 'your', 'his', 'her', 'its', 'our', 'their',
+]);
+
+// Upper bound on keys per term (every word can have a few base forms)
+const MAX_KEYS = 64;
+
+const SOURCE_LABELS: Record<ReviewSourceType, string> = {
+  text_analysis: 'From text analysis',
+  book_library: 'From book',
+  imported: 'Imported deck',
+};
+
+/**
+ * Normalised keys for a term: its required words reduced to every possible base form.
+ * Two terms are variants of each other when they share a key.
+ */
+export function getTermKeys(term: string): string[] {
+  let words = parseTerm(term)
+    .filter(t => !t.optional && !t.placeholder && !FILLER_WORDS.has(t.word))
+    .map(t => t.word);
+  if (words[0] === 'to' && words.length > 1) words = words.slice(1);
+  if (words.length === 0) return [term.trim().toLowerCase()];
+
+  let keys = [''];
+  for (const word of words) {
+    const bases = word.split('/').flatMap(alt => [...getBaseForms(alt)]);
+    const next: string[] = [];
+    for (const key of keys) {
+      for (const base of bases) {
+        next.push(key ? `${key} ${base}` : base);
+      }
+    }
+    keys = next.slice(0, MAX_KEYS);
+  }
+  return keys;
+}
+
+/**
+ * Order cards by how well they are known: longest interval, then most
+ * successful repetitions, then stability
+ */
+export function compareScheduleStrength(a: VocabularyReview, b: VocabularyReview): number {
+  return (b.interval - a.interval) ||
+    (b.repetitions - a.repetitions) ||
+    ((b.stability ?? 0) - (a.stability ?? 0)) ||
+    (b.correctCount - a.correctCount);
+}
+
+/**
+ * Group production cards that are the same term, strongest schedule first.
+ * Only groups with more than one card are returned.
+ */
+export function findDuplicateGroups(reviews: VocabularyReview[]): VocabularyReview[][] {
+  const cards = reviews.filter(r => getCardType(r) === 'production');
+
+  // Union-find over cards that share a term key
+  const parent = cards.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]];
+      i = parent[i];
+    }
+    return i;
+  };
+
+  const keyOwner = new Map<string, number>();
+  cards.forEach((card, i) => {
+    for (const key of getTermKeys(card.term)) {
+      const owner = keyOwner.get(key);
+      if (owner === undefined) {
+        keyOwner.set(key, i);
+      } else {
+        parent[find(i)] = find(owner);
+      }
+    }
+  });
+
+  const groups = new Map<number, VocabularyReview[]>();
+  cards.forEach((card, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) || []), card]);
+  });
+
+  return [...groups.values()]
+    .filter(group => group.length > 1)
+    .map(group => [...group].sort(compareScheduleStrength))
+    .sort((a, b) => a[0].term.localeCompare(b[0].term));
+}
+
+const sentenceKey = (sentence: string) => sentence.trim().toLowerCase();
+
+/**
+ * The card left after merging `others` into `keeper`:
+ * - content: the keeper's, filling gaps from the others
+ * - examples: all examples without repeats; the others' source sentences become examples
+ * - tags: all tags of all cards
+ * - schedule: taken from whichever card is known best
+ * - statistics: added up
+ */
+export function buildMergedReview(keeper: VocabularyReview, others: VocabularyReview[]): VocabularyReview {
+  const all = [keeper, ...others];
+  const strongest = [...all].sort(compareScheduleStrength)[0];
+
+  const seen = new Set<string>();
+  if (keeper.sourceContext) seen.add(sentenceKey(keeper.sourceContext));
+  const examples: DetailedExample[] = [];
+  const addExample = (example: DetailedExample) => {
+    const key = sentenceKey(example.sentence);
+    if (!key || seen.has(key)) return;
+    seen.add(key);
+    examples.push(example);
+  };
+
+  (keeper.examples || []).forEach(addExample);
+  for (const other of others) {
+    if (other.sourceContext) {
+      addExample({
+        context_label: SOURCE_LABELS[other.sourceType || 'text_analysis'],
+        sentence: other.sourceContext,
+      });
+    }
+    (other.examples || []).forEach(addExample);
+  }
+
+  const firstOf = <K extends keyof VocabularyReview>(field: K): VocabularyReview[K] =>
+    all.find(r => r[field] !== undefined && r[field] !== null && r[field] !== '')?.[field] as VocabularyReview[K];
+  const sum = (field: 'correctCount' | 'incorrectCount' | 'lapses') =>
+    all.reduce((total, r) => total + (r[field] ?? 0), 0);
+
+  return {
+    ...keeper,
+    definition: keeper.definition || firstOf('definition'),
+    category: firstOf('category'),
+    sourceContext: firstOf('sourceContext'),
+    imageryEtymology: firstOf('imageryEtymology'),
+    difficultyLevel: firstOf('difficultyLevel'),
+    examples,
+    tags: mergeTags(...all.map(r => r.tags)),
+    easeFactor: strongest.easeFactor,
+    interval: strongest.interval,
+    repetitions: strongest.repetitions,
+    nextReviewDate: strongest.nextReviewDate,
+    lastReviewDate: strongest.lastReviewDate,
+    cardState: strongest.cardState,
+    learningStep: strongest.learningStep,
+    stability: strongest.stability,
+    difficulty: strongest.difficulty,
+    isMastered: strongest.isMastered,
+    isSuspended: all.every(r => r.isSuspended),
+    isLeech: all.some(r => r.isLeech),
+    correctCount: sum('correctCount'),
+    incorrectCount: sum('incorrectCount'),
+    lapses: sum('lapses'),
+    createdAt: new Date(Math.min(...all.map(r => r.createdAt.getTime()))),
+  };
+}
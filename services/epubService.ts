@@ -0,0 +1,240 @@
+/**
+ * EPUB Parsing Service
+ * Reads the text of each spine document and the book's own table of contents
+ * (EPUB 3 navigation document, or the EPUB 2 NCX) straight into BookChapter[]
+ */
+
+import { BookChapter } from '../types';
+import { readZip } from './zipReader';
+import { extractBlocks, TextBlock } from './documentService';
+
+export interface EPUBParseResult {
+  text: string;
+  pageCount: number;          // Estimated printed pages (EPUBs have no fixed pages)
+  structure: BookChapter[];   // From the book's TOC, with each chapter's text as content
+  hasToc: boolean;            // false = one chapter per spine document
+  metadata?: {
+    title?: string;
+    author?: string;
+  };
+}
+
+interface TocEntry {
+  title: string;
+  path?: string;       // Zip path of the target document
+  fragment?: string;   // Element id within it
+  children: TocEntry[];
+}
+
+const WORDS_PER_PAGE = 300;
+const DC_NAMESPACE = 'http://purl.org/dc/elements/1.1/';
+
+/**
+ * Resolve an href against the document it appears in, returning the zip path and fragment
+ */
+function resolveHref(basePath: string, href: string): { path: string; fragment?: string } {
+  const [target, fragment] = href.split('#');
+  let decoded = target;
+  try {
+    decoded = decodeURIComponent(target);
+  } catch {
+    // Not percent-encoded after all
+  }
+
+  const parts = target ? basePath.split('/').slice(0, -1) : basePath.split('/');
+  if (target) {
+    for (const segment of decoded.split('/')) {
+      if (segment === '..') parts.pop();
+      else if (segment && segment !== '.') parts.push(segment);
+    }
+  }
+  return { path: parts.join('/'), fragment: fragment || undefined };
+}
+
+/**
+ * Parse an XHTML or XML file, falling back to the HTML parser for markup that isn't well-formed
+ */
+function parseMarkup(bytes: Uint8Array, type: DOMParserSupportedType): Document {
+  const source = new TextDecoder().decode(bytes);
+  const parser = new DOMParser();
+  const doc = parser.parseFromString(source, type);
+  if (type !== 'text/html' && doc.getElementsByTagName('parsererror').length > 0) {
+    return parser.parseFromString(source, 'text/html');
+  }
+  return doc;
+}
+
+/**
+ * TOC entries of an EPUB 3 navigation document
+ */
+function parseNavDocument(doc: Document, navPath: string): TocEntry[] {
+  const navs = Array.from(doc.getElementsByTagName('nav'));
+  const toc = navs.find(nav => (nav.getAttribute('epub:type') || '').split(/\s+/).includes('toc')) || navs[0];
+  const list = toc && Array.from(toc.children).find(child => child.localName === 'ol');
+  if (!list) return [];
+
+  const readList = (ol: Element): TocEntry[] => Array.from(ol.children)
+    .filter(child => child.localName === 'li')
+    .map(li => {
+      const label = Array.from(li.children).find(child => child.localName === 'a' || child.localName === 'span');
+      const sublist = Array.from(li.children).find(child => child.localName === 'ol');
+      const href = label?.getAttribute('href');
+      return {
+        title: (label?.textContent || '').replace(/\s+/g, ' ').trim(),
+        ...(href ? resolveHref(navPath, href) : {}),
+        children: sublist ? readList(sublist) : [],
+      };
+    });
+
+  return readList(list);
+}
+
+/**
+ * TOC entries of an EPUB 2 NCX file
+ */
+function parseNcx(doc: Document, ncxPath: string): TocEntry[] {
+  const navMap = doc.getElementsByTagNameNS('*', 'navMap')[0];
+  if (!navMap) return [];
+
+  const readPoints = (parent: Element): TocEntry[] => Array.from(parent.children)
+    .filter(child => child.localName === 'navPoint')
+    .map(point => {
+      const label = point.getElementsByTagNameNS('*', 'text')[0];
+      const src = Array.from(point.children).find(child => child.localName === 'content')?.getAttribute('src');
+      return {
+        title: (label?.textContent || '').replace(/\s+/g, ' ').trim(),
+        ...(src ? resolveHref(ncxPath, src) : {}),
+        children: readPoints(point),
+      };
+    });
+
+  return readPoints(navMap);
+}
+
+/**
+ * Extract the text and table of contents of an EPUB file
+ */
+export async function parseEPUB(file: File): Promise<EPUBParseResult> {
+  const files = await readZip(file);
+
+  // The container points at the package document (OPF)
+  const container = files.get('META-INF/container.xml');
+  const rootfile = container && parseMarkup(container, 'application/xml').getElementsByTagNameNS('*', 'rootfile')[0];
+  const opfPath = rootfile?.getAttribute('full-path');
+  const opfBytes = opfPath ? files.get(opfPath) : undefined;
+  if (!opfPath || !opfBytes) {
+    throw new Error('Not an EPUB file (no package document)');
+  }
+  const opf = parseMarkup(opfBytes, 'application/xml');
+
+  const manifest = new Map<string, { path: string; mediaType: string; properties: string[] }>();
+  for (const item of Array.from(opf.getElementsByTagNameNS('*', 'item'))) {
+    const id = item.getAttribute('id');
+    const href = item.getAttribute('href');
+    if (!id || !href) continue;
+    manifest.set(id, {
+      path: resolveHref(opfPath, href).path,
+      mediaType: item.getAttribute('media-type') || '',
+      properties: (item.getAttribute('properties') || '').split(/\s+/),
+    });
+  }
+
+  const spineElement = opf.getElementsByTagNameNS('*', 'spine')[0];
+  const spine = Array.from(opf.getElementsByTagNameNS('*', 'itemref'))
+    .map(ref => manifest.get(ref.getAttribute('idref') || '')?.path)
+    .filter((path): path is string => !!path && files.has(path));
+
+  // Text of every spine document, in reading order
+  const blocks: TextBlock[] = [];
+  const documents = new Map<string, { start: number; end: number; heading: string }>();
+  for (const path of spine) {
+    if (documents.has(path)) continue;
+    const doc = parseMarkup(files.get(path)!, 'application/xhtml+xml');
+    const body = doc.getElementsByTagName('body')[0] || doc.documentElement;
+    const start = blocks.length;
+    blocks.push(...extractBlocks(body));
+    const heading = (body.querySelector('h1, h2, h3')?.textContent || '').replace(/\s+/g, ' ').trim();
+    documents.set(path, { start, end: blocks.length, heading });
+  }
+
+  // The book's own TOC: EPUB 3 navigation document first, then the NCX
+  const items = Array.from(manifest.values());
+  const nav = items.find(item => item.properties.includes('nav') && files.has(item.path));
+  const ncxId = spineElement?.getAttribute('toc');
+  const ncx = (ncxId && manifest.get(ncxId)) || items.find(item => item.mediaType === 'application/x-dtbncx+xml');
+
+  let toc: TocEntry[] = [];
+  if (nav) {
+    toc = parseNavDocument(parseMarkup(files.get(nav.path)!, 'application/xhtml+xml'), nav.path);
+  }
+  if (toc.length === 0 && ncx && files.has(ncx.path)) {
+    toc = parseNcx(parseMarkup(files.get(ncx.path)!, 'application/xml'), ncx.path);
+  }
+
+  const hasToc = toc.length > 0;
+  if (!hasToc) {
+    toc = Array.from(documents.entries()).map(([path, { heading }], i) => ({
+      title: heading || `Section ${i + 1}`,
+      path,
+      children: [],
+    }));
+  }
+
+  // Where each entry starts among all paragraphs
+  const startOf = (entry: TocEntry): number | undefined => {
+    const target = entry.path !== undefined ? documents.get(entry.path) : undefined;
+    if (!target || !entry.fragment) return target?.start;
+    for (let i = target.start; i < target.end; i++) {
+      if (blocks[i].ids.includes(entry.fragment)) return i;
+    }
+    return target.start;
+  };
+
+  // An entry's text runs until the next entry (in TOC order) starts, so a part
+  // heading keeps only the text before its first chapter
+  const flatten = (entries: TocEntry[]): TocEntry[] => entries.flatMap(entry => [entry, ...flatten(entry.children)]);
+  const ordered = flatten(toc).map(entry => ({ entry, start: startOf(entry) }));
+  const contentOf = new Map<TocEntry, string>();
+  ordered.forEach(({ entry, start }, i) => {
+    if (start === undefined) return;
+    const end = ordered.slice(i + 1).find(next => next.start !== undefined && next.start >= start)?.start ?? blocks.length;
+    contentOf.set(entry, blocks.slice(start, end).map(block => block.text).join('\n\n'));
+  });
+
+  const toChapters = (entries: TocEntry[], level: number): BookChapter[] => entries
+    .filter(entry => entry.title || entry.children.length > 0)
+    .map(entry => {
+      const content = contentOf.get(entry);
+      const children = toChapters(entry.children, Math.min(level + 1, 3));
+      return {
+        id: crypto.randomUUID(),
+        title: entry.title || 'Untitled',
+        level,
+        ...(content && { content }),
+        ...(children.length > 0 && { children }),
+      };
+    });
+
+  const text = blocks.map(block => block.text).join('\n\n');
+  const wordCount = text.split(/\s+/).filter(Boolean).length;
+  const title = opf.getElementsByTagNameNS(DC_NAMESPACE, 'title')[0]?.textContent?.trim();
+  const author = opf.getElementsByTagNameNS(DC_NAMESPACE, 'creator')[0]?.textContent?.trim();
+
+  return {
+    text,
+    pageCount: Math.max(1, Math.ceil(wordCount / WORDS_PER_PAGE)),
+    structure: toChapters(toc, 1),
+    hasToc,
+    metadata: { title: title || undefined, author: author || undefined },
+  };
+}
+
+/**
+ * Check if a file is an EPUB
+ */
+export function isEPUBFile(file: File): boolean {
+  return (
+    file.type === 'application/epub+zip' ||
+    file.name.toLowerCase().endsWith('.epub')
+  );
+}
@@ -1,5 +1,5 @@
 
-import { AnalysisResult, GeneratedPractice, SourceType, VocabularyItem, UserProficiency, BookChapter } from "../types";
+import { AnalysisResult, GeneratedPractice, SourceType, VocabularyItem, UserProficiency, BookChapter, DetailedExample } from "../types";
 
 // Get Supabase URL from environment
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
@@ -28,6 +28,10 @@ const callEdgeFunction = async (functionName: string, body: object) => {
   return response.json();
 };
 
+// Vocabulary items get their id here, when they are created; edits keep it
+const withVocabIds = (vocabulary: VocabularyItem[] | undefined): VocabularyItem[] =>
+  (vocabulary || []).map(item => ({ ...item, id: item.id || crypto.randomUUID() }));
+
 // --- Text Analysis (Deep Vocab Focus) ---
 
 export const analyzeText = async (
@@ -46,7 +50,7 @@ export const analyzeText = async (
   });
   
   console.log('Analysis complete!', { vocabCount: result.vocabulary?.length });
-  return result as AnalysisResult;
+  return { ...result, vocabulary: withVocabIds(result.vocabulary) } as AnalysisResult;
 };
 
 // --- Practice Generation ---
@@ -155,7 +159,7 @@ export const extractChapterVocabulary = async (
         firstItem: result.vocabulary?.[0]
       });
       
-      return result.vocabulary as VocabularyItem[];
+      return withVocabIds(result.vocabulary);
     } catch (error) {
       console.error('!!! Phrasal verb extraction FAILED:', error);
       console.warn('Falling back to generic extraction...');
@@ -182,7 +186,7 @@ export const extractChapterVocabulary = async (
     vocabCount: result.vocabulary?.length 
   });
   
-  return result.vocabulary as VocabularyItem[];
+  return withVocabIds(result.vocabulary);
 };
 
 // --- Generate Vocabulary from Manual Terms ---
@@ -202,5 +206,27 @@ export const generateVocabularyFromTerms = async (
     vocabCount: result.vocabulary?.length 
   });
   
-  return result.vocabulary as VocabularyItem[];
+  return withVocabIds(result.vocabulary);
+};
+
+// --- Leech Remediation ---
+
+export type LeechRemediationMode = 'mnemonic' | 'imagery_etymology';
+
+export const generateLeechRemediation = async (
+  term: string,
+  definition: string,
+  mode: LeechRemediationMode,
+  context?: string
+): Promise<{ examples?: DetailedExample[]; imagery_etymology?: string }> => {
+  console.log(`Generating ${mode} remediation for:`, term);
+
+  const result = await callEdgeFunction('remediate-leech', {
+    term,
+    definition,
+    mode,
+    context,
+  });
+
+  return result;
 };
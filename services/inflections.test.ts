@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { getWordForms, getBaseForms, isInflectionOf, parseTerm, getRequiredWords } from './inflections';
+
+describe('getWordForms', () => {
+  it.each<[string, string[]]>([
+    ['pack', ['pack', 'packs', 'packing', 'packed']],
+    ['stop', ['stops', 'stopping', 'stopped']],
+    ['carry', ['carries', 'carrying', 'carried']],
+    ['tie', ['ties', 'tying', 'tied']],
+    ['make', ['makes', 'making', 'made']],
+    ['watch', ['watches', 'watching', 'watched']],
+    ['run', ['runs', 'running', 'ran', 'run']],
+    ['get', ['got', 'gotten', 'getting']],
+    ['go', ['goes', 'went', 'gone']],
+    ['be', ['am', 'is', 'are', 'was', 'were', 'been']],
+  ])('inflects "%s"', (word, forms) => {
+    const generated = getWordForms(word);
+    forms.forEach(form => expect(generated).toContain(form));
+  });
+
+  it.each<[string, string]>([
+    ['ran', 'fit'],
+    ['packs', 'pick'],
+  ])('does not treat "%s" as a form of "%s"', (candidate, base) => {
+    expect(isInflectionOf(candidate, base)).toBe(false);
+  });
+});
+
+describe('getBaseForms', () => {
+  it.each<[string, string]>([
+    ['ran', 'run'],
+    ['stopped', 'stop'],
+    ['carried', 'carry'],
+    ['making', 'make'],
+    ['untying', 'untie'],
+    ['went', 'go'],
+  ])('finds "%s" -> "%s"', (form, base) => {
+    expect(getBaseForms(form)).toContain(base);
+  });
+});
+
+describe('parseTerm', () => {
+  it.each<[string, Array<[string, boolean, boolean]>]>([
+    ['run into', [['run', false, false], ['into', false, false]]],
+    ['fit in (with)', [['fit', false, false], ['in', false, false], ['with', true, false]]],
+    ['look down on sb', [['look', false, false], ['down', false, false], ['on', false, false], ['sb', false, true]]],
+    ['put sth off', [['put', false, false], ['sth', false, true], ['off', false, false]]],
+    ["overstep one's bounds.", [['overstep', false, false], ["one's", false, true], ['bounds', false, false]]],
+  ])('splits "%s"', (term, expected) => {
+    expect(parseTerm(term).map(t => [t.word, t.optional, t.placeholder])).toEqual(expected);
+  });
+
+  it('leaves optional parts and placeholders out of the required words', () => {
+    expect(getRequiredWords('fit in (with) sb')).toEqual(['fit', 'in']);
+  });
+});
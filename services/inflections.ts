@@ -0,0 +1,322 @@
+/**
+ * English Inflections
+ *
+ * Generates the inflected forms of a word (plural / 3rd person, -ing, -ed,
+ * irregular past forms) and splits vocabulary terms like "fit in (with)" or
+ * "look down on sb" into their words, optional particles and placeholders.
+ */
+
+// base -> [past simple, past participle] (variants separated by "/")
+const IRREGULAR_VERBS: Record<string, [string, string]> = {
+  be: ['was/were', 'been'],
+  bear: ['bore', 'borne/born'],
+  beat: ['beat', 'beaten'],
+  become: ['became', 'become'],
+  begin: ['began', 'begun'],
+  bend: ['bent', 'bent'],
+  bite: ['bit', 'bitten'],
+  blow: ['blew', 'blown'],
+  break: ['broke', 'broken'],
+  bring: ['brought', 'brought'],
+  build: ['built', 'built'],
+  burn: ['burnt/burned', 'burnt/burned'],
+  buy: ['bought', 'bought'],
+  catch: ['caught', 'caught'],
+  choose: ['chose', 'chosen'],
+  come: ['came', 'come'],
+  cost: ['cost', 'cost'],
+  cut: ['cut', 'cut'],
+  deal: ['dealt', 'dealt'],
+  dig: ['dug', 'dug'],
+  dive: ['dove/dived', 'dived'],
+  do: ['did', 'done'],
+  draw: ['drew', 'drawn'],
+  dream: ['dreamt/dreamed', 'dreamt/dreamed'],
+  drink: ['drank', 'drunk'],
+  drive: ['drove', 'driven'],
+  eat: ['ate', 'eaten'],
+  fall: ['fell', 'fallen'],
+  feed: ['fed', 'fed'],
+  feel: ['felt', 'felt'],
+  fight: ['fought', 'fought'],
+  find: ['found', 'found'],
+  fly: ['flew', 'flown'],
+  forget: ['forgot', 'forgotten'],
+  forgive: ['forgave', 'forgiven'],
+  freeze: ['froze', 'frozen'],
+  get: ['got', 'got/gotten'],
+  give: ['gave', 'given'],
+  go: ['went', 'gone'],
+  grow: ['grew', 'grown'],
+  hang: ['hung', 'hung'],
+  have: ['had', 'had'],
+  hear: ['heard', 'heard'],
+  hide: ['hid', 'hidden'],
+  hit: ['hit', 'hit'],
+  hold: ['held', 'held'],
+  hurt: ['hurt', 'hurt'],
+  keep: ['kept', 'kept'],
+  know: ['knew', 'known'],
+  lay: ['laid', 'laid'],
+  lead: ['led', 'led'],
+  lean: ['leant/leaned', 'leant/leaned'],
+  leave: ['left', 'left'],
+  lend: ['lent', 'lent'],
+  let: ['let', 'let'],
+  lie: ['lay', 'lain'],
+  light: ['lit', 'lit'],
+  lose: ['lost', 'lost'],
+  make: ['made', 'made'],
+  mean: ['meant', 'meant'],
+  meet: ['met', 'met'],
+  pay: ['paid', 'paid'],
+  put: ['put', 'put'],
+  quit: ['quit', 'quit'],
+  read: ['read', 'read'],
+  ride: ['rode', 'ridden'],
+  ring: ['rang', 'rung'],
+  rise: ['rose', 'risen'],
+  run: ['ran', 'run'],
+  say: ['said', 'said'],
+  see: ['saw', 'seen'],
+  seek: ['sought', 'sought'],
+  sell: ['sold', 'sold'],
+  send: ['sent', 'sent'],
+  set: ['set', 'set'],
+  shake: ['shook', 'shaken'],
+  shine: ['shone', 'shone'],
+  shoot: ['shot', 'shot'],
+  show: ['showed', 'shown'],
+  shut: ['shut', 'shut'],
+  sing: ['sang', 'sung'],
+  sink: ['sank', 'sunk'],
+  sit: ['sat', 'sat'],
+  sleep: ['slept', 'slept'],
+  slide: ['slid', 'slid'],
+  speak: ['spoke', 'spoken'],
+  spend: ['spent', 'spent'],
+  spin: ['spun', 'spun'],
+  split: ['split', 'split'],
+  spread: ['spread', 'spread'],
+  spring: ['sprang', 'sprung'],
+  stand: ['stood', 'stood'],
+  steal: ['stole', 'stolen'],
+  stick: ['stuck', 'stuck'],
+  sting: ['stung', 'stung'],
+  strike: ['struck', 'struck'],
+  swear: ['swore', 'sworn'],
+  sweep: ['swept', 'swept'],
+  swim: ['swam', 'swum'],
+  swing: ['swung', 'swung'],
+  take: ['took', 'taken'],
+  teach: ['taught', 'taught'],
+  tear: ['tore', 'torn'],
+  tell: ['told', 'told'],
+  think: ['thought', 'thought'],
+  throw: ['threw', 'thrown'],
+  understand: ['understood', 'understood'],
+  wake: ['woke', 'woken'],
+  wear: ['wore', 'worn'],
+  win: ['won', 'won'],
+  wind: ['wound', 'wound'],
+  write: ['wrote', 'written'],
+};
+
+// Extra present forms that the regular rules don't produce
+const IRREGULAR_PRESENT: Record<string, string[]> = {
+  be: ['am', 'is', 'are'],
+  have: ['has'],
+  do: ['does'],
+  go: ['goes'],
+};
+
+// Object slots in dictionary-style terms ("ask after sb", "put sth off")
+const PLACEHOLDERS = new Set([
+  'sb', 'sth', 'sb/sth', 'sth/sb', 'someone', 'somebody', 'something',
+  'one', "one's", 'oneself', "someone's", "somebody's",
+]);
+
+const VOWELS = 'aeiou';
+
+const isConsonant = (ch: string | undefined): boolean =>
+  !!ch && /[a-z]/.test(ch) && !VOWELS.includes(ch);
+
+// Words ending consonant-vowel-consonant may double the final consonant
+// (stop -> stopped, overstep -> overstepped; visit -> visited doesn't, but
+// the extra form is harmless since forms are only matched, never shown)
+const shouldDouble = (word: string): boolean => {
+  if (word.length < 3) return false;
+  const [a, b, c] = word.slice(-3);
+  if (!isConsonant(a) || VOWELS.indexOf(b) === -1 || !isConsonant(c)) return false;
+  return !'wxy'.includes(c);
+};
+
+/**
+ * All inflected forms of a single word, including the word itself.
+ * Over-generates on purpose (e.g. both "visited" and "visitted"):
+ * forms are only ever matched against real text, never shown.
+ */
+export function getWordForms(word: string): Set<string> {
+  const base = word.toLowerCase();
+  const forms = new Set<string>([base]);
+  if (!/^[a-z]+$/.test(base)) return forms;
+
+  const last = base[base.length - 1];
+  const beforeLast = base[base.length - 2];
+
+  // Plural / 3rd person singular
+  if (/(s|x|z|ch|sh|o)$/.test(base)) {
+    forms.add(base + 'es');
+  } else if (last === 'y' && isConsonant(beforeLast)) {
+    forms.add(base.slice(0, -1) + 'ies');
+  } else {
+    forms.add(base + 's');
+  }
+
+  // Present participle
+  if (base.endsWith('ie')) {
+    forms.add(base.slice(0, -2) + 'ying');
+  } else if (last === 'e' && !/(ee|ye|oe)$/.test(base)) {
+    forms.add(base.slice(0, -1) + 'ing');
+  } else {
+    forms.add(base + 'ing');
+  }
+
+  // Past tense
+  if (last === 'e') {
+    forms.add(base + 'd');
+  } else if (last === 'y' && isConsonant(beforeLast)) {
+    forms.add(base.slice(0, -1) + 'ied');
+  } else {
+    forms.add(base + 'ed');
+  }
+
+  if (shouldDouble(base)) {
+    forms.add(base + last + 'ing');
+    forms.add(base + last + 'ed');
+  }
+
+  const irregular = IRREGULAR_VERBS[base];
+  if (irregular) {
+    irregular.join('/').split('/').forEach(form => forms.add(form));
+  }
+  IRREGULAR_PRESENT[base]?.forEach(form => forms.add(form));
+
+  return forms;
+}
+
+/**
+ * Check whether `candidate` is the word itself or one of its inflected forms
+ */
+export function isInflectionOf(candidate: string, base: string): boolean {
+  return getWordForms(base).has(candidate.toLowerCase());
+}
+
+// inflected form -> base, for irregular forms that aren't bases themselves ("ran" -> "run")
+const IRREGULAR_BASES: Record<string, string> = (() => {
+  const bases: Record<string, string> = {};
+  const add = (form: string, base: string) => {
+    if (!IRREGULAR_VERBS[form] && !bases[form]) bases[form] = base;
+  };
+  for (const [base, forms] of Object.entries(IRREGULAR_VERBS)) {
+    forms.join('/').split('/').forEach(form => add(form, base));
+  }
+  for (const [base, forms] of Object.entries(IRREGULAR_PRESENT)) {
+    forms.forEach(form => add(form, base));
+  }
+  return bases;
+})();
+
+/**
+ * Words that `word` could be an inflection of, including the word itself.
+ * Like getWordForms this over-generates ("circled" -> circle, circl), so two
+ * words are variants of each other when their base forms overlap.
+ */
+export function getBaseForms(word: string): Set<string> {
+  const form = word.toLowerCase();
+  const bases = new Set<string>([form]);
+  if (!/^[a-z]+$/.test(form)) return bases;
+
+  const irregular = IRREGULAR_BASES[form];
+  if (irregular) bases.add(irregular);
+
+  const candidates: string[] = [];
+  const strip = (suffix: string, replacements: string[]) => {
+    if (!form.endsWith(suffix) || form.length <= suffix.length + 1) return;
+    const stem = form.slice(0, -suffix.length);
+    replacements.forEach(r => candidates.push(stem + r));
+    // Undo consonant doubling (stopped -> stop)
+    if (stem.length > 2 && stem[stem.length - 1] === stem[stem.length - 2]) {
+      candidates.push(stem.slice(0, -1));
+    }
+  };
+  strip('ies', ['y']);
+  strip('ied', ['y']);
+  strip('ying', ['ie', 'y']);
+  strip('ing', ['', 'e']);
+  strip('es', ['', 'e']);
+  strip('ed', ['', 'e']);
+  strip('s', ['']);
+  strip('d', ['']);
+
+  for (const candidate of candidates) {
+    if (getWordForms(candidate).has(form)) bases.add(candidate);
+  }
+  return bases;
+}
+
+export interface TermToken {
+  word: string;
+  optional: boolean;    // "(with)" in "fit in (with)"
+  placeholder: boolean; // "sb" / "sth" / "one's" object slots
+}
+
+/**
+ * Split a vocabulary term into tokens, marking optional particles and placeholders.
+ * "fit in (with)" -> fit, in, (with)?; "look down on sb" -> look, down, on, <sb>
+ */
+export function parseTerm(term: string): TermToken[] {
+  const tokens: TermToken[] = [];
+  const cleaned = term
+    .toLowerCase()
+    .replace(/[’‘]/g, "'")
+    .replace(/[.,!?;:"]+$/g, '')
+    .trim();
+
+  const parts = cleaned.match(/\([^)]*\)|[^\s()]+/g) || [];
+  for (const part of parts) {
+    if (part.startsWith('(')) {
+      part.slice(1, -1).split(/\s+/).filter(Boolean).forEach(word => {
+        tokens.push({ word, optional: true, placeholder: PLACEHOLDERS.has(word) });
+      });
+      continue;
+    }
+    const word = part.replace(/^[^a-z']+|[^a-z'/]+$/g, '');
+    if (!word) continue;
+    tokens.push({ word, optional: false, placeholder: PLACEHOLDERS.has(word) });
+  }
+
+  return tokens;
+}
+
+/**
+ * Check whether a word matches a term token in any inflected form.
+ * Tokens with alternatives ("sb/sth", "make/do") match any of them.
+ */
+export function matchesTermToken(candidate: string, token: TermToken): boolean {
+  const word = candidate.toLowerCase();
+  return token.word.split('/').some(alt => getWordForms(alt).has(word));
+}
+
+/**
+ * Words of a term that must appear in an answer or sentence (no optional parts or placeholders)
+ */
+export function getRequiredWords(term: string): string[] {
+  return parseTerm(term)
+    .filter(t => !t.optional && !t.placeholder)
+    .map(t => t.word);
+}
+
+export function isPlaceholder(word: string): boolean {
+  return PLACEHOLDERS.has(word.toLowerCase());
+}
@@ -0,0 +1,203 @@
+/**
+ * Local Store
+ *
+ * IndexedDB database that keeps a copy of the user's data on the device, so the
+ * app keeps working offline. Analyses and folders are the app's own copy (they
+ * work without an account); the other stores cache the signed-in user's cloud
+ * data and are cleared when a different account signs in.
+ *
+ * Falls back to in-memory storage where IndexedDB is unavailable.
+ */
+
+const DB_NAME = 'nativenuance';
+const DB_VERSION = 2;
+
+export type StoreName =
+  | 'analyses'            // SavedAnalysis, by id
+  | 'folders'             // AnalysisFolder, by id
+  | 'reviews'             // VocabularyReview, by id
+  | 'review_log'          // ReviewLogEntry answered on this device, by id
+  | 'books'               // SavedBook, by id
+  | 'chapter_vocabulary'  // { id: "<book id>:<chapter id>", vocabulary }
+  | 'visits'              // { id, visitedAt }
+  | 'meta'                // { key, value }: account, SRS settings, ...
+  | 'sync_base'           // { key: "<table>:<id>", updatedAt, fields }: last version synced with the cloud
+  | 'mutations';          // queued cloud writes (see syncEngine), by auto-incremented seq
+
+const STORE_KEYS: Record<StoreName, { keyPath: string; autoIncrement?: boolean }> = {
+  analyses: { keyPath: 'id' },
+  folders: { keyPath: 'id' },
+  reviews: { keyPath: 'id' },
+  review_log: { keyPath: 'id' },
+  books: { keyPath: 'id' },
+  chapter_vocabulary: { keyPath: 'id' },
+  visits: { keyPath: 'id' },
+  meta: { keyPath: 'key' },
+  sync_base: { keyPath: 'key' },
+  mutations: { keyPath: 'seq', autoIncrement: true },
+};
+
+// Stores holding one account's cloud data (queued mutations carry their own user id)
+const ACCOUNT_STORES: StoreName[] = ['reviews', 'review_log', 'books', 'chapter_vocabulary', 'visits', 'meta', 'sync_base'];
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        (Object.keys(STORE_KEYS) as StoreName[]).forEach(name => {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, STORE_KEYS[name]);
+          }
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, keeping data in memory only:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// In-memory fallback (private browsing, tests)
+const memory = new Map<StoreName, Map<IDBValidKey, unknown>>();
+let memorySeq = 0;
+const memoryStore = (name: StoreName) => {
+  if (!memory.has(name)) memory.set(name, new Map());
+  return memory.get(name)!;
+};
+const memoryKey = (name: StoreName, value: Record<string, unknown>): IDBValidKey => {
+  const { keyPath, autoIncrement } = STORE_KEYS[name];
+  if (autoIncrement && value[keyPath] === undefined) value[keyPath] = ++memorySeq;
+  return value[keyPath] as IDBValidKey;
+};
+
+export const localStore = {
+  /**
+   * All records of a store
+   */
+  async getAll<T>(name: StoreName): Promise<T[]> {
+    const db = await openDb();
+    if (!db) return [...memoryStore(name).values()] as T[];
+
+    return requestToPromise(db.transaction(name).objectStore(name).getAll()) as Promise<T[]>;
+  },
+
+  /**
+   * One record by key (undefined when missing)
+   */
+  async get<T>(name: StoreName, key: IDBValidKey): Promise<T | undefined> {
+    const db = await openDb();
+    if (!db) return memoryStore(name).get(key) as T | undefined;
+
+    return requestToPromise(db.transaction(name).objectStore(name).get(key)) as Promise<T | undefined>;
+  },
+
+  /**
+   * Insert or replace records
+   */
+  async putAll<T>(name: StoreName, values: T[]): Promise<void> {
+    if (values.length === 0) return;
+    const db = await openDb();
+    if (!db) {
+      values.forEach(value => memoryStore(name).set(memoryKey(name, value as Record<string, unknown>), value));
+      return;
+    }
+
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    values.forEach(value => store.put(value));
+    await transactionDone(tx);
+  },
+
+  async put<T>(name: StoreName, value: T): Promise<void> {
+    return this.putAll(name, [value]);
+  },
+
+  /**
+   * Replace the whole contents of a store in one transaction
+   */
+  async replaceAll<T>(name: StoreName, values: T[]): Promise<void> {
+    const db = await openDb();
+    if (!db) {
+      memoryStore(name).clear();
+      values.forEach(value => memoryStore(name).set(memoryKey(name, value as Record<string, unknown>), value));
+      return;
+    }
+
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    store.clear();
+    values.forEach(value => store.put(value));
+    await transactionDone(tx);
+  },
+
+  /**
+   * Delete records by key
+   */
+  async removeAll(name: StoreName, keys: IDBValidKey[]): Promise<void> {
+    if (keys.length === 0) return;
+    const db = await openDb();
+    if (!db) {
+      keys.forEach(key => memoryStore(name).delete(key));
+      return;
+    }
+
+    const tx = db.transaction(name, 'readwrite');
+    const store = tx.objectStore(name);
+    keys.forEach(key => store.delete(key));
+    await transactionDone(tx);
+  },
+
+  async remove(name: StoreName, key: IDBValidKey): Promise<void> {
+    return this.removeAll(name, [key]);
+  },
+
+  /**
+   * Small named values (settings, bookkeeping)
+   */
+  async getMeta<T>(key: string): Promise<T | undefined> {
+    const row = await localStore.get<{ key: string; value: T }>('meta', key);
+    return row?.value;
+  },
+
+  async setMeta<T>(key: string, value: T): Promise<void> {
+    return this.put('meta', { key, value });
+  },
+
+  /**
+   * Make sure the cached cloud data belongs to this account; a different
+   * account's cache is dropped.
+   */
+  async useAccount(userId: string): Promise<void> {
+    const current = await localStore.getMeta<string>('userId');
+    if (current === userId) return;
+
+    if (current !== undefined) {
+      await Promise.all(ACCOUNT_STORES.map(name => this.replaceAll(name, [])));
+    }
+    await this.setMeta('userId', userId);
+  },
+};
@@ -94,6 +94,7 @@ export function extractPhrasalVerbsFromText(text: string): VocabularyItem[] {
           console.log(`  ✓ MATCH: "${term}" - "${definition}"`);
           
           results.push({
+            id: crypto.randomUUID(),
             term,
             definition,
             category: 'phrasal_verbs',
@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { mergeFields, sameValue, FieldMerge, FieldValues } from './recordMerge';
+
+describe('mergeFields', () => {
+  it.each<[string, FieldValues, FieldValues, FieldValues | undefined, FieldMerge]>([
+    [
+      'nothing changed',
+      { title: 'A' }, { title: 'A' }, { title: 'A' },
+      { values: { title: 'A' }, push: {}, base: { title: 'A' }, conflicts: [] },
+    ],
+    [
+      'changed on this device only',
+      { title: 'Mine' }, { title: 'A' }, { title: 'A' },
+      { values: { title: 'Mine' }, push: { title: 'Mine' }, base: { title: 'A' }, conflicts: [] },
+    ],
+    [
+      'changed on the other device only',
+      { title: 'A' }, { title: 'Theirs' }, { title: 'A' },
+      { values: { title: 'Theirs' }, push: {}, base: { title: 'Theirs' }, conflicts: [] },
+    ],
+    [
+      'changed on both sides to the same value',
+      { title: 'B' }, { title: 'B' }, { title: 'A' },
+      { values: { title: 'B' }, push: {}, base: { title: 'B' }, conflicts: [] },
+    ],
+    [
+      'changed on both sides to different values',
+      { title: 'Mine' }, { title: 'Theirs' }, { title: 'A' },
+      { values: { title: 'Mine' }, push: {}, base: { title: 'A' }, conflicts: ['title'] },
+    ],
+    [
+      'no base: the cloud wins',
+      { title: 'Mine' }, { title: 'Theirs' }, undefined,
+      { values: { title: 'Theirs' }, push: {}, base: { title: 'Theirs' }, conflicts: [] },
+    ],
+    [
+      'field missing from the base: the cloud wins',
+      { title: 'A', color: 'red' }, { title: 'A', color: 'blue' }, { title: 'A' },
+      { values: { title: 'A', color: 'blue' }, push: {}, base: { title: 'A', color: 'blue' }, conflicts: [] },
+    ],
+    [
+      'one field each side',
+      { title: 'Mine', color: 'red' }, { title: 'A', color: 'blue' }, { title: 'A', color: 'red' },
+      { values: { title: 'Mine', color: 'blue' }, push: { title: 'Mine' }, base: { title: 'A', color: 'blue' }, conflicts: [] },
+    ],
+  ])('%s', (_, local, remote, base, expected) => {
+    expect(mergeFields(local, remote, base)).toEqual(expected);
+  });
+
+  it('treats jsonb objects with another key order as unchanged', () => {
+    const local = { notes: [{ id: 'n1', text: 'Hi', createdAt: 1 }] };
+    const remote = { notes: [{ createdAt: 1, id: 'n1', text: 'Hi' }] };
+    const merge = mergeFields(local, remote, local);
+    expect(merge.conflicts).toEqual([]);
+    expect(merge.push).toEqual({});
+  });
+
+  it('pushes a change when the cloud only reordered keys', () => {
+    const base = { notes: [{ id: 'n1', text: 'Hi' }] };
+    const local = { notes: [{ id: 'n1', text: 'Hello' }] };
+    const remote = { notes: [{ text: 'Hi', id: 'n1' }] };
+    expect(mergeFields(local, remote, base)).toEqual({
+      values: local,
+      push: local,
+      base,
+      conflicts: [],
+    });
+  });
+});
+
+describe('sameValue', () => {
+  it.each<[unknown, unknown, boolean]>([
+    [{ a: 1, b: 2 }, { b: 2, a: 1 }, true],
+    [{ a: 1, b: undefined }, { a: 1 }, true],
+    [null, undefined, true],
+    [[1, 2], [2, 1], false],
+    [{ a: 1 }, { a: '1' }, false],
+  ])('%j and %j: %s', (a, b, same) => {
+    expect(sameValue(a, b)).toBe(same);
+  });
+});
@@ -0,0 +1,69 @@
+/**
+ * Record Merge
+ *
+ * Three-way, field-by-field merge of a record edited on several devices. Each
+ * device remembers the field values it last agreed on with the cloud (the
+ * base); a field changed on only one side takes that side's value, and a field
+ * changed on both sides to different values is a conflict.
+ */
+
+export type FieldValues = Record<string, unknown>;
+
+export interface FieldMerge<F extends string = string> {
+  values: FieldValues;  // merged values; conflicting fields keep this device's value
+  push: FieldValues;    // changes only this device has, still to be written to the cloud
+  base: FieldValues;    // what both sides now agree on (conflicting and unpushed fields keep the old base)
+  conflicts: F[];       // fields changed on both sides
+}
+
+// JSON with sorted keys: jsonb hands objects back with its own key order
+const stableStringify = (value: unknown): string => {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value as FieldValues)
+      .filter(key => (value as FieldValues)[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${stableStringify((value as FieldValues)[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+export const sameValue = (a: unknown, b: unknown): boolean => stableStringify(a) === stableStringify(b);
+
+/**
+ * Merge this device's field values with the cloud's. Without a base (the record
+ * was never synced from this device) the cloud's values win, as before.
+ */
+export const mergeFields = <F extends string>(
+  local: Record<F, unknown>,
+  remote: Record<F, unknown>,
+  base?: FieldValues
+): FieldMerge<F> => {
+  const merge: FieldMerge<F> = { values: {}, push: {}, base: {}, conflicts: [] };
+
+  for (const field of Object.keys(remote) as F[]) {
+    const mine = local[field];
+    const theirs = remote[field];
+
+    if (sameValue(mine, theirs) || !base || !(field in base)) {
+      merge.values[field] = theirs;
+      merge.base[field] = theirs;
+    } else if (sameValue(mine, base[field])) {
+      // Only the other device changed it
+      merge.values[field] = theirs;
+      merge.base[field] = theirs;
+    } else if (sameValue(theirs, base[field])) {
+      // Only this device changed it
+      merge.values[field] = mine;
+      merge.push[field] = mine;
+      merge.base[field] = base[field];
+    } else {
+      merge.values[field] = mine;
+      merge.base[field] = base[field];
+      merge.conflicts.push(field);
+    }
+  }
+
+  return merge;
+};
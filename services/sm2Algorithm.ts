@@ -11,14 +11,48 @@
  * 3 - Correct response with serious difficulty
  * 4 - Correct response after hesitation
  * 5 - Perfect response with no hesitation
+ *
+ * An FSRS (Free Spaced Repetition Scheduler) model lives alongside SM-2.
+ * Both implement the `Scheduler` interface so callers can switch per user.
+ * https://github.com/open-spaced-repetition/fsrs4anki/wiki/The-Algorithm
  */
 
-import { ReviewQuality, SimpleQuality, VocabularyReview } from '../types';
+import { CardState, DEFAULT_SRS_SETTINGS, ReviewQuality, SchedulerType, SimpleQuality, SrsSettings, VocabularyReview } from '../types';
 
 // Constants
 const MIN_EASE_FACTOR = 1.3;
 const DEFAULT_EASE_FACTOR = 2.5;
-const MASTERY_INTERVAL_THRESHOLD = 21; // Days - word is "mastered" after this interval
+export const MASTERY_INTERVAL_THRESHOLD = 21; // Days - word is "mastered" after this interval
+
+/**
+ * Card state a scheduler needs to compute the next review
+ */
+export type SchedulingState = Pick<VocabularyReview, 'easeFactor' | 'interval' | 'repetitions'> &
+  Partial<Pick<VocabularyReview, 'stability' | 'difficulty' | 'lastReviewDate' | 'cardState' | 'learningStep'>>;
+
+/**
+ * Card state after a review has been scheduled
+ */
+export interface SchedulingResult {
+  easeFactor: number;
+  interval: number;
+  repetitions: number;
+  nextReviewDate: Date;
+  isMastered: boolean;
+  stability?: number;
+  difficulty?: number;
+  cardState?: CardState;
+  learningStep?: number;
+}
+
+/**
+ * Common interface for scheduling models
+ */
+export interface Scheduler {
+  type: SchedulerType;
+  label: string;
+  schedule(state: SchedulingState, quality: ReviewQuality, now?: Date): SchedulingResult;
+}
 
 /**
  * Maps simple UI quality to SM-2 quality rating
@@ -72,8 +106,7 @@ export function calculateNextInterval(
 /**
  * Calculate the next review date
  */
-export function calculateNextReviewDate(intervalDays: number): Date {
-  const now = new Date();
+export function calculateNextReviewDate(intervalDays: number, now: Date = new Date()): Date {
   const nextDate = new Date(now);
   nextDate.setDate(nextDate.getDate() + intervalDays);
   // Set to start of day for consistent comparison
@@ -86,14 +119,9 @@ export function calculateNextReviewDate(intervalDays: number): Date {
  */
 export function calculateNextReview(
   currentReview: Pick<VocabularyReview, 'easeFactor' | 'interval' | 'repetitions'>,
-  quality: ReviewQuality
-): {
-  easeFactor: number;
-  interval: number;
-  repetitions: number;
-  nextReviewDate: Date;
-  isMastered: boolean;
-} {
+  quality: ReviewQuality,
+  now: Date = new Date()
+): SchedulingResult {
   let newRepetitions: number;
   let newInterval: number;
   let newEaseFactor: number;
@@ -116,7 +144,7 @@ export function calculateNextReview(
     );
   }
 
-  const nextReviewDate = calculateNextReviewDate(newInterval);
+  const nextReviewDate = calculateNextReviewDate(newInterval, now);
   const isMastered = newInterval >= MASTERY_INTERVAL_THRESHOLD;
 
   return {
@@ -128,6 +156,378 @@ export function calculateNextReview(
   };
 }
 
+export const sm2Scheduler: Scheduler = {
+  type: 'sm2',
+  label: 'SM-2',
+  // SM-2 does not track FSRS state, so stability/difficulty are left unset and
+  // re-derived from ease factor and interval if the user switches to FSRS later
+  schedule: (state, quality, now) => calculateNextReview(state, quality, now),
+};
+
+// ==================== FSRS ====================
+
+// Default FSRS-4.5 model weights
+const FSRS_WEIGHTS = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031, 1.6474,
+  0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+const FSRS_DECAY = -0.5;
+const FSRS_FACTOR = 19 / 81; // Makes retrievability 90% when elapsed days == stability
+const FSRS_REQUEST_RETENTION = 0.9;
+const FSRS_MAX_INTERVAL = 36500;
+const MIN_DIFFICULTY = 1;
+const MAX_DIFFICULTY = 10;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// FSRS ratings: 1 = again, 2 = hard, 3 = good, 4 = easy
+type FsrsRating = 1 | 2 | 3 | 4;
+
+const clampDifficulty = (d: number): number =>
+  Math.min(MAX_DIFFICULTY, Math.max(MIN_DIFFICULTY, d));
+
+/**
+ * Maps SM-2 quality rating to an FSRS rating
+ */
+export function sm2QualityToFsrsRating(quality: ReviewQuality): FsrsRating {
+  if (quality < 3) return 1;
+  if (quality === 3) return 2;
+  if (quality === 4) return 3;
+  return 4;
+}
+
+/**
+ * Probability of recalling a card after `elapsedDays` given its stability
+ */
+export function fsrsRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FSRS_FACTOR * elapsedDays / stability, FSRS_DECAY);
+}
+
+/**
+ * Interval (days) at which retrievability falls to the requested retention
+ */
+export function fsrsNextInterval(stability: number, requestRetention: number = FSRS_REQUEST_RETENTION): number {
+  const interval = stability / FSRS_FACTOR * (Math.pow(requestRetention, 1 / FSRS_DECAY) - 1);
+  return Math.min(FSRS_MAX_INTERVAL, Math.max(1, Math.round(interval)));
+}
+
+const fsrsInitialStability = (rating: FsrsRating): number =>
+  Math.max(0.1, FSRS_WEIGHTS[rating - 1]);
+
+const fsrsInitialDifficulty = (rating: FsrsRating): number =>
+  clampDifficulty(FSRS_WEIGHTS[4] - (rating - 3) * FSRS_WEIGHTS[5]);
+
+const fsrsNextDifficulty = (difficulty: number, rating: FsrsRating): number => {
+  const next = difficulty - FSRS_WEIGHTS[6] * (rating - 3);
+  // Mean reversion towards the initial "good" difficulty
+  const reverted = FSRS_WEIGHTS[7] * fsrsInitialDifficulty(3) + (1 - FSRS_WEIGHTS[7]) * next;
+  return clampDifficulty(reverted);
+};
+
+const fsrsRecallStability = (
+  difficulty: number,
+  stability: number,
+  retrievability: number,
+  rating: FsrsRating
+): number => {
+  const hardPenalty = rating === 2 ? FSRS_WEIGHTS[15] : 1;
+  const easyBonus = rating === 4 ? FSRS_WEIGHTS[16] : 1;
+  return stability * (
+    Math.exp(FSRS_WEIGHTS[8]) *
+    (11 - difficulty) *
+    Math.pow(stability, -FSRS_WEIGHTS[9]) *
+    (Math.exp(FSRS_WEIGHTS[10] * (1 - retrievability)) - 1) *
+    hardPenalty *
+    easyBonus +
+    1
+  );
+};
+
+const fsrsForgetStability = (difficulty: number, stability: number, retrievability: number): number => {
+  const next = FSRS_WEIGHTS[11] *
+    Math.pow(difficulty, -FSRS_WEIGHTS[12]) *
+    (Math.pow(stability + 1, FSRS_WEIGHTS[13]) - 1) *
+    Math.exp(FSRS_WEIGHTS[14] * (1 - retrievability));
+  // A lapse should never make the memory more stable than it was
+  return Math.min(next, stability);
+};
+
+/**
+ * Convert SM-2 ease factor (1.3 - ~3.0) to FSRS difficulty (10 - 1)
+ */
+export function easeFactorToDifficulty(easeFactor: number): number {
+  return clampDifficulty(MAX_DIFFICULTY - (easeFactor - MIN_EASE_FACTOR) * 9 / 1.7);
+}
+
+/**
+ * Convert FSRS difficulty back to an SM-2 ease factor
+ */
+export function difficultyToEaseFactor(difficulty: number): number {
+  return Math.max(MIN_EASE_FACTOR, MIN_EASE_FACTOR + (MAX_DIFFICULTY - difficulty) * 1.7 / 9);
+}
+
+/**
+ * Derive FSRS state from an SM-2 card so existing review history carries over.
+ * Returns undefined values for cards that have never been reviewed.
+ */
+export function sm2StateToFsrs(
+  state: Pick<VocabularyReview, 'easeFactor' | 'interval' | 'repetitions'> & { lastReviewDate?: Date }
+): { stability?: number; difficulty?: number } {
+  if (state.repetitions === 0 && !state.lastReviewDate) {
+    return { stability: undefined, difficulty: undefined };
+  }
+  return {
+    stability: Math.max(0.1, state.interval),
+    difficulty: easeFactorToDifficulty(state.easeFactor),
+  };
+}
+
+/**
+ * Calculate all FSRS parameters after a review
+ */
+export function calculateNextReviewFSRS(
+  currentReview: SchedulingState,
+  quality: ReviewQuality,
+  now: Date = new Date()
+): SchedulingResult {
+  const rating = sm2QualityToFsrsRating(quality);
+
+  // Fall back to SM-2 derived state for cards that were scheduled by SM-2
+  const derived = currentReview.stability === undefined || currentReview.difficulty === undefined
+    ? sm2StateToFsrs(currentReview)
+    : { stability: currentReview.stability, difficulty: currentReview.difficulty };
+
+  let stability: number;
+  let difficulty: number;
+
+  if (derived.stability === undefined || derived.difficulty === undefined) {
+    // First review of a new card
+    stability = fsrsInitialStability(rating);
+    difficulty = fsrsInitialDifficulty(rating);
+  } else {
+    const elapsedDays = currentReview.lastReviewDate
+      ? Math.max(0, (now.getTime() - new Date(currentReview.lastReviewDate).getTime()) / MS_PER_DAY)
+      : 0;
+    const retrievability = fsrsRetrievability(elapsedDays, derived.stability);
+    difficulty = fsrsNextDifficulty(derived.difficulty, rating);
+    stability = rating === 1
+      ? fsrsForgetStability(derived.difficulty, derived.stability, retrievability)
+      : fsrsRecallStability(derived.difficulty, derived.stability, retrievability, rating);
+  }
+
+  const interval = fsrsNextInterval(stability);
+
+  return {
+    easeFactor: difficultyToEaseFactor(difficulty),
+    interval,
+    // Keep repetitions consistent with SM-2 so due/new queries behave the same
+    repetitions: rating === 1 ? 0 : currentReview.repetitions + 1,
+    nextReviewDate: calculateNextReviewDate(interval, now),
+    isMastered: interval >= MASTERY_INTERVAL_THRESHOLD,
+    stability,
+    difficulty,
+  };
+}
+
+export const fsrsScheduler: Scheduler = {
+  type: 'fsrs',
+  label: 'FSRS',
+  schedule: (state, quality, now) => calculateNextReviewFSRS(state, quality, now),
+};
+
+const SCHEDULERS: Record<SchedulerType, Scheduler> = {
+  sm2: sm2Scheduler,
+  fsrs: fsrsScheduler,
+};
+
+/**
+ * Look up the scheduler implementation for a user's setting
+ */
+export function getScheduler(type: SchedulerType = 'sm2'): Scheduler {
+  return SCHEDULERS[type] ?? sm2Scheduler;
+}
+
+// ==================== LEARNING STEPS ====================
+
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Resolve a card's lifecycle state (older rows may not have one stored)
+ */
+export function getCardState(card: SchedulingState): CardState {
+  if (card.cardState) return card.cardState;
+  return card.repetitions === 0 && !card.lastReviewDate ? 'new' : 'review';
+}
+
+/**
+ * Which step comes after an answer, or 'graduate' when the card leaves its steps
+ * again -> back to first step, hard -> repeat step, good -> next step, easy -> graduate
+ */
+function nextStep(step: number, quality: ReviewQuality, steps: number[]): number | 'graduate' {
+  if (quality < 3) return 0;
+  if (quality === 3) return Math.min(step, steps.length - 1);
+  if (quality === 5) return 'graduate';
+  return step + 1 < steps.length ? step + 1 : 'graduate';
+}
+
+/**
+ * Schedule a card through the user's scheduler plus intra-day (re)learning steps.
+ * New cards go through learning steps before the scheduler takes over; review cards
+ * that lapse go through relearning steps before returning to their (reset) interval.
+ */
+export function scheduleReview(
+  card: SchedulingState,
+  quality: ReviewQuality,
+  settings: Pick<SrsSettings, 'scheduler' | 'learningSteps' | 'relearningSteps'> = DEFAULT_SRS_SETTINGS,
+  now: Date = new Date()
+): SchedulingResult {
+  const scheduler = getScheduler(settings.scheduler);
+  const state = getCardState(card);
+
+  const stayInSteps = (cardState: CardState, step: number, steps: number[]): SchedulingResult => ({
+    easeFactor: card.easeFactor,
+    interval: card.interval,
+    repetitions: card.repetitions,
+    nextReviewDate: new Date(now.getTime() + steps[step] * MS_PER_MINUTE),
+    isMastered: false,
+    stability: card.stability,
+    difficulty: card.difficulty,
+    cardState,
+    learningStep: step,
+  });
+
+  if (state === 'new' || state === 'learning') {
+    const steps = settings.learningSteps;
+    const step = nextStep(card.learningStep ?? 0, quality, steps);
+    if (steps.length > 0 && step !== 'graduate') {
+      return stayInSteps('learning', step, steps);
+    }
+    // Graduating: the scheduler sees the card as brand new
+    const result = scheduler.schedule({ ...card, lastReviewDate: undefined }, quality, now);
+    return { ...result, cardState: 'review', learningStep: undefined };
+  }
+
+  if (state === 'relearning') {
+    const steps = settings.relearningSteps;
+    const step = nextStep(card.learningStep ?? 0, quality, steps);
+    if (steps.length > 0 && step !== 'graduate') {
+      return stayInSteps('relearning', step, steps);
+    }
+    // The lapse already reset the interval, so just return to it
+    const interval = Math.max(1, card.interval);
+    return {
+      easeFactor: card.easeFactor,
+      interval,
+      repetitions: Math.max(1, card.repetitions),
+      nextReviewDate: calculateNextReviewDate(interval, now),
+      isMastered: interval >= MASTERY_INTERVAL_THRESHOLD,
+      stability: card.stability,
+      difficulty: card.difficulty,
+      cardState: 'review',
+      learningStep: undefined,
+    };
+  }
+
+  const result = scheduler.schedule(card, quality, now);
+  if (quality < 3 && settings.relearningSteps.length > 0) {
+    // Lapse: keep the scheduler's reset interval but relearn the card today first
+    return {
+      ...stayInSteps('relearning', 0, settings.relearningSteps),
+      easeFactor: result.easeFactor,
+      interval: result.interval,
+      repetitions: result.repetitions,
+      stability: result.stability,
+      difficulty: result.difficulty,
+    };
+  }
+  return { ...result, cardState: 'review', learningStep: undefined };
+}
+
+/**
+ * Check if a card is still inside its (re)learning steps
+ */
+export function isInLearningSteps(card: Pick<VocabularyReview, 'cardState'>): boolean {
+  return card.cardState === 'learning' || card.cardState === 'relearning';
+}
+
+/**
+ * Get human-readable description of a learning step delay
+ */
+export function getStepDescription(minutes: number): string {
+  if (minutes < 60) return `${Math.round(minutes)} min`;
+  if (minutes < 24 * 60) {
+    const hours = Math.round(minutes / 60);
+    return hours === 1 ? '1 hour' : `${hours} hours`;
+  }
+  return getIntervalDescription(Math.round(minutes / (24 * 60)));
+}
+
+// ==================== FUZZ & LOAD BALANCING ====================
+
+// Intervals shorter than this are never fuzzed (1-2 day cards need to stay precise)
+const FUZZ_MIN_INTERVAL = 3;
+
+/**
+ * Range of days a review interval may be moved to (Anki-style fuzz)
+ * 3-7 days: ±15%, 7-20 days: ±10%, 20+ days: ±5% (always at least ±1 day)
+ */
+export function getFuzzRange(interval: number): { min: number; max: number } {
+  if (interval < FUZZ_MIN_INTERVAL) return { min: interval, max: interval };
+  const factor = interval < 7 ? 0.15 : interval < 20 ? 0.1 : 0.05;
+  const delta = Math.max(1, Math.round(interval * factor));
+  return { min: Math.max(2, interval - delta), max: interval + delta };
+}
+
+/**
+ * Pick an interval inside the fuzz range, preferring days with fewer cards already due.
+ * `dueCounts` maps day offsets (days from today) to the number of cards scheduled that day.
+ * The choice is weighted-random so cards scheduled together still spread out.
+ */
+export function pickLoadBalancedInterval(
+  interval: number,
+  dueCounts: Map<number, number>,
+  random: () => number = Math.random
+): number {
+  const { min, max } = getFuzzRange(interval);
+  if (min === max) return interval;
+
+  const candidates: { day: number; weight: number }[] = [];
+  for (let day = min; day <= max; day++) {
+    const load = dueCounts.get(day) ?? 0;
+    // Quieter days and days closer to the ideal interval are more likely
+    const weight = 1 / Math.pow(load + 1, 2) / (1 + Math.abs(day - interval));
+    candidates.push({ day, weight });
+  }
+
+  const total = candidates.reduce((sum, c) => sum + c.weight, 0);
+  let roll = random() * total;
+  for (const candidate of candidates) {
+    roll -= candidate.weight;
+    if (roll <= 0) return candidate.day;
+  }
+  return interval;
+}
+
+/**
+ * Apply fuzz and load balancing to a scheduled review.
+ * Cards still in (re)learning steps are left untouched.
+ */
+export function applyLoadBalancing(
+  result: SchedulingResult,
+  dueCounts: Map<number, number>,
+  now: Date = new Date(),
+  random: () => number = Math.random
+): SchedulingResult {
+  if (result.cardState === 'learning' || result.cardState === 'relearning') return result;
+  const interval = pickLoadBalancedInterval(result.interval, dueCounts, random);
+  if (interval === result.interval) return result;
+  return {
+    ...result,
+    interval,
+    nextReviewDate: calculateNextReviewDate(interval, now),
+    isMastered: interval >= MASTERY_INTERVAL_THRESHOLD,
+  };
+}
+
 /**
  * Create a new review record with default SM-2 values
  */
@@ -153,6 +553,7 @@ export function createNewReview(
     repetitions: 0,
     nextReviewDate: now, // Due immediately (new card)
     lastReviewDate: undefined,
+    cardState: 'new',
     isSuspended: false,
     isMastered: false,
     correctCount: 0,
@@ -182,7 +583,7 @@ export function isDueForReview(review: VocabularyReview): boolean {
  * Check if a review is a new card (never reviewed)
  */
 export function isNewCard(review: VocabularyReview): boolean {
-  return review.repetitions === 0 && !review.lastReviewDate;
+  return getCardState(review) === 'new';
 }
 
 /**
@@ -239,15 +640,19 @@ export function getIntervalDescription(intervalDays: number): string {
  * Preview what intervals would result from each quality choice
  */
 export function previewIntervals(
-  currentReview: Pick<VocabularyReview, 'easeFactor' | 'interval' | 'repetitions'>
+  currentReview: SchedulingState,
+  settings: Pick<SrsSettings, 'scheduler' | 'learningSteps' | 'relearningSteps'> = DEFAULT_SRS_SETTINGS
 ): Record<SimpleQuality, string> {
   const qualities: SimpleQuality[] = ['again', 'hard', 'good', 'easy'];
   const result: Record<SimpleQuality, string> = {} as Record<SimpleQuality, string>;
+  const now = new Date();
 
   for (const simple of qualities) {
     const sm2Quality = simpleToSM2Quality(simple);
-    const { interval } = calculateNextReview(currentReview, sm2Quality);
-    result[simple] = getIntervalDescription(interval);
+    const next = scheduleReview(currentReview, sm2Quality, settings, now);
+    result[simple] = next.cardState === 'learning' || next.cardState === 'relearning'
+      ? getStepDescription((next.nextReviewDate.getTime() - now.getTime()) / MS_PER_MINUTE)
+      : getIntervalDescription(next.interval);
   }
 
   return result;
@@ -0,0 +1,196 @@
+/**
+ * SQLite Reader
+ *
+ * Reads whole tables out of a SQLite 3 database file held in memory, the
+ * counterpart of sqliteWriter: walks table B-trees, follows overflow pages and
+ * decodes records. There is no SQL here; callers filter rows themselves.
+ */
+
+import type { SqlValue } from './sqliteWriter';
+
+export type SqlRow = Record<string, SqlValue>;
+
+export interface SqliteDatabase {
+  tableNames: string[];
+  readTable: (name: string) => SqlRow[];  // [] for a table that doesn't exist
+}
+
+const LEAF_TABLE = 0x0d;
+const INTERIOR_TABLE = 0x05;
+
+// Bytes of the integer serial types 1-6
+const INT_SIZES = [1, 2, 3, 4, 6, 8];
+
+// Returns the value and the position after it
+const readVarint = (data: Uint8Array, offset: number): [number, number] => {
+  let value = 0;
+  for (let i = 0; i < 8; i++) {
+    const byte = data[offset + i];
+    value = value * 128 + (byte & 0x7f);
+    if (byte < 0x80) return [value, offset + i + 1];
+  }
+  return [value * 256 + data[offset + 8], offset + 9];
+};
+
+// Two's complement, big-endian
+const readInt = (data: Uint8Array, offset: number, size: number): number => {
+  let value = 0n;
+  for (let i = 0; i < size; i++) value = (value << 8n) | BigInt(data[offset + i]);
+  return Number(BigInt.asIntN(size * 8, value));
+};
+
+// Column names of a CREATE TABLE statement, and which one is the rowid
+const tableColumns = (sql: string): { names: string[]; rowidColumn: number } => {
+  const clean = sql.replace(/\/\*[\s\S]*?\*\//g, '').replace(/--[^\n]*/g, '');
+  const body = clean.slice(clean.indexOf('(') + 1, clean.lastIndexOf(')'));
+
+  // Column definitions are separated by commas outside parentheses
+  const definitions: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of body) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    if (char === ',' && depth === 0) {
+      definitions.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  definitions.push(current);
+
+  const names: string[] = [];
+  let rowidColumn = -1;
+  for (const definition of definitions.map(d => d.trim()).filter(Boolean)) {
+    if (/^(constraint|primary|unique|check|foreign)\b/i.test(definition)) continue;
+    const name = definition.split(/\s+/)[0].replace(/^["`[]|["`\]]$/g, '');
+    if (/^\S+\s+integer\s+primary\s+key/i.test(definition)) rowidColumn = names.length;
+    names.push(name);
+  }
+  return { names, rowidColumn };
+};
+
+/**
+ * Open a database file. Throws when the bytes aren't a SQLite database.
+ */
+export const openDatabase = (bytes: Uint8Array): SqliteDatabase => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (new TextDecoder().decode(bytes.subarray(0, 15)) !== 'SQLite format 3') {
+    throw new Error('Not a SQLite database');
+  }
+
+  const pageSize = view.getUint16(16) === 1 ? 65536 : view.getUint16(16);
+  const usable = pageSize - bytes[20];
+  const encoding = view.getUint32(56);
+  const textDecoder = new TextDecoder(encoding === 2 ? 'utf-16le' : encoding === 3 ? 'utf-16be' : 'utf-8');
+
+  const maxLocal = usable - 35;
+  const minLocal = Math.floor((usable - 12) * 32 / 255) - 23;
+
+  // The full payload of a cell whose payload starts at `offset`, following its overflow chain
+  const readPayload = (offset: number, size: number): Uint8Array => {
+    if (size <= maxLocal) return bytes.subarray(offset, offset + size);
+
+    const spill = minLocal + (size - minLocal) % (usable - 4);
+    const local = spill <= maxLocal ? spill : minLocal;
+    const payload = new Uint8Array(size);
+    payload.set(bytes.subarray(offset, offset + local));
+
+    let written = local;
+    let page = view.getUint32(offset + local);
+    while (page !== 0 && written < size) {
+      const start = (page - 1) * pageSize;
+      const chunk = bytes.subarray(start + 4, start + 4 + Math.min(usable - 4, size - written));
+      payload.set(chunk, written);
+      written += chunk.length;
+      page = view.getUint32(start);
+    }
+    return payload;
+  };
+
+  const decodeRecord = (record: Uint8Array): SqlValue[] => {
+    const recordView = new DataView(record.buffer, record.byteOffset, record.byteLength);
+    const values: SqlValue[] = [];
+
+    let [headerSize, position] = readVarint(record, 0);
+    let body = headerSize;
+    while (position < headerSize) {
+      let type: number;
+      [type, position] = readVarint(record, position);
+
+      if (type === 0) values.push(null);
+      else if (type >= 1 && type <= 6) {
+        const size = INT_SIZES[type - 1];
+        values.push(readInt(record, body, size));
+        body += size;
+      } else if (type === 7) {
+        values.push(recordView.getFloat64(body));
+        body += 8;
+      } else if (type === 8 || type === 9) {
+        values.push(type - 8);
+      } else {
+        const length = Math.floor((type - 12) / 2);
+        const data = record.subarray(body, body + length);
+        values.push(type % 2 === 0 ? data.slice() : textDecoder.decode(data));
+        body += length;
+      }
+    }
+    return values;
+  };
+
+  // Rows of a table B-tree in rowid order
+  const readTree = (root: number): { rowid: number; values: SqlValue[] }[] => {
+    const rows: { rowid: number; values: SqlValue[] }[] = [];
+    const pending = [root];
+
+    while (pending.length > 0) {
+      const page = pending.pop()!;
+      const start = (page - 1) * pageSize;
+      const header = start + (page === 1 ? 100 : 0);
+      const type = bytes[header];
+      const cellCount = view.getUint16(header + 3);
+
+      if (type === INTERIOR_TABLE) {
+        // Children in reverse, so the leftmost comes off the stack first
+        pending.push(view.getUint32(header + 8));
+        for (let i = cellCount - 1; i >= 0; i--) {
+          pending.push(view.getUint32(start + view.getUint16(header + 12 + i * 2)));
+        }
+      } else if (type === LEAF_TABLE) {
+        for (let i = 0; i < cellCount; i++) {
+          let offset = start + view.getUint16(header + 8 + i * 2);
+          let size: number;
+          let rowid: number;
+          [size, offset] = readVarint(bytes, offset);
+          [rowid, offset] = readVarint(bytes, offset);
+          rows.push({ rowid, values: decodeRecord(readPayload(offset, size)) });
+        }
+      } else {
+        throw new Error(`Unexpected B-tree page type ${type} on page ${page}`);
+      }
+    }
+
+    return rows;
+  };
+
+  const schema = readTree(1).map(({ values }) => ({
+    type: values[0] as string,
+    name: values[1] as string,
+    rootPage: values[3] as number,
+    sql: (values[4] as string) || '',
+  }));
+  const tables = schema.filter(entry => entry.type === 'table' && !/without\s+rowid/i.test(entry.sql));
+
+  return {
+    tableNames: tables.map(table => table.name),
+    readTable: (name: string): SqlRow[] => {
+      const table = tables.find(t => t.name === name);
+      if (!table) return [];
+      const { names, rowidColumn } = tableColumns(table.sql);
+      return readTree(table.rootPage).map(({ rowid, values }) =>
+        Object.fromEntries(names.map((column, i) => [column, i === rowidColumn ? rowid : values[i] ?? null]))
+      );
+    },
+  };
+};
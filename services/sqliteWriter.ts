@@ -0,0 +1,367 @@
+/**
+ * SQLite Writer
+ *
+ * Writes a small SQLite 3 database file from scratch, following the file format
+ * (https://www.sqlite.org/fileformat.html): rowid tables and their indexes,
+ * packed into B-tree pages. The whole database is built in memory in one go;
+ * nothing here reads or updates an existing file.
+ */
+
+export type SqlValue = number | string | Uint8Array | null;
+
+export interface SqlIndex {
+  name: string;
+  sql: string;          // CREATE INDEX statement
+  columns: number[];    // positions of the indexed columns in the table's rows
+}
+
+export interface SqlTable {
+  name: string;
+  sql: string;          // CREATE TABLE statement
+  rows: SqlValue[][];
+  rowidColumn?: number; // column declared INTEGER PRIMARY KEY (its value is the rowid)
+  indexes?: SqlIndex[];
+}
+
+const PAGE_SIZE = 4096;
+const FILE_HEADER_SIZE = 100;
+const SQLITE_VERSION_NUMBER = 3045000;
+
+// B-tree page types
+const INTERIOR_INDEX = 0x02;
+const INTERIOR_TABLE = 0x05;
+const LEAF_INDEX = 0x0a;
+const LEAF_TABLE = 0x0d;
+
+// How much of a cell's payload stays on its page before spilling into overflow pages
+const MIN_LOCAL = Math.floor((PAGE_SIZE - 12) * 32 / 255) - 23;
+const MAX_LOCAL_TABLE = PAGE_SIZE - 35;
+const MAX_LOCAL_INDEX = Math.floor((PAGE_SIZE - 12) * 64 / 255) - 23;
+
+const encoder = new TextEncoder();
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.length;
+  }
+  return out;
+};
+
+// Big-endian, 7 bits per byte (values below 2^56, which covers every JS safe integer)
+const varint = (value: number): Uint8Array => {
+  const bytes = [value % 128];
+  value = Math.floor(value / 128);
+  while (value > 0) {
+    bytes.unshift((value % 128) | 0x80);
+    value = Math.floor(value / 128);
+  }
+  return new Uint8Array(bytes);
+};
+
+// Two's complement, big-endian
+const intBytes = (value: number, size: number): Uint8Array => {
+  let bits = BigInt.asUintN(size * 8, BigInt(value));
+  const bytes = new Uint8Array(size);
+  for (let i = size - 1; i >= 0; i--) {
+    bytes[i] = Number(bits & 0xffn);
+    bits >>= 8n;
+  }
+  return bytes;
+};
+
+// Serial type and body bytes of one column value
+const serialize = (value: SqlValue): [number, Uint8Array] => {
+  if (value === null) return [0, new Uint8Array(0)];
+  if (typeof value === 'string') {
+    const bytes = encoder.encode(value);
+    return [13 + bytes.length * 2, bytes];
+  }
+  if (value instanceof Uint8Array) return [12 + value.length * 2, value];
+  if (!Number.isInteger(value)) {
+    const bytes = new Uint8Array(8);
+    new DataView(bytes.buffer).setFloat64(0, value);
+    return [7, bytes];
+  }
+  if (value === 0) return [8, new Uint8Array(0)];
+  if (value === 1) return [9, new Uint8Array(0)];
+  const sizes: [number, number][] = [[1, 1], [2, 2], [3, 3], [4, 4], [5, 6], [6, 8]];
+  for (const [type, size] of sizes) {
+    const limit = 2 ** (size * 8 - 1);
+    if (value >= -limit && value < limit) return [type, intBytes(value, size)];
+  }
+  return [6, intBytes(value, 8)];
+};
+
+// A row in the record format: header of serial types, then the values
+const encodeRecord = (values: SqlValue[]): Uint8Array => {
+  const serialized = values.map(serialize);
+  const types = concat(serialized.map(([type]) => varint(type)));
+  let headerSize = types.length + 1;
+  while (varint(headerSize).length + types.length > headerSize) headerSize++;
+  return concat([varint(headerSize), types, ...serialized.map(([, body]) => body)]);
+};
+
+// Index entries sort like SQLite compares them: NULL < numbers < text < blobs
+const typeRank = (value: SqlValue): number =>
+  value === null ? 0 : typeof value === 'number' ? 1 : typeof value === 'string' ? 2 : 3;
+
+const compareBytes = (a: Uint8Array, b: Uint8Array): number => {
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    if (a[i] !== b[i]) return a[i] - b[i];
+  }
+  return a.length - b.length;
+};
+
+const compareEntries = (a: SqlValue[], b: SqlValue[]): number => {
+  for (let i = 0; i < a.length; i++) {
+    const x = a[i];
+    const y = b[i];
+    const rank = typeRank(x) - typeRank(y);
+    if (rank !== 0) return rank;
+    if (typeof x === 'number' && typeof y === 'number') {
+      if (x !== y) return x - y;
+    } else if (typeof x === 'string' && typeof y === 'string') {
+      const order = compareBytes(encoder.encode(x), encoder.encode(y));
+      if (order !== 0) return order;
+    } else if (x instanceof Uint8Array && y instanceof Uint8Array) {
+      const order = compareBytes(x, y);
+      if (order !== 0) return order;
+    }
+  }
+  return 0;
+};
+
+class DatabaseBuilder {
+  private pages: Uint8Array[] = [new Uint8Array(PAGE_SIZE)];  // page 1 is written last
+
+  private allocate(): number {
+    this.pages.push(new Uint8Array(PAGE_SIZE));
+    return this.pages.length;
+  }
+
+  /**
+   * Payload as stored in a cell: the part that fits on the page, followed by
+   * the number of the first overflow page when the rest doesn't
+   */
+  private cellPayload(payload: Uint8Array, maxLocal: number): Uint8Array {
+    if (payload.length <= maxLocal) return payload;
+
+    const usable = PAGE_SIZE - 4;
+    const spill = MIN_LOCAL + (payload.length - MIN_LOCAL) % usable;
+    const local = spill <= maxLocal ? spill : MIN_LOCAL;
+
+    // Overflow chain: next page number, then as much of the rest as fits
+    const chunks: Uint8Array[] = [];
+    for (let offset = local; offset < payload.length; offset += usable) {
+      chunks.push(payload.subarray(offset, offset + usable));
+    }
+    const pageNumbers = chunks.map(() => this.allocate());
+    chunks.forEach((chunk, i) => {
+      const page = this.pages[pageNumbers[i] - 1];
+      new DataView(page.buffer).setUint32(0, pageNumbers[i + 1] ?? 0);
+      page.set(chunk, 4);
+    });
+
+    return concat([payload.subarray(0, local), intBytes(pageNumbers[0], 4)]);
+  }
+
+  private writePage(pageNumber: number, type: number, cells: Uint8Array[], rightChild?: number): number {
+    const page = this.pages[pageNumber - 1];
+    const view = new DataView(page.buffer);
+    const start = pageNumber === 1 ? FILE_HEADER_SIZE : 0;
+    const headerSize = rightChild === undefined ? 8 : 12;
+
+    let contentStart = PAGE_SIZE;
+    cells.forEach((cell, i) => {
+      contentStart -= cell.length;
+      page.set(cell, contentStart);
+      view.setUint16(start + headerSize + i * 2, contentStart);
+    });
+
+    page[start] = type;
+    view.setUint16(start + 3, cells.length);
+    view.setUint16(start + 5, contentStart);
+    if (rightChild !== undefined) view.setUint32(start + 8, rightChild);
+    return pageNumber;
+  }
+
+  /**
+   * Interior levels above the leaves, up to a single root page. dividers[i]
+   * separates children[i] from children[i + 1]; a page's last child becomes its
+   * right pointer and the divider after it moves up a level.
+   */
+  private buildInterior(children: number[], dividers: Uint8Array[], type: number): number {
+    const capacity = PAGE_SIZE - 12;
+
+    while (children.length > 1) {
+      const parents: number[] = [];
+      const promoted: Uint8Array[] = [];
+      let i = 0;
+
+      while (i < children.length) {
+        const cells: Uint8Array[] = [];
+        let used = 0;
+        while (i < children.length - 1) {
+          const cell = concat([intBytes(children[i], 4), dividers[i]]);
+          if (cells.length > 0 && used + cell.length + 2 > capacity) break;
+          cells.push(cell);
+          used += cell.length + 2;
+          i++;
+        }
+        // Never leave a lone child for the next page
+        if (i === children.length - 2 && cells.length > 1) {
+          cells.pop();
+          i--;
+        }
+
+        parents.push(this.writePage(this.allocate(), type, cells, children[i]));
+        if (i < children.length - 1) promoted.push(dividers[i]);
+        i++;
+      }
+
+      children = parents;
+      dividers = promoted;
+    }
+
+    return children[0];
+  }
+
+  /**
+   * A table B-tree; rows must be sorted by rowid. Returns the root page.
+   */
+  buildTable(rows: { rowid: number; record: Uint8Array }[]): number {
+    const capacity = PAGE_SIZE - 8;
+    const leaves: number[] = [];
+    const dividers: Uint8Array[] = [];
+    let cells: Uint8Array[] = [];
+    let used = 0;
+    let lastRowid = 0;
+
+    // A leaf's largest rowid separates it from the next one
+    const flush = () => {
+      leaves.push(this.writePage(this.allocate(), LEAF_TABLE, cells));
+      dividers.push(varint(lastRowid));
+      cells = [];
+      used = 0;
+    };
+
+    for (const row of rows) {
+      const cell = concat([
+        varint(row.record.length),
+        varint(row.rowid),
+        this.cellPayload(row.record, MAX_LOCAL_TABLE),
+      ]);
+      if (cells.length > 0 && used + cell.length + 2 > capacity) flush();
+      cells.push(cell);
+      used += cell.length + 2;
+      lastRowid = row.rowid;
+    }
+    if (cells.length > 0 || leaves.length === 0) flush();
+    dividers.pop();
+
+    return this.buildInterior(leaves, dividers, INTERIOR_TABLE);
+  }
+
+  /**
+   * An index B-tree over already sorted entries (indexed values, then rowid).
+   * Every entry is stored once: the ones between two pages sit in their parent.
+   */
+  buildIndex(entries: Uint8Array[]): number {
+    const capacity = PAGE_SIZE - 8;
+    const leaves: number[] = [];
+    const dividers: Uint8Array[] = [];
+    let cells: Uint8Array[] = [];
+    let used = 0;
+
+    const bodies = entries.map(record => concat([varint(record.length), this.cellPayload(record, MAX_LOCAL_INDEX)]));
+    for (let i = 0; i < bodies.length; i++) {
+      const body = bodies[i];
+      if (cells.length > 0 && used + body.length + 2 > capacity && i < bodies.length - 1) {
+        leaves.push(this.writePage(this.allocate(), LEAF_INDEX, cells));
+        dividers.push(body);
+        cells = [];
+        used = 0;
+        continue;
+      }
+      cells.push(body);
+      used += body.length + 2;
+    }
+    leaves.push(this.writePage(this.allocate(), LEAF_INDEX, cells));
+
+    return this.buildInterior(leaves, dividers, INTERIOR_INDEX);
+  }
+
+  /**
+   * The schema table lives on page 1, after the file header
+   */
+  finish(schema: SqlValue[][]): Uint8Array {
+    const cells = schema.map((entry, i) => {
+      const record = encodeRecord(entry);
+      return concat([varint(record.length), varint(i + 1), record]);
+    });
+    const size = cells.reduce((sum, cell) => sum + cell.length + 2, 0);
+    if (size > PAGE_SIZE - FILE_HEADER_SIZE - 8 || cells.some(cell => cell.length > MAX_LOCAL_TABLE)) {
+      throw new Error('Database schema does not fit on the first page');
+    }
+    this.writePage(1, LEAF_TABLE, cells);
+
+    const header = this.pages[0];
+    const view = new DataView(header.buffer);
+    header.set(encoder.encode('SQLite format 3\0'), 0);
+    view.setUint16(16, PAGE_SIZE);
+    header[18] = 1;                     // rollback journal, not WAL
+    header[19] = 1;
+    header[20] = 0;                     // no reserved bytes per page
+    header[21] = 64;                    // payload fractions (fixed by the format)
+    header[22] = 32;
+    header[23] = 32;
+    view.setUint32(24, 1);              // file change counter
+    view.setUint32(28, this.pages.length);
+    view.setUint32(40, 1);              // schema cookie
+    view.setUint32(44, 4);              // schema format
+    view.setUint32(56, 1);              // UTF-8
+    view.setUint32(92, 1);              // page count above is valid for change 1
+    view.setUint32(96, SQLITE_VERSION_NUMBER);
+
+    return concat(this.pages);
+  }
+}
+
+/**
+ * A complete database file containing the given tables, their rows and indexes
+ */
+export const writeDatabase = (tables: SqlTable[]): Uint8Array => {
+  const builder = new DatabaseBuilder();
+  const schema: SqlValue[][] = [];
+
+  for (const table of tables) {
+    const rows = table.rows
+      .map((values, i) => ({
+        values,
+        rowid: table.rowidColumn === undefined ? i + 1 : values[table.rowidColumn] as number,
+      }))
+      .sort((a, b) => a.rowid - b.rowid);
+
+    const root = builder.buildTable(rows.map(({ values, rowid }) => ({
+      rowid,
+      // The INTEGER PRIMARY KEY column is stored as NULL and read from the rowid
+      record: encodeRecord(table.rowidColumn === undefined
+        ? values
+        : values.map((value, column) => column === table.rowidColumn ? null : value)),
+    })));
+    schema.push(['table', table.name, table.name, root, table.sql]);
+
+    for (const index of table.indexes || []) {
+      const entries = rows
+        .map(({ values, rowid }) => [...index.columns.map(column => values[column]), rowid])
+        .sort(compareEntries);
+      const indexRoot = builder.buildIndex(entries.map(encodeRecord));
+      schema.push(['index', index.name, table.name, indexRoot, index.sql]);
+    }
+  }
+
+  return builder.finish(schema);
+};
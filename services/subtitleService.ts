@@ -0,0 +1,236 @@
+/**
+ * Subtitle Parsing Service
+ * Turns SRT, WebVTT and ASS/SSA subtitles into a clean transcript: cue numbers,
+ * timings and formatting tags removed, lines broken across cues merged back into
+ * sentences. Each sentence keeps the time it starts, so vocabulary contexts can
+ * record when in the episode a term was said.
+ */
+
+import { VocabularyItem } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface SubtitleSentence {
+  text: string;
+  start: number;  // ms from the start of the episode
+}
+
+export interface SubtitleParseResult {
+  format: SubtitleFormat;
+  text: string;                  // One sentence per line
+  sentences: SubtitleSentence[];
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  lines: string[];
+}
+
+// A pause this long ends a sentence even without punctuation (auto-generated captions have none)
+const MAX_PAUSE_MS = 2000;
+const MAX_SENTENCE_LENGTH = 300;
+
+const SRT_TIMING = /^(\d+):(\d{2}):(\d{2})[,.](\d{1,3})\s*-->\s*(\d+):(\d{2}):(\d{2})[,.](\d{1,3})/;
+const VTT_TIMING = /^(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})\s+-->\s+(?:(\d+):)?(\d{2}):(\d{2})\.(\d{3})/;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', lrm: '', rlm: '' };
+
+const toMs = (hours: string | undefined, minutes: string, seconds: string, fraction: string): number =>
+  ((parseInt(hours || '0', 10) * 60 + parseInt(minutes, 10)) * 60 + parseInt(seconds, 10)) * 1000 +
+  Math.round(parseInt(fraction, 10) * Math.pow(10, 3 - fraction.length));
+
+/**
+ * Remove HTML-style tags (<i>, <font>, <v Speaker>, <c.yellow>, karaoke times),
+ * ASS override blocks ({\an8}) and entities from a subtitle line
+ */
+const cleanLine = (line: string): string => line
+  .replace(/\{[^}]*\}/g, '')
+  .replace(/<[^>]*>/g, '')
+  .replace(/&(#\d+|[a-z]+);/gi, (match, name: string) =>
+    name.startsWith('#') ? String.fromCharCode(parseInt(name.slice(1), 10)) : ENTITIES[name.toLowerCase()] ?? match)
+  .replace(/\s+/g, ' ')
+  .trim();
+
+/**
+ * SRT and WebVTT: blank-line separated blocks with a timing line
+ */
+const parseTimedBlocks = (text: string, format: 'srt' | 'vtt'): Cue[] => {
+  const timing = format === 'srt' ? SRT_TIMING : VTT_TIMING;
+  const cues: Cue[] = [];
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const lines = block.split('\n');
+    const timingIndex = lines.findIndex(line => timing.test(line.trim()));
+    // WebVTT header, NOTE, STYLE and REGION blocks have no timing line
+    if (timingIndex < 0) continue;
+
+    const match = lines[timingIndex].trim().match(timing)!;
+    cues.push({
+      start: toMs(match[1], match[2], match[3], match[4]),
+      end: toMs(match[5], match[6], match[7], match[8]),
+      lines: lines.slice(timingIndex + 1).map(cleanLine).filter(Boolean),
+    });
+  }
+
+  return cues;
+};
+
+/**
+ * ASS/SSA: Dialogue lines in the [Events] section, fields named by its Format line
+ */
+const parseAss = (text: string): Cue[] => {
+  const cues: Cue[] = [];
+  let fields: string[] = [];
+  let inEvents = false;
+
+  for (const rawLine of text.split('\n')) {
+    const line = rawLine.trim();
+    if (line.startsWith('[')) {
+      inEvents = line.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+
+    if (/^format\s*:/i.test(line)) {
+      fields = line.slice(line.indexOf(':') + 1).split(',').map(field => field.trim().toLowerCase());
+      continue;
+    }
+    if (!/^dialogue\s*:/i.test(line) || fields.length === 0) continue;
+
+    // The text is the last field and may itself contain commas
+    const values = line.slice(line.indexOf(':') + 1).split(',');
+    const textValue = values.slice(fields.length - 1).join(',');
+    const field = (name: string) => values[fields.indexOf(name)]?.trim() || '';
+
+    // Vector drawings ({\p1}) aren't speech
+    if (/\{[^}]*\\p[1-9]/.test(textValue)) continue;
+
+    const time = (value: string) => {
+      const match = value.match(/^(\d+):(\d{2}):(\d{2})\.(\d{1,3})$/);
+      return match ? toMs(match[1], match[2], match[3], match[4]) : NaN;
+    };
+    const start = time(field('start'));
+    if (isNaN(start)) continue;
+
+    cues.push({
+      start,
+      end: time(field('end')),
+      lines: textValue.replace(/\\h/g, ' ').split(/\\[Nn]/).map(cleanLine).filter(Boolean),
+    });
+  }
+
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Merge cue lines into sentences. A sentence ends at terminal punctuation, at a
+ * new speaker (a line starting with "-"), or at a long pause.
+ */
+const mergeSentences = (cues: Cue[]): SubtitleSentence[] => {
+  const sentences: SubtitleSentence[] = [];
+  let current = '';
+  let start = 0;
+  let previousLine = '';
+  let previousEnd = -Infinity;
+
+  const flush = () => {
+    const text = current.replace(/\s+/g, ' ').trim();
+    if (text) sentences.push({ text, start });
+    current = '';
+  };
+
+  for (const cue of cues) {
+    if (cue.start - previousEnd >= MAX_PAUSE_MS) flush();
+    // Rolling auto-captions repeat the previous line at the top of each cue, which
+    // starts as the previous one ends. A line said twice ("No." "No.") comes later.
+    const continuesPrevious = cue.start <= previousEnd;
+    previousEnd = isNaN(cue.end) ? cue.start : cue.end;
+
+    for (const line of cue.lines) {
+      if (continuesPrevious && line === previousLine) continue;
+      previousLine = line;
+
+      const isNewSpeaker = /^[-–—]\s*/.test(line);
+      if (isNewSpeaker) flush();
+
+      // Sentences can end mid-line ("Fine. Let's go")
+      const parts = line.replace(/^[-–—]\s*/, '').split(/(?<=[.!?…]["'”’)\]]*)\s+/);
+      for (const part of parts) {
+        if (!current) start = cue.start;
+        current += ` ${part}`;
+        if (/[.!?…]["'”’)\]]*$/.test(part) || current.length > MAX_SENTENCE_LENGTH) flush();
+      }
+    }
+  }
+  flush();
+
+  return sentences;
+};
+
+/**
+ * Recognise subtitle text by its content (the extension alone isn't reliable)
+ */
+export function detectSubtitleFormat(text: string): SubtitleFormat | null {
+  const start = text.replace(/^\ufeff/, '').trimStart();
+  if (/^WEBVTT\b/.test(start)) return 'vtt';
+  if (/^\[Script Info\]/i.test(start) || /^\[Events\]/im.test(start)) return 'ass';
+  if (/^(\d+\s*\r?\n\s*)?\d+:\d{2}:\d{2}[,.]\d{1,3}\s*-->/.test(start)) return 'srt';
+  return null;
+}
+
+/**
+ * Parse subtitles into a transcript. Returns null when the text isn't SRT, WebVTT or ASS/SSA.
+ */
+export function parseSubtitles(text: string): SubtitleParseResult | null {
+  const format = detectSubtitleFormat(text);
+  if (!format) return null;
+
+  const normalized = text.replace(/^\ufeff/, '').replace(/\r\n?/g, '\n');
+  const cues = format === 'ass' ? parseAss(normalized) : parseTimedBlocks(normalized, format);
+  const sentences = mergeSentences(cues);
+
+  return {
+    format,
+    text: sentences.map(sentence => sentence.text).join('\n'),
+    sentences,
+  };
+}
+
+/**
+ * Time within an episode as m:ss, or h:mm:ss past the first hour
+ */
+export function formatTimestamp(ms: number): string {
+  const totalSeconds = Math.floor(ms / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+}
+
+const normalize = (text: string): string => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+/**
+ * Record when each item's source context was said. The sentence is found by the
+ * quoted context; items without one, or whose quote can't be found, get no time.
+ */
+export function addSubtitleTimestamps(vocabulary: VocabularyItem[], sentences: SubtitleSentence[]): VocabularyItem[] {
+  if (sentences.length === 0) return vocabulary;
+  const normalizedSentences = sentences.map(sentence => ` ${normalize(sentence.text)} `);
+
+  return vocabulary.map(item => {
+    if (item.source_timestamp_ms !== undefined) return item;
+
+    // The sentence holding the quote, or the first sentence of a quote spanning several.
+    // The term alone could be in any sentence, so it isn't used to place the item.
+    const context = ` ${normalize(item.source_context || '')} `;
+    if (!context.trim()) return item;
+    let index = normalizedSentences.findIndex(sentence => sentence.includes(context));
+    if (index < 0) {
+      index = normalizedSentences.findIndex(sentence => sentence.trim().split(' ').length >= 3 && context.includes(sentence));
+    }
+    if (index < 0) return item;
+
+    return { ...item, source_timestamp_ms: sentences[index].start };
+  });
+}
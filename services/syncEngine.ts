@@ -0,0 +1,229 @@
+/**
+ * Sync Engine
+ *
+ * Cloud writes go through here. Online, a write is sent straight to Supabase;
+ * offline (or when earlier writes are still waiting) it is queued in the local
+ * store and replayed in order once the connection is back, so a review session
+ * on the train is saved later without the user noticing.
+ */
+
+import { supabase } from './supabaseClient';
+import { localStore } from './localStore';
+
+export type SyncTable =
+  | 'saved_analyses'
+  | 'analysis_folders'
+  | 'vocabulary_reviews'
+  | 'review_log'
+  | 'saved_books'
+  | 'book_chapter_vocabulary'
+  | 'user_visits'
+  | 'filtered_decks';
+
+type Row = Record<string, unknown>;
+
+// Columns that must hold one of several values (writes to many rows at once)
+type MatchAny = Record<string, unknown[]>;
+
+// A single table write, stored as plain data so it can be replayed later
+export type Mutation =
+  | { op: 'insert'; table: SyncTable; values: Row | Row[] }
+  | { op: 'upsert'; table: SyncTable; values: Row | Row[]; onConflict?: string }
+  | { op: 'update'; table: SyncTable; values: Row; match: Row; matchAny?: MatchAny }
+  | { op: 'delete'; table: SyncTable; match: Row; matchAny?: MatchAny };
+
+interface QueuedMutation {
+  seq?: number;
+  userId: string;
+  mutation: Mutation;
+  errorLabel: string;  // logged if replaying fails
+  queuedAt: number;
+  attempts: number;
+}
+
+export interface SyncStatus {
+  online: boolean;
+  pending: number;   // queued writes not yet in the cloud
+  syncing: boolean;
+}
+
+// Writes the server keeps rejecting are dropped after this many tries
+const MAX_ATTEMPTS = 5;
+
+// Postgres unique violation: a replayed insert that already reached the server
+const DUPLICATE_KEY = '23505';
+
+type SupabaseError = { message?: string; code?: string } | null;
+
+const isOnline = (): boolean => typeof navigator === 'undefined' || navigator.onLine;
+
+/**
+ * Whether a Supabase error means the request never got through (as opposed to
+ * the server rejecting it)
+ */
+export const isNetworkError = (error: SupabaseError): boolean =>
+  !!error && (!isOnline() || (!error.code && /fetch|network|load failed/i.test(error.message || '')));
+
+const execute = async (mutation: Mutation): Promise<SupabaseError> => {
+  const table = supabase!.from(mutation.table);
+  switch (mutation.op) {
+    case 'insert':
+      return (await table.insert(mutation.values)).error;
+    case 'upsert':
+      return (await table.upsert(mutation.values, mutation.onConflict ? { onConflict: mutation.onConflict } : undefined)).error;
+    case 'update': {
+      let query = table.update(mutation.values).match(mutation.match);
+      for (const [column, values] of Object.entries(mutation.matchAny ?? {})) query = query.in(column, values);
+      return (await query).error;
+    }
+    case 'delete': {
+      let query = table.delete().match(mutation.match);
+      for (const [column, values] of Object.entries(mutation.matchAny ?? {})) query = query.in(column, values);
+      return (await query).error;
+    }
+  }
+};
+
+let activeUserId: string | null = null;
+let pending: number | null = null;
+let flushing: Promise<void> | null = null;
+const listeners = new Set<(status: SyncStatus) => void>();
+
+const countPending = async (): Promise<number> => {
+  if (pending === null) {
+    const queued = await localStore.getAll<QueuedMutation>('mutations');
+    pending = queued.filter(entry => entry.userId === activeUserId).length;
+  }
+  return pending;
+};
+
+const notify = () => {
+  const status: SyncStatus = { online: isOnline(), pending: pending ?? 0, syncing: flushing !== null };
+  listeners.forEach(listener => listener(status));
+};
+
+export const syncEngine = {
+  isOnline,
+
+  /**
+   * Apply a write now, or queue it when offline. Returns false only when the
+   * server rejected it.
+   */
+  async run(userId: string, mutation: Mutation, errorLabel: string): Promise<boolean> {
+    if (!supabase) return false;
+
+    // Earlier queued writes go first, so this one waits behind them
+    if (isOnline() && (activeUserId !== userId || (await countPending()) === 0)) {
+      const error = await execute(mutation);
+      if (!error) return true;
+      if (!isNetworkError(error)) {
+        console.error(`${errorLabel}:`, error);
+        return false;
+      }
+    }
+
+    await localStore.put<QueuedMutation>('mutations', {
+      userId,
+      mutation,
+      errorLabel,
+      queuedAt: Date.now(),
+      attempts: 0,
+    });
+    if (userId === activeUserId) {
+      pending = null;
+      await countPending();
+      notify();
+      if (isOnline()) this.flush();
+    }
+    return true;
+  },
+
+  /**
+   * Replay the signed-in user's queued writes in order. Stops at the first
+   * network failure and picks up again on the next flush.
+   */
+  flush(): Promise<void> {
+    if (flushing) return flushing;
+    if (!supabase || !activeUserId || !isOnline()) return Promise.resolve();
+
+    const userId = activeUserId;
+    flushing = (async () => {
+      notify();
+      const queued = (await localStore.getAll<QueuedMutation>('mutations'))
+        .filter(entry => entry.userId === userId)
+        .sort((a, b) => (a.seq ?? 0) - (b.seq ?? 0));
+
+      for (const entry of queued) {
+        const error = await execute(entry.mutation);
+        if (error && isNetworkError(error)) break;
+
+        if (!error || error.code === DUPLICATE_KEY) {
+          await localStore.remove('mutations', entry.seq!);
+        } else if (entry.attempts + 1 >= MAX_ATTEMPTS) {
+          console.error(`${entry.errorLabel} (giving up after ${MAX_ATTEMPTS} attempts):`, error);
+          await localStore.remove('mutations', entry.seq!);
+        } else {
+          console.error(`${entry.errorLabel} (will retry):`, error);
+          await localStore.put('mutations', { ...entry, attempts: entry.attempts + 1 });
+          break;
+        }
+      }
+
+      pending = null;
+      await countPending();
+    })().finally(() => {
+      flushing = null;
+      notify();
+    });
+
+    return flushing;
+  },
+
+  /**
+   * Start syncing for a signed-in user: replay queued writes now and whenever
+   * the connection comes back. Returns a function that stops listening.
+   */
+  start(userId: string): () => void {
+    activeUserId = userId;
+    pending = null;
+
+    const handleOnline = () => {
+      notify();
+      this.flush();
+    };
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', notify);
+
+    countPending().then(() => {
+      notify();
+      this.flush();
+    });
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', notify);
+      if (activeUserId === userId) {
+        activeUserId = null;
+        pending = null;
+      }
+    };
+  },
+
+  /**
+   * Number of the signed-in user's writes still waiting for the cloud
+   */
+  pendingCount(): Promise<number> {
+    return countPending();
+  },
+
+  /**
+   * Listen for changes in connectivity and queue size
+   */
+  subscribe(listener: (status: SyncStatus) => void): () => void {
+    listeners.add(listener);
+    listener({ online: isOnline(), pending: pending ?? 0, syncing: flushing !== null });
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+};
@@ -0,0 +1,58 @@
+/**
+ * Tags
+ *
+ * Free-form, hierarchical tags on vocabulary items and review cards.
+ * Levels are separated by "::" ("work::meetings", "show::succession"), and a
+ * tag also matches everything below it: "work" matches "work::meetings".
+ */
+
+export const TAG_SEPARATOR = '::';
+
+/**
+ * Clean up a tag as typed: lowercase, no spaces inside a level, no empty levels.
+ * Returns '' when nothing usable is left.
+ */
+export function normalizeTag(raw: string): string {
+  return raw
+    .toLowerCase()
+    .split(TAG_SEPARATOR)
+    .map(level => level.trim().replace(/\s+/g, '-').replace(/^[#:]+|:+$/g, ''))
+    .filter(Boolean)
+    .join(TAG_SEPARATOR);
+}
+
+/**
+ * Split typed input ("work::meetings, show::succession") into normalized tags
+ */
+export function parseTags(input: string): string[] {
+  return [...new Set(input.split(/[,\s]+/).map(normalizeTag).filter(Boolean))];
+}
+
+/**
+ * A tag and all of its parents: "work::meetings" -> ["work", "work::meetings"]
+ */
+export function getTagAncestors(tag: string): string[] {
+  const levels = tag.split(TAG_SEPARATOR);
+  return levels.map((_, i) => levels.slice(0, i + 1).join(TAG_SEPARATOR));
+}
+
+/**
+ * Whether any of the tags is `filter` or sits below it
+ */
+export function matchesTag(tags: string[] | undefined, filter: string): boolean {
+  return (tags || []).some(tag => tag === filter || tag.startsWith(filter + TAG_SEPARATOR));
+}
+
+/**
+ * Combine tag lists without repeats, keeping first-seen order
+ */
+export function mergeTags(...lists: (string[] | undefined)[]): string[] {
+  return [...new Set(lists.flatMap(list => list || []))];
+}
+
+/**
+ * Every tag plus its parents, sorted, for filter pickers
+ */
+export function getTagTree(tags: string[]): string[] {
+  return [...new Set(tags.flatMap(getTagAncestors))].sort();
+}
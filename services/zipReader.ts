@@ -0,0 +1,65 @@
+/**
+ * Zip Reader
+ *
+ * Lists and extracts the files in a zip archive. Deflated entries are
+ * decompressed with the browser's DecompressionStream, so no library is needed.
+ */
+
+const END_OF_DIRECTORY = 0x06054b50;
+const DIRECTORY_ENTRY = 0x02014b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATED = 8;
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/**
+ * The files in a zip archive by name (only the named ones when `only` is given).
+ * Throws when the file isn't a zip archive or uses a compression method other
+ * than store or deflate.
+ */
+export const readZip = async (file: Blob, only?: string[]): Promise<Map<string, Uint8Array>> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // The end record sits at the very end, before an optional comment of up to 64 KB
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === END_OF_DIRECTORY) {
+      end = i;
+      break;
+    }
+  }
+  if (end < 0) throw new Error('Not a zip archive');
+
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  const files = new Map<string, Uint8Array>();
+  const decoder = new TextDecoder();
+
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== DIRECTORY_ENTRY) throw new Error('Damaged zip archive');
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+    if (only && !only.includes(name)) continue;
+
+    // The local header repeats the name and may have its own extra field
+    const dataStart = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+    const data = bytes.subarray(dataStart, dataStart + compressedSize);
+
+    if (method === METHOD_STORED) files.set(name, data);
+    else if (method === METHOD_DEFLATED) files.set(name, await inflate(data));
+    else throw new Error(`Unsupported zip compression (method ${method})`);
+  }
+
+  return files;
+};
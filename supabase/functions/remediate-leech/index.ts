@@ -0,0 +1,142 @@
+// Supabase Edge Function: Remediate Leech
+// Generates fresh memory aids for a term the learner keeps forgetting:
+// mnemonic example sentences, or an imagery/etymology explanation
+
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+
+const GEMINI_API_KEY = Deno.env.get("GEMINI_API_KEY");
+const GEMINI_API_URL = "https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const buildPrompt = (term: string, definition: string, mode: string, context?: string) => {
+  const contextLine = context ? `\nIt was originally met in this sentence: "${context}"` : "";
+
+  if (mode === "imagery_etymology") {
+    return `A language learner keeps forgetting the English term "${term}" (meaning: ${definition}).${contextLine}
+
+Write a short, vivid explanation (2-4 sentences) that makes the meaning stick:
+- Explain the literal image behind the words or their etymology
+- Connect that image to the figurative meaning
+- Keep it concrete and memorable
+
+OUTPUT FORMAT (JSON object):
+{ "imagery_etymology": "..." }
+
+Return ONLY valid JSON, no markdown.`;
+  }
+
+  return `A language learner keeps forgetting the English term "${term}" (meaning: ${definition}).${contextLine}
+
+Write 3 NEW example sentences that act as mnemonics:
+- Each sentence should be vivid, a little surprising or funny, and easy to picture
+- Use the term naturally (conjugate verbs as needed)
+- Use different everyday situations from the original sentence
+- Add a one-line explanation of how the sentence shows the meaning
+
+OUTPUT FORMAT (JSON array):
+[
+  { "context_label": "Mnemonic", "sentence": "...", "explanation": "..." }
+]
+
+Return ONLY valid JSON array, no markdown.`;
+};
+
+serve(async (req) => {
+  // Handle CORS preflight
+  if (req.method === "OPTIONS") {
+    return new Response("ok", { headers: corsHeaders });
+  }
+
+  try {
+    const { term, definition, mode, context } = await req.json();
+
+    if (!term || !definition) {
+      return new Response(
+        JSON.stringify({ error: "Term and definition are required" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (mode !== "mnemonic" && mode !== "imagery_etymology") {
+      return new Response(
+        JSON.stringify({ error: "Mode must be 'mnemonic' or 'imagery_etymology'" }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    if (!GEMINI_API_KEY) {
+      return new Response(
+        JSON.stringify({ error: "Gemini API key not configured" }),
+        { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const response = await fetch(`${GEMINI_API_URL}?key=${GEMINI_API_KEY}`, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        contents: [
+          {
+            parts: [{ text: buildPrompt(term, definition, mode, context) }],
+          },
+        ],
+        generationConfig: {
+          temperature: 0.9,
+          topK: 40,
+          topP: 0.95,
+          maxOutputTokens: 2048,
+        },
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error("Gemini API error:", errorText);
+      throw new Error(`Gemini API error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    const content = data.candidates?.[0]?.content?.parts?.[0]?.text;
+
+    if (!content) {
+      throw new Error("No content in Gemini response");
+    }
+
+    let parsed;
+    try {
+      const jsonStr = content.replace(/```json\n?/g, "").replace(/```\n?/g, "").trim();
+      parsed = JSON.parse(jsonStr);
+    } catch (parseError) {
+      console.error("Failed to parse Gemini response:", content);
+      throw new Error("Failed to parse remediation from AI response");
+    }
+
+    const result = mode === "imagery_etymology"
+      ? { imagery_etymology: parsed.imagery_etymology || "" }
+      : {
+          examples: (Array.isArray(parsed) ? parsed : []).map((item) => ({
+            context_label: item.context_label || "Mnemonic",
+            sentence: item.sentence,
+            explanation: item.explanation || "",
+          })),
+        };
+
+    console.log(`Generated ${mode} remediation for "${term}"`);
+
+    return new Response(JSON.stringify(result), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error remediating leech:", error);
+    return new Response(
+      JSON.stringify({ error: error.message || "Failed to generate remediation" }),
+      { status: 500, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+  }
+});
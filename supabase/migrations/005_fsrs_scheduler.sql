@@ -0,0 +1,56 @@
+-- Migration: Add FSRS scheduler state to vocabulary_reviews and per-user SRS settings
+-- Run this in your Supabase SQL Editor
+
+-- FSRS memory state (NULL until the card is scheduled by FSRS)
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS stability REAL,
+ADD COLUMN IF NOT EXISTS difficulty REAL;
+
+-- Carry existing SM-2 history over into FSRS state:
+-- stability ~ current interval, difficulty mapped from ease factor (1.3 -> 10, 3.0 -> 1)
+UPDATE vocabulary_reviews
+SET
+  stability = GREATEST(interval, 0.1),
+  difficulty = LEAST(10, GREATEST(1, 10 - (ease_factor - 1.3) * 9 / 1.7))
+WHERE stability IS NULL
+  AND (repetitions > 0 OR last_review_date IS NOT NULL);
+
+-- Per-user spaced repetition settings
+CREATE TABLE IF NOT EXISTS srs_settings (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  scheduler TEXT NOT NULL DEFAULT 'sm2' CHECK (scheduler IN ('sm2', 'fsrs')),
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE srs_settings ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own settings
+CREATE POLICY "Users can view own srs settings"
+  ON srs_settings FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own srs settings"
+  ON srs_settings FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own srs settings"
+  ON srs_settings FOR UPDATE
+  USING (auth.uid() = user_id);
+
+-- Function to auto-update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_srs_settings_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Trigger for updated_at
+CREATE TRIGGER srs_settings_updated_at
+  BEFORE UPDATE ON srs_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_srs_settings_updated_at();
@@ -0,0 +1,41 @@
+-- Migration: Create review_log table to keep a full history of every flashcard answer
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS review_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  review_id UUID REFERENCES vocabulary_reviews(id) ON DELETE CASCADE NOT NULL,
+  reviewed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  -- Answer given
+  quality TEXT NOT NULL CHECK (quality IN ('again', 'hard', 'good', 'easy')),
+  typed_answer TEXT,
+  time_taken_ms INTEGER,  -- time from card shown to answer submitted
+  -- Scheduling state before and after the answer
+  previous_interval INTEGER NOT NULL,
+  new_interval INTEGER NOT NULL,
+  previous_ease_factor REAL NOT NULL,
+  new_ease_factor REAL NOT NULL,
+  -- Timestamps
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes for common queries
+CREATE INDEX IF NOT EXISTS idx_review_log_review ON review_log(review_id, reviewed_at);
+CREATE INDEX IF NOT EXISTS idx_review_log_user_time ON review_log(user_id, reviewed_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE review_log ENABLE ROW LEVEL SECURITY;
+
+-- RLS Policies: Users can only access their own review history
+-- (no UPDATE policy: log entries are append-only)
+CREATE POLICY "Users can view own review log"
+  ON review_log FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own review log"
+  ON review_log FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own review log"
+  ON review_log FOR DELETE
+  USING (auth.uid() = user_id);
@@ -0,0 +1,22 @@
+-- Migration: Add learning/relearning steps (intra-day) to the review system
+-- Run this in your Supabase SQL Editor
+
+-- Card lifecycle state: new, learning, review, relearning
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS card_state TEXT NOT NULL DEFAULT 'new'
+  CHECK (card_state IN ('new', 'learning', 'review', 'relearning')),
+ADD COLUMN IF NOT EXISTS learning_step INTEGER;  -- index into the (re)learning steps
+
+-- Cards that have been answered before are already in review
+UPDATE vocabulary_reviews
+SET card_state = 'review'
+WHERE card_state = 'new'
+  AND (repetitions > 0 OR last_review_date IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_card_state
+ON vocabulary_reviews(user_id, card_state);
+
+-- Per-user step configuration (minutes)
+ALTER TABLE srs_settings
+ADD COLUMN IF NOT EXISTS learning_steps INTEGER[] NOT NULL DEFAULT '{1,10}',
+ADD COLUMN IF NOT EXISTS relearning_steps INTEGER[] NOT NULL DEFAULT '{10}';
@@ -0,0 +1,16 @@
+-- Migration: Per-day caps on new cards and reviews
+-- Run this in your Supabase SQL Editor
+
+-- Record the card state before each answer so daily usage can be counted
+-- across sessions and devices (new cards introduced vs reviews done)
+ALTER TABLE review_log
+ADD COLUMN IF NOT EXISTS previous_card_state TEXT
+  CHECK (previous_card_state IN ('new', 'learning', 'review', 'relearning'));
+
+CREATE INDEX IF NOT EXISTS idx_review_log_user_state_time
+ON review_log(user_id, previous_card_state, reviewed_at);
+
+-- Per-user daily limits
+ALTER TABLE srs_settings
+ADD COLUMN IF NOT EXISTS new_cards_per_day INTEGER NOT NULL DEFAULT 20 CHECK (new_cards_per_day >= 0),
+ADD COLUMN IF NOT EXISTS reviews_per_day INTEGER NOT NULL DEFAULT 200 CHECK (reviews_per_day >= 0);
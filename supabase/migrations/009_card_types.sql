@@ -0,0 +1,23 @@
+-- Migration: Multiple card types per vocabulary term, each scheduled separately
+-- Run this in your Supabase SQL Editor
+
+-- Existing rows are the original "definition -> term" card
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS card_type TEXT NOT NULL DEFAULT 'production'
+  CHECK (card_type IN ('production', 'recognition', 'context_cloze', 'listening', 'example_cloze'));
+
+-- Allow one card per type for the same term and source
+ALTER TABLE vocabulary_reviews
+DROP CONSTRAINT IF EXISTS vocabulary_reviews_user_id_term_source_type_key;
+
+ALTER TABLE vocabulary_reviews
+ADD CONSTRAINT vocabulary_reviews_user_id_term_source_type_card_type_key
+UNIQUE (user_id, term, source_type, card_type);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_card_type
+ON vocabulary_reviews(user_id, source_type, card_type);
+
+-- Which card types are enabled per source type
+ALTER TABLE srs_settings
+ADD COLUMN IF NOT EXISTS enabled_card_types JSONB NOT NULL
+  DEFAULT '{"text_analysis": ["production"], "book_library": ["production"]}'::jsonb;
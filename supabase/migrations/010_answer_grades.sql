@@ -0,0 +1,7 @@
+-- Migration: Store how each typed answer was graded
+-- Run this in your Supabase SQL Editor
+
+-- exact / inflection / typo / wrong (NULL for self-graded cards and older entries)
+ALTER TABLE review_log
+ADD COLUMN IF NOT EXISTS answer_grade TEXT
+  CHECK (answer_grade IN ('exact', 'inflection', 'typo', 'wrong'));
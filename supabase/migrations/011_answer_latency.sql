@@ -0,0 +1,11 @@
+-- Migration: Response latency per answer and auto-grading preference
+-- Run this in your Supabase SQL Editor
+
+-- Time from card shown to first keystroke (or reveal for self-graded cards)
+ALTER TABLE review_log
+ADD COLUMN IF NOT EXISTS response_latency_ms INTEGER;
+
+-- manual: learner picks the rating; auto: suggested rating is applied
+ALTER TABLE srs_settings
+ADD COLUMN IF NOT EXISTS grading_mode TEXT NOT NULL DEFAULT 'manual'
+  CHECK (grading_mode IN ('manual', 'auto'));
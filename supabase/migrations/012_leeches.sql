@@ -0,0 +1,27 @@
+-- Migration: Leech detection (cards that keep being forgotten)
+-- Run this in your Supabase SQL Editor
+
+-- Lapses = times a card was answered "again" after graduating to review
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS lapses INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS is_leech BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Backfill lapses from the review log
+UPDATE vocabulary_reviews vr
+SET lapses = counts.lapses
+FROM (
+  SELECT review_id, COUNT(*) AS lapses
+  FROM review_log
+  WHERE quality = 'again' AND previous_card_state = 'review'
+  GROUP BY review_id
+) counts
+WHERE vr.id = counts.review_id;
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_leech
+ON vocabulary_reviews(user_id, is_leech) WHERE is_leech;
+
+-- Per-user leech settings
+ALTER TABLE srs_settings
+ADD COLUMN IF NOT EXISTS leech_threshold INTEGER NOT NULL DEFAULT 8 CHECK (leech_threshold >= 1),
+ADD COLUMN IF NOT EXISTS leech_action TEXT NOT NULL DEFAULT 'tag'
+  CHECK (leech_action IN ('tag', 'suspend'));
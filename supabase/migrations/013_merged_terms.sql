@@ -0,0 +1,42 @@
+-- Migration: Merge duplicate review cards across sources
+-- Run this in your Supabase SQL Editor
+
+-- Terms that were merged into another card. Vocabulary sync treats an alias
+-- as already present, so a merged term links to the kept card instead of
+-- being re-created.
+CREATE TABLE IF NOT EXISTS vocabulary_review_aliases (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  term TEXT NOT NULL,          -- lowercased term of the merged card
+  source_type TEXT NOT NULL CHECK (source_type IN ('text_analysis', 'book_library')),
+  review_id UUID REFERENCES vocabulary_reviews(id) ON DELETE CASCADE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, term, source_type)
+);
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_review_aliases_review
+ON vocabulary_review_aliases(review_id);
+
+-- Enable Row Level Security
+ALTER TABLE vocabulary_review_aliases ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own review aliases"
+  ON vocabulary_review_aliases FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own review aliases"
+  ON vocabulary_review_aliases FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own review aliases"
+  ON vocabulary_review_aliases FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own review aliases"
+  ON vocabulary_review_aliases FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Merging moves the answer history of merged cards onto the kept card
+CREATE POLICY "Users can update own review log"
+  ON review_log FOR UPDATE
+  USING (auth.uid() = user_id);
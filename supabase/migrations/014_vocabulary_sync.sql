@@ -0,0 +1,146 @@
+-- Migration: Server-side, idempotent vocabulary sync
+-- Run this in your Supabase SQL Editor
+
+-- Stable id of the vocabulary item a card was created from
+-- text_analysis: "<analysis id>:<lowercased term>"
+-- book_library:  "<book id>:<chapter id>:<lowercased term>"
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS source_vocab_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_source_vocab
+ON vocabulary_reviews(user_id, source_type, source_vocab_id);
+
+-- Upsert vocabulary items into the review system in one transaction.
+-- p_items: [{ vocab_id, term, definition, category, source_context, examples,
+--             imagery_etymology, difficulty_level, created_at }]
+--
+-- For each item (in order):
+--   - merged into another card (vocabulary_review_aliases) -> skipped
+--   - a card was created from this vocab_id -> content edits are copied to every
+--     card type of the term (updated), or nothing changed (skipped)
+--   - a card for the term already exists from another item -> skipped
+--     (cards synced before vocab ids existed are adopted by the first item)
+--   - otherwise a new production card is inserted
+-- Scheduling state is never touched, so running it again is harmless.
+CREATE OR REPLACE FUNCTION sync_vocabulary_reviews(p_source_type TEXT, p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_item JSONB;
+  v_vocab_id TEXT;
+  v_term TEXT;
+  v_definition TEXT;
+  v_card_term TEXT;
+  v_row_count INTEGER;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_source_type NOT IN ('text_analysis', 'book_library') THEN
+    RAISE EXCEPTION 'Unknown source type: %', p_source_type;
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) LOOP
+    v_vocab_id := v_item->>'vocab_id';
+    v_term := btrim(COALESCE(v_item->>'term', ''));
+    v_definition := COALESCE(v_item->>'definition', '');
+
+    IF v_vocab_id IS NULL OR v_term = '' OR v_definition = '' THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    -- Merged into another card: that card already covers it
+    IF EXISTS (
+      SELECT 1 FROM vocabulary_review_aliases
+      WHERE user_id = v_user_id AND source_type = p_source_type AND term = lower(v_term)
+    ) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    -- Adopt a card synced before vocab ids existed
+    UPDATE vocabulary_reviews
+    SET source_vocab_id = v_vocab_id
+    WHERE user_id = v_user_id
+      AND source_type = p_source_type
+      AND lower(term) = lower(v_term)
+      AND card_type = 'production'
+      AND source_vocab_id IS NULL;
+
+    SELECT term INTO v_card_term
+    FROM vocabulary_reviews
+    WHERE user_id = v_user_id
+      AND source_type = p_source_type
+      AND source_vocab_id = v_vocab_id
+      AND card_type = 'production'
+    LIMIT 1;
+
+    IF v_card_term IS NOT NULL THEN
+      -- Propagate edits to every card type of the term
+      UPDATE vocabulary_reviews
+      SET definition = v_definition,
+          category = v_item->>'category',
+          source_context = v_item->>'source_context',
+          examples = NULLIF(v_item->'examples', 'null'::jsonb),
+          imagery_etymology = v_item->>'imagery_etymology',
+          difficulty_level = v_item->>'difficulty_level'
+      WHERE user_id = v_user_id
+        AND source_type = p_source_type
+        AND term = v_card_term
+        AND (definition, category, source_context, examples, imagery_etymology, difficulty_level)
+          IS DISTINCT FROM
+          (v_definition, v_item->>'category', v_item->>'source_context', NULLIF(v_item->'examples', 'null'::jsonb),
+           v_item->>'imagery_etymology', v_item->>'difficulty_level');
+
+      GET DIAGNOSTICS v_row_count = ROW_COUNT;
+      IF v_row_count > 0 THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_skipped := v_skipped + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    -- Already learned from another analysis or chapter
+    IF EXISTS (
+      SELECT 1 FROM vocabulary_reviews
+      WHERE user_id = v_user_id AND source_type = p_source_type AND lower(term) = lower(v_term)
+    ) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO vocabulary_reviews (
+      user_id, term, definition, source_type, source_vocab_id, card_type,
+      next_review_date, created_at,
+      category, source_context, examples, imagery_etymology, difficulty_level
+    ) VALUES (
+      v_user_id, v_term, v_definition, p_source_type, v_vocab_id, 'production',
+      COALESCE((v_item->>'created_at')::timestamptz, NOW()),
+      COALESCE((v_item->>'created_at')::timestamptz, NOW()),
+      v_item->>'category', v_item->>'source_context', NULLIF(v_item->'examples', 'null'::jsonb),
+      v_item->>'imagery_etymology', v_item->>'difficulty_level'
+    )
+    ON CONFLICT (user_id, term, source_type, card_type) DO NOTHING;
+
+    GET DIAGNOSTICS v_row_count = ROW_COUNT;
+    IF v_row_count > 0 THEN
+      v_inserted := v_inserted + 1;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', v_inserted, 'updated', v_updated, 'skipped', v_skipped);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION sync_vocabulary_reviews(TEXT, JSONB) TO authenticated;
@@ -0,0 +1,8 @@
+-- Migration: Automatically add saved vocabulary to the review system
+-- Run this in your Supabase SQL Editor
+
+-- auto_add_vocabulary: create/update cards when an analysis or chapter vocabulary is saved
+-- auto_add_excluded_categories: vocabulary categories that are never auto-added
+ALTER TABLE srs_settings
+ADD COLUMN IF NOT EXISTS auto_add_vocabulary BOOLEAN NOT NULL DEFAULT TRUE,
+ADD COLUMN IF NOT EXISTS auto_add_excluded_categories TEXT[] NOT NULL DEFAULT '{}';
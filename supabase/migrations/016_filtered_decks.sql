@@ -0,0 +1,36 @@
+-- Migration: Saved custom study sessions ("filtered decks")
+-- Run this in your Supabase SQL Editor
+
+CREATE TABLE IF NOT EXISTS filtered_decks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE NOT NULL,
+  name TEXT NOT NULL,
+  -- StudyFilter: source, folder, analysis, book chapter, category, difficulty, failed today
+  filter JSONB NOT NULL DEFAULT '{}'::jsonb,
+  -- Cram decks show every matching card and never change its schedule
+  cram BOOLEAN NOT NULL DEFAULT FALSE,
+  card_limit INTEGER NOT NULL DEFAULT 20 CHECK (card_limit >= 1),
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_studied_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_filtered_decks_user ON filtered_decks(user_id, last_studied_at DESC);
+
+-- Enable Row Level Security
+ALTER TABLE filtered_decks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own filtered decks"
+  ON filtered_decks FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own filtered decks"
+  ON filtered_decks FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own filtered decks"
+  ON filtered_decks FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own filtered decks"
+  ON filtered_decks FOR DELETE
+  USING (auth.uid() = user_id);
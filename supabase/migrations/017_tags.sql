@@ -0,0 +1,159 @@
+-- Migration: Hierarchical tags on vocabulary items and review cards
+-- Run this in your Supabase SQL Editor
+
+-- Tags are free-form with "::" between levels, e.g. "work::meetings"
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE IF EXISTS saved_vocabulary
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+-- Every tag plus its parents: {work::meetings} -> {work, work::meetings}
+CREATE OR REPLACE FUNCTION expand_tag_paths(p_tags TEXT[])
+RETURNS TEXT[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(array_agg(DISTINCT array_to_string(levels[1:depth], '::')), '{}')
+  FROM unnest(p_tags) AS tag,
+       LATERAL string_to_array(tag, '::') AS levels,
+       LATERAL generate_series(1, array_length(levels, 1)) AS depth
+$$;
+
+-- Filtering by "work" also finds "work::meetings"
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS tag_paths TEXT[] GENERATED ALWAYS AS (expand_tag_paths(tags)) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_tag_paths
+ON vocabulary_reviews USING GIN (tag_paths);
+
+-- Vocabulary sync now carries tags. Tags from the source are added to the
+-- card's own tags (never removed), so tags added in the card browser survive.
+CREATE OR REPLACE FUNCTION sync_vocabulary_reviews(p_source_type TEXT, p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_item JSONB;
+  v_vocab_id TEXT;
+  v_term TEXT;
+  v_definition TEXT;
+  v_tags TEXT[];
+  v_card_term TEXT;
+  v_row_count INTEGER;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_source_type NOT IN ('text_analysis', 'book_library') THEN
+    RAISE EXCEPTION 'Unknown source type: %', p_source_type;
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) LOOP
+    v_vocab_id := v_item->>'vocab_id';
+    v_term := btrim(COALESCE(v_item->>'term', ''));
+    v_definition := COALESCE(v_item->>'definition', '');
+    v_tags := ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(NULLIF(v_item->'tags', 'null'::jsonb), '[]'::jsonb))
+    );
+
+    IF v_vocab_id IS NULL OR v_term = '' OR v_definition = '' THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    -- Merged into another card: that card already covers it
+    IF EXISTS (
+      SELECT 1 FROM vocabulary_review_aliases
+      WHERE user_id = v_user_id AND source_type = p_source_type AND term = lower(v_term)
+    ) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    -- Adopt a card synced before vocab ids existed
+    UPDATE vocabulary_reviews
+    SET source_vocab_id = v_vocab_id
+    WHERE user_id = v_user_id
+      AND source_type = p_source_type
+      AND lower(term) = lower(v_term)
+      AND card_type = 'production'
+      AND source_vocab_id IS NULL;
+
+    SELECT term INTO v_card_term
+    FROM vocabulary_reviews
+    WHERE user_id = v_user_id
+      AND source_type = p_source_type
+      AND source_vocab_id = v_vocab_id
+      AND card_type = 'production'
+    LIMIT 1;
+
+    IF v_card_term IS NOT NULL THEN
+      -- Propagate edits to every card type of the term
+      UPDATE vocabulary_reviews
+      SET definition = v_definition,
+          category = v_item->>'category',
+          source_context = v_item->>'source_context',
+          examples = NULLIF(v_item->'examples', 'null'::jsonb),
+          imagery_etymology = v_item->>'imagery_etymology',
+          difficulty_level = v_item->>'difficulty_level',
+          tags = ARRAY(SELECT DISTINCT unnest(tags || v_tags))
+      WHERE user_id = v_user_id
+        AND source_type = p_source_type
+        AND term = v_card_term
+        AND (
+          (definition, category, source_context, examples, imagery_etymology, difficulty_level)
+            IS DISTINCT FROM
+            (v_definition, v_item->>'category', v_item->>'source_context', NULLIF(v_item->'examples', 'null'::jsonb),
+             v_item->>'imagery_etymology', v_item->>'difficulty_level')
+          OR NOT (tags @> v_tags)
+        );
+
+      GET DIAGNOSTICS v_row_count = ROW_COUNT;
+      IF v_row_count > 0 THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_skipped := v_skipped + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    -- Already learned from another analysis or chapter
+    IF EXISTS (
+      SELECT 1 FROM vocabulary_reviews
+      WHERE user_id = v_user_id AND source_type = p_source_type AND lower(term) = lower(v_term)
+    ) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO vocabulary_reviews (
+      user_id, term, definition, source_type, source_vocab_id, card_type,
+      next_review_date, created_at,
+      category, source_context, examples, imagery_etymology, difficulty_level, tags
+    ) VALUES (
+      v_user_id, v_term, v_definition, p_source_type, v_vocab_id, 'production',
+      COALESCE((v_item->>'created_at')::timestamptz, NOW()),
+      COALESCE((v_item->>'created_at')::timestamptz, NOW()),
+      v_item->>'category', v_item->>'source_context', NULLIF(v_item->'examples', 'null'::jsonb),
+      v_item->>'imagery_etymology', v_item->>'difficulty_level', v_tags
+    )
+    ON CONFLICT (user_id, term, source_type, card_type) DO NOTHING;
+
+    GET DIAGNOSTICS v_row_count = ROW_COUNT;
+    IF v_row_count > 0 THEN
+      v_inserted := v_inserted + 1;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', v_inserted, 'updated', v_updated, 'skipped', v_skipped);
+END;
+$$;
@@ -0,0 +1,33 @@
+-- Migration: Per-record versions for analyses and folders
+-- Run this in your Supabase SQL Editor
+
+-- Every change bumps updated_at. Devices remember the version they last synced
+-- and only write when the row is still at that version; otherwise they merge
+-- field by field and surface a conflict when both sides changed the same field.
+ALTER TABLE saved_analyses
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+ALTER TABLE analysis_folders
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW();
+
+-- Function to auto-update updated_at timestamp
+CREATE OR REPLACE FUNCTION update_record_updated_at()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.updated_at = NOW();
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers for updated_at
+DROP TRIGGER IF EXISTS saved_analyses_updated_at ON saved_analyses;
+CREATE TRIGGER saved_analyses_updated_at
+  BEFORE UPDATE ON saved_analyses
+  FOR EACH ROW
+  EXECUTE FUNCTION update_record_updated_at();
+
+DROP TRIGGER IF EXISTS analysis_folders_updated_at ON analysis_folders;
+CREATE TRIGGER analysis_folders_updated_at
+  BEFORE UPDATE ON analysis_folders
+  FOR EACH ROW
+  EXECUTE FUNCTION update_record_updated_at();
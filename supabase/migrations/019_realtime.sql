@@ -0,0 +1,19 @@
+-- Migration: Realtime updates for analyses, folders, review cards and books
+-- Run this in your Supabase SQL Editor
+
+-- Open tabs and other devices hear about changes as they happen.
+-- Row level security still applies, so users only receive their own rows.
+DO $$
+DECLARE
+  t TEXT;
+BEGIN
+  FOREACH t IN ARRAY ARRAY['saved_analyses', 'analysis_folders', 'vocabulary_reviews', 'saved_books']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1 FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = t
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', t);
+    END IF;
+  END LOOP;
+END $$;
@@ -0,0 +1,16 @@
+-- Migration: "imported" source type for cards brought in from Anki decks and CSV/TSV files
+-- Run this in your Supabase SQL Editor
+
+-- vocabulary_reviews.source_type is unconstrained; merge aliases only allowed the two original sources
+ALTER TABLE vocabulary_review_aliases
+DROP CONSTRAINT IF EXISTS vocabulary_review_aliases_source_type_check;
+
+ALTER TABLE vocabulary_review_aliases
+ADD CONSTRAINT vocabulary_review_aliases_source_type_check
+CHECK (source_type IN ('text_analysis', 'book_library', 'imported'));
+
+-- Imported cards start with the "definition -> term" card only (the app fills in
+-- missing source types from its defaults, so existing rows need no update)
+ALTER TABLE srs_settings
+ALTER COLUMN enabled_card_types
+SET DEFAULT '{"text_analysis": ["production"], "book_library": ["production"], "imported": ["production"]}'::jsonb;
@@ -0,0 +1,21 @@
+-- Migration: Count new cards against the daily limit when they are queued, not when answered
+-- Run this in your Supabase SQL Editor
+
+-- When a new card was first put in a study queue. Sessions in other tabs and on
+-- other devices count these, so they can't each pull a full day of new cards.
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS introduced_at TIMESTAMPTZ;
+
+-- Backfill from the first answer of cards already studied
+UPDATE vocabulary_reviews vr
+SET introduced_at = firsts.reviewed_at
+FROM (
+  SELECT review_id, MIN(reviewed_at) AS reviewed_at
+  FROM review_log
+  WHERE previous_card_state = 'new'
+  GROUP BY review_id
+) firsts
+WHERE vr.id = firsts.review_id AND vr.introduced_at IS NULL;
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_introduced
+ON vocabulary_reviews(user_id, introduced_at) WHERE introduced_at IS NOT NULL;
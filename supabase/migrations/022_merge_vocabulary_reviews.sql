@@ -0,0 +1,116 @@
+-- Migration: Merge duplicate review cards in one transaction
+-- Run this in your Supabase SQL Editor
+
+-- Merges p_other_ids into p_keeper_id: the merged content goes to every card
+-- type of the kept term, the merged schedule to the kept card. Answer history
+-- and aliases move over, the merged terms become aliases of the kept card and
+-- their cards (with sibling card types) are deleted. Returns the kept card.
+-- p_merged: { definition, category, source_context, examples, imagery_etymology,
+--             difficulty_level, tags, ease_factor, interval, repetitions,
+--             next_review_date, last_review_date, card_state, learning_step,
+--             stability, difficulty, is_suspended, is_mastered, is_leech,
+--             correct_count, incorrect_count, lapses }
+CREATE OR REPLACE FUNCTION merge_vocabulary_reviews(p_keeper_id UUID, p_other_ids UUID[], p_merged JSONB)
+RETURNS vocabulary_reviews
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_keeper vocabulary_reviews;
+  v_other RECORD;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  SELECT * INTO v_keeper
+  FROM vocabulary_reviews
+  WHERE id = p_keeper_id AND user_id = v_user_id;
+
+  IF v_keeper.id IS NULL THEN
+    RAISE EXCEPTION 'Card not found: %', p_keeper_id;
+  END IF;
+
+  -- Content is shared by every card type of the term
+  UPDATE vocabulary_reviews
+  SET definition = p_merged->>'definition',
+      category = p_merged->>'category',
+      source_context = p_merged->>'source_context',
+      examples = NULLIF(p_merged->'examples', 'null'::jsonb),
+      imagery_etymology = p_merged->>'imagery_etymology',
+      difficulty_level = p_merged->>'difficulty_level',
+      tags = ARRAY(SELECT jsonb_array_elements_text(COALESCE(NULLIF(p_merged->'tags', 'null'::jsonb), '[]'::jsonb)))
+  WHERE user_id = v_user_id
+    AND term = v_keeper.term
+    AND source_type IS NOT DISTINCT FROM v_keeper.source_type;
+
+  UPDATE vocabulary_reviews
+  SET ease_factor = (p_merged->>'ease_factor')::real,
+      interval = (p_merged->>'interval')::integer,
+      repetitions = (p_merged->>'repetitions')::integer,
+      next_review_date = (p_merged->>'next_review_date')::timestamptz,
+      last_review_date = (p_merged->>'last_review_date')::timestamptz,
+      card_state = COALESCE(p_merged->>'card_state', 'new'),
+      learning_step = (p_merged->>'learning_step')::integer,
+      stability = (p_merged->>'stability')::real,
+      difficulty = (p_merged->>'difficulty')::real,
+      is_suspended = (p_merged->>'is_suspended')::boolean,
+      is_mastered = (p_merged->>'is_mastered')::boolean,
+      is_leech = COALESCE((p_merged->>'is_leech')::boolean, FALSE),
+      correct_count = (p_merged->>'correct_count')::integer,
+      incorrect_count = (p_merged->>'incorrect_count')::integer,
+      lapses = COALESCE((p_merged->>'lapses')::integer, 0)
+  WHERE id = p_keeper_id
+  RETURNING * INTO v_keeper;
+
+  FOR v_other IN
+    SELECT id, term, source_type
+    FROM vocabulary_reviews
+    WHERE user_id = v_user_id AND id = ANY(p_other_ids) AND id <> p_keeper_id
+  LOOP
+    -- Keep the answer history and earlier aliases of every card type of the
+    -- merged term: each goes to the kept term's card of the same type, or to
+    -- the kept card when the kept term has no such card
+    UPDATE review_log rl
+    SET review_id = COALESCE((
+      SELECT k.id FROM vocabulary_reviews k
+      WHERE k.user_id = v_user_id
+        AND k.term = v_keeper.term
+        AND k.source_type IS NOT DISTINCT FROM v_keeper.source_type
+        AND k.card_type = d.card_type
+      LIMIT 1
+    ), p_keeper_id)
+    FROM vocabulary_reviews d
+    WHERE rl.user_id = v_user_id
+      AND rl.review_id = d.id
+      AND d.user_id = v_user_id
+      AND d.term = v_other.term
+      AND d.source_type IS NOT DISTINCT FROM v_other.source_type
+      AND d.id <> p_keeper_id;
+
+    UPDATE vocabulary_review_aliases a
+    SET review_id = p_keeper_id
+    FROM vocabulary_reviews d
+    WHERE a.user_id = v_user_id
+      AND a.review_id = d.id
+      AND d.user_id = v_user_id
+      AND d.term = v_other.term
+      AND d.source_type IS NOT DISTINCT FROM v_other.source_type
+      AND d.id <> p_keeper_id;
+
+    INSERT INTO vocabulary_review_aliases (user_id, term, source_type, review_id)
+    VALUES (v_user_id, lower(v_other.term), COALESCE(v_other.source_type, 'text_analysis'), p_keeper_id)
+    ON CONFLICT (user_id, term, source_type) DO UPDATE SET review_id = EXCLUDED.review_id;
+
+    DELETE FROM vocabulary_reviews
+    WHERE user_id = v_user_id
+      AND term = v_other.term
+      AND source_type IS NOT DISTINCT FROM v_other.source_type
+      AND id <> p_keeper_id;
+  END LOOP;
+
+  RETURN v_keeper;
+END;
+$$;
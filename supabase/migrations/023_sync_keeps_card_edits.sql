@@ -0,0 +1,161 @@
+-- Migration: Vocabulary sync only copies source changes, keeping edits made to cards
+-- Run this in your Supabase SQL Editor
+
+-- Source values each card was last synced from:
+-- { definition, category, source_context, examples, imagery_etymology, difficulty_level }
+-- A field is copied to the card only when the source value moved away from this
+-- and the card still holds it, so edits made to the card itself (bulk edits,
+-- leech remediation, merged examples) survive later syncs.
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS synced_source JSONB;
+
+-- The value a synced field should have: the new source value if the source
+-- changed and the card wasn't edited since the last sync, otherwise the card's own.
+-- JSON null stands for an empty field, so SQL NULL only means "never synced".
+CREATE OR REPLACE FUNCTION synced_field_value(p_card JSONB, p_synced JSONB, p_source JSONB)
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_synced IS NOT NULL AND p_source IS DISTINCT FROM p_synced AND p_card IS NOT DISTINCT FROM p_synced
+      THEN p_source
+    ELSE p_card
+  END
+$$;
+
+CREATE OR REPLACE FUNCTION sync_vocabulary_reviews(p_source_type TEXT, p_items JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY INVOKER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := auth.uid();
+  v_item JSONB;
+  v_vocab_id TEXT;
+  v_term TEXT;
+  v_definition TEXT;
+  v_tags TEXT[];
+  v_source JSONB;
+  v_card_term TEXT;
+  v_row_count INTEGER;
+  v_inserted INTEGER := 0;
+  v_updated INTEGER := 0;
+  v_skipped INTEGER := 0;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+  IF p_source_type NOT IN ('text_analysis', 'book_library') THEN
+    RAISE EXCEPTION 'Unknown source type: %', p_source_type;
+  END IF;
+
+  FOR v_item IN SELECT value FROM jsonb_array_elements(COALESCE(p_items, '[]'::jsonb)) LOOP
+    v_vocab_id := v_item->>'vocab_id';
+    v_term := btrim(COALESCE(v_item->>'term', ''));
+    v_definition := COALESCE(v_item->>'definition', '');
+    v_tags := ARRAY(
+      SELECT jsonb_array_elements_text(COALESCE(NULLIF(v_item->'tags', 'null'::jsonb), '[]'::jsonb))
+    );
+
+    IF v_vocab_id IS NULL OR v_term = '' OR v_definition = '' THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    v_source := jsonb_build_object(
+      'definition', v_definition,
+      'category', v_item->>'category',
+      'source_context', v_item->>'source_context',
+      'examples', COALESCE(v_item->'examples', 'null'::jsonb),
+      'imagery_etymology', v_item->>'imagery_etymology',
+      'difficulty_level', v_item->>'difficulty_level'
+    );
+
+    -- Merged into another card: that card already covers it
+    IF EXISTS (
+      SELECT 1 FROM vocabulary_review_aliases
+      WHERE user_id = v_user_id AND source_type = p_source_type AND term = lower(v_term)
+    ) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    -- Adopt a card synced before vocab ids existed
+    UPDATE vocabulary_reviews
+    SET source_vocab_id = v_vocab_id
+    WHERE user_id = v_user_id
+      AND source_type = p_source_type
+      AND lower(term) = lower(v_term)
+      AND card_type = 'production'
+      AND source_vocab_id IS NULL;
+
+    SELECT term INTO v_card_term
+    FROM vocabulary_reviews
+    WHERE user_id = v_user_id
+      AND source_type = p_source_type
+      AND source_vocab_id = v_vocab_id
+      AND card_type = 'production'
+    LIMIT 1;
+
+    IF v_card_term IS NOT NULL THEN
+      -- Propagate source changes to every card type of the term. Cards synced
+      -- before synced_source existed only record it: whether they were edited
+      -- since can't be known, so their content is left alone.
+      UPDATE vocabulary_reviews
+      SET definition = synced_field_value(to_jsonb(definition), synced_source->'definition', v_source->'definition') #>> '{}',
+          category = synced_field_value(COALESCE(to_jsonb(category), 'null'::jsonb), synced_source->'category', v_source->'category') #>> '{}',
+          source_context = synced_field_value(COALESCE(to_jsonb(source_context), 'null'::jsonb), synced_source->'source_context', v_source->'source_context') #>> '{}',
+          examples = NULLIF(synced_field_value(COALESCE(examples, 'null'::jsonb), synced_source->'examples', v_source->'examples'), 'null'::jsonb),
+          imagery_etymology = synced_field_value(COALESCE(to_jsonb(imagery_etymology), 'null'::jsonb), synced_source->'imagery_etymology', v_source->'imagery_etymology') #>> '{}',
+          difficulty_level = synced_field_value(COALESCE(to_jsonb(difficulty_level), 'null'::jsonb), synced_source->'difficulty_level', v_source->'difficulty_level') #>> '{}',
+          tags = ARRAY(SELECT DISTINCT unnest(tags || v_tags)),
+          synced_source = v_source
+      WHERE user_id = v_user_id
+        AND source_type = p_source_type
+        AND term = v_card_term
+        AND (synced_source IS DISTINCT FROM v_source OR NOT (tags @> v_tags));
+
+      GET DIAGNOSTICS v_row_count = ROW_COUNT;
+      IF v_row_count > 0 THEN
+        v_updated := v_updated + 1;
+      ELSE
+        v_skipped := v_skipped + 1;
+      END IF;
+      CONTINUE;
+    END IF;
+
+    -- Already learned from another analysis or chapter
+    IF EXISTS (
+      SELECT 1 FROM vocabulary_reviews
+      WHERE user_id = v_user_id AND source_type = p_source_type AND lower(term) = lower(v_term)
+    ) THEN
+      v_skipped := v_skipped + 1;
+      CONTINUE;
+    END IF;
+
+    INSERT INTO vocabulary_reviews (
+      user_id, term, definition, source_type, source_vocab_id, card_type,
+      next_review_date, created_at,
+      category, source_context, examples, imagery_etymology, difficulty_level, tags, synced_source
+    ) VALUES (
+      v_user_id, v_term, v_definition, p_source_type, v_vocab_id, 'production',
+      COALESCE((v_item->>'created_at')::timestamptz, NOW()),
+      COALESCE((v_item->>'created_at')::timestamptz, NOW()),
+      v_item->>'category', v_item->>'source_context', NULLIF(v_item->'examples', 'null'::jsonb),
+      v_item->>'imagery_etymology', v_item->>'difficulty_level', v_tags, v_source
+    )
+    ON CONFLICT (user_id, term, source_type, card_type) DO NOTHING;
+
+    GET DIAGNOSTICS v_row_count = ROW_COUNT;
+    IF v_row_count > 0 THEN
+      v_inserted := v_inserted + 1;
+    ELSE
+      v_skipped := v_skipped + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('inserted', v_inserted, 'updated', v_updated, 'skipped', v_skipped);
+END;
+$$;
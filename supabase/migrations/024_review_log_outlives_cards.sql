@@ -0,0 +1,45 @@
+-- Migration: Keep the answer history of deleted cards
+-- Run this in your Supabase SQL Editor
+
+-- Deleting a card used to delete its review log with it (ON DELETE CASCADE),
+-- wiping the history that stats and the retention charts are built from.
+-- Log entries now keep the id of the card they were answered on, even after
+-- it is gone, together with its term and card type.
+ALTER TABLE review_log
+DROP CONSTRAINT IF EXISTS review_log_review_id_fkey;
+
+ALTER TABLE review_log
+ADD COLUMN IF NOT EXISTS term TEXT,
+ADD COLUMN IF NOT EXISTS card_type TEXT;
+
+UPDATE review_log rl
+SET term = vr.term,
+    card_type = COALESCE(vr.card_type, 'production')
+FROM vocabulary_reviews vr
+WHERE vr.id = rl.review_id AND rl.term IS NULL;
+
+-- Fill in the card's term and type when an entry is logged or moved to another
+-- card (merged duplicates). Entries whose card is already gone keep their own.
+CREATE OR REPLACE FUNCTION set_review_log_card()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_term TEXT;
+  v_card_type TEXT;
+BEGIN
+  SELECT term, COALESCE(card_type, 'production') INTO v_term, v_card_type
+  FROM vocabulary_reviews
+  WHERE id = NEW.review_id;
+
+  IF FOUND THEN
+    NEW.term := v_term;
+    NEW.card_type := v_card_type;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS review_log_card ON review_log;
+CREATE TRIGGER review_log_card
+  BEFORE INSERT OR UPDATE OF review_id ON review_log
+  FOR EACH ROW
+  EXECUTE FUNCTION set_review_log_card();
@@ -0,0 +1,11 @@
+-- Migration: Count reviews against the daily limit when they are queued, not when answered
+-- Run this in your Supabase SQL Editor
+
+-- When a review card was last put in a study queue. Like introduced_at for new
+-- cards, sessions in other tabs and on other devices count these, so they can't
+-- each pull a full day of reviews.
+ALTER TABLE vocabulary_reviews
+ADD COLUMN IF NOT EXISTS review_queued_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_vocabulary_reviews_review_queued
+ON vocabulary_reviews(user_id, review_queued_at) WHERE review_queued_at IS NOT NULL;
@@ -49,15 +49,18 @@ export interface DetailedExample {
 }
 
 export interface VocabularyItem {
+  id?: string; // set when the item is created and kept through edits; links the item to its review card
   term: string;
   definition: string;
   category: VocabularyCategory;
   source_context?: string; // How it was used in the original text
+  source_timestamp_ms?: number; // Subtitle transcripts: when the context was said, in ms from the start
   imagery_etymology?: string; // The "bee" explanation for "drone", or "bird" for "swoop"
   examples: DetailedExample[];
   nuance?: string; // Kept for backward compatibility/fallback
   example_usage?: string; // Kept for backward compatibility
   difficulty_level?: string; // e.g., "IELTS 6-7", "TOEFL 80+", "CET-4 550+"
+  tags?: string[]; // free-form, "::" between levels, e.g. "work::meetings" (see services/tags.ts)
 }
 
 export interface StructurePoint {
@@ -115,6 +118,28 @@ export interface AnalysisFolder {
   color?: string;
 }
 
+// Fields merged one by one when two devices changed the same analysis or folder
+export type AnalysisMergeField = 'title' | 'notes' | 'folderId' | 'flashcardPassed';
+export type FolderMergeField = 'name' | 'color';
+
+// A field changed on this device and on another one since they last synced.
+// This device keeps its value until the user picks one.
+export type SyncConflict =
+  | { kind: 'analysis'; recordId: string; recordName: string; field: AnalysisMergeField; localValue: unknown; remoteValue: unknown }
+  | { kind: 'folder'; recordId: string; recordName: string; field: FolderMergeField; localValue: unknown; remoteValue: unknown };
+
+// Result of merging this device's analyses or folders with the cloud copy
+export interface RecordSyncResult<T> {
+  records: T[];
+  conflicts: SyncConflict[];
+}
+
+// A change made in another tab or on another device, pushed by Supabase realtime
+export type RealtimeChange =
+  | { table: 'saved_analyses' | 'analysis_folders' }  // picked up by merging again (see dataService.syncAnalyses)
+  | { table: 'vocabulary_reviews'; id: string; review: VocabularyReview | null }  // null when deleted
+  | { table: 'saved_books'; id: string; book: SavedBook | null };
+
 // For tracking known/unknown words in Full Text View
 export interface KnownWord {
   term: string;
@@ -137,30 +162,139 @@ export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
 // Simplified quality for UI (maps to SM-2 qualities)
 export type SimpleQuality = 'again' | 'hard' | 'good' | 'easy';
 
+// How closely a typed answer matched the term (see services/answerChecker.ts)
+// exact: same words; inflection: another form ("ran into" for "run into");
+// typo: misspelt but accepted; wrong: not accepted
+export type AnswerGrade = 'exact' | 'inflection' | 'typo' | 'wrong';
+
+// Which scheduling model drives a user's reviews
+// sm2: classic SuperMemo-2 (ease factor + interval)
+// fsrs: Free Spaced Repetition Scheduler (stability + difficulty + retrievability)
+export type SchedulerType = 'sm2' | 'fsrs';
+
+// Which vocabulary source a review card was synced from
+// imported: brought in from an Anki deck or a spreadsheet (services/deckImport.ts)
+export type ReviewSourceType = 'text_analysis' | 'book_library' | 'imported';
+
+// Card templates generated from one vocabulary term, each scheduled separately
+// production: show definition, type the term (the original card)
+// recognition: show the term, recall the definition
+// context_cloze: fill the term into the sentence it came from (sourceContext)
+// listening: hear the term spoken, type what you heard
+// example_cloze: fill the term into one of its example sentences
+export type CardType = 'production' | 'recognition' | 'context_cloze' | 'listening' | 'example_cloze';
+
+export const CARD_TYPE_LABELS: Record<CardType, string> = {
+  production: 'Definition → Term',
+  recognition: 'Term → Definition',
+  context_cloze: 'Source Sentence Cloze',
+  listening: 'Listening',
+  example_cloze: 'Example Sentence Cloze',
+};
+
+// Where a card is in its lifecycle
+// new: never answered
+// learning: inside the intra-day learning steps after first seen
+// review: graduated, scheduled in days by the scheduler
+// relearning: lapsed review card going through relearning steps
+export type CardState = 'new' | 'learning' | 'review' | 'relearning';
+
+// How answers are rated after the reveal
+// manual: the learner always picks again/hard/good/easy
+// auto: the suggested rating (answer grade + response time) is applied automatically
+export type GradingMode = 'manual' | 'auto';
+
+// What happens when a card's lapses reach the leech threshold
+// tag: mark it as a leech and keep reviewing; suspend: also stop showing it
+export type LeechAction = 'tag' | 'suspend';
+
+// Per-user spaced repetition settings (stored in srs_settings table)
+export interface SrsSettings {
+  scheduler: SchedulerType;
+  learningSteps: number[];    // minutes, e.g. [1, 10]
+  relearningSteps: number[];  // minutes, e.g. [10]
+  newCardsPerDay: number;     // max new cards introduced per day (all sessions)
+  reviewsPerDay: number;      // max review cards answered per day (all sessions)
+  enabledCardTypes: Record<ReviewSourceType, CardType[]>;
+  gradingMode: GradingMode;
+  leechThreshold: number;     // lapses (forgotten after graduating) before a card is a leech
+  leechAction: LeechAction;
+  autoAddVocabulary: boolean; // create/update cards when analyses or chapter vocabulary are saved
+  autoAddExcludedCategories: VocabularyCategory[]; // never auto-added
+}
+
+export const DEFAULT_SRS_SETTINGS: SrsSettings = {
+  scheduler: 'sm2',
+  learningSteps: [1, 10],
+  relearningSteps: [10],
+  newCardsPerDay: 20,
+  reviewsPerDay: 200,
+  enabledCardTypes: {
+    text_analysis: ['production'],
+    book_library: ['production'],
+    imported: ['production'],
+  },
+  gradingMode: 'manual',
+  leechThreshold: 8,
+  leechAction: 'tag',
+  autoAddVocabulary: true,
+  autoAddExcludedCategories: [],
+};
+
 export interface VocabularyReview {
   id: string;
   term: string;
   definition: string;
   sourceAnalysisId?: string;
+  sourceType?: ReviewSourceType;
+  cardType?: CardType;     // defaults to 'production'
   // SM-2 algorithm parameters
   easeFactor: number;      // >= 1.3, starts at 2.5
   interval: number;        // days until next review
   repetitions: number;     // successful reviews in a row
   nextReviewDate: Date;
   lastReviewDate?: Date;
+  // Learning steps
+  cardState?: CardState;
+  learningStep?: number;   // index into (re)learning steps while learning/relearning
+  // FSRS model state (unset until the card is scheduled by FSRS)
+  stability?: number;      // days for recall probability to drop to 90%
+  difficulty?: number;     // 1 (easy) - 10 (hard)
   // User actions
   isSuspended: boolean;    // "don't show again"
   isMastered: boolean;     // achieved mastery (e.g., interval > 21 days)
+  isLeech?: boolean;       // lapsed too often (see SrsSettings.leechThreshold)
   // Statistics
   correctCount: number;
   incorrectCount: number;
+  lapses?: number;         // times forgotten after graduating to review
   createdAt: Date;
+  introducedAt?: Date;     // first put in a study queue while new (counts toward newCardsPerDay that day)
+  reviewQueuedAt?: Date;   // last put in a study queue as a review (counts toward reviewsPerDay that day)
   // Vocabulary metadata (for display)
   category?: VocabularyCategory;
   sourceContext?: string;
   examples?: DetailedExample[];
   imageryEtymology?: string;
   difficultyLevel?: string;
+  tags?: string[];
+}
+
+// One answer to a flashcard (stored in review_log table)
+export interface ReviewLogEntry {
+  id: string;
+  reviewId: string;         // vocabulary_reviews.id of the card answered
+  reviewedAt: Date;
+  quality: SimpleQuality;
+  previousCardState?: CardState; // Card state before this answer
+  typedAnswer?: string;     // What the user typed (empty when skipped)
+  answerGrade?: AnswerGrade; // How the typed answer was graded (typed cards only)
+  timeTakenMs?: number;     // Time from card shown to answer submitted
+  responseLatencyMs?: number; // Time from card shown to first keystroke (or reveal)
+  previousInterval: number;
+  newInterval: number;
+  previousEaseFactor: number;
+  newEaseFactor: number;
 }
 
 export interface ReviewStats {
@@ -173,6 +307,27 @@ export interface ReviewStats {
   masteryPercentage: number; // (mastered / total) * 100
 }
 
+// Today's usage against the per-day caps (counted from review_log)
+export interface DailyReviewProgress {
+  newCardsStudied: number;
+  reviewsDone: number;
+  newCardsRemaining: number;
+  reviewsRemaining: number;
+}
+
+// Number of cards coming due on a given day (for the review forecast)
+export interface DueForecastDay {
+  date: string;   // YYYY-MM-DD (local)
+  count: number;
+}
+
+// Outcome of syncing vocabulary into the review system
+export interface VocabSyncResult {
+  inserted: number;  // new cards created
+  updated: number;   // cards whose content changed in the source
+  skipped: number;   // already up to date, learned elsewhere or merged
+}
+
 export interface ReviewSessionConfig {
   totalCards: number;       // How many cards to review
   newCardsLimit: number;    // Max new cards to include
@@ -188,6 +343,59 @@ export interface ReviewSessionResult {
   averageQuality: number;
 }
 
+// ==================== CARD BROWSER ====================
+
+export type CardDueFilter = 'new' | 'learning' | 'due' | 'not_due';
+
+export interface CardBrowserFilters {
+  search?: string;            // matches term or definition
+  sourceType?: ReviewSourceType;
+  category?: VocabularyCategory;
+  difficultyLevel?: string;
+  due?: CardDueFilter;
+  suspended?: boolean;
+  mastered?: boolean;
+  leech?: boolean;
+  tag?: string;               // matches the tag and everything below it
+}
+
+export type CardSortField = 'term' | 'ease_factor' | 'interval' | 'lapses' | 'next_review_date' | 'created_at';
+
+export interface CardSort {
+  field: CardSortField;
+  ascending: boolean;
+}
+
+// Editable card content (scheduling is changed through the dedicated bulk actions)
+export type CardFieldUpdates = Partial<Pick<VocabularyReview,
+  'term' | 'definition' | 'category' | 'sourceContext' | 'difficultyLevel' | 'imageryEtymology' | 'tags'>>;
+
+// ==================== CUSTOM STUDY ====================
+
+// Which cards a custom study session draws from (every set criterion must match)
+export interface StudyFilter {
+  sourceType?: ReviewSourceType;
+  folderId?: string;          // words from the analyses in this folder
+  analysisId?: string;        // words from one saved analysis
+  bookId?: string;            // with chapterId: words from a chapter and its sub-chapters
+  chapterId?: string;
+  category?: VocabularyCategory;
+  difficultyLevel?: string;
+  failedToday?: boolean;      // only cards answered "again" today
+  tag?: string;               // matches the tag and everything below it
+}
+
+// A saved custom study selection (stored in filtered_decks table)
+export interface FilteredDeck {
+  id: string;
+  name: string;
+  filter: StudyFilter;
+  cram: boolean;       // review every matching card without changing its schedule
+  cardLimit: number;
+  createdAt: number;
+  lastStudiedAt?: number;
+}
+
 // ==================== EBOOK LIBRARY ====================
 
 // Hierarchical chapter structure for books
@@ -226,3 +434,109 @@ export interface SavedBook {
   createdAt: number;
   lastOpenedAt?: number;
 }
+
+// ==================== BACKUP ====================
+
+// Vocabulary extracted from one book chapter
+export interface ChapterVocabularyBackup {
+  bookId: string;
+  chapterId: string;
+  vocabulary: VocabularyItem[];
+}
+
+// Everything in an account (see services/backup.ts)
+export interface BackupData {
+  analyses: SavedAnalysis[];
+  folders: AnalysisFolder[];
+  reviews: VocabularyReview[];   // with scheduling state
+  books: SavedBook[];
+  chapterVocabulary: ChapterVocabularyBackup[];
+  knownWords: Record<string, KnownWord>;
+  proficiency: UserProficiency | null;
+}
+
+// The backup file
+export interface AccountBackup {
+  appName: string;
+  version: number;     // BACKUP_VERSION when written; older files are migrated on import
+  exportDate: string;
+  data: BackupData;
+}
+
+// What to do with an imported record that is already in the account
+// skip: keep the existing one; overwrite: replace it; keep_both: import a copy
+export type DuplicateMode = 'skip' | 'overwrite' | 'keep_both';
+
+// Records of one kind an import will write
+export interface BackupSectionPlan<T> {
+  add: T[];
+  overwrite: T[];
+  total: number;       // records of this kind in the file
+  duplicates: number;  // of those, already in the account
+}
+
+// What an import will do, worked out before anything is written (for the preview)
+export interface BackupImportPlan {
+  analyses: BackupSectionPlan<SavedAnalysis>;
+  folders: BackupSectionPlan<AnalysisFolder>;
+  reviews: BackupSectionPlan<VocabularyReview>;
+  books: BackupSectionPlan<SavedBook>;
+  chapterVocabulary: BackupSectionPlan<ChapterVocabularyBackup>;
+  knownWords: BackupSectionPlan<KnownWord>;
+  proficiency: UserProficiency | null;  // to apply; null keeps the current one
+}
+
+// ==================== DECK EXPORT ====================
+
+// Which cards to export (every card when nothing is set)
+export type DeckExportScope = Pick<StudyFilter, 'sourceType' | 'folderId' | 'bookId'>;
+
+// apkg: Anki package; tsv: tab-separated text (Anki, spreadsheets)
+export type DeckExportFormat = 'apkg' | 'tsv';
+
+export interface DeckExportOptions {
+  format: DeckExportFormat;
+  deckName: string;            // Anki deck the notes go into ("::" nests decks)
+  includeScheduling: boolean;  // carry over SM-2 state; otherwise every card starts as new
+}
+
+// ==================== DECK IMPORT ====================
+
+// What a column or Anki field holds
+export type ImportFieldTarget = 'term' | 'definition' | 'example' | 'imagery' | 'sourceContext' | 'tags' | 'ignore';
+
+// Scheduling state read from an Anki card or spreadsheet columns
+export interface ImportedSchedule {
+  cardState: CardState;
+  dueDate: Date;
+  interval: number;        // days
+  easeFactor: number;
+  reviews: number;
+  lapses: number;
+  isSuspended: boolean;
+  history: Omit<ReviewLogEntry, 'id' | 'reviewId'>[];  // Anki's review log for the card, oldest first
+}
+
+// One Anki note or spreadsheet row, before its fields are mapped
+export interface ImportedNote {
+  values: Record<string, string>;  // plain text, by field name
+  tags: string[];
+  schedule?: ImportedSchedule;
+}
+
+// A parsed import file
+export interface DeckImportSource {
+  format: 'apkg' | 'csv';
+  fields: string[];                // Anki field names or column headings, in order
+  notes: ImportedNote[];
+  hasScheduling: boolean;
+}
+
+// What an import will write, worked out before anything is written (for the preview)
+export interface DeckImportPlan {
+  reviews: VocabularyReview[];
+  history: Omit<ReviewLogEntry, 'id'>[];
+  existing: number;    // terms already among the review cards
+  repeated: number;    // further copies of a term within the file
+  incomplete: number;  // no term or no definition after mapping
+}